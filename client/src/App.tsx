@@ -5,6 +5,7 @@ import AuthPage from "@/pages/auth-page";
 import HomePage from "@/pages/home-page";
 import ExchangeConnectPage from "@/pages/exchange-connect-page";
 import ConnectedDashboardPage from "@/pages/connected-dashboard-page";
+import PortfolioPage from "@/pages/portfolio-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
@@ -16,6 +17,7 @@ function Router() {
       <ProtectedRoute path="/" exact component={HomePage} />
       <ProtectedRoute path="/connect" component={ExchangeConnectPage} />
       <ProtectedRoute path="/dashboard/:id" component={ConnectedDashboardPage} />
+      <ProtectedRoute path="/portfolio" component={PortfolioPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { NATIVE_CURRENCY, type FxCurrencies } from "@shared/fx";
+
+interface BaseCurrencySelectProps {
+  value: string;
+  onChange: (currency: string) => void;
+  className?: string;
+}
+
+// Picks the currency figures are converted into, from the currencies the
+// server's FX rates cover. "Own currency" shows each connection as reported.
+export default function BaseCurrencySelect({ value, onChange, className }: BaseCurrencySelectProps) {
+  const { data } = useQuery<FxCurrencies>({ queryKey: ["/api/fx/currencies"] });
+  const currencies = data?.currencies ?? [];
+  // Keep a remembered choice selectable even if the rates no longer cover it
+  const options = value === NATIVE_CURRENCY || currencies.includes(value) ? currencies : [value, ...currencies];
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger
+        className={cn("w-40", className)}
+        title={data?.latestDate ? `Rates from ${data.provider}, latest ${data.latestDate}` : undefined}
+      >
+        <SelectValue placeholder="Currency" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NATIVE_CURRENCY}>Own currency</SelectItem>
+        {options.map((currency) => (
+          <SelectItem key={currency} value={currency}>In {currency}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
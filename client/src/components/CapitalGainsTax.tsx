@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, Download, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { defaultDateRange } from "@shared/dates";
+import { multiplyDecimal, type Decimal } from "@shared/decimal";
+import { taxYearOf, type TaxProfileList, type TaxReport } from "@shared/tax";
+
+const YEARS_SHOWN = 5;
+
+function formatAmount(value: Decimal | null, currency?: string | null): string {
+  if (value === null) return "-";
+  const amount = Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return currency ? `${amount} ${currency}` : amount;
+}
+
+const formatRate = (rate: Decimal | null) => (rate === null ? "-" : `${multiplyDecimal(rate, "100")}%`);
+
+interface CapitalGainsTaxProps {
+  connectionId: string | number;
+}
+
+// Yearly capital gains by holding-period bucket under a tax-rule profile,
+// with the line items as CSV and a printable version from the same endpoint.
+export default function CapitalGainsTax({ connectionId }: CapitalGainsTaxProps) {
+  const { data: profileList } = useQuery<TaxProfileList>({ queryKey: ["/api/tax/profiles"] });
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const profile = profileList?.profiles.find(p => p.id === (profileId ?? profileList.defaultProfileId));
+  const currentYear = profile ? taxYearOf(defaultDateRange(1).to, profile.fiscalYearStartMonth) : null;
+  const [year, setYear] = useState<number | null>(null);
+  const taxYear = year ?? currentYear;
+
+  const params = new URLSearchParams({ profile: profile?.id ?? "", year: String(taxYear ?? "") });
+  const reportUrl = `/api/connections/${connectionId}/tax-report?${params}`;
+
+  const { data: report, isLoading, isFetching, error } = useQuery<TaxReport, Error>({
+    queryKey: [`/api/connections/${connectionId}/tax-report`, profile?.id, taxYear],
+    queryFn: async () => {
+      const res = await apiRequest("GET", reportUrl);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ message: "Failed to parse tax report error response" }));
+        throw new Error(errorData.message || `HTTP error! status: ${res.status}`);
+      }
+      return await res.json();
+    },
+    enabled: !!profile && taxYear !== null,
+    refetchOnWindowFocus: false,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const currency = report?.currency;
+  const notices = report ? [...Object.values(report.errors), ...report.warnings] : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={profile?.id ?? ""} onValueChange={setProfileId} disabled={!profileList}>
+          <SelectTrigger className="w-72"><SelectValue placeholder="Tax profile" /></SelectTrigger>
+          <SelectContent>
+            {profileList?.profiles.map((p) => (
+              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={taxYear !== null ? String(taxYear) : ""} onValueChange={(value) => setYear(Number(value))} disabled={currentYear === null}>
+          <SelectTrigger className="w-36"><SelectValue placeholder="Tax year" /></SelectTrigger>
+          <SelectContent>
+            {currentYear !== null && Array.from({ length: YEARS_SHOWN }, (_, i) => currentYear - i).map((y) => (
+              <SelectItem key={y} value={String(y)}>Tax year {y}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {report && !isFetching && (
+          <div className="ml-auto flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={`${reportUrl}&format=csv`} download><Download className="h-4 w-4 mr-2" />CSV</a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`${reportUrl}&format=html`} target="_blank" rel="noreferrer"><Printer className="h-4 w-4 mr-2" />Printable</a>
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading || !profileList ? (
+        <Skeleton className="h-40 w-full" />
+      ) : error ? (
+        <p className="p-4 text-sm text-red-600">Could not build the tax report. {error.message}</p>
+      ) : report ? (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {report.period.from} to {report.period.to}, lots matched {report.profile.lotMethod === "average" ? "at average cost" : report.profile.lotMethod === "specific" ? "by picked lots" : "oldest first"}.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">Capital gain</p>
+              <p className={`text-xl font-semibold ${Number(report.totals.gain) < 0 ? "text-red-600" : ""}`}>
+                {formatAmount(report.totals.gain, currency)}
+              </p>
+              <p className="text-xs text-muted-foreground">Taxable {formatAmount(report.totals.taxableGain, currency)}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">Capital gains tax</p>
+              <p className="text-xl font-semibold">{formatAmount(report.totals.tax, currency)}</p>
+              <p className="text-xs text-muted-foreground">At the profile's rates, before any carried-forward losses</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">Dividends received</p>
+              <p className="text-xl font-semibold">{formatAmount(report.dividends.received, currency)}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatAmount(report.dividends.withheld, currency)} withheld at {formatRate(report.profile.dividendWithholdingRate)}
+              </p>
+            </div>
+          </div>
+
+          {notices.length > 0 && (
+            <div className="rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+              {notices.map((notice, i) => (
+                <p key={i}><AlertTriangle className="inline h-3 w-3 mr-1" />{notice}</p>
+              ))}
+            </div>
+          )}
+
+          {report.buckets.length === 0 ? (
+            <p className="p-4 text-sm text-neutral-500">No sales in tax year {report.taxYear}.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Holding period</TableHead>
+                  <TableHead className="text-right">Sales</TableHead>
+                  <TableHead className="text-right">Proceeds</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Gain</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Tax</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.buckets.map((bucket) => (
+                  <TableRow key={bucket.label}>
+                    <TableCell className="font-medium">{bucket.label}</TableCell>
+                    <TableCell className="text-right">{bucket.sales}</TableCell>
+                    <TableCell className="text-right">{formatAmount(bucket.proceeds)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(bucket.cost)}</TableCell>
+                    <TableCell className={`text-right ${Number(bucket.gain) < 0 ? "text-red-600" : ""}`}>{formatAmount(bucket.gain)}</TableCell>
+                    <TableCell className="text-right">{formatRate(bucket.rate)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(bucket.tax)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {report.profile.description && <p className="text-xs text-muted-foreground">{report.profile.description}</p>}
+        </>
+      ) : null}
+    </div>
+  );
+}
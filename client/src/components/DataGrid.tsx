@@ -0,0 +1,230 @@
+import { useMemo, useState, type ReactNode } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Columns3, ListFilter, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useHiddenColumns } from "@/hooks/use-hidden-columns";
+import { compareCells, detectColumnType, matchesFilter, type ColumnType, type SortDirection } from "@/lib/grid";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZES = [25, 50, 100, 250];
+
+const FILTER_PLACEHOLDERS: Record<ColumnType, string> = {
+  number: ">100, 10..20",
+  date: "2025-03, >=2025-01-01",
+  text: "Contains",
+};
+
+interface DataGridProps {
+  gridId: string; // Key for the remembered column choice
+  headers: string[];
+  rows: (string | null)[][];
+  defaultVisibleColumns?: string[]; // Columns shown until the user picks their own; all when absent
+  maxHeight?: string;
+  toolbar?: (visibleColumns: string[]) => ReactNode; // Extra controls, given the columns on screen
+}
+
+// Grid for broker tables: sorting that understands number and date cells,
+// per-column filters, a search over the visible columns, column show/hide
+// remembered per user, and pagination so long logs stay usable.
+export default function DataGrid({ gridId, headers, rows, defaultVisibleColumns, maxHeight = "500px", toolbar }: DataGridProps) {
+  const defaultHidden = useMemo(
+    () => (defaultVisibleColumns?.length ? headers.filter((header) => !defaultVisibleColumns.includes(header)) : []),
+    [headers, defaultVisibleColumns],
+  );
+  const { hiddenColumns, setHiddenColumns, resetHiddenColumns } = useHiddenColumns(gridId, defaultHidden);
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState<Record<number, string>>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [sort, setSort] = useState<{ column: number; direction: SortDirection } | null>(null);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[1]);
+  const [page, setPage] = useState(0);
+
+  const columnTypes = useMemo(
+    () => headers.map((_, index) => detectColumnType(rows.map((row) => row[index] ?? null))),
+    [headers, rows],
+  );
+  const visible = useMemo(
+    () => headers.map((_, index) => index).filter((index) => !hiddenColumns.includes(headers[index])),
+    [headers, hiddenColumns],
+  );
+
+  const filteredRows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const activeFilters = Object.entries(filters)
+      .map(([column, filter]) => [Number(column), filter] as const)
+      .filter(([column, filter]) => filter.trim() && visible.includes(column));
+    const matching = rows.filter((row) =>
+      (!query || visible.some((index) => (row[index] ?? "").toLowerCase().includes(query))) &&
+      activeFilters.every(([column, filter]) => matchesFilter(row[column] ?? null, filter, columnTypes[column])));
+    if (!sort) return matching;
+    return matching
+      .map((row, position) => ({ row, position }))
+      .sort((a, b) =>
+        compareCells(a.row[sort.column] ?? null, b.row[sort.column] ?? null, columnTypes[sort.column], sort.direction) ||
+        a.position - b.position)
+      .map(({ row }) => row);
+  }, [rows, search, filters, sort, visible, columnTypes]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredRows.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = filteredRows.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  // Ascending, then descending, then the broker's order
+  const toggleSort = (column: number) => {
+    setSort((current) =>
+      current?.column !== column ? { column, direction: "asc" } : current.direction === "asc" ? { column, direction: "desc" } : null);
+  };
+  const toggleColumn = (header: string, shown: boolean) => {
+    setHiddenColumns(shown ? hiddenColumns.filter((column) => column !== header) : [...hiddenColumns, header]);
+  };
+  const updateFilter = (column: number, value: string) => {
+    setFilters((current) => ({ ...current, [column]: value }));
+    setPage(0);
+  };
+  const hasFilters = search.trim() !== "" || Object.values(filters).some((filter) => filter.trim());
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 px-1">
+        <div className="relative w-full max-w-xs">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(event) => { setSearch(event.target.value); setPage(0); }}
+            placeholder="Search"
+            className="h-9 pl-8"
+          />
+        </div>
+        <Button variant={showFilters ? "secondary" : "outline"} size="sm" onClick={() => setShowFilters(!showFilters)}>
+          <ListFilter className="h-4 w-4 mr-2" />Filters
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Columns3 className="h-4 w-4 mr-2" />Columns
+              {visible.length < headers.length && <span className="ml-1 text-muted-foreground">{visible.length}/{headers.length}</span>}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+            <DropdownMenuLabel>Shown columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {headers.map((header, index) => (
+              <DropdownMenuCheckboxItem
+                key={`${header}-${index}`}
+                checked={!hiddenColumns.includes(header)}
+                onCheckedChange={(checked) => toggleColumn(header, checked === true)}
+                onSelect={(event) => event.preventDefault()}
+              >
+                {header || `Col_${index + 1}`}
+              </DropdownMenuCheckboxItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => setHiddenColumns([])}>Show all</DropdownMenuItem>
+            <DropdownMenuItem onSelect={resetHiddenColumns}>Reset to default</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={() => { setSearch(""); setFilters({}); setPage(0); }}>
+            Clear filters
+          </Button>
+        )}
+        {toolbar && <div className="ml-auto">{toolbar(visible.map((index) => headers[index]))}</div>}
+      </div>
+
+      <div className="overflow-auto relative" style={{ maxHeight }}>
+        <Table>
+          <TableHeader className="sticky top-0 bg-background z-10 shadow-sm">
+            <TableRow>
+              {visible.map((index) => {
+                const sorted = sort?.column === index ? sort.direction : null;
+                const SortIcon = sorted === "asc" ? ArrowUp : sorted === "desc" ? ArrowDown : ArrowUpDown;
+                return (
+                  <TableHead
+                    key={`${gridId}-header-${index}`}
+                    className={cn("whitespace-nowrap px-3 py-2 text-xs sm:text-sm", columnTypes[index] === "number" && "text-right")}
+                  >
+                    <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(index)}>
+                      {headers[index] || `Col_${index + 1}`}
+                      <SortIcon className={cn("h-3 w-3", !sorted && "opacity-40")} />
+                    </button>
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+            {showFilters && (
+              <TableRow>
+                {visible.map((index) => (
+                  <TableHead key={`${gridId}-filter-${index}`} className="px-2 py-1">
+                    <Input
+                      value={filters[index] ?? ""}
+                      onChange={(event) => updateFilter(index, event.target.value)}
+                      placeholder={FILTER_PLACEHOLDERS[columnTypes[index]]}
+                      className="h-7 min-w-24 text-xs"
+                    />
+                  </TableHead>
+                ))}
+              </TableRow>
+            )}
+          </TableHeader>
+          <TableBody>
+            {pageRows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={Math.max(visible.length, 1)} className="p-4 text-center text-sm text-neutral-500">
+                  {visible.length === 0 ? "All columns are hidden." : "No rows match the filters."}
+                </TableCell>
+              </TableRow>
+            ) : pageRows.map((row, i) => (
+              <TableRow key={`${gridId}-row-${currentPage}-${i}`} className={i % 2 === 0 ? "bg-muted/30 hover:bg-muted/60" : "hover:bg-muted/60"}>
+                {visible.map((index) => (
+                  <TableCell
+                    key={`${gridId}-cell-${i}-${index}`}
+                    className={cn("text-xs whitespace-nowrap px-3 py-1.5", columnTypes[index] === "number" && "text-right tabular-nums")}
+                  >
+                    {row[index] === null || row[index] === undefined || row[index] === "" ? "-" : String(row[index])}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 px-1 text-xs text-muted-foreground">
+        <span>
+          {filteredRows.length === 0
+            ? "No rows"
+            : `Rows ${currentPage * pageSize + 1}-${currentPage * pageSize + pageRows.length} of ${filteredRows.length}`}
+          {filteredRows.length < rows.length && ` (filtered from ${rows.length})`}
+        </span>
+        <div className="flex items-center gap-2">
+          <Select value={String(pageSize)} onValueChange={(value) => { setPageSize(Number(value)); setPage(0); }}>
+            <SelectTrigger className="h-8 w-28 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>{size} per page</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" className="h-8 w-8" disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>Page {currentPage + 1} of {pageCount}</span>
+          <Button variant="outline" size="icon" className="h-8 w-8" disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { format, parseISO, subDays, startOfYear } from "date-fns";
+import type { DateRange as DayPickerRange } from "react-day-picker";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import type { DateRange } from "@shared/dates";
+
+const toIso = (date: Date) => format(date, "yyyy-MM-dd");
+
+const PRESETS: { label: string; days?: number; ytd?: boolean }[] = [
+  { label: "7D", days: 7 },
+  { label: "30D", days: 30 },
+  { label: "90D", days: 90 },
+  { label: "YTD", ytd: true },
+];
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Inclusive date range picker on top of the shared Calendar. Ranges are
+// exchanged as "YYYY-MM-DD" strings, matching the API's from/to parameters.
+export default function DateRangePicker({ value, onChange, disabled, className }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DayPickerRange | undefined>();
+
+  const selected: DayPickerRange = draft ?? { from: parseISO(value.from), to: parseISO(value.to) };
+
+  function apply(range: DateRange) {
+    onChange(range);
+    setDraft(undefined);
+    setOpen(false);
+  }
+
+  function applyPreset(preset: (typeof PRESETS)[number]) {
+    const today = new Date();
+    const from = preset.ytd ? startOfYear(today) : subDays(today, (preset.days ?? 1) - 1);
+    apply({ from: toIso(from), to: toIso(today) });
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) setDraft(undefined);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          className={cn("justify-start text-left font-normal", className)}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {format(parseISO(value.from), "MMM dd, yyyy")} – {format(parseISO(value.to), "MMM dd, yyyy")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="flex gap-1 border-b p-2">
+          {PRESETS.map((preset) => (
+            <Button key={preset.label} variant="ghost" size="sm" onClick={() => applyPreset(preset)}>
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={selected.from}
+          selected={selected}
+          onSelect={setDraft}
+          disabled={{ after: new Date() }}
+          initialFocus
+        />
+        <div className="flex justify-end gap-2 border-t p-2">
+          <Button variant="ghost" size="sm" onClick={() => { setDraft(undefined); setOpen(false); }}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={!draft?.from}
+            onClick={() => draft?.from && apply({ from: toIso(draft.from), to: toIso(draft.to ?? draft.from) })}
+          >
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -26,6 +26,11 @@ export default function Header() {
                     Accounts
                   </span>
                 </Link>
+                <Link href="/portfolio">
+                  <span className={`${location === "/portfolio" ? 'border-primary text-primary' : 'border-transparent text-neutral-500 hover:border-neutral-300 hover:text-neutral-700'} border-b-2 px-1 pt-1 pb-3 text-sm font-medium cursor-pointer`}>
+                    Portfolio
+                  </span>
+                </Link>
               </nav>
             )}
           </div>
@@ -0,0 +1,509 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, Pencil, Plus, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Decimal } from "@shared/decimal";
+import type { OrderSide } from "@shared/models";
+import {
+  ORDER_VALIDITIES,
+  ORDER_VALIDITY_LABELS,
+  isWorkingOrder,
+  type OrderActionResult,
+  type OrderTicket,
+  type OrderType,
+  type OrderValidity,
+  type PlacedOrder,
+  type PreTradeCheck,
+} from "@shared/orders";
+
+/** Error body of the order routes; a failed pre-trade check comes with the check */
+interface OrderErrorBody {
+  message: string;
+  check?: PreTradeCheck | null;
+}
+
+// apiRequest throws "<status>: <body>"; the order routes answer with a JSON body
+function readOrderError(error: Error): OrderErrorBody & { status: number | null } {
+  const match = /^(\d{3}): ([\s\S]*)$/.exec(error.message);
+  if (!match) return { message: error.message, status: null };
+  try {
+    const body = JSON.parse(match[2]);
+    return { message: body.message ?? match[2], check: body.check ?? null, status: Number(match[1]) };
+  } catch {
+    return { message: match[2], status: Number(match[1]) };
+  }
+}
+
+function formatAmount(value: Decimal | null, currency?: string | null): string {
+  if (value === null) return "-";
+  const amount = Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return currency ? `${amount} ${currency}` : amount;
+}
+
+const STATUS_VARIANTS: Record<PlacedOrder["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  open: "default",
+  partially_filled: "default",
+  filled: "secondary",
+  cancelled: "outline",
+  rejected: "destructive",
+  unknown: "outline",
+};
+
+/** Refreshes the order list and the dashboard data an order changes */
+function invalidateOrderData(connectionId: string | number) {
+  queryClient.invalidateQueries({ queryKey: [`/api/connections/${connectionId}/orders`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/account-details/${connectionId}`] });
+}
+
+function CheckResult({ check }: { check: PreTradeCheck }) {
+  const Icon = check.passed ? CheckCircle2 : XCircle;
+  return (
+    <div className={`flex gap-2 rounded-md border p-3 text-sm ${check.passed ? "border-green-200 bg-green-50 text-green-800" : "border-red-200 bg-red-50 text-red-700"}`}>
+      <Icon className="mt-0.5 h-4 w-4 flex-shrink-0" />
+      <div>
+        <p className="font-medium">{check.passed ? "Pre-trade check passed" : "Pre-trade check failed"}</p>
+        <p>{check.message}</p>
+        {check.side === "buy" && (
+          <p className="text-xs">
+            Required {formatAmount(check.required, check.currency)} / available {formatAmount(check.availableAmount, check.currency)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface TicketDialogProps {
+  connectionId: string | number;
+  accounts: string[];
+  defaultAccount?: string;
+  onClose: () => void;
+}
+
+// New order: the ticket, then a review with the pre-trade check that has to be confirmed
+function TicketDialog({ connectionId, accounts, defaultAccount, onClose }: TicketDialogProps) {
+  const { toast } = useToast();
+  const [accountId, setAccountId] = useState(defaultAccount ?? accounts[0] ?? "");
+  const [symbol, setSymbol] = useState("");
+  const [side, setSide] = useState<OrderSide>("buy");
+  const [type, setType] = useState<OrderType>("limit");
+  const [quantity, setQuantity] = useState("");
+  const [price, setPrice] = useState("");
+  const [validity, setValidity] = useState<OrderValidity>("day");
+  const [review, setReview] = useState<{ ticket: OrderTicket; check: PreTradeCheck } | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+
+  const ticket: OrderTicket = {
+    accountId,
+    symbol: symbol.trim().toUpperCase(),
+    side,
+    type,
+    quantity: quantity.trim(),
+    price: type === "limit" ? price.trim() || null : null,
+    validity,
+  };
+
+  const checkMutation = useMutation({
+    mutationFn: async (toCheck: OrderTicket) => {
+      const res = await apiRequest("POST", `/api/connections/${connectionId}/orders/check`, toCheck);
+      return { ticket: toCheck, check: (await res.json()) as PreTradeCheck };
+    },
+    onSuccess: (result) => { setFailure(null); setReview(result); },
+    onError: (error: Error) => setFailure(readOrderError(error).message),
+  });
+
+  const placeMutation = useMutation({
+    mutationFn: async (toPlace: OrderTicket) => {
+      const res = await apiRequest("POST", `/api/connections/${connectionId}/orders`, toPlace);
+      return (await res.json()) as OrderActionResult;
+    },
+    onSuccess: ({ order }) => {
+      toast({ title: "Order sent", description: `${order.side === "buy" ? "Buy" : "Sell"} ${order.quantity} ${order.symbol}: ${order.status.replace(/_/g, " ")}` });
+      invalidateOrderData(connectionId);
+      onClose();
+    },
+    onError: (error: Error) => {
+      const { message, check } = readOrderError(error);
+      // The balance can change between the review and the confirmation
+      if (check && review) setReview({ ...review, check });
+      setFailure(message);
+    },
+  });
+
+  const canReview = accountId && ticket.symbol && Number(ticket.quantity) > 0 && (type === "market" || Number(ticket.price) > 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{review ? "Confirm order" : "New order"}</DialogTitle>
+          <DialogDescription>
+            {review
+              ? "Check the order below. It is only sent to the broker when you confirm."
+              : "Buys are checked against the account's available amount before anything is sent."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {review ? (
+          <div className="space-y-3">
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">Account</dt><dd>{review.ticket.accountId}</dd>
+              <dt className="text-muted-foreground">Order</dt>
+              <dd className={review.ticket.side === "buy" ? "text-green-700" : "text-red-600"}>
+                {review.ticket.side === "buy" ? "Buy" : "Sell"} {Number(review.ticket.quantity).toLocaleString()} {review.ticket.symbol}
+              </dd>
+              <dt className="text-muted-foreground">Type</dt>
+              <dd>
+                {review.ticket.type === "limit"
+                  ? `Limit at ${formatAmount(review.ticket.price)}`
+                  : `Market${review.check.quotedPrice ? ` (last ${formatAmount(review.check.quotedPrice)})` : ""}`}
+              </dd>
+              <dt className="text-muted-foreground">Validity</dt><dd>{ORDER_VALIDITY_LABELS[review.ticket.validity]}</dd>
+            </dl>
+            <CheckResult check={review.check} />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label>Account</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger><SelectValue placeholder="Select an account" /></SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => <SelectItem key={account} value={account}>{account}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="order-symbol">Symbol</Label>
+              <Input id="order-symbol" value={symbol} onChange={(event) => setSymbol(event.target.value)} placeholder="OGDC" />
+            </div>
+            <div className="space-y-1">
+              <Label>Side</Label>
+              <Select value={side} onValueChange={(value) => setSide(value as OrderSide)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="buy">Buy</SelectItem>
+                  <SelectItem value="sell">Sell</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as OrderType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="limit">Limit</SelectItem>
+                  <SelectItem value="market">Market</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Validity</Label>
+              <Select value={validity} onValueChange={(value) => setValidity(value as OrderValidity)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ORDER_VALIDITIES.map((value) => <SelectItem key={value} value={value}>{ORDER_VALIDITY_LABELS[value]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="order-quantity">Quantity</Label>
+              <Input id="order-quantity" inputMode="decimal" value={quantity} onChange={(event) => setQuantity(event.target.value)} />
+            </div>
+            {type === "limit" ? (
+              <div className="space-y-1">
+                <Label htmlFor="order-price">Limit price</Label>
+                <Input id="order-price" inputMode="decimal" value={price} onChange={(event) => setPrice(event.target.value)} />
+              </div>
+            ) : side === "buy" && (
+              <p className="self-end text-xs text-muted-foreground">
+                Checked at the broker's last price for the symbol.
+              </p>
+            )}
+          </div>
+        )}
+
+        {failure && (
+          <p className="flex items-start gap-2 text-sm text-red-600"><AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />{failure}</p>
+        )}
+
+        <DialogFooter>
+          {review ? (
+            <>
+              <Button variant="outline" onClick={() => { setReview(null); setFailure(null); }} disabled={placeMutation.isPending}>
+                Back
+              </Button>
+              <Button
+                onClick={() => placeMutation.mutate(review.ticket)}
+                disabled={!review.check.passed || placeMutation.isPending}
+                variant={review.ticket.side === "sell" ? "destructive" : "default"}
+              >
+                {placeMutation.isPending ? "Sending..." : `Confirm ${review.ticket.side}`}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button onClick={() => checkMutation.mutate(ticket)} disabled={!canReview || checkMutation.isPending}>
+                {checkMutation.isPending ? "Checking..." : "Review order"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ModifyDialogProps {
+  connectionId: string | number;
+  order: PlacedOrder;
+  onClose: () => void;
+}
+
+// Changes a working limit order; the new values are shown for confirmation first
+function ModifyDialog({ connectionId, order, onClose }: ModifyDialogProps) {
+  const { toast } = useToast();
+  const [quantity, setQuantity] = useState(order.quantity);
+  const [price, setPrice] = useState(order.price ?? "");
+  const [confirming, setConfirming] = useState(false);
+  const [failure, setFailure] = useState<{ message: string; check?: PreTradeCheck | null } | null>(null);
+
+  const changes = {
+    ...(quantity.trim() !== order.quantity ? { quantity: quantity.trim() } : {}),
+    ...(price.trim() !== (order.price ?? "") ? { price: price.trim() } : {}),
+  };
+  const changed = Object.keys(changes).length > 0;
+
+  const modifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `/api/connections/${connectionId}/orders/${encodeURIComponent(order.orderId)}`, changes);
+      return (await res.json()) as OrderActionResult;
+    },
+    onSuccess: ({ order: updated }) => {
+      toast({ title: "Order changed", description: `${updated.symbol}: ${updated.quantity} at ${formatAmount(updated.price)}` });
+      invalidateOrderData(connectionId);
+      onClose();
+    },
+    onError: (error: Error) => {
+      setFailure(readOrderError(error));
+      setConfirming(false);
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{confirming ? "Confirm change" : `Change order ${order.orderId}`}</DialogTitle>
+          <DialogDescription>
+            {order.side === "buy" ? "Buy" : "Sell"} {order.symbol}, {order.filledQuantity} of {order.quantity} filled.
+          </DialogDescription>
+        </DialogHeader>
+        {confirming ? (
+          <dl className="grid grid-cols-3 gap-x-4 gap-y-1 text-sm">
+            <dt />
+            <dt className="text-muted-foreground">Now</dt>
+            <dt className="text-muted-foreground">New</dt>
+            <dt className="text-muted-foreground">Quantity</dt><dd>{order.quantity}</dd><dd>{quantity.trim()}</dd>
+            <dt className="text-muted-foreground">Price</dt><dd>{formatAmount(order.price)}</dd><dd>{formatAmount(price.trim() || null)}</dd>
+          </dl>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="modify-quantity">Quantity</Label>
+              <Input id="modify-quantity" inputMode="decimal" value={quantity} onChange={(event) => setQuantity(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="modify-price">Limit price</Label>
+              <Input id="modify-price" inputMode="decimal" value={price} onChange={(event) => setPrice(event.target.value)} />
+            </div>
+          </div>
+        )}
+        {failure?.check ? (
+          <CheckResult check={failure.check} />
+        ) : failure && (
+          <p className="flex items-start gap-2 text-sm text-red-600"><AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />{failure.message}</p>
+        )}
+        <DialogFooter>
+          {confirming ? (
+            <>
+              <Button variant="outline" onClick={() => setConfirming(false)} disabled={modifyMutation.isPending}>Back</Button>
+              <Button onClick={() => modifyMutation.mutate()} disabled={modifyMutation.isPending}>
+                {modifyMutation.isPending ? "Sending..." : "Confirm change"}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Close</Button>
+              <Button onClick={() => { setFailure(null); setConfirming(true); }} disabled={!changed}>Review change</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface OrderEntryProps {
+  connectionId: string | number;
+  accounts: string[];
+  selectedAccount?: string; // Preselected in the ticket and used to filter the list; all accounts when absent
+}
+
+// Orders sent from the dashboard: a ticket for new orders and the list of
+// orders with change and cancel actions. Brokers without order entry get a notice.
+export default function OrderEntry({ connectionId, accounts, selectedAccount }: OrderEntryProps) {
+  const { toast } = useToast();
+  const [ticketOpen, setTicketOpen] = useState(false);
+  const [modifying, setModifying] = useState<PlacedOrder | null>(null);
+  const [cancelling, setCancelling] = useState<PlacedOrder | null>(null);
+
+  const { data: orders, isLoading, error } = useQuery<PlacedOrder[], Error>({
+    queryKey: [`/api/connections/${connectionId}/orders`, selectedAccount ?? "all"],
+    queryFn: async () => {
+      const params = new URLSearchParams({ account: selectedAccount ?? "all" });
+      const res = await apiRequest("GET", `/api/connections/${connectionId}/orders?${params}`);
+      return await res.json();
+    },
+    refetchOnWindowFocus: false,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (order: PlacedOrder) => {
+      const res = await apiRequest("DELETE", `/api/connections/${connectionId}/orders/${encodeURIComponent(order.orderId)}`);
+      return (await res.json()) as OrderActionResult;
+    },
+    onSuccess: ({ order }) => {
+      toast({ title: "Order cancelled", description: `${order.symbol} order ${order.orderId} is ${order.status.replace(/_/g, " ")}.` });
+      invalidateOrderData(connectionId);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not cancel the order", description: readOrderError(error).message, variant: "destructive" });
+    },
+    onSettled: () => setCancelling(null),
+  });
+
+  if (isLoading) return <Skeleton className="h-40 w-full" />;
+  if (error) {
+    const { message, status } = readOrderError(error);
+    return status === 400
+      ? <p className="p-4 text-sm text-muted-foreground">{message}. Orders can only be placed with brokers that offer order entry.</p>
+      : <p className="p-4 text-sm text-red-600">Could not load orders. {message}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Orders sent from this dashboard, newest first.</p>
+        <Button size="sm" onClick={() => setTicketOpen(true)} disabled={accounts.length === 0}>
+          <Plus className="h-4 w-4 mr-2" />New order
+        </Button>
+      </div>
+
+      {orders && orders.length > 0 ? (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Placed</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Symbol</TableHead>
+                <TableHead>Side</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Filled</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order) => (
+                <TableRow key={order.orderId}>
+                  <TableCell className="whitespace-nowrap text-xs">{order.placedAt.slice(0, 19).replace("T", " ")}</TableCell>
+                  <TableCell>{order.accountId}</TableCell>
+                  <TableCell className="font-medium">{order.symbol}</TableCell>
+                  <TableCell className={order.side === "buy" ? "text-green-700" : "text-red-600"}>{order.side}</TableCell>
+                  <TableCell>{order.type} / {order.validity}</TableCell>
+                  <TableCell className="text-right">{Number(order.quantity).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{Number(order.filledQuantity).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{formatAmount(order.price)}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[order.status]} title={order.message ?? undefined}>{order.status.replace(/_/g, " ")}</Badge>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-right">
+                    {isWorkingOrder(order) && (
+                      <>
+                        {order.type === "limit" && (
+                          <Button variant="ghost" size="sm" onClick={() => setModifying(order)}><Pencil className="h-4 w-4" /></Button>
+                        )}
+                        <Button variant="ghost" size="sm" className="text-red-600" onClick={() => setCancelling(order)}>
+                          <XCircle className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="p-4 text-sm text-neutral-500">No orders have been sent from this dashboard yet.</p>
+      )}
+
+      {ticketOpen && (
+        <TicketDialog connectionId={connectionId} accounts={accounts} defaultAccount={selectedAccount} onClose={() => setTicketOpen(false)} />
+      )}
+      {modifying && <ModifyDialog connectionId={connectionId} order={modifying} onClose={() => setModifying(null)} />}
+
+      <AlertDialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel order {cancelling?.orderId}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {cancelling && `${cancelling.side === "buy" ? "Buy" : "Sell"} ${cancelling.quantity} ${cancelling.symbol}`}
+              {cancelling?.price ? ` at ${formatAmount(cancelling.price)}` : ""}. The unfilled part is withdrawn at the broker.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={cancelMutation.isPending}>Keep order</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => { event.preventDefault(); if (cancelling) cancelMutation.mutate(cancelling); }}
+              disabled={cancelMutation.isPending}
+            >
+              {cancelMutation.isPending ? "Cancelling..." : "Cancel order"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO, startOfYear, subDays } from "date-fns";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import BaseCurrencySelect from "@/components/BaseCurrencySelect";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { apiRequest } from "@/lib/queryClient";
+import type { ConvertedValuationPoint, ValuationPoint } from "@shared/schema";
+import type { DateRange } from "@shared/dates";
+import { decimalToNumber } from "@shared/decimal";
+import { NATIVE_CURRENCY } from "@shared/fx";
+
+const toIso = (date: Date) => format(date, "yyyy-MM-dd");
+
+const PERIODS: { label: string; days?: number; ytd?: boolean }[] = [
+  { label: "1W", days: 7 },
+  { label: "1M", days: 30 },
+  { label: "3M", days: 90 },
+  { label: "YTD", ytd: true },
+];
+
+type Period = (typeof PERIODS)[number];
+
+function periodRange(period: Period, today = new Date()): DateRange {
+  const from = period.ytd ? startOfYear(today) : subDays(today, (period.days ?? 1) - 1);
+  return { from: toIso(from), to: toIso(today) };
+}
+
+const ALL_SYMBOLS = "all";
+
+const valueConfig = {
+  totalValue: { label: "Total value", color: "hsl(221 83% 53%)" },
+} satisfies ChartConfig;
+
+const compositionConfig = {
+  holdingsValue: { label: "Holdings", color: "hsl(221 83% 53%)" },
+  cash: { label: "Cash", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+const pnlConfig = {
+  unrealizedPnl: { label: "Unrealized P&L", color: "hsl(262 83% 58%)" },
+  settledPnl: { label: "Settled P&L", color: "hsl(25 95% 53%)" },
+} satisfies ChartConfig;
+
+const exposureConfig = {
+  exposure: { label: "Exposure", color: "hsl(0 72% 51%)" },
+} satisfies ChartConfig;
+
+const symbolConfig = {
+  marketValue: { label: "Market value", color: "hsl(221 83% 53%)" },
+  unrealizedPnl: { label: "Unrealized P&L", color: "hsl(262 83% 58%)" },
+  marketPrice: { label: "Price", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+const formatAxisDate = (date: string) => format(parseISO(date), "MMM d");
+const formatAxisAmount = (value: number) => Intl.NumberFormat(undefined, { notation: "compact" }).format(value);
+
+interface ChartPanelProps {
+  title: string;
+  config: ChartConfig;
+  children: React.ComponentProps<typeof ChartContainer>["children"];
+}
+
+function ChartPanel({ title, config, children }: ChartPanelProps) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="mb-2 text-sm font-medium">{title}</p>
+      <ChartContainer config={config} className="aspect-auto h-56 w-full">
+        {children}
+      </ChartContainer>
+    </div>
+  );
+}
+
+interface PortfolioChartsProps {
+  connectionId: string | number;
+}
+
+// Portfolio value, composition, P&L and exposure over time, from the daily
+// valuation points the server records whenever account data is fetched.
+// Picking a symbol switches to that holding's value, P&L and price; picking a
+// currency converts every point at the rate of its own day.
+export default function PortfolioCharts({ connectionId }: PortfolioChartsProps) {
+  const [period, setPeriod] = useState<Period>(PERIODS[1]);
+  const [symbol, setSymbol] = useState(ALL_SYMBOLS);
+  const [baseCurrency, setBaseCurrency] = useBaseCurrency();
+  const range = periodRange(period);
+
+  const { data: points, isLoading, error } = useQuery<(ValuationPoint | ConvertedValuationPoint)[], Error>({
+    queryKey: [`/api/connections/${connectionId}/valuations`, range.from, range.to, baseCurrency],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: range.from, to: range.to });
+      if (baseCurrency !== NATIVE_CURRENCY) params.set("base", baseCurrency);
+      const res = await apiRequest("GET", `/api/connections/${connectionId}/valuations?${params}`);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ message: "Failed to parse valuations error response" }));
+        throw new Error(errorData.message || `HTTP error! status: ${res.status}`);
+      }
+      return await res.json();
+    },
+    refetchOnWindowFocus: false,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const symbols = useMemo(
+    () => Array.from(new Set((points ?? []).flatMap((point) => point.symbols.map((entry) => entry.symbol)))).sort(),
+    [points],
+  );
+
+  const series = useMemo(() => (points ?? []).map((point) => ({
+    date: point.date,
+    totalValue: decimalToNumber(point.totalValue),
+    holdingsValue: decimalToNumber(point.holdingsValue),
+    cash: decimalToNumber(point.cash),
+    unrealizedPnl: decimalToNumber(point.unrealizedPnl),
+    settledPnl: decimalToNumber(point.settledPnl),
+    exposure: decimalToNumber(point.exposure),
+  })), [points]);
+
+  // Days the symbol was not held are left out rather than plotted as zero
+  const symbolSeries = useMemo(() => (points ?? []).flatMap((point) => {
+    const entry = point.symbols.find((item) => item.symbol === symbol);
+    return entry ? [{
+      date: point.date,
+      marketValue: decimalToNumber(entry.marketValue),
+      unrealizedPnl: decimalToNumber(entry.unrealizedPnl),
+      marketPrice: decimalToNumber(entry.marketPrice),
+    }] : [];
+  }), [points, symbol]);
+
+  // Currency of the plotted amounts and, once converted, the span of rate dates used
+  const currency = points?.find((point) => point.currency)?.currency ?? null;
+  const rateDates = (points ?? [])
+    .flatMap((point) => ("fx" in point && point.fx?.rateDate ? [point.fx.rateDate] : []))
+    .sort();
+  const unconverted = (points ?? []).filter((point) => "fx" in point && !point.fx).length;
+
+  // A line needs two points; until then, show the points themselves
+  const showDots = (symbol === ALL_SYMBOLS ? series : symbolSeries).length < 2;
+
+  const axes = (
+    <>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="date" tickFormatter={formatAxisDate} tickLine={false} axisLine={false} minTickGap={24} />
+      <YAxis tickFormatter={formatAxisAmount} tickLine={false} axisLine={false} width={56} />
+      <ChartTooltip content={<ChartTooltipContent labelFormatter={(date) => format(parseISO(String(date)), "PP")} />} />
+    </>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {PERIODS.map((option) => (
+            <Button
+              key={option.label}
+              size="sm"
+              variant={option.label === period.label ? "default" : "outline"}
+              onClick={() => setPeriod(option)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <BaseCurrencySelect value={baseCurrency} onChange={setBaseCurrency} />
+          <Select value={symbol} onValueChange={setSymbol} disabled={symbols.length === 0}>
+            <SelectTrigger className="w-44"><SelectValue placeholder="Symbol" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SYMBOLS}>Whole portfolio</SelectItem>
+              {symbols.map((item) => (
+                <SelectItem key={item} value={item}>{item}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {series.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {currency ? `Amounts in ${currency}` : "Currency not reported by the broker"}
+          {rateDates.length > 0 &&
+            `, converted at rates from ${rateDates[0] === rateDates[rateDates.length - 1]
+              ? rateDates[0]
+              : `${rateDates[0]} to ${rateDates[rateDates.length - 1]}`}`}
+          {unconverted > 0 && `; ${unconverted} day${unconverted === 1 ? "" : "s"} without a rate are left blank`}
+        </p>
+      )}
+
+      {isLoading ? (
+        <Skeleton className="h-56 w-full" />
+      ) : error ? (
+        <p className="p-4 text-sm text-red-600">Could not load portfolio history. {error.message}</p>
+      ) : series.length === 0 ? (
+        <p className="p-4 text-sm text-neutral-500">
+          No valuation history for this period yet. A point is recorded each day the account data is fetched.
+        </p>
+      ) : symbol !== ALL_SYMBOLS ? (
+        <div className="grid gap-3 md:grid-cols-2">
+          <ChartPanel title={`${symbol}: market value and unrealized P&L`} config={symbolConfig}>
+            <LineChart data={symbolSeries}>
+              {axes}
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="marketValue" stroke="var(--color-marketValue)" dot={showDots} strokeWidth={2} />
+              <Line dataKey="unrealizedPnl" stroke="var(--color-unrealizedPnl)" dot={showDots} strokeWidth={2} />
+            </LineChart>
+          </ChartPanel>
+          <ChartPanel title={`${symbol}: price`} config={symbolConfig}>
+            <LineChart data={symbolSeries}>
+              {axes}
+              <Line dataKey="marketPrice" stroke="var(--color-marketPrice)" dot={showDots} strokeWidth={2} />
+            </LineChart>
+          </ChartPanel>
+        </div>
+      ) : (
+        <div className="grid gap-3 md:grid-cols-2">
+          <ChartPanel title="Total portfolio value" config={valueConfig}>
+            <AreaChart data={series}>
+              {axes}
+              <Area dataKey="totalValue" type="monotone" stroke="var(--color-totalValue)" fill="var(--color-totalValue)" fillOpacity={0.2} />
+            </AreaChart>
+          </ChartPanel>
+          <ChartPanel title="Cash vs. holdings" config={compositionConfig}>
+            <AreaChart data={series}>
+              {axes}
+              <ChartLegend content={<ChartLegendContent />} />
+              <Area dataKey="holdingsValue" type="monotone" stackId="value" stroke="var(--color-holdingsValue)" fill="var(--color-holdingsValue)" fillOpacity={0.3} />
+              <Area dataKey="cash" type="monotone" stackId="value" stroke="var(--color-cash)" fill="var(--color-cash)" fillOpacity={0.3} />
+            </AreaChart>
+          </ChartPanel>
+          <ChartPanel title="Unrealized and settled P&L" config={pnlConfig}>
+            <LineChart data={series}>
+              {axes}
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="unrealizedPnl" stroke="var(--color-unrealizedPnl)" dot={showDots} strokeWidth={2} />
+              <Line dataKey="settledPnl" stroke="var(--color-settledPnl)" dot={showDots} strokeWidth={2} />
+            </LineChart>
+          </ChartPanel>
+          <ChartPanel title="Exposure" config={exposureConfig}>
+            <BarChart data={series}>
+              {axes}
+              <Bar dataKey="exposure" fill="var(--color-exposure)" radius={2} />
+            </BarChart>
+          </ChartPanel>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,413 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import DateRangePicker from "@/components/DateRangePicker";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { defaultDateRange, type DateRange } from "@shared/dates";
+import type { Decimal } from "@shared/decimal";
+import type { LotMethod, PnlPeriod, PnlReport, SaleLotChoice } from "@shared/lots";
+
+const METHOD_LABELS: Record<LotMethod, string> = {
+  fifo: "FIFO",
+  average: "Average cost",
+  specific: "Specific lots",
+};
+
+const PERIOD_LABELS: Record<PnlPeriod, string> = {
+  month: "By month",
+  quarter: "By quarter",
+  year: "By year",
+};
+
+function formatAmount(value: Decimal | null, currency?: string | null): string {
+  if (value === null) return "-";
+  const amount = Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return currency ? `${amount} ${currency}` : amount;
+}
+
+const pnlClass = (value: Decimal | null) => (value !== null && Number(value) < 0 ? "text-red-600" : "");
+
+const formatDate = (date: string | null) => (date ? date.slice(0, 10) : "Before history");
+
+interface LotPickerProps {
+  connectionId: string | number;
+  sale: SaleLotChoice | null;
+  onClose: () => void;
+}
+
+// Lets the user say which lots a sale closes; lots left blank fall back to FIFO
+function LotPicker({ connectionId, sale, onClose }: LotPickerProps) {
+  const { toast } = useToast();
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const saveMutation = useMutation({
+    mutationFn: async (lots: { lotId: string; quantity: string }[]) =>
+      apiRequest("PUT", `/api/connections/${connectionId}/lot-selections`, { sellFillId: sale!.sellFillId, lots }),
+    onSuccess: () => {
+      toast({ title: "Lots saved", description: `P&L for sale ${sale!.sellFillId} now uses the picked lots.` });
+      queryClient.invalidateQueries({ queryKey: [`/api/connections/${connectionId}/pnl`] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save lots", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!sale) return null;
+  const value = (lotId: string) =>
+    quantities[lotId] ?? sale.selected.find((selection) => selection.lotId === lotId)?.quantity ?? "";
+  const picked = sale.candidates
+    .map((lot) => ({ lotId: lot.lotId, quantity: value(lot.lotId).trim() }))
+    .filter((lot) => lot.quantity !== "" && Number(lot.quantity) > 0);
+  const pickedTotal = picked.reduce((sum, lot) => sum + Number(lot.quantity), 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Pick lots for {sale.symbol}</DialogTitle>
+          <DialogDescription>
+            Sale {sale.sellFillId} of {Number(sale.quantity).toLocaleString()} on {formatDate(sale.executedAt)}.
+            Quantities not picked here are taken oldest lot first.
+          </DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Lot</TableHead>
+              <TableHead>Opened</TableHead>
+              <TableHead className="text-right">Available</TableHead>
+              <TableHead className="w-28 text-right">Take</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sale.candidates.map((lot) => (
+              <TableRow key={lot.lotId}>
+                <TableCell className="font-mono text-xs">{lot.lotId}</TableCell>
+                <TableCell>{formatDate(lot.openedAt)}</TableCell>
+                <TableCell className="text-right">{Number(lot.available).toLocaleString()}</TableCell>
+                <TableCell>
+                  <Input
+                    inputMode="decimal"
+                    className="h-8 text-right"
+                    value={value(lot.lotId)}
+                    onChange={(event) => setQuantities({ ...quantities, [lot.lotId]: event.target.value })}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {pickedTotal > Number(sale.quantity) && (
+          <p className="text-sm text-amber-700">More than the sale quantity is picked; only the first lots up to it are used.</p>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => saveMutation.mutate([])} disabled={saveMutation.isPending}>
+            Use FIFO
+          </Button>
+          <Button onClick={() => saveMutation.mutate(picked)} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ProfitAndLossProps {
+  connectionId: string | number;
+}
+
+// Realized and unrealized P&L from the connection's fills, matched into lots
+// on the server under the chosen method.
+export default function ProfitAndLoss({ connectionId }: ProfitAndLossProps) {
+  const [method, setMethod] = useState<LotMethod>("fifo");
+  const [period, setPeriod] = useState<PnlPeriod>("month");
+  const [range, setRange] = useState<DateRange>(() => defaultDateRange(90));
+  const [pickingSale, setPickingSale] = useState<SaleLotChoice | null>(null);
+
+  const { data: report, isLoading, isFetching, error } = useQuery<PnlReport, Error>({
+    queryKey: [`/api/connections/${connectionId}/pnl`, method, period, range.from, range.to],
+    queryFn: async () => {
+      const params = new URLSearchParams({ method, period, from: range.from, to: range.to });
+      const res = await apiRequest("GET", `/api/connections/${connectionId}/pnl?${params}`);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ message: "Failed to parse P&L error response" }));
+        throw new Error(errorData.message || `HTTP error! status: ${res.status}`);
+      }
+      return await res.json();
+    },
+    refetchOnWindowFocus: false,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const currency = report?.currency;
+  const notices = report ? [...Object.values(report.errors), ...report.warnings] : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={method} onValueChange={(value) => setMethod(value as LotMethod)}>
+          <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {Object.entries(METHOD_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={period} onValueChange={(value) => setPeriod(value as PnlPeriod)}>
+          <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DateRangePicker value={range} onChange={setRange} disabled={isFetching} />
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-40 w-full" />
+      ) : error ? (
+        <p className="p-4 text-sm text-red-600">Could not build the P&L report. {error.message}</p>
+      ) : report ? (
+        <>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">Realized P&L</p>
+              <p className={`text-xl font-semibold ${pnlClass(report.totals.realizedPnl)}`}>
+                {formatAmount(report.totals.realizedPnl, currency)}
+              </p>
+              <p className="text-xs text-muted-foreground">Sales from {report.range.from} to {report.range.to}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">Unrealized P&L</p>
+              <p className={`text-xl font-semibold ${pnlClass(report.totals.unrealizedPnl)}`}>
+                {formatAmount(report.totals.unrealizedPnl, currency)}
+              </p>
+              <p className="text-xs text-muted-foreground">Open lots at today's prices</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">Commissions</p>
+              <p className="text-xl font-semibold">{formatAmount(report.totals.commissions, currency)}</p>
+              <p className="text-xs text-muted-foreground">On the lots sold in the range</p>
+            </div>
+          </div>
+
+          {notices.length > 0 && (
+            <div className="rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+              {notices.map((notice, i) => (
+                <p key={i}><AlertTriangle className="inline h-3 w-3 mr-1" />{notice}</p>
+              ))}
+            </div>
+          )}
+
+          <Tabs defaultValue="symbols" className="w-full">
+            <TabsList>
+              <TabsTrigger value="symbols">By symbol</TabsTrigger>
+              <TabsTrigger value="periods">{PERIOD_LABELS[report.period]}</TabsTrigger>
+              <TabsTrigger value="realized">Closed lots</TabsTrigger>
+              <TabsTrigger value="open">Open lots</TabsTrigger>
+              {report.method === "specific" && <TabsTrigger value="sales">Sales</TabsTrigger>}
+            </TabsList>
+
+            <TabsContent value="symbols">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Open quantity</TableHead>
+                    <TableHead className="text-right">Cost basis</TableHead>
+                    <TableHead className="text-right">Market value</TableHead>
+                    <TableHead className="text-right">Unrealized</TableHead>
+                    <TableHead className="text-right">Realized</TableHead>
+                    <TableHead className="text-right">Commissions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.symbols.map((row) => (
+                    <TableRow key={`${row.accountId}-${row.symbol}`}>
+                      <TableCell className="font-medium">{row.symbol}</TableCell>
+                      <TableCell>{row.accountId}</TableCell>
+                      <TableCell className="text-right">{Number(row.openQuantity).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{formatAmount(row.costBasis)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(row.marketValue)}</TableCell>
+                      <TableCell className={`text-right ${pnlClass(row.unrealizedPnl)}`}>{formatAmount(row.unrealizedPnl)}</TableCell>
+                      <TableCell className={`text-right ${pnlClass(row.realizedPnl)}`}>{formatAmount(row.realizedPnl)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(row.commissions)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="periods">
+              {report.periods.length === 0 ? (
+                <p className="p-4 text-sm text-neutral-500">No sales in this range.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead className="text-right">Sales</TableHead>
+                      <TableHead className="text-right">Proceeds</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                      <TableHead className="text-right">Realized P&L</TableHead>
+                      <TableHead className="text-right">Commissions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.periods.map((row) => (
+                      <TableRow key={row.period}>
+                        <TableCell className="font-medium">{row.period}</TableCell>
+                        <TableCell className="text-right">{row.trades}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.proceeds)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.cost)}</TableCell>
+                        <TableCell className={`text-right ${pnlClass(row.realizedPnl)}`}>{formatAmount(row.realizedPnl)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.commissions)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="realized">
+              {report.realized.length === 0 ? (
+                <p className="p-4 text-sm text-neutral-500">No lots were closed in this range.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead>Sale</TableHead>
+                      <TableHead>Lot</TableHead>
+                      <TableHead>Opened</TableHead>
+                      <TableHead>Closed</TableHead>
+                      <TableHead className="text-right">Days held</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Proceeds</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                      <TableHead className="text-right">P&L</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.realized.map((row, i) => (
+                      <TableRow key={`${row.accountId}-${row.sellFillId}-${row.lotId ?? "unmatched"}-${i}`}>
+                        <TableCell className="font-medium">{row.symbol}</TableCell>
+                        <TableCell className="font-mono text-xs">{row.sellFillId}</TableCell>
+                        <TableCell className="font-mono text-xs">{row.lotId ?? "Unknown"}</TableCell>
+                        <TableCell>{formatDate(row.openedAt)}</TableCell>
+                        <TableCell>{formatDate(row.closedAt)}</TableCell>
+                        <TableCell className="text-right">{row.holdingDays ?? "-"}</TableCell>
+                        <TableCell className="text-right">{Number(row.quantity).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.proceeds)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.cost)}</TableCell>
+                        <TableCell className={`text-right ${pnlClass(row.realizedPnl)}`}>{formatAmount(row.realizedPnl)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="open">
+              {report.openLots.length === 0 ? (
+                <p className="p-4 text-sm text-neutral-500">No open lots.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead>Lot</TableHead>
+                      <TableHead>Opened</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                      <TableHead className="text-right">Market value</TableHead>
+                      <TableHead className="text-right">Unrealized</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.openLots.map((lot) => (
+                      <TableRow key={`${lot.accountId}-${lot.lotId}`}>
+                        <TableCell className="font-medium">{lot.symbol}</TableCell>
+                        <TableCell className="font-mono text-xs">{lot.lotId}</TableCell>
+                        <TableCell>{formatDate(lot.openedAt)}</TableCell>
+                        <TableCell className="text-right">{Number(lot.quantity).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{formatAmount(lot.cost)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(lot.marketValue)}</TableCell>
+                        <TableCell className={`text-right ${pnlClass(lot.unrealizedPnl)}`}>{formatAmount(lot.unrealizedPnl)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            {report.method === "specific" && (
+              <TabsContent value="sales">
+                {report.sales.length === 0 ? (
+                  <p className="p-4 text-sm text-neutral-500">No sales in this range.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Sale</TableHead>
+                        <TableHead>Symbol</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Quantity</TableHead>
+                        <TableHead>Lots</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.sales.map((sale) => (
+                        <TableRow key={`${sale.accountId}-${sale.sellFillId}`}>
+                          <TableCell className="font-mono text-xs">{sale.sellFillId}</TableCell>
+                          <TableCell className="font-medium">{sale.symbol}</TableCell>
+                          <TableCell>{formatDate(sale.executedAt)}</TableCell>
+                          <TableCell className="text-right">{Number(sale.quantity).toLocaleString()}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {sale.selected.length > 0
+                              ? sale.selected.map((lot) => `${lot.lotId} × ${lot.quantity}`).join(", ")
+                              : "FIFO"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button size="sm" variant="outline" onClick={() => setPickingSale(sale)}>Pick lots</Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+            )}
+          </Tabs>
+        </>
+      ) : null}
+
+      <LotPicker
+        key={pickingSale?.sellFillId ?? "none"}
+        connectionId={connectionId}
+        sale={pickingSale}
+        onClose={() => setPickingSale(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useCallback, useState } from "react";
+import { NATIVE_CURRENCY } from "@shared/fx";
+
+const STORAGE_KEY = "portfolio.baseCurrency";
+
+function readStoredCurrency(): string {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) || NATIVE_CURRENCY;
+  } catch {
+    return NATIVE_CURRENCY;
+  }
+}
+
+// Currency the user wants portfolio figures converted into, remembered across
+// visits; NATIVE_CURRENCY keeps every connection's own currency.
+export function useBaseCurrency() {
+  const [baseCurrency, setState] = useState(readStoredCurrency);
+
+  const setBaseCurrency = useCallback((currency: string) => {
+    setState(currency);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, currency);
+    } catch {
+      // Storage unavailable (private mode); the choice lasts for this page only
+    }
+  }, []);
+
+  return [baseCurrency, setBaseCurrency] as const;
+}
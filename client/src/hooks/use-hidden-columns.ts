@@ -0,0 +1,46 @@
+import { useCallback, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+
+const STORAGE_PREFIX = "grid.hiddenColumns";
+
+function readStoredColumns(key: string): string[] | null {
+  try {
+    const stored = window.localStorage.getItem(key);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return Array.isArray(parsed) ? parsed.filter((column): column is string => typeof column === "string") : null;
+  } catch {
+    return null;
+  }
+}
+
+// Columns the user hid in a grid, remembered per user and grid. Hidden rather
+// than shown columns are stored, so columns a broker adds later still appear.
+// Until the user changes anything, `defaultHidden` applies.
+export function useHiddenColumns(gridId: string, defaultHidden: string[] = []) {
+  const { user } = useAuth();
+  const key = `${STORAGE_PREFIX}.${user?.id ?? "anonymous"}.${gridId}`;
+  const [stored, setStored] = useState(() => ({ key, columns: readStoredColumns(key) }));
+  // Re-read when the user or grid changes
+  const current = stored.key === key ? stored.columns : readStoredColumns(key);
+  const hiddenColumns = current ?? defaultHidden;
+
+  const setHiddenColumns = useCallback((columns: string[]) => {
+    setStored({ key, columns });
+    try {
+      window.localStorage.setItem(key, JSON.stringify(columns));
+    } catch {
+      // Storage unavailable (private mode); the choice lasts for this page only
+    }
+  }, [key]);
+
+  const resetHiddenColumns = useCallback(() => {
+    setStored({ key, columns: null });
+    try {
+      window.localStorage.removeItem(key);
+    } catch {
+      // Nothing stored to remove
+    }
+  }, [key]);
+
+  return { hiddenColumns, setHiddenColumns, resetHiddenColumns };
+}
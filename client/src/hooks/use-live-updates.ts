@@ -0,0 +1,137 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { AllAccountDetails, AccountLogs } from "@shared/accountData";
+import type { ConnectionView } from "@shared/schema";
+import {
+  applyTables,
+  LIVE_UPDATES_PATH,
+  type LiveClientMessage,
+  type LiveEvent,
+  type LiveStatusEvent,
+} from "@shared/liveUpdates";
+import { queryClient } from "@/lib/queryClient";
+
+const MAX_RETRY_MS = 30 * 1000;
+
+// One socket per tab, open while any component uses it
+let socket: WebSocket | null = null;
+let users = 0;
+let watching: Extract<LiveClientMessage, { type: "watch" }> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryMs = 1000;
+let connectedBefore = false;
+
+const liveStatusKey = (connectionId: number) => [LIVE_UPDATES_PATH, connectionId];
+
+function applyEvent(event: LiveEvent): void {
+  switch (event.type) {
+    case "connection": {
+      const { connection } = event;
+      queryClient.setQueryData<ConnectionView[]>(["/api/connections"], (list) => list && (
+        list.some((item) => item.id === connection.id)
+          ? list.map((item) => (item.id === connection.id ? connection : item))
+          : [...list, connection]
+      ));
+      queryClient.setQueryData<ConnectionView>(["/api/connections", String(connection.id)], (current) => current && connection);
+      break;
+    }
+    case "connection_removed":
+      queryClient.setQueryData<ConnectionView[]>(["/api/connections"], (list) => list?.filter((item) => item.id !== event.connectionId));
+      break;
+    case "status":
+      queryClient.setQueryData(liveStatusKey(event.connectionId), event);
+      break;
+    case "tables": {
+      // The dashboard caches details per date range and account; the account must match the feed's
+      const account = event.accountId ?? "all";
+      queryClient.setQueriesData<AllAccountDetails>(
+        { queryKey: [`/api/account-details/${event.connectionId}`], predicate: (query) => query.queryKey[3] === account },
+        (details) => applyTables(details, event.tables),
+      );
+      // Logs are per login, whichever account is watched
+      const { positions: _positions, ...logTables } = event.tables;
+      queryClient.setQueryData<AccountLogs>([`/api/account-logs/${event.connectionId}`], (logs) => applyTables(logs, logTables));
+      break;
+    }
+  }
+}
+
+function send(message: LiveClientMessage): void {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function connect(): void {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}${LIVE_UPDATES_PATH}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    retryMs = 1000;
+    // Changes made while the socket was down were missed
+    if (connectedBefore) queryClient.invalidateQueries({ queryKey: ["/api/connections"] });
+    connectedBefore = true;
+    if (watching) send(watching);
+  };
+  ws.onmessage = (message) => {
+    try {
+      applyEvent(JSON.parse(message.data) as LiveEvent);
+    } catch (error) {
+      console.error("[Live] Could not apply update:", error);
+    }
+  };
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    if (users === 0) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (users > 0 && !socket) connect();
+    }, retryMs);
+    retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+  };
+}
+
+function acquire(): void {
+  users++;
+  if (!socket && !retryTimer) connect();
+}
+
+function release(): void {
+  users--;
+  if (users > 0) return;
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const ws = socket;
+  socket = null;
+  ws?.close();
+}
+
+// Keeps the react-query cache in step with the server: connection changes
+// always, and with `watch`, that connection's status, positions and logs
+// (for one account, or all of them when `accountId` is null).
+export function useLiveUpdates(watch?: { connectionId: number; accountId: string | null } | null) {
+  useEffect(() => {
+    acquire();
+    return release;
+  }, []);
+
+  const connectionId = watch?.connectionId;
+  const accountId = watch?.accountId ?? null;
+  useEffect(() => {
+    if (connectionId === undefined || Number.isNaN(connectionId)) return;
+    const message = { type: "watch", connectionId, accountId } as const;
+    watching = message;
+    send(message);
+    return () => {
+      if (watching !== message) return;
+      watching = null;
+      send({ type: "unwatch" });
+    };
+  }, [connectionId, accountId]);
+}
+
+/** The watched connection's last reported status; undefined until the first poll */
+export function useLiveStatus(connectionId: number) {
+  const { data } = useQuery<LiveStatusEvent>({ queryKey: liveStatusKey(connectionId), enabled: false });
+  return data;
+}
@@ -0,0 +1,100 @@
+import { toIsoDate } from "@shared/dates";
+
+// Cell handling for DataGrid. Broker tables arrive as text, so each column's
+// type is guessed from its values: numbers such as "1,234.50", "(12.00)" or
+// "5%" sort and filter numerically, and dates in any format toIsoDate reads
+// sort by their ISO form.
+
+export type ColumnType = "number" | "date" | "text";
+export type SortDirection = "asc" | "desc";
+
+// Share of non-empty cells that must parse for a column to count as numeric or date
+const TYPE_THRESHOLD = 0.8;
+const SAMPLE_SIZE = 200;
+
+const isEmpty = (value: string | null | undefined): value is null | undefined | "" =>
+  value === null || value === undefined || value.trim() === "" || value.trim() === "-";
+
+export function parseCellNumber(value: string | null | undefined): number | null {
+  if (isEmpty(value)) return null;
+  let text = value.trim().replace(/,/g, "").replace(/%$/, "");
+  const negative = /^\(.*\)$/.test(text);
+  if (negative) text = text.slice(1, -1);
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  const number = Number(text);
+  return negative ? -number : number;
+}
+
+export function parseCellDate(value: string | null | undefined): string | null {
+  return isEmpty(value) ? null : toIsoDate(value);
+}
+
+/** Guesses a column's type from (a sample of) its values */
+export function detectColumnType(values: (string | null)[]): ColumnType {
+  const present = values.filter(value => !isEmpty(value)).slice(0, SAMPLE_SIZE);
+  if (present.length === 0) return "text";
+  const share = (parse: (value: string) => unknown) => present.filter(value => parse(value!) !== null).length / present.length;
+  if (share(parseCellNumber) >= TYPE_THRESHOLD) return "number";
+  if (share(parseCellDate) >= TYPE_THRESHOLD) return "date";
+  return "text";
+}
+
+/** Order of two cells of a column; empty and unreadable cells sort last either way */
+export function compareCells(a: string | null, b: string | null, type: ColumnType, direction: SortDirection = "asc"): number {
+  const key = (value: string | null) =>
+    type === "number" ? parseCellNumber(value) : type === "date" ? parseCellDate(value) : isEmpty(value) ? null : value;
+  const [left, right] = [key(a), key(b)];
+  if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+  const order = typeof left === "number" && typeof right === "number"
+    ? left - right
+    : String(left).localeCompare(String(right), undefined, { numeric: true, sensitivity: "base" });
+  return direction === "asc" ? order : -order;
+}
+
+const COMPARISON = /^(>=|<=|>|<|=)\s*(.+)$/;
+const RANGE = /^(.+?)\s*\.\.\s*(.+)$/;
+
+/**
+ * Whether a cell passes a column filter. Text filters match anywhere in the
+ * cell, ignoring case. Number and date columns also take comparisons
+ * (">100", "<=2025-03-31") and ranges ("10..20", "2025-01..2025-03"). Dates
+ * compare in ISO form and a partial date stands for the whole month or year,
+ * so "=2025-03" and "2025-03" match all of March.
+ */
+export function matchesFilter(value: string | null, filter: string, type: ColumnType): boolean {
+  const query = filter.trim();
+  if (!query) return true;
+  if (type === "text") return (value ?? "").toLowerCase().includes(query.toLowerCase());
+
+  const cell = type === "number" ? parseCellNumber(value) : parseCellDate(value);
+  // Sign of cell minus bound, or null when the bound cannot be read
+  const compare = (bound: string): number | null => {
+    if (cell === null) return null;
+    if (typeof cell === "number") {
+      const target = parseCellNumber(bound);
+      return target === null ? null : Math.sign(cell - target);
+    }
+    const target = parseCellDate(bound) ?? bound.trim();
+    return cell.startsWith(target) ? 0 : cell < target ? -1 : 1;
+  };
+
+  const range = query.match(RANGE);
+  if (range) {
+    const [low, high] = [compare(range[1]), compare(range[2])];
+    return low !== null && high !== null && low >= 0 && high <= 0;
+  }
+  const comparison = query.match(COMPARISON);
+  if (comparison) {
+    const order = compare(comparison[2]);
+    if (order === null) return false;
+    switch (comparison[1]) {
+      case ">": return order > 0;
+      case ">=": return order >= 0;
+      case "<": return order < 0;
+      case "<=": return order <= 0;
+      default: return order === 0;
+    }
+  }
+  if (type === "date" && cell !== null && compare(query) === 0) return true;
+  return (value ?? "").toLowerCase().includes(query.toLowerCase());
+}
@@ -13,6 +13,17 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge"; // Keep Badge if used elsewhere, otherwise remove
 import { useToast } from "@/hooks/use-toast";
+import { useLiveStatus, useLiveUpdates } from "@/hooks/use-live-updates";
+import { isSecretCredentialField, type AccountSnapshot, type AccountSnapshotSummary, type CredentialFieldView } from "@shared/schema";
+import { defaultDateRange, type DateRange } from "@shared/dates";
+import DateRangePicker from "@/components/DateRangePicker";
+import PortfolioCharts from "@/components/PortfolioCharts";
+import ProfitAndLoss from "@/components/ProfitAndLoss";
+import CapitalGainsTax from "@/components/CapitalGainsTax";
+import OrderEntry from "@/components/OrderEntry";
+import DataGrid from "@/components/DataGrid";
+import { addDecimals, parseDecimal } from "@shared/decimal";
+import type { LiveStatus } from "@shared/liveUpdates";
 
 // --- Define Types Used in Component ---
 // (Assuming these are defined correctly, mirroring backend/shared types)
@@ -22,7 +33,7 @@ interface Connection {
     brokerId?: string | number | null;
     authMethod: "api" | "credentials";
     accountId?: string | null; // May be populated after connection
-    credentials?: Record<string, any> | null;
+    credentials?: Record<string, CredentialFieldView> | null; // Redacted by the server
     lastConnected?: string | null;
     isActive: boolean;
     isDefault: boolean;
@@ -54,6 +65,13 @@ import {
     BookOpen, // Icon for Trade Log
     Activity, // Icon for Daily Activity Log
     AlertTriangle, // Icon for Outstanding Log or Errors
+    TrendingUp, // Icon for Market tab
+    History, // Icon for Snapshot History card
+    Camera, // Icon for Take Snapshot
+    Scale, // Icon for P&L tab
+    Receipt, // Icon for Tax tab
+    Download, // Icon for table exports
+    ArrowLeftRight, // Icon for Trade tab
 } from "lucide-react";
 import {
     Dialog,
@@ -72,31 +90,20 @@ import {
     AccordionItem,
     AccordionTrigger,
 } from "@/components/ui/accordion";
-import {
-    Table,
-    TableHead,
-    TableHeader,
-    TableRow,
-    TableBody,
-    TableCell,
-} from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
-// --- Import Types from Backend Client ---
-// Assuming akdApiClient.ts is adjacent or alias path is setup
+// --- Import Shared Account Data Types ---
 // Use AllAccountDetails directly for the /api/account-details response type
+import { EXPORT_FORMATS, exportUrl, type ExportSection } from "@shared/exports";
 import type {
     AllAccountDetails as AccountDetailsResponse,
+    AccountLogs,
     FetchResult as FetchResultType,
-} from "./brokers/akdApiClient"; // Adjust path if needed
+} from "@shared/accountData";
 
 // Define the specific type expected from the /api/account-logs endpoint
-interface AccountLogsResponse {
-    tradeLogs: FetchResultType;
-    activityLogs: FetchResultType;
-    outstandingLogs: FetchResultType;
-    // Optional properties if backend includes them for context
-    dataSource?: 'api' | 'api_with_errors' | 'error' | 'error_auth';
+interface AccountLogsResponse extends AccountLogs {
     message?: string; // Optional overall message for the log fetch operation
 }
 // --- End Type Imports ---
@@ -111,8 +118,54 @@ interface DataTableProps {
     maxHeight?: string;
     defaultOpen?: boolean; // Will default to true now
     visibleColumns?: string[]; // NEW: Optional array of header names to display
+    exportOptions?: SectionExportOptions; // Shows download links for the section
+}
+
+interface SectionExportOptions {
+    connectionId: string | number;
+    section: ExportSection;
+    range?: DateRange;
+    account?: string;
 }
 
+/** CSV, XLSX and JSON download links for a section, limited to the columns on screen */
+const ExportLinks: React.FC<{ options: SectionExportOptions; columns?: string[] }> = ({ options, columns }) => (
+    <div className="mx-1 flex items-center justify-end gap-3 text-xs text-muted-foreground">
+        <Download className="h-3 w-3" />
+        {EXPORT_FORMATS.map(format => (
+            <a
+                key={format}
+                href={exportUrl(options.connectionId, options.section, { format, range: options.range, account: options.account, columns })}
+                download
+                className="underline-offset-2 hover:text-foreground hover:underline"
+            >
+                {format.toUpperCase()}
+            </a>
+        ))}
+    </div>
+);
+
+/** Column drift warnings and rows dropped by strict parsing, shown above a section's table */
+const ParseReportNotice: React.FC<{ fetchResult?: FetchResultType }> = ({ fetchResult }) => {
+    const warnings = fetchResult?.warnings ?? [];
+    const rejectedRows = fetchResult?.rejectedRows ?? [];
+    if (warnings.length === 0 && rejectedRows.length === 0) return null;
+    const rejectedCount = new Set(rejectedRows.map(issue => `${issue.account ?? ""}:${issue.row}`)).size;
+
+    return (
+        <div className="mx-1 mb-2 rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+            {warnings.map((warning, i) => (
+                <p key={`warning-${i}`}><AlertTriangle className="inline h-3 w-3 mr-1" />{warning.message}</p>
+            ))}
+            {rejectedCount > 0 && (
+                <p title={rejectedRows.map(issue => `Row ${issue.row}${issue.account ? ` (${issue.account})` : ""}: ${issue.column ? `${issue.column} ` : ""}${issue.message}`).join("\n")}>
+                    <AlertTriangle className="inline h-3 w-3 mr-1" />{rejectedCount} row{rejectedCount === 1 ? "" : "s"} did not match the expected layout and {rejectedCount === 1 ? "was" : "were"} left out.
+                </p>
+            )}
+        </div>
+    );
+};
+
 const DataTableAccordion: React.FC<DataTableProps> = ({
     title,
     fetchResult,
@@ -121,6 +174,7 @@ const DataTableAccordion: React.FC<DataTableProps> = ({
     maxHeight = "500px",
     defaultOpen = true, // <-- CHANGED: Default to true
     visibleColumns, // <-- NEW PROP
+    exportOptions,
 }) => {
     const displayError = error || fetchResult?.error;
     const isError = !!displayError;
@@ -128,36 +182,14 @@ const DataTableAccordion: React.FC<DataTableProps> = ({
     const hasRawHeaders = fetchResult?.headers && fetchResult.headers.length > 0;
     const accordionValue = title.toLowerCase().replace(/\s+/g, "-");
 
-    // --- NEW: Column Filtering Logic ---
-    const { displayHeaders, displayColumnIndices } = useMemo(() => {
-        if (!hasRawHeaders || !fetchResult?.headers) {
-            return { displayHeaders: [], displayColumnIndices: [] };
-        }
-
-        if (!visibleColumns || visibleColumns.length === 0) {
-            // No filter provided, show all columns
-            return {
-                displayHeaders: fetchResult.headers,
-                displayColumnIndices: fetchResult.headers.map((_, index) => index),
-            };
-        }
-
-        // Filter columns based on visibleColumns prop
-        const indices: number[] = [];
-        const headers: string[] = [];
-        fetchResult.headers.forEach((header, index) => {
-            if (visibleColumns.includes(header)) {
-                headers.push(header);
-                indices.push(index);
-            }
-        });
-        return { displayHeaders: headers, displayColumnIndices: indices };
-
+    // visibleColumns are the grid's default; the user can show the rest
+    const displayHeaders = useMemo(() => {
+        if (!hasRawHeaders || !fetchResult?.headers) return [];
+        if (!visibleColumns || visibleColumns.length === 0) return fetchResult.headers;
+        return fetchResult.headers.filter(header => visibleColumns.includes(header));
     }, [fetchResult?.headers, hasRawHeaders, visibleColumns]);
 
-    // Adjust data validity check based on *filtered* columns
     const hasValidData = hasRawData && !isError && displayHeaders.length > 0;
-    // --- End Column Filtering Logic ---
 
 
     if (isLoading) {
@@ -194,7 +226,7 @@ const DataTableAccordion: React.FC<DataTableProps> = ({
             <Accordion type="single" collapsible className="w-full" defaultValue={defaultOpen ? accordionValue : undefined}>
                 <AccordionItem value={accordionValue} className="border-b">
                     <AccordionTrigger className="text-lg font-semibold hover:no-underline">{title}</AccordionTrigger>
-                    <AccordionContent><p className="p-4 text-neutral-500">{message}</p></AccordionContent>
+                    <AccordionContent><ParseReportNotice fetchResult={fetchResult} /><p className="p-4 text-neutral-500">{message}</p></AccordionContent>
                 </AccordionItem>
             </Accordion>
         );
@@ -204,38 +236,24 @@ const DataTableAccordion: React.FC<DataTableProps> = ({
     return (
         <Accordion type="single" collapsible className="w-full" defaultValue={defaultOpen ? accordionValue : undefined}>
             <AccordionItem value={accordionValue} className="border-b">
-                <AccordionTrigger className="text-lg font-semibold hover:no-underline">{title}</AccordionTrigger>
+                <AccordionTrigger className="text-lg font-semibold hover:no-underline">
+                    <span>
+                        {title}
+                        {fetchResult.currency && (
+                            <span className="ml-2 text-xs font-normal text-muted-foreground">Amounts in {fetchResult.currency}</span>
+                        )}
+                    </span>
+                </AccordionTrigger>
                 <AccordionContent>
-                    <div className="overflow-x-auto relative" style={{ maxHeight: maxHeight }}>
-                        <Table>
-                            <TableHeader className="sticky top-0 bg-background z-10 shadow-sm">
-                                <TableRow>
-                                    {/* Use filtered headers */}
-                                    {displayHeaders.map((h, i) => (
-                                        <TableHead key={`${title}-header-${i}`} className="whitespace-nowrap px-3 py-2 text-xs sm:text-sm">
-                                            {h || `Col_${i + 1}`}
-                                        </TableHead>
-                                    ))}
-                                </TableRow>
-                            </TableHeader>
-                            <TableBody>
-                                {fetchResult.data.map((row, i) => (
-                                    <TableRow key={`${title}-row-${i}`} className={i % 2 === 0 ? "bg-muted/30 hover:bg-muted/60" : "hover:bg-muted/60"}>
-                                        {Array.isArray(row) ? (
-                                            // Use filtered indices to get the correct cell data
-                                            displayColumnIndices.map((colIndex, j) => (
-                                                <TableCell key={`${title}-cell-${i}-${j}`} className="text-xs whitespace-nowrap px-3 py-1.5">
-                                                    {row[colIndex] === null || row[colIndex] === undefined || row[colIndex] === "" ? "-" : String(row[colIndex])}
-                                                </TableCell>
-                                            ))
-                                        ) : (
-                                             <TableCell colSpan={displayHeaders.length} className="text-xs text-red-500">Invalid row data format</TableCell>
-                                        )}
-                                    </TableRow>
-                                ))}
-                            </TableBody>
-                        </Table>
-                    </div>
+                    <ParseReportNotice fetchResult={fetchResult} />
+                    <DataGrid
+                        gridId={accordionValue}
+                        headers={fetchResult.headers}
+                        rows={fetchResult.data}
+                        defaultVisibleColumns={visibleColumns}
+                        maxHeight={maxHeight}
+                        toolbar={columns => exportOptions && <ExportLinks options={exportOptions} columns={columns} />}
+                    />
                 </AccordionContent>
             </AccordionItem>
         </Accordion>
@@ -244,6 +262,43 @@ const DataTableAccordion: React.FC<DataTableProps> = ({
 // --- End Helper Component ---
 
 
+// Reads the rows of a margin-call table into banner entries
+interface MarginCallEntry {
+    account: string | null;
+    amount: string | null;
+    dueDate: string | null;
+}
+
+function readMarginCalls(result?: FetchResultType): MarginCallEntry[] {
+    if (!result || result.error || !result.data?.length) return [];
+    const column = (name: string) => result.headers.indexOf(name);
+    const [accountIndex, amountIndex, dueDateIndex] = [column("Account"), column("MarginCallAmount"), column("DueDate")];
+    return result.data.map(row => ({
+        account: accountIndex !== -1 ? row[accountIndex] : null,
+        amount: amountIndex !== -1 ? row[amountIndex] : null,
+        dueDate: dueDateIndex !== -1 ? row[dueDateIndex] : null,
+    }));
+}
+
+
+// Turns normalized rows into the table shape DataTableAccordion renders
+function toFetchResult<T>(rows: T[], columns: [string, (row: T) => string | null][]): FetchResultType {
+    return {
+        headers: columns.map(([header]) => header),
+        data: rows.map(row => columns.map(([, value]) => value(row) ?? "")),
+    };
+}
+
+const LIVE_VIEW = "live";
+
+// Badge for the status of the live updates (positions and logs pushed by the server)
+const LIVE_STATUS_BADGES: Record<LiveStatus, { label: string; variant: "secondary" | "destructive" | "outline" }> = {
+    live: { label: "Live", variant: "secondary" },
+    auth_failed: { label: "Auth failed", variant: "destructive" },
+    error: { label: "Updates paused", variant: "outline" },
+};
+
+
 // --- Main Page Component ---
 export default function ConnectedDashboardPage() {
     const { id } = useParams<{ id: string }>();
@@ -251,7 +306,23 @@ export default function ConnectedDashboardPage() {
     const [_, setLocation] = useLocation();
     const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
     const [credentials, setCredentials] = useState<Record<string, string>>({});
+    const [initialCredentials, setInitialCredentials] = useState<Record<string, string>>({});
     const [showLogs, setShowLogs] = useState(false); // Logs section closed by default
+    const [dateRange, setDateRange] = useState<DateRange>(() => defaultDateRange()); // Applies to orders and statements
+    const [selectedAccount, setSelectedAccount] = useState<string>("all"); // Broker account code, or "all" for the aggregated view
+    const [selectedSnapshot, setSelectedSnapshot] = useState<string>(LIVE_VIEW); // Snapshot ID, or "live" for no snapshot
+
+    // Exports fetch the section again with the range and account on screen
+    const sectionExport = (section: ExportSection): SectionExportOptions => ({
+        connectionId: id,
+        section,
+        range: dateRange,
+        account: selectedAccount === "all" ? undefined : selectedAccount,
+    });
+
+    // Positions and logs are pushed into the query cache while the page is open
+    useLiveUpdates({ connectionId: Number(id), accountId: selectedAccount === "all" ? null : selectedAccount });
+    const liveStatus = useLiveStatus(Number(id));
 
     // --- React Query Hooks ---
 
@@ -269,15 +340,16 @@ export default function ConnectedDashboardPage() {
                 throw new Error(errorData.message || `HTTP error! status: ${res.status}`);
             }
             const data = await res.json();
-            // Pre-fill credentials state if available
+            // Pre-fill credentials state with non-secret values; secrets start empty
             if (data?.credentials && typeof data.credentials === "object") {
                 const stringCredentials: Record<string, string> = {};
                 for (const key in data.credentials) {
                     if (Object.prototype.hasOwnProperty.call(data.credentials, key)) {
-                        stringCredentials[key] = String(data.credentials[key] ?? "");
+                        stringCredentials[key] = data.credentials[key]?.value ?? "";
                     }
                 }
                 setCredentials(stringCredentials);
+                setInitialCredentials(stringCredentials);
             }
             return data;
         },
@@ -317,11 +389,12 @@ export default function ConnectedDashboardPage() {
         isFetching: isFetchingAccountDetails,
         isLoading: isInitialLoadingAccountDetails, // Separate state for initial load vs refetch
     } = useQuery<AccountDetailsResponse, Error>({
-        queryKey: [`/api/account-details/${id}`],
+        queryKey: [`/api/account-details/${id}`, dateRange.from, dateRange.to, selectedAccount],
         enabled: !!connection, // Enable only when connection data is loaded
         queryFn: async () => {
             console.log(`[Details Query] Fetching for connection ID: ${id}`);
-            const res = await apiRequest("GET", `/api/account-details/${id}`);
+            const params = new URLSearchParams({ from: dateRange.from, to: dateRange.to, account: selectedAccount });
+            const res = await apiRequest("GET", `/api/account-details/${id}?${params}`);
             if (!res.ok) {
                 const errorData = await res.json().catch(() => ({ message: "Failed to parse details error response" }));
                 console.error(`[Details Query] Fetch failed with status ${res.status}:`, errorData);
@@ -334,6 +407,10 @@ export default function ConnectedDashboardPage() {
                  console.error("[Details Query] Invalid data format received:", data);
                  throw new Error("Invalid data format received for account details.");
             }
+            // The server records the primary account on the connection once discovered
+            if (data.accounts?.[0] && data.accounts[0] !== connection?.accountId) {
+                queryClient.invalidateQueries({ queryKey: ["/api/connections"] });
+            }
             return data;
         },
         retry: (failureCount, error) => {
@@ -344,6 +421,7 @@ export default function ConnectedDashboardPage() {
         },
         refetchOnWindowFocus: false,
         staleTime: 5 * 60 * 1000,
+        placeholderData: (previous) => previous, // Keep the account switcher visible while another account loads
     });
 
     // Fetch Account Logs (uses AccountLogsResponse type)
@@ -382,6 +460,44 @@ export default function ConnectedDashboardPage() {
         staleTime: 5 * 60 * 1000,
     });
 
+    // Fetch the snapshot history (newest first)
+    const {
+        data: snapshots,
+        isLoading: isLoadingSnapshots,
+    } = useQuery<AccountSnapshotSummary[], Error>({
+        queryKey: [`/api/connections/${id}/snapshots`],
+        enabled: !!connection,
+        queryFn: async () => {
+            const res = await apiRequest("GET", `/api/connections/${id}/snapshots`);
+            if (!res.ok) {
+                const errorData = await res.json().catch(() => ({ message: "Failed to parse snapshots error response" }));
+                throw new Error(errorData.message || `HTTP error! status: ${res.status}`);
+            }
+            return await res.json();
+        },
+        refetchOnWindowFocus: false,
+        staleTime: 60 * 1000,
+    });
+
+    // Fetch the selected snapshot with its rows
+    const {
+        data: snapshot,
+        error: snapshotError,
+        isFetching: isFetchingSnapshot,
+    } = useQuery<AccountSnapshot, Error>({
+        queryKey: [`/api/connections/${id}/snapshots`, selectedSnapshot],
+        enabled: selectedSnapshot !== LIVE_VIEW,
+        queryFn: async () => {
+            const res = await apiRequest("GET", `/api/connections/${id}/snapshots/${selectedSnapshot}`);
+            if (!res.ok) {
+                const errorData = await res.json().catch(() => ({ message: "Failed to parse snapshot error response" }));
+                throw new Error(errorData.message || `HTTP error! status: ${res.status}`);
+            }
+            return await res.json();
+        },
+        staleTime: Infinity, // Snapshots never change
+    });
+
     // --- Mutations ---
     const disconnectMutation = useMutation({
         mutationFn: async () => apiRequest("DELETE", `/api/connections/${id}`),
@@ -422,13 +538,44 @@ export default function ConnectedDashboardPage() {
         },
     });
 
+    const takeSnapshotMutation = useMutation({
+        mutationFn: async () => {
+            const res = await apiRequest("POST", `/api/connections/${id}/snapshots`);
+            if (!res.ok) {
+                const errorData = await res.json().catch(() => ({ message: "Failed to parse snapshot error" }));
+                throw new Error(errorData.message || `HTTP error! status: ${res.status}`);
+            }
+            return await res.json() as AccountSnapshot;
+        },
+        onSuccess: (created) => {
+            toast({ title: "Snapshot Saved", description: `Snapshot taken at ${format(new Date(created.takenAt), "PPpp")}.` });
+            queryClient.invalidateQueries({ queryKey: [`/api/connections/${id}/snapshots`] });
+            setSelectedSnapshot(String(created.id));
+        },
+        onError: (error: Error) => {
+            toast({ title: "Snapshot Failed", description: error.message, variant: "destructive" });
+        },
+    });
+
     // --- Event Handlers ---
     const handleCredentialChange = (key: string, value: string) => {
         setCredentials((prev) => ({ ...prev, [key]: value }));
     };
 
     const handleUpdateCredentials = () => {
-        updateCredentialsMutation.mutate(credentials);
+        // Only send fields the user actually changed; blank secrets mean "keep current"
+        const changedCredentials: Record<string, string> = {};
+        for (const [key, value] of Object.entries(credentials)) {
+            const isSecret = connection?.credentials?.[key]?.isSecret ?? isSecretCredentialField(key);
+            if (isSecret ? value !== "" : value !== (initialCredentials[key] ?? "")) {
+                changedCredentials[key] = value;
+            }
+        }
+        if (Object.keys(changedCredentials).length === 0) {
+            toast({ title: "No Changes", description: "None of the credentials were changed." });
+            return;
+        }
+        updateCredentialsMutation.mutate(changedCredentials);
     };
 
     const handleToggleLogs = () => {
@@ -497,10 +644,13 @@ export default function ConnectedDashboardPage() {
     const hasTradingAccountsData = hasValidData(accountDetails?.tradingAccounts);
     const hasAccountStatementData = hasValidData(accountDetails?.accountStatement);
     const hasAccountInfoData = hasValidData(accountDetails?.accountInfo);
+    const marginCalls = readMarginCalls(accountDetails?.marginCalls);
+    const marginCallTotal = addDecimals("0", ...marginCalls.map(call => parseDecimal(call.amount) ?? "0"));
     const anyDetailsDataPresent = accountDetails && !accountDetailsFetchFailed && !accountDetailsAuthFailed &&
          [
              accountDetails.tradingAccounts, accountDetails.orderHistory, accountDetails.positions,
-             accountDetails.accountStatement, accountDetails.accountInfo
+             accountDetails.accountStatement, accountDetails.accountInfo, accountDetails.cdcHoldings,
+             accountDetails.openPositions, accountDetails.marketInfo
          ].some(section => section?.data?.length ?? 0 > 0);
     const defaultAccountDetailsTabValue = hasPositionsData ? "portfolio" : hasOrderHistoryData ? "orders" : (hasTradingAccountsData || hasAccountStatementData || hasAccountInfoData) ? "accounts" : "portfolio";
 
@@ -515,6 +665,35 @@ export default function ConnectedDashboardPage() {
                              : hasValidData(accountLogs?.outstandingLogs) ? "outstanding-log"
                              : "trade-log"; // Fallback
 
+    const snapshotTables = useMemo(() => snapshot && {
+        positions: toFetchResult(snapshot.positions, [
+            ["Account", p => p.accountId],
+            ["Symbol", p => p.symbol],
+            ["Quantity", p => p.quantity],
+            ["Average Cost", p => p.averageCost],
+            ["Market Price", p => p.marketPrice],
+            ["Market Value", p => p.marketValue],
+            ["Unrealized P/L", p => p.unrealizedPnl],
+            ["Currency", p => p.currency ?? null], // Absent from snapshots taken before currencies were recorded
+        ]),
+        balances: toFetchResult(snapshot.balances, [
+            ["Account", b => b.accountId],
+            ["Cash", b => b.cash],
+            ["Floating Balance", b => b.floatingBalance],
+            ["Available Amount", b => b.availableAmount],
+            ["Currency", b => b.currency ?? null],
+        ]),
+        exposure: toFetchResult(snapshot.exposure, [
+            ["Account", e => e.accountId],
+            ["Market", e => e.market],
+            ["Allowed Limit", e => e.allowedLimit],
+            ["Available Amount", e => e.availableAmount],
+            ["Exposure", e => e.exposure],
+            ["Profit/Loss", e => e.profitLoss],
+        ]),
+    }, [snapshot]);
+    const snapshotErrors = Object.entries(snapshot?.errors ?? {});
+
     // --- RENDER LOGIC ---
     if (isLoadingPage) {
         // ... (skeleton remains the same)
@@ -554,6 +733,11 @@ export default function ConnectedDashboardPage() {
                         <CardDescription>{broker ? `${broker.name} Connection` : "Direct Exchange Connection"}{connection.accountId ? ` (${connection.accountId})` : ""}</CardDescription>
                     </div>
                     <div className="flex items-center">
+                        {liveStatus && (
+                            <Badge variant={LIVE_STATUS_BADGES[liveStatus.status].variant} className="mr-3" title={liveStatus.message ?? `Updated ${format(new Date(liveStatus.at), "PPpp")}`}>
+                                {LIVE_STATUS_BADGES[liveStatus.status].label}
+                            </Badge>
+                        )}
                         <span className={`h-3 w-3 ${connection.isActive ? "bg-green-500" : "bg-neutral-400"} rounded-full mr-2`}></span>
                         <span className={`text-sm ${connection.isActive ? "text-green-600" : "text-neutral-500"} font-medium`}>{connection.isActive ? "Active" : "Inactive"}</span>
                     </div>
@@ -581,9 +765,23 @@ export default function ConnectedDashboardPage() {
                     {/* Header remains the same */}
                     <div className="flex justify-between items-center">
                         <div><CardTitle>Account Details</CardTitle><CardDescription>Account summary, portfolio, and orders</CardDescription></div>
-                        <Button variant="outline" onClick={() => refetchAccountDetails()} disabled={isFetchingAccountDetails}>
-                            {isFetchingAccountDetails ? <><RefreshCw className="mr-2 h-4 w-4 animate-spin" />Loading...</> : <><RefreshCw className="mr-2 h-4 w-4" />Refresh</>}
-                        </Button>
+                        <div className="flex items-center gap-2">
+                            {(accountDetails?.accounts?.length ?? 0) > 1 && (
+                                <Select value={selectedAccount} onValueChange={setSelectedAccount} disabled={isFetchingAccountDetails}>
+                                    <SelectTrigger className="w-44"><SelectValue placeholder="Account" /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="all">All accounts</SelectItem>
+                                        {accountDetails!.accounts!.map(account => (
+                                            <SelectItem key={account} value={account}>{account}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            )}
+                            <DateRangePicker value={dateRange} onChange={setDateRange} disabled={isFetchingAccountDetails} />
+                            <Button variant="outline" onClick={() => refetchAccountDetails()} disabled={isFetchingAccountDetails}>
+                                {isFetchingAccountDetails ? <><RefreshCw className="mr-2 h-4 w-4 animate-spin" />Loading...</> : <><RefreshCw className="mr-2 h-4 w-4" />Refresh</>}
+                            </Button>
+                        </div>
                     </div>
                 </CardHeader>
                 <CardContent>
@@ -594,6 +792,31 @@ export default function ConnectedDashboardPage() {
                     : accountDetailsPartialError ? ( <Card className="border-orange-200 bg-orange-50 mt-4"><CardContent className="pt-6"><div className="flex items-center text-orange-800"><Info className="h-5 w-5 mr-2 shrink-0" /><p>Could not load all account details. Some sections might show errors.</p></div></CardContent></Card> )
                     : null }
 
+                    {/* Margin Call Banner */}
+                    {!isInitialLoadingAccountDetails && !accountDetailsAuthFailed && marginCalls.length > 0 && (
+                        <Card className="border-red-200 bg-red-50 mt-4">
+                            <CardContent className="pt-6">
+                                <div className="flex items-start text-red-800">
+                                    <AlertTriangle className="h-5 w-5 mr-2 mt-0.5 shrink-0" />
+                                    <div>
+                                        <p className="font-medium">
+                                            {marginCalls.length === 1 ? "Margin call outstanding" : `${marginCalls.length} margin calls outstanding`}
+                                            {marginCalls.length > 1 && ` (total ${Number(marginCallTotal).toLocaleString()})`}
+                                        </p>
+                                        <ul className="mt-1 text-sm space-y-0.5">
+                                            {marginCalls.map((call, i) => (
+                                                <li key={`margin-call-${i}`}>
+                                                    {call.account || "Account"}: {call.amount ?? "amount not reported"}
+                                                    {call.dueDate && ` due ${call.dueDate}`}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )}
+
                     {/* Account Details Tabs */}
                     {!isInitialLoadingAccountDetails && !accountDetailsAuthFailed && !accountDetailsFetchFailed && (
                         anyDetailsDataPresent ? (
@@ -601,20 +824,42 @@ export default function ConnectedDashboardPage() {
                                 <TabsList className="w-full justify-start border-b pb-0 mb-4 overflow-x-auto">
                                     {accountDetails?.positions && <TabsTrigger value="portfolio"><BarChart3 className="h-4 w-4 mr-2" />Portfolio</TabsTrigger>}
                                     {accountDetails?.orderHistory && <TabsTrigger value="orders"><ListFilter className="h-4 w-4 mr-2" />Orders</TabsTrigger>}
+                                    {accountDetails?.orderHistory && <TabsTrigger value="pnl"><Scale className="h-4 w-4 mr-2" />P&L</TabsTrigger>}
+                                    {accountDetails?.orderHistory && <TabsTrigger value="tax"><Receipt className="h-4 w-4 mr-2" />Tax</TabsTrigger>}
+                                    {accountDetails?.accounts && <TabsTrigger value="trade"><ArrowLeftRight className="h-4 w-4 mr-2" />Trade</TabsTrigger>}
                                     {(accountDetails?.tradingAccounts || accountDetails?.accountStatement || accountDetails?.accountInfo) && <TabsTrigger value="accounts"><Key className="h-4 w-4 mr-2" />Accounts & Info</TabsTrigger>}
+                                    {accountDetails?.marketInfo && <TabsTrigger value="market"><TrendingUp className="h-4 w-4 mr-2" />Market</TabsTrigger>}
                                 </TabsList>
 
                                 {/* Portfolio Tab */}
-                                {accountDetails?.positions && <TabsContent value="portfolio" className="mt-2">
+                                {accountDetails?.positions && <TabsContent value="portfolio" className="mt-2 space-y-4">
+                                    <PortfolioCharts connectionId={id} />
                                     <DataTableAccordion
                                         title="Portfolio Positions"
                                         fetchResult={accountDetails.positions}
+                                        exportOptions={sectionExport("positions")}
                                         isLoading={isFetchingAccountDetails && !accountDetails.positions}
                                         error={accountDetails.positions?.error}
                                         // EXAMPLE: Uncomment and list the EXACT header names you want to see
                                         // visibleColumns={["Symbol", "Quantity", "Average Price", "Last Price", "Unrealized P/L", "Market Value"]}
                                         // defaultOpen={true} // defaultOpen is now true by default in the component
                                     />
+                                    {accountDetails.cdcHoldings &&
+                                        <DataTableAccordion
+                                            title="CDC Holdings"
+                                            fetchResult={accountDetails.cdcHoldings}
+                                            exportOptions={sectionExport("cdcHoldings")}
+                                            isLoading={isFetchingAccountDetails && !accountDetails.cdcHoldings}
+                                            error={accountDetails.cdcHoldings?.error}
+                                        />}
+                                    {accountDetails.openPositions &&
+                                        <DataTableAccordion
+                                            title="Open Positions"
+                                            fetchResult={accountDetails.openPositions}
+                                            exportOptions={sectionExport("openPositions")}
+                                            isLoading={isFetchingAccountDetails && !accountDetails.openPositions}
+                                            error={accountDetails.openPositions?.error}
+                                        />}
                                 </TabsContent>}
 
                                 {/* Orders Tab */}
@@ -622,6 +867,7 @@ export default function ConnectedDashboardPage() {
                                     <DataTableAccordion
                                         title="Order History"
                                         fetchResult={accountDetails.orderHistory}
+                                        exportOptions={sectionExport("orderHistory")}
                                         isLoading={isFetchingAccountDetails && !accountDetails.orderHistory}
                                         error={accountDetails.orderHistory?.error}
                                         // EXAMPLE: Uncomment and list the EXACT header names you want to see
@@ -629,6 +875,25 @@ export default function ConnectedDashboardPage() {
                                     />
                                 </TabsContent>}
 
+                                {/* P&L Tab */}
+                                {accountDetails?.orderHistory && <TabsContent value="pnl" className="mt-2">
+                                    <ProfitAndLoss connectionId={id} />
+                                </TabsContent>}
+
+                                {/* Tax Tab */}
+                                {accountDetails?.orderHistory && <TabsContent value="tax" className="mt-2">
+                                    <CapitalGainsTax connectionId={id} />
+                                </TabsContent>}
+
+                                {/* Trade Tab */}
+                                {accountDetails?.accounts && <TabsContent value="trade" className="mt-2">
+                                    <OrderEntry
+                                        connectionId={id}
+                                        accounts={accountDetails.accounts}
+                                        selectedAccount={selectedAccount === "all" ? undefined : selectedAccount}
+                                    />
+                                </TabsContent>}
+
                                 {/* Accounts & Info Tab */}
                                 {(accountDetails?.tradingAccounts || accountDetails?.accountStatement || accountDetails?.accountInfo) && (
                                     <TabsContent value="accounts" className="mt-2 space-y-4">
@@ -636,6 +901,7 @@ export default function ConnectedDashboardPage() {
                                             <DataTableAccordion
                                                 title="Trading Accounts"
                                                 fetchResult={accountDetails.tradingAccounts}
+                                                exportOptions={sectionExport("tradingAccounts")}
                                                 isLoading={isFetchingAccountDetails && !accountDetails.tradingAccounts}
                                                 error={accountDetails.tradingAccounts?.error}
                                                 // EXAMPLE: Uncomment and list columns
@@ -645,6 +911,7 @@ export default function ConnectedDashboardPage() {
                                             <DataTableAccordion
                                                 title="Account Info Summary"
                                                 fetchResult={accountDetails.accountInfo}
+                                                exportOptions={sectionExport("accountInfo")}
                                                 isLoading={isFetchingAccountDetails && !accountDetails.accountInfo}
                                                 error={accountDetails.accountInfo?.error}
                                                 maxHeight="300px"
@@ -655,13 +922,34 @@ export default function ConnectedDashboardPage() {
                                             <DataTableAccordion
                                                 title="Account Statement"
                                                 fetchResult={accountDetails.accountStatement}
+                                                exportOptions={sectionExport("accountStatement")}
                                                 isLoading={isFetchingAccountDetails && !accountDetails.accountStatement}
                                                 error={accountDetails.accountStatement?.error}
                                                  // EXAMPLE: Uncomment and list columns
                                                 // visibleColumns={["Date", "Description", "Debit", "Credit", "Balance"]}
                                             />}
+                                        {accountDetails?.commissionSummary &&
+                                            <DataTableAccordion
+                                                title="Commission Summary"
+                                                fetchResult={accountDetails.commissionSummary}
+                                                exportOptions={sectionExport("commissionSummary")}
+                                                isLoading={isFetchingAccountDetails && !accountDetails.commissionSummary}
+                                                error={accountDetails.commissionSummary?.error}
+                                                maxHeight="300px"
+                                            />}
                                     </TabsContent>
                                 )}
+
+                                {/* Market Tab */}
+                                {accountDetails?.marketInfo && <TabsContent value="market" className="mt-2">
+                                    <DataTableAccordion
+                                        title="Market Movers"
+                                        fetchResult={accountDetails.marketInfo}
+                                        exportOptions={sectionExport("marketInfo")}
+                                        isLoading={isFetchingAccountDetails && !accountDetails.marketInfo}
+                                        error={accountDetails.marketInfo?.error}
+                                    />
+                                </TabsContent>}
                             </Tabs>
                         ) : (
                              !accountDetailsAuthFailed && !accountDetailsFetchFailed && <div className="text-center py-10 mt-4"><p className="text-neutral-500">No detailed account information available for this connection.</p></div>
@@ -670,6 +958,49 @@ export default function ConnectedDashboardPage() {
                 </CardContent>
             </Card>
 
+             {/* Snapshot History Section */}
+             <Card>
+                <CardHeader>
+                    <div className="flex justify-between items-center">
+                        <div><CardTitle className="flex items-center"><History className="h-5 w-5 mr-2" /> Snapshot History</CardTitle><CardDescription>Positions, balances and exposure as refreshed during market hours</CardDescription></div>
+                        <div className="flex items-center gap-2">
+                            <Select value={selectedSnapshot} onValueChange={setSelectedSnapshot} disabled={isLoadingSnapshots}>
+                                <SelectTrigger className="w-64"><SelectValue placeholder="Snapshot" /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={LIVE_VIEW}>None selected</SelectItem>
+                                    {snapshots?.map(entry => (
+                                        <SelectItem key={entry.id} value={String(entry.id)}>
+                                            {format(new Date(entry.takenAt), "PPpp")}{entry.trigger === "manual" ? " (manual)" : ""}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Button variant="outline" onClick={() => takeSnapshotMutation.mutate()} disabled={takeSnapshotMutation.isPending}>
+                                {takeSnapshotMutation.isPending ? <><RefreshCw className="mr-2 h-4 w-4 animate-spin" />Saving...</> : <><Camera className="mr-2 h-4 w-4" />Take Snapshot</>}
+                            </Button>
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {selectedSnapshot === LIVE_VIEW ? (
+                        <p className="text-center py-6 text-neutral-500">
+                            {snapshots?.length ? `${snapshots.length} snapshot${snapshots.length === 1 ? "" : "s"} stored. Pick one to see the account as it was then.` : "No snapshots stored for this connection yet."}
+                        </p>
+                    ) : snapshotError ? (
+                        <Card className="border-yellow-200 bg-yellow-50 mt-4"><CardContent className="pt-6"><div className="flex items-center text-yellow-800"><Info className="h-5 w-5 mr-2 shrink-0" /><p>Failed to load snapshot. {snapshotError.message}</p></div></CardContent></Card>
+                    ) : (
+                        <div className="space-y-4">
+                            {snapshotErrors.length > 0 && (
+                                <Card className="border-orange-200 bg-orange-50"><CardContent className="pt-6"><div className="flex items-start text-orange-800"><Info className="h-5 w-5 mr-2 mt-0.5 shrink-0" /><div>{snapshotErrors.map(([section, message]) => <p key={section}>Could not refresh {section}: {message}</p>)}</div></div></CardContent></Card>
+                            )}
+                            <DataTableAccordion title="Snapshot Positions" fetchResult={snapshotTables?.positions} isLoading={isFetchingSnapshot && !snapshot} />
+                            <DataTableAccordion title="Snapshot Balances" fetchResult={snapshotTables?.balances} isLoading={isFetchingSnapshot && !snapshot} maxHeight="300px" />
+                            <DataTableAccordion title="Snapshot Exposure" fetchResult={snapshotTables?.exposure} isLoading={isFetchingSnapshot && !snapshot} maxHeight="300px" />
+                        </div>
+                    )}
+                </CardContent>
+             </Card>
+
              {/* Logs Section */}
              <Card>
                 <CardHeader>
@@ -716,6 +1047,7 @@ export default function ConnectedDashboardPage() {
                                               <DataTableAccordion
                                                   title="Trade Log"
                                                   fetchResult={accountLogs.tradeLogs}
+                                                  exportOptions={{ connectionId: id, section: "tradeLogs" }}
                                                   isLoading={isFetchingAccountLogs && !accountLogs.tradeLogs}
                                                   error={accountLogs.tradeLogs?.error}
                                                   maxHeight="600px"
@@ -730,6 +1062,7 @@ export default function ConnectedDashboardPage() {
                                               <DataTableAccordion
                                                   title="Daily Activity Log"
                                                   fetchResult={accountLogs.activityLogs}
+                                                  exportOptions={{ connectionId: id, section: "activityLogs" }}
                                                   isLoading={isFetchingAccountLogs && !accountLogs.activityLogs}
                                                   error={accountLogs.activityLogs?.error}
                                                   maxHeight="600px"
@@ -744,6 +1077,7 @@ export default function ConnectedDashboardPage() {
                                               <DataTableAccordion
                                                   title="Outstanding Log"
                                                   fetchResult={accountLogs.outstandingLogs}
+                                                  exportOptions={{ connectionId: id, section: "outstandingLogs" }}
                                                   isLoading={isFetchingAccountLogs && !accountLogs.outstandingLogs}
                                                   error={accountLogs.outstandingLogs?.error}
                                                   maxHeight="600px"
@@ -775,7 +1109,7 @@ export default function ConnectedDashboardPage() {
                              credentialFields.map(field => (
                                  <div className="grid grid-cols-4 items-center gap-4" key={field.name}>
                                      <Label htmlFor={field.name} className="text-right">{field.label}</Label>
-                                     <Input id={field.name} type={/password|secret|pin/i.test(field.name) ? "password" : "text"} className="col-span-3" value={credentials[field.name] || ""} onChange={e => handleCredentialChange(field.name, e.target.value)} autoComplete="new-password" />
+                                     <Input id={field.name} type={isSecretCredentialField(field.name) ? "password" : "text"} className="col-span-3" value={credentials[field.name] || ""} placeholder={connection.credentials?.[field.name]?.hasValue ? `${connection.credentials[field.name].hint ?? ""} (unchanged)`.trim() : ""} onChange={e => handleCredentialChange(field.name, e.target.value)} autoComplete="new-password" />
                                  </div>
                              ))
                          }
@@ -10,44 +10,34 @@ import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
-import { Exchange, Broker, connectionRequestSchema, connectionTestSchema, ConnectionRequest, ConnectionTest } from "@shared/schema";
+import {
+  Exchange,
+  Broker,
+  ConnectionRequest,
+  ConnectionTest,
+  CredentialField,
+  CredentialSchema,
+  buildCredentialsSchema,
+} from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { BoltIcon, UserIcon, ClipboardCheckIcon, CheckCircle2Icon, XCircleIcon } from "lucide-react";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 
 // Form Schema
+// Credential fields are validated against the broker's published schema, see buildFormSchema
 const formSchema = z.object({
   marketType: z.string().min(1, "Market type is required"),
   exchangeId: z.string().min(1, "Exchange is required"),
   exchangeType: z.enum(["spot", "futures"]),
   brokerId: z.string().optional(),
   authMethod: z.enum(["api", "credentials"]),
-  // API auth fields
-  apiKey: z.string().optional(),
-  apiSecret: z.string().optional(),
-  // Credential auth fields
-  username: z.string().optional(),
-  password: z.string().optional(),
-  accountNumber: z.string().optional(),
-  pin: z.string().optional(),
-}).refine(data => {
-  if (data.authMethod === "api") {
-    return !!data.apiKey && !!data.apiSecret;
-  }
-  return true;
-}, {
-  message: "API key and secret are required for API authentication",
-  path: ["apiKey"],
-}).refine(data => {
-  if (data.authMethod === "credentials") {
-    return !!data.username && !!data.password;
-  }
-  return true;
-}, {
-  message: "Username and password are required for credentials authentication",
-  path: ["username"],
+  credentials: z.record(z.string(), z.string().optional()),
 });
 
+function buildFormSchema(fields: CredentialField[]) {
+  return formSchema.extend({ credentials: buildCredentialsSchema(fields) });
+}
+
 type FormValues = z.infer<typeof formSchema>;
 
 export default function ExchangeConnectPage() {
@@ -59,6 +49,21 @@ export default function ExchangeConnectPage() {
   const [connectionStatus, setConnectionStatus] = useState<'not_tested' | 'testing' | 'success' | 'failed'>('not_tested');
   const [testError, setTestError] = useState<string | null>(null);
 
+  // The resolver reads the current fields through a ref so it follows schema changes
+  const credentialFieldsRef = useRef<CredentialField[]>([]);
+  const form = useForm<FormValues>({
+    resolver: (values, context, options) =>
+      zodResolver(buildFormSchema(credentialFieldsRef.current))(values, context, options),
+    defaultValues: {
+      marketType: "",
+      exchangeId: "",
+      exchangeType: "spot",
+      brokerId: "",
+      authMethod: "api",
+      credentials: {},
+    },
+  });
+
   // Fetch all exchanges
   const { data: exchanges, isLoading: exchangesLoading } = useQuery<Exchange[]>({
     queryKey: ["/api/exchanges"],
@@ -80,6 +85,32 @@ export default function ExchangeConnectPage() {
     enabled: !!selectedExchangeId,
   });
 
+  // Fetch the credential fields for the selected broker, or for the exchange on direct connections
+  const selectedBrokerId = form.watch("brokerId");
+  const credentialSchemaUrl = selectedBrokerId && selectedBrokerId !== "direct_connection"
+    ? `/api/brokers/${selectedBrokerId}/credential-schema`
+    : selectedExchange && (!selectedExchange.requiresBroker || selectedBrokerId === "direct_connection")
+      ? `/api/exchanges/${selectedExchange.id}/credential-schema`
+      : null;
+  const { data: credentialSchema, isLoading: credentialSchemaLoading } = useQuery<CredentialSchema>({
+    queryKey: [credentialSchemaUrl],
+    enabled: !!credentialSchemaUrl,
+  });
+
+  const authMethod = form.watch("authMethod");
+  const credentialFields = credentialSchema?.fields[authMethod] ?? [];
+  credentialFieldsRef.current = credentialFields;
+
+  // Reset credential inputs and pick a supported auth method whenever the schema changes
+  useEffect(() => {
+    if (!credentialSchema) return;
+    form.setValue("credentials", {});
+    const methods = credentialSchema.authMethods;
+    if (methods.length > 0 && !methods.includes(form.getValues("authMethod"))) {
+      form.setValue("authMethod", methods[0]);
+    }
+  }, [credentialSchema, form]);
+
   // Create connection mutation
   const connectionMutation = useMutation({
     mutationFn: async (data: ConnectionRequest) => {
@@ -135,23 +166,6 @@ export default function ExchangeConnectPage() {
     },
   });
 
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      marketType: "",
-      exchangeId: "",
-      exchangeType: "spot",
-      brokerId: "",
-      authMethod: "api",
-      apiKey: "",
-      apiSecret: "",
-      username: "",
-      password: "",
-      accountNumber: "",
-      pin: "",
-    },
-  });
-
   // Update exchange options when market type changes
   useEffect(() => {
     if (selectedMarketType) {
@@ -173,21 +187,13 @@ export default function ExchangeConnectPage() {
 
   // Helper function to prepare connection data
   function prepareConnectionData(data: FormValues): { credentials: Record<string, string>, connectionData: ConnectionRequest } {
-    // Prepare credentials object based on auth method
-    let credentials = {};
-
-    if (data.authMethod === "api") {
-      credentials = {
-        apiKey: data.apiKey,
-        apiSecret: data.apiSecret,
-      };
-    } else {
-      credentials = {
-        username: data.username,
-        password: data.password,
-        ...(data.accountNumber && { accountNumber: data.accountNumber }),
-        ...(data.pin && { pin: data.pin }),
-      };
+    // Keep only the fields the broker declares for the chosen auth method
+    const credentials: Record<string, string> = {};
+    for (const field of credentialFields) {
+      const value = data.credentials[field.name]?.trim();
+      if (value) {
+        credentials[field.name] = value;
+      }
     }
 
     // Create connection request
@@ -338,6 +344,7 @@ export default function ExchangeConnectPage() {
                               <SelectItem value="forex">Forex</SelectItem>
                               <SelectItem value="commodity">Commodities</SelectItem>
                               <SelectItem value="metals">Metals</SelectItem>
+                              <SelectItem value="paper">Paper trading</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormMessage />
@@ -434,29 +441,18 @@ export default function ExchangeConnectPage() {
                         control={form.control}
                         name="authMethod"
                         render={({ field }) => {
-                          // Determine available auth methods based on broker or exchange
-                          const selectedBrokerId = form.watch("brokerId");
-                          const selectedBroker = selectedBrokerId ? brokers?.find(b => b.id.toString() === selectedBrokerId) : null;
-
-                          // Use broker's auth methods if available, otherwise use default options
-                          const authMethods = selectedBroker?.authMethods || ['api', 'credentials'];
+                          // Only offer the auth methods the broker's credential schema supports
+                          const authMethods = credentialSchema?.authMethods ?? [];
                           const showApiOption = authMethods.includes('api');
                           const showCredentialsOption = authMethods.includes('credentials');
 
-                          // If current selected auth method isn't supported by this broker, switch to first available
-                          useEffect(() => {
-                            if (selectedBroker && authMethods.length > 0 && !authMethods.includes(field.value)) {
-                              field.onChange(authMethods[0]);
-                            }
-                          }, [selectedBrokerId, field, authMethods]);
-
                           return (
                             <FormItem className="space-y-3">
                               <div className="flex justify-between">
                                 <FormLabel>Authentication Method</FormLabel>
-                                {selectedBroker && (
+                                {credentialSchema && (
                                   <span className="text-xs text-neutral-500">
-                                    {selectedBroker.name} supports: {authMethods.join(', ')}
+                                    {credentialSchema.adapter} supports: {authMethods.join(', ')}
                                   </span>
                                 )}
                               </div>
@@ -494,95 +490,40 @@ export default function ExchangeConnectPage() {
                         }}
                       />
 
-                      {/* API Authentication Fields */}
-                      {form.watch("authMethod") === "api" && (
-                        <div className="space-y-4">
-                          <FormField
-                            control={form.control}
-                            name="apiKey"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>API Key</FormLabel>
-                                <FormControl>
-                                  <Input placeholder="Enter your API key" {...field} />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            control={form.control}
-                            name="apiSecret"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>API Secret</FormLabel>
-                                <FormControl>
-                                  <Input type="password" placeholder="Enter your API secret" {...field} />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                        </div>
+                      {!credentialSchemaUrl && (
+                        <p className="text-sm text-neutral-500">Select an exchange and broker to see the required credentials.</p>
+                      )}
+                      {credentialSchemaLoading && (
+                        <p className="text-sm text-neutral-500">Loading credential fields...</p>
                       )}
 
-                      {/* Credentials Authentication Fields */}
-                      {form.watch("authMethod") === "credentials" && (
-                        <div className="space-y-4">
+                      {/* Credential fields published by the broker for the chosen auth method */}
+                      <div className="space-y-4">
+                        {credentialFields.map((credentialField) => (
                           <FormField
+                            key={`${authMethod}.${credentialField.name}`}
                             control={form.control}
-                            name="username"
+                            name={`credentials.${credentialField.name}`}
                             render={({ field }) => (
                               <FormItem>
-                                <FormLabel>Username</FormLabel>
+                                <FormLabel>
+                                  {credentialField.label}{!credentialField.required && " (optional)"}
+                                </FormLabel>
                                 <FormControl>
-                                  <Input placeholder="Enter your username" {...field} />
+                                  <Input
+                                    type={credentialField.type}
+                                    placeholder={credentialField.placeholder ?? `Enter your ${credentialField.label.toLowerCase()}`}
+                                    autoComplete={credentialField.secret ? "new-password" : "off"}
+                                    {...field}
+                                    value={field.value ?? ""}
+                                  />
                                 </FormControl>
                                 <FormMessage />
                               </FormItem>
                             )}
                           />
-                          <FormField
-                            control={form.control}
-                            name="password"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Password</FormLabel>
-                                <FormControl>
-                                  <Input type="password" placeholder="Enter your password" {...field} />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            control={form.control}
-                            name="accountNumber"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Account Number (optional)</FormLabel>
-                                <FormControl>
-                                  <Input placeholder="Enter your account number" {...field} />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            control={form.control}
-                            name="pin"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>PIN (optional)</FormLabel>
-                                <FormControl>
-                                  <Input type="password" placeholder="Enter your PIN" {...field} />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                        </div>
-                      )}
+                        ))}
+                      </div>
                     </div>
 
                     <div className="flex">
@@ -3,13 +3,13 @@ import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { apiRequest } from "@/lib/queryClient";
-import { useEffect } from "react";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 import { ArrowRight } from "lucide-react";
 
 export default function HomePage() {
   const [_, setLocation] = useLocation();
 
-  const { data: connections, refetch } = useQuery({
+  const { data: connections } = useQuery({
     queryKey: ["/api/connections"],
     queryFn: async () => {
       const res = await apiRequest("GET", "/api/connections");
@@ -34,29 +34,23 @@ export default function HomePage() {
   });
 
 
-  // Refresh data when page becomes visible
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        refetch();
-      }
-    };
-
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [refetch]);
+  // Connection changes are pushed into the cache by the server
+  useLiveUpdates();
 
   return (
     <div className="mt-10 space-y-6">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-semibold">Your Accounts</h1>
-        <Link href="/connect">
-          <Button className="bg-black text-white hover:bg-black/90">
-            Add Exchange
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/portfolio">
+            <Button variant="outline">Combined Portfolio</Button>
+          </Link>
+          <Link href="/connect">
+            <Button className="bg-black text-white hover:bg-black/90">
+              Add Exchange
+            </Button>
+          </Link>
+        </div>
       </div>
       {connections && connections.length > 0 ? (
         connections.map((connection: any) => {
@@ -76,8 +70,8 @@ export default function HomePage() {
                     </CardTitle>
                     <CardDescription>
                       <div className="space-y-1">
-                        <div>Account: {connection.accountId || connection.credentials?.accountNumber || 'N/A'}</div>
-                        <div>User ID: {connection.credentials?.username || 'N/A'}</div>
+                        <div>Account: {connection.accountId || connection.credentials?.accountNumber?.value || 'N/A'}</div>
+                        <div>User ID: {connection.credentials?.username?.value || 'N/A'}</div>
                         <div>Broker: {brokers?.find(b => b.id === connection.brokerId)?.name || 'N/A'}</div> {/* Added Broker information */}
                       </div>
                     </CardDescription>
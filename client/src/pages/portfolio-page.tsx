@@ -0,0 +1,297 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import BaseCurrencySelect from "@/components/BaseCurrencySelect";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { apiRequest } from "@/lib/queryClient";
+import type { Decimal } from "@shared/decimal";
+import { NATIVE_CURRENCY, type FxConversion } from "@shared/fx";
+import type { Portfolio, PortfolioConnection, PortfolioTotal } from "@shared/portfolio";
+
+function formatAmount(value: Decimal | null, currency: string | null): string {
+  if (value === null) return "-";
+  const amount = Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return currency ? `${amount} ${currency}` : amount;
+}
+
+// e.g. "1 PKR = 0.0036 USD on 2026-10-01"
+function formatRate(fx: FxConversion): string {
+  const rate = Number(fx.rate).toLocaleString(undefined, { maximumSignificantDigits: 6 });
+  return `1 ${fx.from} = ${rate} ${fx.to}${fx.rateDate ? ` on ${fx.rateDate}` : ""}`;
+}
+
+const STATUS_BADGES: Record<PortfolioConnection["status"], { label: string; className: string }> = {
+  ok: { label: "Live", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  partial: { label: "Partial", className: "bg-orange-100 text-orange-800 hover:bg-orange-100" },
+  stale: { label: "Snapshot", className: "bg-amber-100 text-amber-800 hover:bg-amber-100" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+  unsupported: { label: "No data", className: "bg-neutral-100 text-neutral-600 hover:bg-neutral-100" },
+};
+
+// How old the figures are, e.g. "live, 2 minutes ago" or "snapshot from 3 hours ago"
+function freshness(entry: PortfolioConnection): string {
+  if (!entry.asOf) return "No data";
+  const age = formatDistanceToNow(new Date(entry.asOf), { addSuffix: true });
+  return entry.source === "snapshot" ? `Snapshot from ${age}` : `Fetched ${age}`;
+}
+
+function TotalsTable({ totals, label }: { totals: PortfolioTotal[]; label: string }) {
+  if (totals.length === 0) {
+    return <p className="p-4 text-sm text-neutral-500">No holdings to total.</p>;
+  }
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead>Currency</TableHead>
+          <TableHead className="text-right">Holdings</TableHead>
+          <TableHead className="text-right">Cash</TableHead>
+          <TableHead className="text-right">Total</TableHead>
+          <TableHead className="text-right">Connections</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {totals.map((total) => (
+          <TableRow key={`${total.key}-${total.currency}`}>
+            <TableCell className="font-medium capitalize">{total.key}</TableCell>
+            <TableCell>{total.currency ?? "Unknown"}</TableCell>
+            <TableCell className="text-right">{formatAmount(total.marketValue, total.currency)}</TableCell>
+            <TableCell className="text-right">{formatAmount(total.cash, total.currency)}</TableCell>
+            <TableCell className="text-right font-medium">{formatAmount(total.totalValue, total.currency)}</TableCell>
+            <TableCell className="text-right">{total.connectionIds.length}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function PortfolioPage() {
+  const [baseCurrency, setBaseCurrency] = useBaseCurrency();
+
+  const { data: portfolio, isLoading, isFetching, error, refetch } = useQuery<Portfolio, Error>({
+    queryKey: ["/api/portfolio", baseCurrency],
+    queryFn: async () => {
+      const query = baseCurrency === NATIVE_CURRENCY ? "" : `?${new URLSearchParams({ base: baseCurrency })}`;
+      const res = await apiRequest("GET", `/api/portfolio${query}`);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ message: "Failed to parse portfolio error response" }));
+        throw new Error(errorData.message || `HTTP error! status: ${res.status}`);
+      }
+      return res.json();
+    },
+    refetchOnWindowFocus: false,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const problems = portfolio?.connections.filter((entry) => entry.error) ?? [];
+  // Distinct rates behind the converted figures
+  const ratesUsed = Array.from(new Map(
+    (portfolio?.connections ?? []).flatMap((entry) => (entry.fx ? [[formatRate(entry.fx), entry.fx] as const] : [])),
+  ).keys());
+
+  return (
+    <div className="mt-10 space-y-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Portfolio</h1>
+          <p className="text-sm text-muted-foreground">
+            {baseCurrency === NATIVE_CURRENCY
+              ? "Positions and cash across every active connection. Amounts are only added up within the same currency."
+              : `Positions and cash across every active connection, converted into ${baseCurrency}.`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <BaseCurrencySelect value={baseCurrency} onChange={setBaseCurrency} />
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+            {isFetching ? "Loading..." : "Refresh"}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-60 w-full" />
+        </div>
+      ) : error ? (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="pt-6 text-red-800">Could not load the portfolio. {error.message}</CardContent>
+        </Card>
+      ) : !portfolio || portfolio.connections.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center">No active connections. Connect an exchange to build your portfolio.</p>
+            <div className="mt-4 flex justify-center">
+              <Link href="/connect"><Button>Connect Exchange</Button></Link>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {problems.length > 0 && (
+            <Card className="border-orange-200 bg-orange-50">
+              <CardContent className="pt-6">
+                <div className="flex items-start text-orange-800">
+                  <AlertTriangle className="h-5 w-5 mr-2 mt-0.5 shrink-0" />
+                  <div className="text-sm space-y-0.5">
+                    <p className="font-medium">Some connections could not be refreshed; their figures are missing or come from an earlier snapshot.</p>
+                    {problems.map((entry) => (
+                      <p key={entry.connectionId}>{entry.broker ?? entry.exchange}: {entry.error}</p>
+                    ))}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {portfolio.fxMissing.length > 0 && (
+            <Card className="border-amber-200 bg-amber-50">
+              <CardContent className="pt-6 text-sm text-amber-800">
+                No {portfolio.baseCurrency} rate for {portfolio.fxMissing.join(", ")}. Those connections are shown in their own
+                currency and left out of the overall total.
+              </CardContent>
+            </Card>
+          )}
+
+          {portfolio.total && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Total in {portfolio.total.currency}</CardTitle>
+                <CardDescription>
+                  {portfolio.total.connectionIds.length} connection{portfolio.total.connectionIds.length === 1 ? "" : "s"}
+                  {ratesUsed.length > 0 ? ` · ${ratesUsed.join(" · ")}` : ""}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Holdings</p>
+                    <p className="text-xl font-semibold">{formatAmount(portfolio.total.marketValue, portfolio.total.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Cash</p>
+                    <p className="text-xl font-semibold">{formatAmount(portfolio.total.cash, portfolio.total.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Total</p>
+                    <p className="text-xl font-semibold">{formatAmount(portfolio.total.totalValue, portfolio.total.currency)}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Connections</CardTitle>
+              <CardDescription>Where each connection's figures come from and how fresh they are</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Connection</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Data</TableHead>
+                    <TableHead className="text-right">Positions</TableHead>
+                    <TableHead className="text-right">Holdings</TableHead>
+                    <TableHead className="text-right">Cash</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    {portfolio.baseCurrency && <TableHead>Rate</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {portfolio.connections.map((entry) => (
+                    <TableRow key={entry.connectionId}>
+                      <TableCell>
+                        <Link href={`/dashboard/${entry.connectionId}`}>
+                          <span className="font-medium cursor-pointer hover:underline">{entry.exchange}</span>
+                        </Link>
+                        <span className="text-muted-foreground">{entry.broker ? ` · ${entry.broker}` : ""}</span>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_BADGES[entry.status].className} title={entry.error ?? undefined}>
+                          {STATUS_BADGES[entry.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground" title={entry.asOf ?? undefined}>{freshness(entry)}</TableCell>
+                      <TableCell className="text-right">{entry.source ? entry.positionCount : "-"}</TableCell>
+                      <TableCell className="text-right">{formatAmount(entry.marketValue, entry.currency)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(entry.cash, entry.currency)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatAmount(entry.totalValue, entry.currency)}</TableCell>
+                      {portfolio.baseCurrency && (
+                        <TableCell className="text-sm text-muted-foreground">
+                          {entry.fx ? formatRate(entry.fx) : entry.source ? "No rate" : "-"}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Totals</CardTitle>
+              <CardDescription>As of {new Date(portfolio.generatedAt).toLocaleString()}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="currency" className="w-full">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="currency">By currency</TabsTrigger>
+                  <TabsTrigger value="market-type">By market type</TabsTrigger>
+                  <TabsTrigger value="exchange">By exchange</TabsTrigger>
+                  <TabsTrigger value="symbol">By symbol</TabsTrigger>
+                </TabsList>
+                <TabsContent value="currency"><TotalsTable totals={portfolio.byCurrency} label="Currency" /></TabsContent>
+                <TabsContent value="market-type"><TotalsTable totals={portfolio.byMarketType} label="Market type" /></TabsContent>
+                <TabsContent value="exchange"><TotalsTable totals={portfolio.byExchange} label="Exchange" /></TabsContent>
+                <TabsContent value="symbol">
+                  {portfolio.bySymbol.length === 0 ? (
+                    <p className="p-4 text-sm text-neutral-500">No positions.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Symbol</TableHead>
+                          <TableHead>Exchange</TableHead>
+                          <TableHead className="text-right">Quantity</TableHead>
+                          <TableHead className="text-right">Market value</TableHead>
+                          <TableHead className="text-right">Unrealized P&L</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {portfolio.bySymbol.map((total) => (
+                          <TableRow key={`${total.exchange}-${total.symbol}`}>
+                            <TableCell className="font-medium">{total.symbol}</TableCell>
+                            <TableCell>{total.exchange}</TableCell>
+                            <TableCell className="text-right">{Number(total.quantity).toLocaleString()}</TableCell>
+                            <TableCell className="text-right">{formatAmount(total.marketValue, total.currency)}</TableCell>
+                            <TableCell className={`text-right ${Number(total.unrealizedPnl) < 0 ? "text-red-600" : ""}`}>
+                              {formatAmount(total.unrealizedPnl, total.currency)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+// Background refresh of active connections, kept as account snapshots.
+//
+// Every SNAPSHOT_INTERVAL_MINUTES (default 15) the scheduler walks the active
+// connections and stores a timestamped copy of their positions, balances and
+// exposure (the accountSnapshots table). A connection is only refreshed while
+// its exchange is in session (see MARKET_SESSIONS); exchanges without a listed
+// session, such as the crypto venues, are refreshed around the clock.
+//
+//   SNAPSHOT_SCHEDULER=off                  disables the job
+//   SNAPSHOT_INTERVAL_MINUTES=15            time between refreshes
+//   SNAPSHOT_IGNORE_MARKET_HOURS=true       refreshes outside market hours too (e.g. against the simulator)
+//
+// Only adapters that serve normalized account data (getAccountData) can be
+// snapshotted; other connections are skipped.
+import type { AccountSnapshot, AccountSnapshotSummary, Connection, SnapshotTrigger } from "@shared/schema";
+import type { AccountBalance, MarketExposure } from "@shared/models";
+import { sumDecimals } from "@shared/decimal";
+import { storage } from "./storage";
+import { connectionCredentials, fetchCurrentAccountData, resolveBrokerAdapter } from "./brokers";
+import { recordValuation } from "./valuations";
+import { createLogger, newRequestId, runWithRequestContext } from "./logger";
+
+const log = createLogger("snapshots");
+
+// ============================
+// Market hours
+// ============================
+
+interface MarketSession {
+  timeZone: string;
+  days: number[]; // 0 = Sunday
+  open: string; // "HH:mm", exchange local time
+  close: string;
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+// Regular sessions by exchange name
+const MARKET_SESSIONS: Record<string, MarketSession> = {
+  PSX: { timeZone: "Asia/Karachi", days: WEEKDAYS, open: "09:15", close: "15:30" },
+  NSE: { timeZone: "Asia/Kolkata", days: WEEKDAYS, open: "09:15", close: "15:30" },
+  NYSE: { timeZone: "America/New_York", days: WEEKDAYS, open: "09:30", close: "16:00" },
+  NASDAQ: { timeZone: "America/New_York", days: WEEKDAYS, open: "09:30", close: "16:00" },
+  LSE: { timeZone: "Europe/London", days: WEEKDAYS, open: "08:00", close: "16:30" },
+};
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/** Whether the exchange is in its regular session at `now`; exchanges without a session are always open */
+export function isMarketOpen(exchangeName: string | undefined, now: Date = new Date()): boolean {
+  const session = exchangeName ? MARKET_SESSIONS[exchangeName] : undefined;
+  if (!session) return true;
+
+  const parts = Object.fromEntries(new Intl.DateTimeFormat("en-US", {
+    timeZone: session.timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now).map(part => [part.type, part.value]));
+  const time = `${parts.hour}:${parts.minute}`;
+  return session.days.includes(WEEKDAY_INDEX[parts.weekday]) && time >= session.open && time <= session.close;
+}
+
+// ============================
+// Snapshots
+// ============================
+
+export class SnapshotError extends Error {
+  constructor(message: string, public readonly reason: "unsupported" | "auth" | "broker") {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+/**
+ * Fetches the connection's normalized account data and stores its positions,
+ * balances and exposure, and updates the day's valuation point. Sections that
+ * failed are listed in `errors`; nothing is stored when the whole fetch failed.
+ */
+export async function takeAccountSnapshot(connection: Connection, trigger: SnapshotTrigger): Promise<AccountSnapshot> {
+  const adapter = await resolveBrokerAdapter(connection.exchangeId, connection.brokerId);
+  const accountData = await fetchCurrentAccountData(adapter, connectionCredentials(connection));
+  if (!accountData) {
+    throw new SnapshotError(`${adapter.name} does not provide normalized account data yet`, "unsupported");
+  }
+  if (accountData.dataSource === "error_auth") {
+    throw new SnapshotError("Authentication failed with the broker.", "auth");
+  }
+  if (accountData.dataSource === "error") {
+    throw new SnapshotError(`Could not fetch account data from ${adapter.name}`, "broker");
+  }
+
+  const balances: AccountBalance[] = accountData.margin.map(({ markets: _markets, ...balance }) => balance);
+  const exposure: MarketExposure[] = accountData.margin.flatMap(summary =>
+    summary.markets.map(market => ({ accountId: summary.accountId, ...market })));
+
+  await recordValuation(connection.id, accountData);
+  return storage.createAccountSnapshot({
+    connectionId: connection.id,
+    takenAt: accountData.timestamp,
+    trigger,
+    dataSource: accountData.dataSource,
+    positions: accountData.positions,
+    balances,
+    exposure,
+    errors: accountData.errors,
+  });
+}
+
+/** Snapshot list entry: headline totals instead of the rows */
+export function toSnapshotSummary(snapshot: AccountSnapshot): AccountSnapshotSummary {
+  const { positions, balances, exposure, ...rest } = snapshot;
+  return {
+    ...rest,
+    positionCount: positions.length,
+    marketValue: sumDecimals(positions.map(position => position.marketValue)),
+    cash: sumDecimals(balances.map(balance => balance.cash)),
+    exposure: sumDecimals(exposure.map(market => market.exposure)),
+  };
+}
+
+// ============================
+// Scheduler
+// ============================
+
+export interface SnapshotSchedulerOptions {
+  intervalMs?: number;
+  ignoreMarketHours?: boolean;
+}
+
+export interface SnapshotScheduler {
+  /** Refreshes every eligible connection now; resolves once all of them are done */
+  runOnce(): Promise<void>;
+  stop(): void;
+}
+
+/** Refreshes the active connections whose exchange is in session, one at a time */
+async function refreshActiveConnections(ignoreMarketHours: boolean): Promise<void> {
+  const now = new Date();
+  const connections = (await storage.getAllConnections()).filter(connection => connection.isActive);
+
+  for (const connection of connections) {
+    const exchange = await storage.getExchange(connection.exchangeId);
+    if (!ignoreMarketHours && !isMarketOpen(exchange?.name, now)) {
+      log.debug("Market closed, skipping connection", { connectionId: connection.id, exchange: exchange?.name });
+      continue;
+    }
+
+    // Each refresh gets its own request ID so its broker calls can be traced together
+    await runWithRequestContext({ requestId: newRequestId() }, async () => {
+      try {
+        const snapshot = await takeAccountSnapshot(connection, "scheduled");
+        log.info("Stored account snapshot", {
+          connectionId: connection.id,
+          snapshotId: snapshot.id,
+          positions: snapshot.positions.length,
+          dataSource: snapshot.dataSource,
+        });
+      } catch (error) {
+        if (error instanceof SnapshotError && error.reason === "unsupported") {
+          log.debug("Connection does not support snapshots", { connectionId: connection.id, error: error.message });
+        } else {
+          log.warn("Scheduled refresh failed", { connectionId: connection.id, error });
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Starts the background refresh unless SNAPSHOT_SCHEDULER=off. Runs never
+ * overlap: the next one is scheduled once the previous one has finished.
+ */
+export function startSnapshotScheduler(options: SnapshotSchedulerOptions = {}): SnapshotScheduler | null {
+  if ((process.env.SNAPSHOT_SCHEDULER || "on").toLowerCase() === "off") {
+    log.info("Snapshot scheduler disabled");
+    return null;
+  }
+
+  const minutes = parseFloat(process.env.SNAPSHOT_INTERVAL_MINUTES || "15");
+  const intervalMs = options.intervalMs ?? (minutes > 0 ? minutes : 15) * 60 * 1000;
+  const ignoreMarketHours = options.ignoreMarketHours ?? process.env.SNAPSHOT_IGNORE_MARKET_HOURS === "true";
+
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+  let stopped = false;
+
+  const runOnce = () => {
+    running ??= refreshActiveConnections(ignoreMarketHours)
+      .catch(error => log.error("Snapshot refresh run failed", { error }))
+      .finally(() => { running = null; });
+    return running;
+  };
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(() => runOnce().then(schedule), intervalMs);
+    timer.unref();
+  };
+
+  log.info("Snapshot scheduler started", { intervalMs, ignoreMarketHours });
+  schedule();
+
+  return {
+    runOnce,
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
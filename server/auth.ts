@@ -1,10 +1,11 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
+import { closeLiveSession } from "./liveUpdates";
 import { User as SelectUser } from "@shared/schema";
 
 declare global {
@@ -28,7 +29,8 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// Returns the session middleware, for requests that do not go through the app (live update sockets)
+export function setupAuth(app: Express): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "trading-platform-secret-key",
     resave: false,
@@ -41,8 +43,9 @@ export function setupAuth(app: Express) {
     }
   };
 
+  const sessionParser = session(sessionSettings);
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -113,6 +116,7 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/logout", (req, res, next) => {
+    closeLiveSession(req.sessionID);
     req.logout((err) => {
       if (err) return next(err);
       res.sendStatus(200);
@@ -123,4 +127,6 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(req.user);
   });
+
+  return sessionParser;
 }
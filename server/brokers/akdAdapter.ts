@@ -0,0 +1,138 @@
+// akdAdapter.ts
+import type { AllAccountDetails } from "@shared/accountData";
+import {
+  AKD_CURRENCY,
+  testConnection as testAKDAPI,
+  getAllAccountDetails as getAKDDetails,
+  fetchAccountLogs,
+  fetchAccountPositions,
+  fetchNormalizedAccountData,
+} from "./akdApiClient";
+import { AKD_ORDER_GATEWAY_URL, akdOrderClient } from "./akdOrderClient";
+import type { AccountDataOptions, BrokerAdapter, BrokerCredentials } from "./brokerAdapter";
+import { createLogger } from "../logger";
+
+const adapterLog = createLogger("akd-adapter");
+
+async function testAKDConnection(credentials: BrokerCredentials): Promise<boolean> {
+  // Validate required credentials for AKD
+  // AKD testConnection likely only needs username based on your client implementation
+  if (!credentials.username) {
+    adapterLog.error('AKD test connection error: Missing username');
+    throw new Error('Missing required credentials for AKD: username is required');
+  }
+
+  try {
+    adapterLog.info('Attempting to test connect to AKD', { username: credentials.username });
+
+    // Use the imported testConnection function from the AKD API client
+    // Pass password even if not strictly used by testConnection, for consistency
+    const connectionResult = await testAKDAPI(credentials.username, credentials.password);
+
+    if (connectionResult) {
+      adapterLog.info('AKD test connection successful', { username: credentials.username });
+      return true;
+    }
+
+    adapterLog.warn('AKD test connection failed', { username: credentials.username });
+    throw new Error('Connection failed. Please verify your credentials.');
+  } catch (error: any) {
+    adapterLog.error('AKD connection test error', { error });
+    throw new Error(`AKD API connection failed: ${error.message}`);
+  }
+}
+
+// Implementation of AKD account details using the SOAP API client
+async function getAKDAccountDetails(
+  credentials: BrokerCredentials,
+  options: AccountDataOptions = {},
+): Promise<AllAccountDetails> {
+  const log = adapterLog.child({ username: credentials.username });
+
+  try {
+    // Check if we have the minimum required credentials
+    if (!credentials.username) { // Password might not be strictly needed for *all* calls if service auth works
+      log.error('Missing required username credential for AKD');
+      throw new Error('Missing required username credential for AKD');
+    }
+
+    // Use our AKD API client to fetch real account details
+    // Pass password even if potentially unused by some calls in client
+    const accountDetails = await getAKDDetails(credentials.username, credentials.password, options.range, options.accountId);
+
+    // Log the data source from the client
+     log.debug(`Data source reported by AKD client: ${accountDetails.dataSource}`);
+     if (accountDetails.dataSource?.startsWith('error')) {
+          log.warn(`AKD client indicated an error state: ${accountDetails.dataSource}`, { error: accountDetails.tradingAccounts.error });
+          // Propagate the error information within the returned structure
+           // No need to throw here, return the structure containing error info
+     } else {
+         log.info('Successfully fetched actual AKD data');
+     }
+
+    // Return the complete account details structure
+    return accountDetails;
+
+  } catch (error: any) {
+    log.error('AKD account details fetch CRITICAL error', { error });
+     // Throw a new error to be caught by the route handler, potentially including auth info
+     const errorMessage = `Failed to fetch AKD account details: ${error.message}`;
+     if (error.message && /auth failed/i.test(error.message)) {
+         throw new Error("Authentication Failed with AKD Broker"); // More specific error
+     }
+    throw new Error(errorMessage);
+  }
+}
+
+// AKD's SOAP service returns every section from a single trader session, so the
+// per-section fetchers reuse the combined fetch and pick the section they need.
+// Positions and logs are the exceptions: the live updates poll them often, so
+// they have their own fetches (logs only need the trader ID).
+export const akdAdapter: BrokerAdapter = {
+  name: 'AKD',
+  currency: AKD_CURRENCY,
+  capabilities: {
+    accounts: true,
+    positions: true,
+    orders: true,
+    statement: true,
+    logs: true,
+    // Order entry needs the order gateway; see akdOrderClient.ts
+    trading: AKD_ORDER_GATEWAY_URL !== null,
+  },
+  credentialSchema: {
+    api: [],
+    credentials: [
+      { name: 'username', label: 'Username', type: 'text', secret: false, required: true },
+      { name: 'password', label: 'Password', type: 'password', secret: true, required: false },
+    ],
+  },
+
+  testConnection: (credentials) => testAKDConnection(credentials),
+
+  getAllAccountDetails: (credentials, options) => getAKDAccountDetails(credentials, options),
+  getAccounts: async (credentials) => (await getAKDAccountDetails(credentials)).tradingAccounts,
+  getPositions: (credentials, options) => {
+    if (!credentials.username) {
+      throw new Error('Missing required username credential for AKD');
+    }
+    return fetchAccountPositions(credentials.username, credentials.password, options?.accountId);
+  },
+  getOrders: async (credentials, options) => (await getAKDAccountDetails(credentials, options)).orderHistory,
+  getStatement: async (credentials, options) => (await getAKDAccountDetails(credentials, options)).accountStatement,
+  getLogs: (credentials) => {
+    if (!credentials.username) {
+      throw new Error('Missing required username credential for AKD');
+    }
+    return fetchAccountLogs(credentials.username, credentials.password);
+  },
+
+  getAccountData: (credentials, options) => {
+    if (!credentials.username) {
+      throw new Error('Missing required username credential for AKD');
+    }
+    return fetchNormalizedAccountData(credentials.username, credentials.password, options?.range, options?.accountId);
+  },
+
+  orderClient: akdOrderClient,
+};
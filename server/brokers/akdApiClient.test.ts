@@ -0,0 +1,105 @@
+// Golden-file tests for the AKD parsing. The broker responses under
+// fixtures/golden/akd were recorded from the simulator (BROKER_FIXTURE_MODE=record)
+// and are replayed here; the parsed tables are compared with the files under
+// fixtures/golden. After an intended parsing change, rerun with `vitest run -u`
+// and review the diff of the golden files.
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+    buildNormalizedAccountData,
+    fetchAccountPositions,
+    getAllAccountDetails,
+    type AkdAccountRows,
+    type AllAccountDetails,
+} from "./akdApiClient";
+
+const GOLDEN_DIR = path.resolve(import.meta.dirname, "fixtures", "golden");
+const RANGE = { from: "2026-08-01", to: "2026-10-18" };
+
+const golden = (name: string) => path.join(GOLDEN_DIR, `${name}.json`);
+const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+describe("AKD account details (replayed)", () => {
+    let details: AllAccountDetails;
+
+    beforeAll(async () => {
+        vi.stubEnv("BROKER_FIXTURE_MODE", "replay");
+        vi.stubEnv("BROKER_FIXTURES_DIR", GOLDEN_DIR);
+        // Recordings are scrubbed of the login, so any login replays them
+        details = await getAllAccountDetails("golden-trader", undefined, RANGE);
+    });
+
+    afterAll(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("replays every section without errors", () => {
+        expect(details.dataSource).toBe("api");
+        expect(details.accounts).toEqual(["SIM001", "SIM002"]);
+    });
+
+    it("parses GetExposureDynamic into the account info table", async () => {
+        await expect(json(details.accountInfo)).toMatchFileSnapshot(golden("accountInfo"));
+    });
+
+    it("remaps GetOrderHistory rows to the order history headers", async () => {
+        await expect(json(details.orderHistory)).toMatchFileSnapshot(golden("orderHistory"));
+    });
+
+    it("detects the headers of delimited responses", async () => {
+        await expect(json({
+            tradingAccounts: details.tradingAccounts,
+            positions: details.positions,
+            tradeLogs: details.tradeLogs,
+            activityLogs: details.activityLogs,
+        })).toMatchFileSnapshot(golden("detectedHeaders"));
+    });
+
+    it("fetches the positions alone like the full fetch does", async () => {
+        expect(await fetchAccountPositions("golden-trader")).toEqual(details.positions);
+        const single = await fetchAccountPositions("golden-trader", undefined, "SIM002");
+        expect(single.data).toEqual(details.positions.data.filter(row => row[0] === "SIM002").map(row => row.slice(1)));
+        expect((await fetchAccountPositions("golden-trader", undefined, "SIM404")).error).toBe("Account SIM404 not found for this trader");
+    });
+});
+
+describe("buildNormalizedAccountData", () => {
+    const range = { from: "2026-10-01", to: "2026-10-16" };
+    const orderRow = (reference: string | null, quantity: string, date: string) => ({
+        Symbol: "OGDC", Quantity: quantity, Rate: "195.10", Amount: null, Side: "Buy", OrderType: "Limit",
+        OrderDate: `${date} 10:15:32`, TradeDate: date, Reference: reference,
+    });
+    const build = (orderRows: Record<string, any>[], tradeLogRows: Record<string, any>[] = [], dateRange = range) => {
+        const perAccount: AkdAccountRows[] = [{
+            accountNo: "SIM001",
+            collateral: { rows: [] },
+            orderHistory: { rows: orderRows },
+            statement: { rows: [] },
+            exposure: { rows: [] },
+            commissions: { rows: [] },
+        }];
+        return buildNormalizedAccountData([], { rows: tradeLogRows }, perAccount, dateRange, undefined, "2026-10-16T10:00:00.000Z");
+    };
+
+    it("charges an order's trade-log commission once, split across its fills by quantity", () => {
+        const tradeLog = [
+            { Account: "SIM001", Symbol: "OGDC", OrderRef: "REF1", Status: "Executed", FilledQty: "300", Price: "195.10", Commission: "29.27", Timestamp: "Oct 16, 2026 10:15:32" },
+            { Account: "SIM001", Symbol: "OGDC", OrderRef: "REF1", Status: "Executed", FilledQty: "100", Price: "195.10", Commission: "9.76", Timestamp: "Oct 16, 2026 10:16:02" },
+        ];
+        const { fills } = build([orderRow("REF1", "300", "Oct 16, 2026"), orderRow("REF1", "100", "Oct 16, 2026")], tradeLog);
+        expect(fills.map(fill => [fill.fillId, fill.commission, fill.commissionSource])).toEqual([
+            ["REF1-1", "29.27", "trade_log"],
+            ["REF1-2", "9.76", "trade_log"],
+        ]);
+    });
+
+    it("gives rows without a reference the same order ID whatever range was fetched", () => {
+        const unreferenced = orderRow(null, "50", "Oct 10, 2026");
+        const narrow = build([unreferenced]);
+        const wide = build([orderRow("REF0", "10", "Sep 20, 2026"), unreferenced, { ...unreferenced }], [], { ...range, from: "2026-09-01" });
+
+        const orderId = narrow.orders[0].orderId;
+        expect(orderId).toMatch(/^OH-[0-9a-f]{12}$/);
+        expect(wide.orders.map(order => order.orderId)).toEqual(["REF0", orderId, `${orderId}-2`]);
+    });
+});
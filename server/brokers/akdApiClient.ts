@@ -1,8 +1,39 @@
 // akdApiClient.ts
-import * as soap from "soap";
 import * as zlib from "zlib";
 import { promisify } from "util";
 import { Buffer } from "buffer"; // Ensure Buffer is explicitly imported
+import { createHash } from "crypto";
+import type { FetchResult, AllAccountDetails, AccountLogs, ColumnDriftWarning, ParseIssue } from "@shared/accountData";
+import {
+    parseDecimal,
+    compareDecimal,
+    divideDecimal,
+    multiplyDecimal,
+    roundDecimal,
+    subtractDecimal,
+    sumDecimals,
+    type Decimal,
+} from "@shared/decimal";
+import { defaultDateRange, splitDateRange, toIsoDate, type DateRange } from "@shared/dates";
+import { format, parseISO } from "date-fns";
+import { AKD_WSDL_URL, callAkdOperation, getAkdSoapClient } from "./akdSoapClient";
+import { AKD_ROW_SCHEMAS, detectColumnDrift, getParseMode, parseWithSchema, splitAkdPayload } from "./akdSchemas";
+import { createLogger } from "../logger";
+import {
+    ACCOUNT_DATA_SECTIONS,
+    parseOrderSide,
+    parseOrderStatus,
+    type BrokerAccount,
+    type Fill,
+    type LedgerEntry,
+    type MarginMarket,
+    type MarginSummary,
+    type NormalizedAccountData,
+    type Order,
+    type Position,
+} from "@shared/models";
+
+const log = createLogger("akd");
 
 // Promisify zlib functions for async/await usage
 const gunzipAsync = promisify(zlib.gunzip);
@@ -10,86 +41,19 @@ const gunzipAsync = promisify(zlib.gunzip);
 // ============================
 // Configuration (Use Environment Variables ideally)
 // ============================
-const WSDL_URL =
-    process.env.AKD_WSDL_URL ||
-    "http://online.akdtrade.biz/TradeCastService/LoginServerService?wsdl";
-
-// --- SERVICE Credentials (For HTTP Basic Auth - like Python's myservice/12345678) ---
-const SERVICE_USERNAME = process.env.AKD_SERVICE_USER || "myservice";
-const SERVICE_PASSWORD = process.env.AKD_SERVICE_PASSWORD || "12345678";
-// --- End SERVICE Credentials ---
-
-const COMMON_START_DATE = "Mar 01, 2025"; // From example
-const COMMON_END_DATE = "Mar 12, 2025"; // From example
+// WSDL location, service credentials and SOAP timeouts live in akdSoapClient.ts
+// AKD rejects or truncates long date ranges; longer requests are split into chunks of this many days
+const AKD_MAX_RANGE_DAYS = Math.max(1, parseInt(process.env.AKD_MAX_RANGE_DAYS || "31", 10) || 31);
 const DEFAULT_ACCOUNT_FALLBACK = "AUTH_FAILED"; // Specific marker for auth failure
 
 // ============================
 // Key Mappings for API Responses (Aligned with Python)
 // ============================
-const KEY_MAPPINGS: Record<string, string[]> = {
-    TradAccounts: [
-        "AccountCode",
-        "AccountTitle",
-        "BranchCode",
-        "TraderCode",
-        "AccountStatus",
-        "NIC",
-    ],
-    GetOrderHistory: [
-        "Symbol",
-        "Quantity",
-        "Rate",
-        "Amount",
-        "Side",
-        "OrderType",
-        "OrderDate",
-        "TradeDate",
-        "Reference",
-    ],
-    GetAccountStatement: [
-        "VoucherNo",
-        "UnknownCol2", // This might need adjustment based on actual API output
-        "Date",
-        "Description",
-        "Debit",
-        "Credit",
-        "Balance",
-    ],
-    GetCollateral: [
-        "Symbol",
-        "Quantity",
-        "TotalQty",
-        "AvgBuyRate",
-        "SoldQuantity",
-        "AvgSellRate",
-        "MTM_Rate",
-        "MTMAmount",
-        "HaircutPercent",
-        "MarginizedValueRate",
-        "ValueAfterHaircut",
-        "PendingSellQty",
-        "SettledPL",
-        "UnsettledPL",
-    ],
-    // GetExposureDynamic uses a special parser, no direct mapping here
-
-    // --- ADDED MAPPINGS FOR LOGS ---
-    GetTradeLog: [
-        "LogInfo", "Market", "Symbol", "Timestamp", "TradeID", "OrderRef", "Side",
-        "OrigQty", "Price", "ExecRef", "Account", "Status", "Origin", "FilledQty",
-        "Value", "Commission", "AssetType"
-    ],
-    GetDailyActivityLog: [
-        "UserInfo", "Market", "Symbol", "Account", "Price", "OrderRef", "HostOrderRef",
-        "OrigQty", "FilledQty", "RemainingQty", "ExecRef", "Value", "Status",
-        "AssetType", "Timestamp", "SubStatus"
-    ],
-    GetOutstandingLog: [
-        "LogInfo", "Symbol", "Price", "Quantity", "Account", "OrderRef",
-        "HostOrderRef", "Origin", "Side", "Market", "Status", "Timestamp",
-        "OrderType"
-    ],
-};
+// Column names in payload order, taken from the row schemas in akdSchemas.ts.
+// GetExposureDynamic uses a special parser, no direct mapping here.
+const KEY_MAPPINGS: Record<string, string[]> = Object.fromEntries(
+    Object.entries(AKD_ROW_SCHEMAS).map(([apiMethod, schema]) => [apiMethod, schema.columns.map(column => column.name)]),
+);
 
 // ============================
 // Helper Functions (FIXED processAndUnzipResponse & Enhanced Logging)
@@ -103,11 +67,7 @@ async function processAndUnzipResponse(
     apiMethod: string,
     rawSoapResult: any,
 ): Promise<string | null> {
-    console.log(
-        `[${apiMethod}] processAndUnzipResponse received rawSoapResult type: ${typeof rawSoapResult}`,
-    );
-    // Avoid logging potentially huge raw results unless necessary for deep debugging
-    // console.log(`[${apiMethod}] Raw SOAP Result:`, JSON.stringify(rawSoapResult, null, 2));
+    log.debug(`processAndUnzipResponse received rawSoapResult type: ${typeof rawSoapResult}`, { operation: apiMethod });
 
     // Attempt to extract the core response data
     let resp =
@@ -119,116 +79,82 @@ async function processAndUnzipResponse(
 
     // Further refinement: sometimes it's nested under 'return' within the first element
     if (resp && typeof resp === "object" && resp.return !== undefined) {
-        console.log(`[${apiMethod}] Found nested 'return' property.`);
+        log.debug("Found nested 'return' property.", { operation: apiMethod });
         resp = resp.return;
     }
 
-    console.log(
-        `[${apiMethod}] Extracted response part for processing (Type: ${typeof resp}):`,
-        typeof resp === "string" ? `"${resp.substring(0, 150)}..."` : resp instanceof Buffer ? `<Buffer ${resp.length} bytes>` : resp,
-    );
+    log.debug("Extracted response part", { operation: apiMethod, type: Buffer.isBuffer(resp) ? "buffer" : typeof resp });
 
 
     if (resp === null || resp === undefined) {
-        console.log(
-            `[${apiMethod}] Extracted response part is null or undefined.`,
-        );
+        log.debug("Extracted response part is null or undefined.", { operation: apiMethod });
         return null;
     }
 
     try {
         if (Buffer.isBuffer(resp)) {
-            console.log(`[${apiMethod}] Response is a Buffer.`);
+            log.debug("Response is a Buffer.", { operation: apiMethod });
             if (resp.length > 2 && resp[0] === 0x1f && resp[1] === 0x8b) {
                 // Gzip magic number
-                console.log(
-                    `[${apiMethod}] Buffer is Gzipped. Decompressing...`,
-                );
+                log.debug("Buffer is Gzipped. Decompressing...", { operation: apiMethod });
                 const decompressed = await gunzipAsync(resp);
                 const decodedString = decompressed.toString("utf-8");
-                console.log(
-                    `[${apiMethod}] Decompressed string (from Buffer): "${decodedString.substring(0, 150)}..."`,
-                );
                 return decodedString;
             } else {
-                console.log(
-                    `[${apiMethod}] Buffer is not Gzipped. Decoding as UTF-8...`,
-                );
+                log.debug("Buffer is not Gzipped. Decoding as UTF-8...", { operation: apiMethod });
                 const decodedString = resp.toString("utf-8");
-                console.log(
-                    `[${apiMethod}] Decoded string (from Buffer): "${decodedString.substring(0, 150)}..."`,
-                );
                 return decodedString;
             }
         } else if (typeof resp === "string") {
-            console.log(`[${apiMethod}] Response is a string.`);
+            log.debug("Response is a string.", { operation: apiMethod });
 
             // Heuristic: Does it look like Base64? (Improved check)
             // Check length, charset, and padding. Avoid overly short strings.
             const likelyBase64 = resp.length > 20 && /^[A-Za-z0-9+/]+(?:={0,2})$/.test(resp) && (resp.length % 4 === 0);
 
             if (likelyBase64) {
-                console.log(
-                    `[${apiMethod}] String looks like Base64. Attempting decode...`,
-                );
+                log.debug("String looks like Base64. Attempting decode...", { operation: apiMethod });
                 try {
                     const decodedBuffer = Buffer.from(resp, "base64");
-                    console.log(
-                        `[${apiMethod}] Base64 decode successful (${decodedBuffer.length} bytes). Checking for Gzip...`,
-                    );
+                    log.debug(`Base64 decode successful (${decodedBuffer.length} bytes). Checking for Gzip...`, { operation: apiMethod });
                     // Check Gzip magic number on the decoded buffer
                     if (decodedBuffer.length > 2 && decodedBuffer[0] === 0x1f && decodedBuffer[1] === 0x8b) {
-                        console.log(
-                            `[${apiMethod}] Decoded buffer is Gzipped. Decompressing...`,
-                        );
+                        log.debug("Decoded buffer is Gzipped. Decompressing...", { operation: apiMethod });
                         const decompressed = await gunzipAsync(decodedBuffer);
                         const decodedString = decompressed.toString("utf-8");
-                        console.log(
-                            `[${apiMethod}] Decompressed string (from Base64->Gzip): "${decodedString.substring(0, 150)}..."`,
-                        );
+                        log.debug("Decompressed Base64+Gzip payload", { operation: apiMethod, payload: decodedString });
                         return decodedString;
                     } else {
                         // It was Base64, but not Gzipped. Decode the buffer as UTF-8.
                         const decodedString = decodedBuffer.toString("utf-8");
-                        console.log(
-                            `[${apiMethod}] Decoded Base64 (but not Gzipped) string: "${decodedString.substring(0, 150)}..."`,
-                        );
+                        log.debug("Decoded Base64 payload", { operation: apiMethod, payload: decodedString });
                         // Basic check if the result makes sense (e.g., contains common delimiters or known errors)
                         // Avoid returning garbled text if Base64 decoding resulted in binary data misinterpretation
                         if (decodedString.includes("|") || decodedString.includes(";") || decodedString.toLowerCase().includes("authorized") || decodedString.toLowerCase().includes("record")) {
                              return decodedString;
                         } else if (decodedString.includes("\uFFFD")) { // Unicode replacement character suggests decoding issues
-                            console.warn(`[${apiMethod}] Base64 decoded string contains replacement characters (likely not text). Reverting to original string.`);
+                            log.warn("Base64 decoded string contains replacement characters (likely not text). Reverting to original string.", { operation: apiMethod });
                             return resp; // Return the original base64 string
                         } else {
-                            console.warn(`[${apiMethod}] Base64 decoded string doesn't appear to be expected text format. Reverting to original string.`);
+                            log.warn("Base64 decoded string doesn't appear to be expected text format. Reverting to original string.", { operation: apiMethod });
                             return resp; // Return the original base64 string
                         }
                     }
                 } catch (base64Error: any) {
-                    console.log(
-                        `[${apiMethod}] Base64 decode failed: ${base64Error.message}. Assuming plain string.`,
-                    );
+                    log.debug(`Base64 decode failed: ${base64Error.message}. Assuming plain string.`, { operation: apiMethod });
                     return resp; // Treat as plain string if decode fails
                 }
             } else {
-                console.log(
-                    `[${apiMethod}] String does not look like Base64. Treating as plain text.`,
-                );
+                log.debug("String does not look like Base64. Treating as plain text.", { operation: apiMethod });
                 return resp; // Not Base64, return as is
             }
         } else {
-            console.log(
-                `[${apiMethod}] Response is neither Buffer nor string (Type: ${typeof resp}). Converting to string...`,
-            );
+            log.debug(`Response is neither Buffer nor string (Type: ${typeof resp}). Converting to string...`, { operation: apiMethod });
             const stringified = String(resp);
-            console.log(`[${apiMethod}] Stringified response: "${stringified.substring(0, 150)}..."`);
             return stringified;
         }
     } catch (error: any) {
-        console.error(
-            `[${apiMethod}] Error during response processing/decompression: ${error.message}. Raw resp part: ${String(resp).substring(0, 100)}...`, // Stringify resp in error log
-        );
+        log.error(`Error during response processing/decompression: ${error.message}`, { operation: apiMethod, payload: String(resp) });
         // Return the original response part as a string in case of error
         return String(resp);
     }
@@ -245,36 +171,33 @@ function cleanKey(keyStr: string | null | undefined): string {
     return finalKey || "Invalid_Key"; // Handle cases where key becomes empty
 }
 
+// Messages AKD sends in place of rows when there is nothing to report
+const NO_DATA_MESSAGES = ["no record", "no data", "no outstanding order"];
+
 /** Parses pipe/semicolon delimited string to structured array */
 function parseResponseToStructure(
     apiMethod: string,
     responseStr: string | null,
     keyMapping?: string[],
 ): Record<string, any>[] {
-    console.log(
-        `[${apiMethod}] parseResponseToStructure received string:`,
-        responseStr ? `"${responseStr.substring(0, 150)}..."` : "null",
-    );
+    log.debug("parseResponseToStructure received payload", { operation: apiMethod, payload: responseStr });
     if (!responseStr || !responseStr.trim()) {
-        console.log(`[${apiMethod}] Input string is null or empty.`);
+        log.debug("Input string is null or empty.", { operation: apiMethod });
         return [];
     }
 
     // Standardize checks for no data/errors
     const lowerStripped = responseStr.trim().toLowerCase();
-    const noDataMessages = ["no record", "no data", "no outstanding order"];
-    const isNoData = noDataMessages.some(msg => lowerStripped.includes(msg));
+    const isNoData = NO_DATA_MESSAGES.some(msg => lowerStripped.includes(msg));
     const isNotAuthorized = lowerStripped === "not authorized";
 
     if (isNoData && !isNotAuthorized) {
-        console.log(
-             `[${apiMethod}] Detected 'no data' message in response string. API Message: "${responseStr.trim()}"`
-        );
+        log.debug("Detected 'no data' message in response string", { operation: apiMethod, message: responseStr.trim().substring(0, 100) });
         return []; // Return empty for general "no data"
     }
 
     if (isNotAuthorized) {
-        console.log(`[${apiMethod}] Detected 'not authorized' in response string.`);
+        log.debug("Detected 'not authorized' in response string.", { operation: apiMethod });
         // If a key mapping is provided, return a structured error object
         if (keyMapping && keyMapping.length > 0) {
             const errorObj: Record<string, any> = {};
@@ -282,11 +205,11 @@ function parseResponseToStructure(
             for (let i = 1; i < keyMapping.length; i++) {
                 errorObj[keyMapping[i]] = null; // Fill other expected keys with null
             }
-             console.log(`[${apiMethod}] Returning structured auth error object.`);
+             log.debug("Returning structured auth error object.", { operation: apiMethod });
             return [errorObj];
         } else {
              // If no mapping, return a generic error structure
-             console.log(`[${apiMethod}] Returning generic auth error object (no mapping provided).`);
+             log.debug("Returning generic auth error object (no mapping provided).", { operation: apiMethod });
             return [{ Error: "Not Authorized" }];
         }
     }
@@ -300,12 +223,10 @@ function parseResponseToStructure(
             .filter((r) => r); // Filter out empty rows resulting from split
 
         if (!rows.length) {
-            console.log(
-                `[${apiMethod}] No rows after splitting response by '|'.`,
-            );
+            log.debug("No rows after splitting response by '|'.", { operation: apiMethod });
             return [];
         }
-        console.log(`[${apiMethod}] Found ${rows.length} potential rows.`);
+        log.debug(`Found ${rows.length} potential rows.`, { operation: apiMethod });
 
         let headersToUse: string[] | undefined = keyMapping;
         let dataRowsStr: string[] = rows;
@@ -314,7 +235,7 @@ function parseResponseToStructure(
         // --- Header Logic ---
         if (!headersToUse) {
              // --- Auto-detect header logic ---
-             console.log(`[${apiMethod}] No key mapping. Attempting auto-detection...`);
+             log.debug("No key mapping. Attempting auto-detection...", { operation: apiMethod });
              if (rows.length >= 1) {
                 const firstRowCols = rows[0].split(";").map(h => h.trim());
                  const looksLikeHeader = firstRowCols.length > 0 && firstRowCols.filter(h => /[a-zA-Z]/.test(h) && !/^\d+(\.\d+)?$/.test(h.replace(/[,%\s]/g, ''))).length >= firstRowCols.length / 2;
@@ -330,7 +251,7 @@ function parseResponseToStructure(
                  }
 
                  if (rows.length > 1 && (looksLikeHeader || structureDiffers) ) {
-                     console.log(`[${apiMethod}] Auto-detected first row as header. Skipping.`);
+                     log.debug("Auto-detected first row as header. Skipping.", { operation: apiMethod });
                      const rawHeaders = firstRowCols;
                      headersToUse = rawHeaders.map((h) => cleanKey(h));
                       dataRowsStr = rows.slice(1);
@@ -344,20 +265,20 @@ function parseResponseToStructure(
                          finalHeaders.push(count === 1 ? baseName : `${baseName}_${count}`);
                      }
                      headersToUse = finalHeaders;
-                     console.log(`[${apiMethod}] Final unique auto-detected headers: [${headersToUse.join(", ")}]`);
+                     log.debug(`Final unique auto-detected headers: [${headersToUse.join(", ")}]`, { operation: apiMethod });
                  } else {
-                     console.log(`[${apiMethod}] Auto-detection suggests no header row or single row data. Generating generic headers.`);
+                     log.debug("Auto-detection suggests no header row or single row data. Generating generic headers.", { operation: apiMethod });
                      const numCols = firstRowCols.length > 0 ? firstRowCols.length : 1; // Handle empty first row case
                      headersToUse = Array(numCols).fill(0).map((_, i) => `Col${i + 1}`);
                      dataRowsStr = rows;
                  }
              } else {
-                console.log(`[${apiMethod}] Cannot determine headers: No rows available for auto-detection.`);
+                log.debug("Cannot determine headers: No rows available for auto-detection.", { operation: apiMethod });
                 headersToUse = ["Col1"]; // Default to at least one column header
              }
         } else {
              // --- Logic when keyMapping IS provided ---
-             console.log(`[${apiMethod}] Using provided key mapping: [${headersToUse.join(", ")}]`);
+             log.debug(`Using provided key mapping: [${headersToUse.join(", ")}]`, { operation: apiMethod });
              if (rows.length > 1) {
                  const firstRowCols = rows[0].split(";").map(h => h.trim());
                  const firstRowLooksLikeHeader = firstRowCols.length > 0 &&
@@ -367,29 +288,29 @@ function parseResponseToStructure(
                  if (firstRowLooksLikeHeader) {
                      const secondRowCols = rows[1].split(';').map(c => c.trim());
                      if(firstRowCols[0] !== secondRowCols[0] || firstRowCols.length !== secondRowCols.length) {
-                         console.log(`[${apiMethod}] Provided mapping, but first row looks like a header and differs from second. Skipping first row.`);
+                         log.debug("Provided mapping, but first row looks like a header and differs from second. Skipping first row.", { operation: apiMethod });
                          dataRowsStr = rows.slice(1);
                          headerRowDetected = true;
                      } else {
-                         console.log(`[${apiMethod}] Provided mapping, first row looks like header BUT is similar to second. NOT skipping.`);
+                         log.debug("Provided mapping, first row looks like header BUT is similar to second. NOT skipping.", { operation: apiMethod });
                      }
                  } else {
-                     console.log(`[${apiMethod}] Provided mapping, first row doesn't look like a text header. Not skipping.`);
+                     log.debug("Provided mapping, first row doesn't look like a text header. Not skipping.", { operation: apiMethod });
                  }
              } else {
-                 console.log(`[${apiMethod}] Provided mapping, but only one row. Assuming it's data.`);
+                 log.debug("Provided mapping, but only one row. Assuming it's data.", { operation: apiMethod });
              }
         }
         // --- End Header Logic ---
 
         if (!headersToUse || headersToUse.length === 0) {
-            console.warn(`[${apiMethod}] Warning: Could not determine headers for response. Returning raw rows.`);
+            log.warn("Warning: Could not determine headers for response. Returning raw rows.", { operation: apiMethod });
             return dataRowsStr.map((r, index) => ({ raw_row: r, index }));
         }
 
         const structuredData: Record<string, any>[] = [];
         const numHeaders = headersToUse.length;
-        console.log(`[${apiMethod}] Processing ${dataRowsStr.length} data rows using ${numHeaders} headers (${headerRowDetected ? 'header row skipped' : 'header row not skipped'}). Headers: [${headersToUse.join(', ')}]`);
+        log.debug(`Processing ${dataRowsStr.length} data rows using ${numHeaders} headers (${headerRowDetected ? 'header row skipped' : 'header row not skipped'}). Headers: [${headersToUse.join(', ')}]`, { operation: apiMethod });
 
         for (const rowStr of dataRowsStr) {
             const cols = rowStr.split(";").map((c) => c.trim());
@@ -402,12 +323,12 @@ function parseResponseToStructure(
             }
 
             if (cols.length > numHeaders) {
-                console.warn(`[${apiMethod}] Row has more columns (${cols.length}) than headers (${numHeaders}). Adding extra columns as ExtraCol_X.`);
+                log.warn(`Row has more columns (${cols.length}) than headers (${numHeaders}). Adding extra columns as ExtraCol_X.`, { operation: apiMethod });
                 for (let i = numHeaders; i < cols.length; i++) {
                     rowDict[`ExtraCol_${i + 1}`] = cols[i] === "null" ? null : cols[i];
                 }
             } else if (cols.length < numHeaders) {
-                 console.warn(`[${apiMethod}] Row has fewer columns (${cols.length}) than headers (${numHeaders}). Missing values will be null.`);
+                 log.warn(`Row has fewer columns (${cols.length}) than headers (${numHeaders}). Missing values will be null.`, { operation: apiMethod });
                  for (let i = cols.length; i < numHeaders; i++) {
                      if (!rowDict.hasOwnProperty(headersToUse[i])) {
                          rowDict[headersToUse[i]] = null;
@@ -416,42 +337,96 @@ function parseResponseToStructure(
              }
             structuredData.push(rowDict);
         }
-        console.log(
-            `[${apiMethod}] Finished parsing. Result length: ${structuredData.length}`,
-        );
+        log.debug(`Finished parsing. Result length: ${structuredData.length}`, { operation: apiMethod });
         return structuredData;
 
     } catch (error: any) {
-        console.error(
-            `[${apiMethod}] Error parsing response string into structure: ${error.message}`,
-             `Response snippet: "${responseStr?.substring(0, 200)}..."`
-        );
+        log.error(`Error parsing response string into structure: ${error.message}`, { operation: apiMethod, payload: responseStr });
         return [{ error: "Parsing failed", details: error.message, raw_response_snippet: responseStr?.substring(0, 500) }];
     }
 }
 
 
+interface ParsedResponse {
+    rows: Record<string, any>[];
+    rejectedRows: ParseIssue[];
+    warnings: ColumnDriftWarning[];
+}
+
+/**
+ * Parses an operation's payload in the configured AKD_PARSE_MODE. Operations
+ * with a row schema are checked for column drift in both modes; in strict mode
+ * their rows are parsed against the schema and rows that do not fit are
+ * rejected. Lenient mode (and operations without a schema) use
+ * parseResponseToStructure as before.
+ */
+function parseOperationResponse(
+    apiMethod: string,
+    responseStr: string | null,
+    keyMapping?: string[],
+): ParsedResponse {
+    const schema = AKD_ROW_SCHEMAS[apiMethod];
+    const lowerStripped = responseStr?.trim().toLowerCase() ?? "";
+    const isMessage = !lowerStripped || lowerStripped === "not authorized" || NO_DATA_MESSAGES.some(msg => lowerStripped.includes(msg));
+    if (!schema || isMessage) {
+        return { rows: parseResponseToStructure(apiMethod, responseStr, keyMapping), rejectedRows: [], warnings: [] };
+    }
+
+    const table = splitAkdPayload(responseStr!);
+    const warnings = detectColumnDrift(apiMethod, schema, table);
+    for (const warning of warnings) {
+        log.warn("Column drift detected", { operation: apiMethod, drift: warning });
+    }
+
+    if (getParseMode() !== "strict") {
+        return { rows: parseResponseToStructure(apiMethod, responseStr, keyMapping), rejectedRows: [], warnings };
+    }
+
+    const { rows, issues } = parseWithSchema(apiMethod, schema, table);
+    for (const issue of issues) {
+        log.warn(`Strict parse rejected row ${issue.row}: ${issue.message}`, { operation: apiMethod, column: issue.column });
+    }
+    log.debug(`Strict parse kept ${rows.length} rows, rejected ${new Set(issues.map(issue => issue.row)).size}.`, { operation: apiMethod });
+    return { rows, rejectedRows: issues, warnings };
+}
+
+/** Parse warnings and rejected rows to attach to a FetchResult, omitting empty lists */
+function parseReport(parsed: Pick<ParsedResponse, "rejectedRows" | "warnings">): Pick<FetchResult, "rejectedRows" | "warnings"> {
+    return {
+        ...(parsed.warnings.length > 0 ? { warnings: parsed.warnings } : {}),
+        ...(parsed.rejectedRows.length > 0 ? { rejectedRows: parsed.rejectedRows } : {}),
+    };
+}
+
+/** Combines the parse reports of several fetch results; a layout warning seen in several results is kept once */
+function mergeParseReports(results: FetchResult[]): Pick<FetchResult, "rejectedRows" | "warnings"> {
+    const warnings = new Map<string, ColumnDriftWarning>();
+    results.flatMap(result => result.warnings ?? []).forEach(warning => warnings.set(JSON.stringify(warning), warning));
+    return parseReport({
+        warnings: Array.from(warnings.values()),
+        rejectedRows: results.flatMap(result => result.rejectedRows ?? []),
+    });
+}
+
+
 /** Specialized parser for GetExposureDynamic */
 function parseExposureDynamic(
     apiMethod: string,
     responseStr: string | null,
 ): Record<string, any>[] {
-    console.log(
-        `[${apiMethod}] parseExposureDynamic received string:`,
-        responseStr ? `"${responseStr.substring(0, 150)}..."` : "null",
-    );
+    log.debug("parseExposureDynamic received payload", { operation: apiMethod, payload: responseStr });
     if (!responseStr || !responseStr.trim()) {
-        console.log(`[${apiMethod}] Input string is null or empty.`);
+        log.debug("Input string is null or empty.", { operation: apiMethod });
         return [];
     }
 
     const lowerStripped = responseStr.trim().toLowerCase();
     if (lowerStripped.includes("no record") || lowerStripped.includes("no data")) {
-         console.log(`[${apiMethod}] Detected 'no data' message.`);
+         log.debug("Detected 'no data' message.", { operation: apiMethod });
          return [];
     }
     if (lowerStripped === "not authorized") {
-         console.log(`[${apiMethod}] Detected 'not authorized' message.`);
+         log.debug("Detected 'not authorized' message.", { operation: apiMethod });
          return [{ Metric: "Error", Value: "Not Authorized" }];
     }
 
@@ -462,34 +437,26 @@ function parseExposureDynamic(
             .split("|")
             .map((r) => r.trim())
             .filter((r) => r);
-        console.log(
-            `[${apiMethod}] Found ${rows.length} rows for exposure parsing.`,
-        );
+        log.debug(`Found ${rows.length} rows for exposure parsing.`, { operation: apiMethod });
 
         if (rows.length < 2) {
-            console.warn(
-                `[${apiMethod}] Not enough rows (${rows.length}) for specific exposure parsing. Falling back to standard parser.`,
-            );
+            log.warn(`Not enough rows (${rows.length}) for specific exposure parsing. Falling back to standard parser.`, { operation: apiMethod });
             return parseResponseToStructure(apiMethod, responseStr); // Pass null for keyMapping
         }
 
         const marketHeadersRaw = rows[0].split(";").map((h) => h.trim());
         if (!marketHeadersRaw || marketHeadersRaw.length < 2 || marketHeadersRaw[0].toLowerCase().trim() !== "market name") {
-            console.warn(
-                `[${apiMethod}] Unexpected header format in Exposure data. Falling back to standard parser.`,
-            );
+            log.warn("Unexpected header format in Exposure data. Falling back to standard parser.", { operation: apiMethod });
              return parseResponseToStructure(apiMethod, responseStr); // Pass null for keyMapping
         }
 
         const marketKeys = marketHeadersRaw.slice(1).map((mh) => cleanKey(mh));
-        console.log(`[${apiMethod}] Market keys: [${marketKeys.join(", ")}]`);
+        log.debug(`Market keys: [${marketKeys.join(", ")}]`, { operation: apiMethod });
 
         const structuredData: Record<string, any>[] = [];
         const dataRows = rows.slice(1);
 
-        console.log(
-            `[${apiMethod}] Processing ${dataRows.length} metric rows...`,
-        );
+        log.debug(`Processing ${dataRows.length} metric rows...`, { operation: apiMethod });
         for (const rowStr of dataRows) {
             const cols = rowStr.split(";").map((c) => c.trim());
             if (cols.length < 1) continue;
@@ -513,16 +480,11 @@ function parseExposureDynamic(
              });
             structuredData.push(rowDict);
         }
-        console.log(
-            `[${apiMethod}] Finished parsing exposure. Result length: ${structuredData.length}`,
-        );
+        log.debug(`Finished parsing exposure. Result length: ${structuredData.length}`, { operation: apiMethod });
         return structuredData;
 
     } catch (error: any) {
-        console.error(
-            `[${apiMethod}] Error parsing GetExposureDynamic response: ${error.message}`,
-            `Response snippet: "${responseStr?.substring(0, 200)}..."`
-        );
+        log.error(`Error parsing GetExposureDynamic response: ${error.message}`, { operation: apiMethod, payload: responseStr });
         return [
             {
                 error: "GetExposureDynamic parsing failed",
@@ -557,24 +519,18 @@ function extractAccountNumbers(
                         accountNumbers.push(trimmedAccount);
                     }
                 } else if (String(accountNum).trim().toLowerCase() === "not authorized") {
-                    console.log(`[extractAccountNumbers] Found 'Not Authorized' value for key '${accountKey}'.`);
+                    log.debug(`Found 'Not Authorized' value for key '${accountKey}'.`);
                 }
             }
         }
     } catch (error: any) {
-        console.error(
-            `Error extracting account numbers using key '${accountKey}': ${error.message}`,
-        );
+        log.error(`Error extracting account numbers using key '${accountKey}': ${error.message}`);
     }
 
     if (accountNumbers.length > 0) {
-        console.log(
-            `Extracted valid account numbers: [${accountNumbers.join(", ")}]`,
-        );
+        log.debug(`Extracted ${accountNumbers.length} valid account numbers.`, { accounts: accountNumbers });
     } else {
-        console.log(
-            `No valid account numbers extracted using key '${accountKey}'.`,
-        );
+        log.debug(`No valid account numbers extracted using key '${accountKey}'.`);
     }
     return accountNumbers;
 }
@@ -589,12 +545,6 @@ function toStringSafe(value: any): string {
 // Data Fetching Functions (Using Correct Parsing & Auth Handling)
 // ============================
 
-interface FetchResult {
-    headers: string[];
-    data: (string | null)[][];
-    error?: string; // Optional error message
-}
-
 // --- Standard Fetch Function Structure (Includes extensive logging) ---
 async function standardFetch(
     client: any,
@@ -603,8 +553,7 @@ async function standardFetch(
     targetHeaders: string[], // Expected headers for the output FetchResult
     accountNoForAuthCheck?: string, // Pass account number to check if it's the fallback
 ): Promise<FetchResult> {
-    const requestId = `${apiMethod}-${Date.now()}`; // Unique ID for this fetch
-    console.log(`---> [${requestId}] Fetching ${apiMethod} with params:`, JSON.stringify(params));
+    log.debug(`Fetching ${apiMethod}`, { operation: apiMethod, params });
 
     const authFailedMessage = "Authentication Failed";
     const genericErrorMessage = "Error fetching data";
@@ -621,7 +570,7 @@ async function standardFetch(
     const isInitialAuthFailure = accountNoForAuthCheck === DEFAULT_ACCOUNT_FALLBACK;
 
     if (isInitialAuthFailure) {
-        console.warn(`[${requestId}] Skipping API call due to previous auth failure.`);
+        log.warn("Skipping API call due to previous auth failure.", { operation: apiMethod });
         return {
             headers: targetHeaders || [],
             data: createFallbackData("Auth Failed", true),
@@ -633,7 +582,7 @@ async function standardFetch(
     const asyncMethodName = `${apiMethod}Async`;
     if (typeof client[asyncMethodName] !== "function") {
         const errorMsg = `API Method ${asyncMethodName} Unavailable`;
-        console.error(`[${requestId}] ${errorMsg}.`);
+        log.error(`${errorMsg}.`, { operation: apiMethod });
         return {
             headers: targetHeaders || [],
             data: createFallbackData(errorMsg),
@@ -642,15 +591,14 @@ async function standardFetch(
     }
 
     try {
-        console.log(`[${requestId}] Calling ${asyncMethodName}...`);
-        const result = await client[asyncMethodName](params);
-        console.log(`[${requestId}] Raw SOAP result received (type: ${typeof result}):`, JSON.stringify(result)?.substring(0, 300) + '...');
+        log.debug(`Calling ${asyncMethodName}...`, { operation: apiMethod });
+        const result = await callAkdOperation(client, apiMethod, params);
 
         const processed = await processAndUnzipResponse(apiMethod, result);
-        console.log(`[${requestId}] Processed response string:`, processed ? `"${processed.substring(0, 300)}..."` : processed);
+        log.debug("Processed response", { operation: apiMethod, payload: processed });
 
         if (processed?.trim().toLowerCase() === "not authorized") {
-            console.error(`[${requestId}] Authentication failed: API returned "Not Authorized".`);
+            log.error(`Authentication failed: API returned "Not Authorized".`, { operation: apiMethod });
             return {
                 headers: targetHeaders || [],
                 data: createFallbackData("Auth Failed", true),
@@ -659,21 +607,22 @@ async function standardFetch(
         }
 
         if (!processed) {
-            console.log(`[${requestId}] Processed response is null or empty. Returning empty data.`);
+            log.debug("Processed response is null or empty. Returning empty data.", { operation: apiMethod });
             return { headers: targetHeaders || [], data: [] }; // No error property for "no data"
         }
 
         const keyMapping = KEY_MAPPINGS[apiMethod];
-        if (!keyMapping) { console.warn(`[${requestId}] No key mapping defined.`); }
-        else { console.log(`[${requestId}] Using keyMapping: [${keyMapping.join(', ')}]`); }
+        if (!keyMapping) { log.warn("No key mapping defined.", { operation: apiMethod }); }
+        else { log.debug(`Using keyMapping: [${keyMapping.join(', ')}]`, { operation: apiMethod }); }
 
-        console.log(`[${requestId}] Calling parseResponseToStructure...`);
-        const structuredData = parseResponseToStructure(apiMethod, processed, keyMapping);
-        console.log(`[${requestId}] Structured data received (length: ${structuredData.length}):`, JSON.stringify(structuredData)?.substring(0, 500) + '...');
+        log.debug("Calling parseOperationResponse...", { operation: apiMethod });
+        const parsed = parseOperationResponse(apiMethod, processed, keyMapping);
+        const structuredData = parsed.rows;
+        log.debug(`Structured data received (length: ${structuredData.length})`, { operation: apiMethod });
 
         if (structuredData.length === 1 && structuredData[0]?.error) {
             const errorDetail = structuredData[0].details || parsingErrorMessage;
-            console.error(`[${requestId}] Parsing failed. Error: ${structuredData[0].error}. Details: ${errorDetail}`);
+            log.error(`Parsing failed. Error: ${structuredData[0].error}. Details: ${errorDetail}`, { operation: apiMethod });
              return {
                  headers: targetHeaders || [],
                  data: createFallbackData(`Parsing Error: ${structuredData[0].error}`),
@@ -683,7 +632,7 @@ async function standardFetch(
 
         const firstKey = keyMapping ? keyMapping[0] : "Error";
         if (structuredData.length === 1 && structuredData[0]?.[firstKey] === "Not Authorized") {
-            console.error(`[${requestId}] Authentication failed (detected during parsing).`);
+            log.error("Authentication failed (detected during parsing).", { operation: apiMethod });
              return {
                  headers: targetHeaders || [],
                  data: createFallbackData("Auth Failed", true),
@@ -694,14 +643,14 @@ async function standardFetch(
         if (structuredData.length > 0) {
             const headersForMapping = keyMapping || Object.keys(structuredData[0] || {});
             if (!headersForMapping.length && targetHeaders.length) {
-                 console.warn(`[${requestId}] headersForMapping is empty, using targetHeaders as fallback for mapping.`);
+                 log.warn("headersForMapping is empty, using targetHeaders as fallback for mapping.", { operation: apiMethod });
             }
-            console.log(`[${requestId}] Using headersForMapping for data construction: [${headersForMapping.join(', ')}]`);
+            log.debug(`Using headersForMapping for data construction: [${headersForMapping.join(', ')}]`, { operation: apiMethod });
 
              const dataOut: (string | null)[][] = structuredData.map((item) => {
                  // Ensure item is an object before mapping
                  if (typeof item !== 'object' || item === null) {
-                     console.warn(`[${requestId}] Skipping non-object item in structuredData:`, item);
+                     log.warn("Skipping non-object item in structuredData", { operation: apiMethod });
                      return Array(headersForMapping.length).fill(null); // Return array of nulls matching headers
                  }
                  return headersForMapping.map(header => {
@@ -709,34 +658,32 @@ async function standardFetch(
                          return toStringSafe(item[header]);
                      }
                      if (keyMapping?.includes(header)) {
-                        console.warn(`[${requestId}] Expected header '${header}' not found in item:`, JSON.stringify(item).substring(0,100));
+                        log.warn(`Expected header '${header}' not found in item`, { operation: apiMethod });
                      }
                      return null;
                  });
             });
-            console.log(`[${requestId}] Final dataOut created (length: ${dataOut.length}):`, JSON.stringify(dataOut)?.substring(0, 500) + '...');
 
-            console.log(`[${requestId}] Success. Found ${dataOut.length} items.`);
+            log.debug(`Success. Found ${dataOut.length} items.`, { operation: apiMethod });
             const finalResult: FetchResult = {
                 headers: targetHeaders || [],
                 data: dataOut || [],
+                ...parseReport(parsed),
             };
-            console.log(`[${requestId}] Returning final successful FetchResult:`, JSON.stringify(finalResult)?.substring(0, 500) + '...');
             return finalResult;
         } else {
-             console.log(`[${requestId}] No data found after parsing. Returning empty data.`);
-             return { headers: targetHeaders || [], data: [] }; // No error for no data
+             log.debug("No data found after parsing. Returning empty data.", { operation: apiMethod });
+             return { headers: targetHeaders || [], data: [], ...parseReport(parsed) }; // No error for no data
         }
 
     } catch (error: any) {
-        console.error(`[${requestId}] CRITICAL ERROR in standardFetch: ${error.message}`);
-        console.error(error.stack);
+        log.error(`CRITICAL ERROR in standardFetch: ${error.message}`, { operation: apiMethod });
         let errorMsg = genericErrorMessage;
         let isAuthFailure = false;
         let errorDataMsg = "API Error";
 
         if (error.Fault) {
-            console.error("SOAP Fault:", JSON.stringify(error.Fault, null, 2));
+            log.error("SOAP Fault", { operation: apiMethod, fault: error.Fault });
              errorMsg = `SOAP Fault Encountered`;
              errorDataMsg = "SOAP Fault";
              if (JSON.stringify(error.Fault).toLowerCase().includes("auth")) {
@@ -748,7 +695,7 @@ async function standardFetch(
              errorMsg = `API Error: ${error.message}`;
              errorDataMsg = `API Error: ${error.message.substring(0, 50)}`; // Truncate for data cell
         }
-        console.log(`[${requestId}] Returning error fallback result due to catch block.`);
+        log.debug("Returning error fallback result due to catch block.", { operation: apiMethod });
         return {
             headers: targetHeaders || [],
             data: createFallbackData(errorDataMsg, isAuthFailure),
@@ -758,6 +705,94 @@ async function standardFetch(
 }
 
 
+// ============================
+// Date Ranges
+// ============================
+
+/** Converts "YYYY-MM-DD" to AKD's "MMM dd, yyyy" (e.g. "Mar 01, 2025") */
+function toAkdDate(isoDate: string): string {
+    return format(parseISO(isoDate), "MMM dd, yyyy");
+}
+
+/**
+ * Runs a ranged fetch once per chunk of at most AKD_MAX_RANGE_DAYS and merges
+ * the results. Chunks are fetched sequentially to stay gentle on the service.
+ * An auth failure aborts; other chunk errors are reported as partial data while
+ * the successful chunks are kept.
+ */
+async function fetchRangeInChunks<T extends { error?: string }>(
+    apiMethod: string,
+    range: DateRange,
+    fetchChunk: (startDate: string, endDate: string) => Promise<T>,
+    merge: (succeeded: T[], error?: string) => T,
+): Promise<T> {
+    const chunks = splitDateRange(range, AKD_MAX_RANGE_DAYS);
+    if (chunks.length > 1) {
+        log.debug(`Splitting ${range.from}..${range.to} into ${chunks.length} chunks of up to ${AKD_MAX_RANGE_DAYS} days.`, { operation: apiMethod });
+    }
+
+    const results: T[] = [];
+    for (const chunk of chunks) {
+        const result = await fetchChunk(toAkdDate(chunk.from), toAkdDate(chunk.to));
+        if (result.error === "Authentication Failed") {
+            return result;
+        }
+        if (result.error) {
+            log.warn(`Chunk ${chunk.from}..${chunk.to} failed: ${result.error}`, { operation: apiMethod });
+        }
+        results.push(result);
+    }
+
+    const succeeded = results.filter(result => !result.error);
+    if (succeeded.length === 0) {
+        return results[0];
+    }
+    const failed = results.find(result => result.error);
+    return merge(succeeded, failed ? `Partial data: ${failed.error}` : undefined);
+}
+
+const mergeFetchResults = (succeeded: FetchResult[], error?: string): FetchResult => ({
+    headers: succeeded[0].headers,
+    data: succeeded.flatMap(result => result.data),
+    ...(error ? { error } : {}),
+    ...mergeParseReports(succeeded),
+});
+
+/**
+ * Combines one section fetched for several accounts into a single table.
+ * With more than one account an "Account" column is prepended (unless the
+ * section already identifies the account itself). Errors are prefixed with the
+ * account they came from; failed accounts contribute no rows.
+ */
+function mergeAccountResults(
+    perAccount: { accountNo: string; result: FetchResult }[],
+    addAccountColumn: boolean = true,
+): FetchResult {
+    if (perAccount.length === 1) {
+        return perAccount[0].result;
+    }
+
+    const errors = perAccount
+        .filter(({ result }) => result.error)
+        .map(({ accountNo, result }) => `${accountNo}: ${result.error}`);
+    const succeeded = perAccount.filter(({ result }) => !result.error);
+    if (succeeded.length === 0) {
+        return { ...perAccount[0].result, error: errors.join("; ") };
+    }
+
+    const headers = succeeded[0].result.headers;
+    return {
+        headers: addAccountColumn ? ["Account", ...headers] : headers,
+        data: succeeded.flatMap(({ accountNo, result }) =>
+            addAccountColumn ? result.data.map(row => [accountNo, ...row]) : result.data),
+        ...(errors.length > 0 ? { error: errors.join("; ") } : {}),
+        ...mergeParseReports(succeeded.map(({ accountNo, result }) => ({
+            ...result,
+            rejectedRows: result.rejectedRows?.map(issue => ({ ...issue, account: accountNo })),
+        }))),
+    };
+}
+
 // ============================
 // Specific Data Fetching Implementations
 // ============================
@@ -765,9 +800,9 @@ async function standardFetch(
 async function getTradingAccounts(
     client: any,
     traderId: string,
-): Promise<{ result: FetchResult; primaryAccount: string }> {
+): Promise<{ result: FetchResult; primaryAccount: string; accountNumbers: string[] }> {
     const apiMethod = "TradAccounts";
-    console.log(`---> Fetching ${apiMethod} for trader ${traderId}...`);
+    log.debug(`Fetching ${apiMethod}`, { operation: apiMethod, trader: traderId });
     const targetHeaders = ["Account", "Name", "Status", "Type", "Balance"];
     const keyMapping = KEY_MAPPINGS[apiMethod];
     let primaryAccount = DEFAULT_ACCOUNT_FALLBACK;
@@ -784,36 +819,37 @@ async function getTradingAccounts(
 
     try {
         const params = { userName: traderId };
-        console.log(`[${apiMethod}] Calling ${apiMethod}Async with params:`, params);
-        const result = await client.TradAccountsAsync(params);
+        log.debug(`Calling ${apiMethod}Async`, { operation: apiMethod, params });
+        const result = await callAkdOperation(client, apiMethod, params);
         const processed = await processAndUnzipResponse(apiMethod, result);
 
         if (processed?.trim().toLowerCase() === "not authorized") {
-            console.error(`[${apiMethod}] Authentication failed for user ${traderId}.`);
-            return { result: createFallback("Auth Failed", true), primaryAccount };
+            log.error("Authentication failed", { operation: apiMethod, trader: traderId });
+            return { result: createFallback("Auth Failed", true), primaryAccount, accountNumbers: [] };
         }
         if (!processed) {
-            console.warn(`[${apiMethod}] Processed response is null or empty for ${traderId}.`);
+            log.warn("Processed response is null or empty", { operation: apiMethod, trader: traderId });
             // Treat no response for accounts as a potential issue, return AUTH_FAILED marker
-            return { result: { headers: targetHeaders, data: [] }, primaryAccount };
+            return { result: { headers: targetHeaders, data: [] }, primaryAccount, accountNumbers: [] };
         }
 
-        const structuredData = parseResponseToStructure(apiMethod, processed, keyMapping);
+        const parsed = parseOperationResponse(apiMethod, processed, keyMapping);
+        const structuredData = parsed.rows;
 
         if (structuredData.length === 1 && structuredData[0]?.[keyMapping?.[0] ?? 'Error'] === "Not Authorized") {
-             console.error(`[${apiMethod}] Auth failed (detected during parsing).`);
-             return { result: createFallback("Auth Failed", true), primaryAccount: DEFAULT_ACCOUNT_FALLBACK };
+             log.error("Auth failed (detected during parsing).", { operation: apiMethod });
+             return { result: createFallback("Auth Failed", true), primaryAccount: DEFAULT_ACCOUNT_FALLBACK, accountNumbers: [] };
         }
         if (structuredData.length === 1 && structuredData[0]?.error) {
-             console.error(`[${apiMethod}] Parsing failed: ${structuredData[0].error}`);
-             return { result: createFallback(`Parsing Failed: ${structuredData[0].error}`), primaryAccount: DEFAULT_ACCOUNT_FALLBACK };
+             log.error(`Parsing failed: ${structuredData[0].error}`, { operation: apiMethod });
+             return { result: createFallback(`Parsing Failed: ${structuredData[0].error}`), primaryAccount: DEFAULT_ACCOUNT_FALLBACK, accountNumbers: [] };
         }
 
         const accountNumbers = extractAccountNumbers(structuredData, "AccountCode");
 
         if (accountNumbers.length > 0) {
             primaryAccount = accountNumbers[0];
-            console.log(`[${apiMethod}] Primary account determined: ${primaryAccount}`);
+            log.debug("Primary account determined", { operation: apiMethod, primaryAccount });
             const dataOut: (string|null)[][] = structuredData.map((item) => [
                 toStringSafe(item.AccountCode),
                 toStringSafe(item.AccountTitle),
@@ -821,33 +857,34 @@ async function getTradingAccounts(
                 "Unknown",
                 "PKR ?",
             ]);
-            console.log(`[${apiMethod}] Success. Found ${dataOut.length} accounts.`);
+            log.debug(`Success. Found ${dataOut.length} accounts.`, { operation: apiMethod });
             return {
-                result: { headers: targetHeaders, data: dataOut },
+                result: { headers: targetHeaders, data: dataOut, ...parseReport(parsed) },
                 primaryAccount,
+                accountNumbers,
             };
         } else {
-            console.warn(`[${apiMethod}] No valid account numbers extracted for ${traderId}.`);
+            log.warn("No valid account numbers extracted", { operation: apiMethod, trader: traderId });
             // Treat no accounts found (but no explicit auth error) as potential issue downstream
             return {
                 result: { headers: targetHeaders, data: [] }, // Return empty data
                 primaryAccount: DEFAULT_ACCOUNT_FALLBACK, // Keep fallback marker
+                accountNumbers: [],
             };
         }
     } catch (error: any) {
-        console.error(`[${apiMethod}] CRITICAL ERROR for ${traderId}: ${error.message}`);
-        console.error(error.stack);
+        log.error(`CRITICAL ERROR: ${error.message}`, { operation: apiMethod, trader: traderId, error });
         let errorMsg = `API Error: ${error.message}`;
         let isAuthFail = false;
         if (error.Fault) {
-            console.error("SOAP Fault:", JSON.stringify(error.Fault, null, 2));
+            log.error("SOAP Fault", { operation: apiMethod, fault: error.Fault });
             errorMsg = "SOAP Fault";
              if (JSON.stringify(error.Fault).toLowerCase().includes("auth")) {
                  isAuthFail = true;
                  errorMsg = "Authentication Failed";
              }
         }
-        return { result: createFallback(errorMsg, isAuthFail), primaryAccount: DEFAULT_ACCOUNT_FALLBACK };
+        return { result: createFallback(errorMsg, isAuthFail), primaryAccount: DEFAULT_ACCOUNT_FALLBACK, accountNumbers: [] };
     }
 }
 
@@ -855,12 +892,12 @@ async function getOrderHistory(
     client: any,
     traderId: string,
     accountNo: string,
-    startDate = COMMON_START_DATE,
-    endDate = COMMON_END_DATE,
+    range: DateRange,
 ): Promise<FetchResult> {
     const apiMethod = "GetOrderHistory";
     const targetHeaders = [ "Order ID", "Symbol", "Side", "Type", "Quantity", "Price", "Status", "Date" ];
-    const params = {
+
+     const result = await fetchRangeInChunks(apiMethod, range, (startDate, endDate) => standardFetch(client, apiMethod, {
         trader: traderId,
         accountNo: accountNo,
         pincode: "",
@@ -869,14 +906,12 @@ async function getOrderHistory(
         startDate: startDate,
         endDate: endDate,
         from: "OrderHistory",
-    };
+     }, targetHeaders, accountNo), mergeFetchResults);
 
-     const result = await standardFetch(client, apiMethod, params, targetHeaders, accountNo);
-
-     if (result.data.length > 0 && !result.error) {
+     if (result.data.length > 0) {
         const keyMapping = KEY_MAPPINGS[apiMethod];
         if (!keyMapping) {
-             console.error(`[${apiMethod}] Key mapping missing, cannot reliably remap data.`);
+             log.error("Key mapping missing, cannot reliably remap data.", { operation: apiMethod });
              return result; // Return data as fetched by standardFetch
         }
 
@@ -893,7 +928,7 @@ async function getOrderHistory(
          const dataOut: (string | null)[][] = result.data.map((row, index) => {
              // Check if row is valid array before accessing
              if (!Array.isArray(row)) {
-                 console.warn(`[${apiMethod}] Skipping invalid row item during post-processing:`, row);
+                 log.warn("Skipping invalid row item during post-processing", { operation: apiMethod });
                  return Array(targetHeaders.length).fill(null); // Return nulls if row format is wrong
              }
              const orderId = (refIndex !== -1 && refIndex < row.length) ? toStringSafe(row[refIndex]) : `OH-${index + 1}`;
@@ -914,7 +949,7 @@ async function getOrderHistory(
              ];
          });
          // Return the remapped data with the correct target headers
-         return { headers: targetHeaders, data: dataOut };
+         return { ...result, headers: targetHeaders, data: dataOut };
      }
 
      // Return result from standardFetch if it had an error or no data
@@ -935,10 +970,10 @@ async function getPositions(
 
      const result = await standardFetch(client, apiMethod, params, targetHeaders, accountNo);
 
-     if (result.data.length > 0 && !result.error) {
+     if (result.data.length > 0) {
          const keyMapping = KEY_MAPPINGS[apiMethod];
          if (!keyMapping) {
-             console.error(`[${apiMethod}] Key mapping missing.`);
+             log.error("Key mapping missing.", { operation: apiMethod });
              return result;
          }
 
@@ -951,7 +986,7 @@ async function getPositions(
 
          const dataOut: (string | null)[][] = result.data.map(row => {
             if (!Array.isArray(row)) {
-                 console.warn(`[${apiMethod}] Skipping invalid row item during post-processing:`, row);
+                 log.warn("Skipping invalid row item during post-processing", { operation: apiMethod });
                  return Array(targetHeaders.length).fill(null);
             }
              return [
@@ -963,7 +998,7 @@ async function getPositions(
                  (valueHaircutIndex !== -1 && valueHaircutIndex < row.length) ? toStringSafe(row[valueHaircutIndex]) : null,
              ];
          });
-         return { headers: targetHeaders, data: dataOut };
+         return { ...result, headers: targetHeaders, data: dataOut };
      }
 
      return result;
@@ -973,25 +1008,23 @@ async function getAccountStatement(
     client: any,
     traderId: string,
     accountNo: string,
-    startDate = COMMON_START_DATE,
-    endDate = COMMON_END_DATE,
+    range: DateRange,
 ): Promise<FetchResult> {
     const apiMethod = "GetAccountStatement";
     const targetHeaders = ["Voucher No", "Date", "Description", "Debit", "Credit", "Balance"];
-    const params = {
+
+     const result = await fetchRangeInChunks(apiMethod, range, (startDate, endDate) => standardFetch(client, apiMethod, {
         userName: traderId,
         accountNo: accountNo,
         startDate: startDate,
         endDate: endDate,
         from: "TradeCast",
-    };
+     }, targetHeaders, accountNo), mergeFetchResults);
 
-     const result = await standardFetch(client, apiMethod, params, targetHeaders, accountNo);
-
-     if (result.data.length > 0 && !result.error) {
+     if (result.data.length > 0) {
          const keyMapping = KEY_MAPPINGS[apiMethod];
          if (!keyMapping) {
-             console.error(`[${apiMethod}] Key mapping missing.`);
+             log.error("Key mapping missing.", { operation: apiMethod });
              return result;
          }
 
@@ -1004,7 +1037,7 @@ async function getAccountStatement(
 
          const dataOut: (string | null)[][] = result.data.map(row => {
              if (!Array.isArray(row)) {
-                 console.warn(`[${apiMethod}] Skipping invalid row item during post-processing:`, row);
+                 log.warn("Skipping invalid row item during post-processing", { operation: apiMethod });
                  return Array(targetHeaders.length).fill(null);
              }
             return [
@@ -1016,7 +1049,7 @@ async function getAccountStatement(
                  (balanceIndex !== -1 && balanceIndex < row.length) ? toStringSafe(row[balanceIndex]) : null,
              ];
          });
-         return { headers: targetHeaders, data: dataOut };
+         return { ...result, headers: targetHeaders, data: dataOut };
      }
 
      return result;
@@ -1028,10 +1061,7 @@ async function getAccountInfo(
     accountNo: string,
 ): Promise<FetchResult> {
     const apiMethod = "GetExposureDynamic";
-    const requestId = `${apiMethod}-${Date.now()}`; // Unique ID for this specific call instance
-    console.log(
-        `---> [${requestId}] Fetching Account Info (via ${apiMethod}) for trader ${traderId}, account ${accountNo}...`,
-    );
+    log.debug(`Fetching Account Info (via ${apiMethod})`, { operation: apiMethod, trader: traderId, account: accountNo });
     const targetHeaders = ["Detail", "Value"];
 
     // Consistent fallback creation
@@ -1042,29 +1072,29 @@ async function getAccountInfo(
     });
 
     if (accountNo === DEFAULT_ACCOUNT_FALLBACK) {
-        console.warn(`[${requestId}] Skipping API call due to previous authentication failure.`);
+        log.warn("Skipping API call due to previous authentication failure.", { operation: apiMethod });
         return createFallback("Auth Failed", true);
     }
 
     const asyncMethodName = `${apiMethod}Async`;
     if (typeof client[asyncMethodName] !== "function") {
         const errorMsg = `API Method ${asyncMethodName} Unavailable`;
-        console.error(`[${requestId}] ${errorMsg}`);
+        log.error(`${errorMsg}`, { operation: apiMethod });
         return createFallback(errorMsg);
     }
 
     try {
         const params = { UserID: traderId, account: accountNo, approved: "0" };
-        console.log(`[${requestId}] Calling ${asyncMethodName} with params:`, params);
-        const result = await client[asyncMethodName](params);
+        log.debug(`Calling ${asyncMethodName}`, { operation: apiMethod, params });
+        const result = await callAkdOperation(client, apiMethod, params);
         const processed = await processAndUnzipResponse(apiMethod, result); // Use base apiMethod for logging context
 
         if (processed?.trim().toLowerCase() === "not authorized") {
-            console.error(`[${requestId}] Authentication failed for this call.`);
+            log.error("Authentication failed for this call.", { operation: apiMethod });
             return createFallback("Auth Failed", true);
         }
         if (!processed) {
-            console.warn(`[${requestId}] Processed response is null or empty for ${traderId}.`);
+            log.warn("Processed response is null or empty", { operation: apiMethod, trader: traderId });
             return createFallback("No details found");
         }
 
@@ -1073,11 +1103,11 @@ async function getAccountInfo(
         if (structuredData.length === 1 && structuredData[0]?.Metric === "Error") {
              const errorMessage = structuredData[0]?.Value || "Unknown Error";
              const isAuthFail = errorMessage === "Not Authorized";
-             console.error(`[${requestId}] Error detected during exposure parsing: ${errorMessage}`);
+             log.error(`Error detected during exposure parsing: ${errorMessage}`, { operation: apiMethod });
              return createFallback(`Error: ${errorMessage}`, isAuthFail);
         }
         if (structuredData.length === 1 && structuredData[0]?.error) {
-             console.error(`[${requestId}] Parsing failed (fallback parser). Error: ${structuredData[0].error}`);
+             log.error(`Parsing failed (fallback parser). Error: ${structuredData[0].error}`, { operation: apiMethod });
              return createFallback(`Parsing Failed: ${structuredData[0].error}`);
         }
 
@@ -1124,20 +1154,19 @@ async function getAccountInfo(
             if (exposure !== null) dataOut.push(["Exposure (FUT)", exposure]);
             if (profitLoss !== null) dataOut.push(["Profit/Loss (ODL)", profitLoss]);
 
-            console.log(`[${requestId}] Success. Extracted ${dataOut.length - 1} details.`);
+            log.debug(`Success. Extracted ${dataOut.length - 1} details.`, { operation: apiMethod });
             return { headers: targetHeaders, data: dataOut };
         }
 
-        console.warn(`[${requestId}] No valid account info found after parsing for ${traderId}.`);
+        log.warn("No valid account info found after parsing", { operation: apiMethod, trader: traderId });
         return createFallback("No details found");
 
     } catch (error: any) {
-        console.error(`[${requestId}] CRITICAL ERROR for ${traderId}: ${error.message}`);
-        console.error(error.stack);
+        log.error(`CRITICAL ERROR: ${error.message}`, { operation: apiMethod, trader: traderId, error });
         let errorMsg = `API Error: ${error.message}`;
         let isAuthFail = false;
         if (error.Fault) {
-            console.error("SOAP Fault:", JSON.stringify(error.Fault, null, 2));
+            log.error("SOAP Fault", { operation: apiMethod, fault: error.Fault });
              errorMsg = "SOAP Fault";
              if (JSON.stringify(error.Fault).toLowerCase().includes("auth")) {
                  isAuthFail = true;
@@ -1191,31 +1220,127 @@ async function getOutstandingLog(
 }
 
 
+// --- Holdings, Margin Call and Commission Fetching Functions ---
+
+async function getOpenPositions(
+    client: any,
+    traderId: string,
+    accountNo: string,
+): Promise<FetchResult> {
+    const apiMethod = "GetOpenPosition";
+    const params = {
+        UserID: traderId,
+        Account: accountNo,
+    };
+    return standardFetch(client, apiMethod, params, KEY_MAPPINGS[apiMethod], accountNo);
+}
+
+async function getCdcHoldings(
+    client: any,
+    accountNo: string,
+): Promise<FetchResult> {
+    const apiMethod = "GetOpenCDCPosition";
+    const params = {
+        accountNo: accountNo,
+    };
+    return standardFetch(client, apiMethod, params, KEY_MAPPINGS[apiMethod], accountNo);
+}
+
+/**
+ * Margin calls are reported per trader. When a single account is requested,
+ * rows belonging to other accounts are dropped.
+ */
+async function getMarginCalls(
+    client: any,
+    traderId: string,
+    accountNo: string,
+    onlyAccount?: string,
+): Promise<FetchResult> {
+    const apiMethod = "GetMarginCallByTrader";
+    const params = {
+        userName: traderId,
+    };
+    const result = await standardFetch(client, apiMethod, params, KEY_MAPPINGS[apiMethod], accountNo);
+
+    if (onlyAccount && result.data.length > 0) {
+        const accountIndex = KEY_MAPPINGS[apiMethod].indexOf("Account");
+        return { ...result, data: result.data.filter(row => row[accountIndex] === onlyAccount) };
+    }
+    return result;
+}
+
+async function getCommissionSummary(
+    client: any,
+    traderId: string,
+    accountNo: string,
+): Promise<FetchResult> {
+    const apiMethod = "CommSummray"; // Spelling matches the SOAP operation
+    const params = {
+        userName: traderId,
+        account: accountNo,
+    };
+    return standardFetch(client, apiMethod, params, KEY_MAPPINGS[apiMethod], accountNo);
+}
+
+const AKD_MARKET_LISTS = {
+    TopGainers: "Top Gainers",
+    TopLosers: "Top Losers",
+} as const;
+
+type AkdMarketList = keyof typeof AKD_MARKET_LISTS;
+
+/** Market-wide list from getInfo; not tied to an account, so the trader ID is left blank */
+async function getMarketInfo(
+    client: any,
+    infoType: AkdMarketList,
+    accountNo: string,
+): Promise<FetchResult> {
+    const apiMethod = "getInfo";
+    const params = {
+        userID: "",
+        infoType: `${infoType}=`,
+        otherInfo: "",
+    };
+    return standardFetch(client, apiMethod, params, KEY_MAPPINGS[apiMethod], accountNo);
+}
+
+/** Top gainers and losers in one table, tagged with a leading "List" column */
+async function getMarketMovers(
+    client: any,
+    accountNo: string,
+): Promise<FetchResult> {
+    const lists = Object.keys(AKD_MARKET_LISTS) as AkdMarketList[];
+    const results = await Promise.all(lists.map(list => getMarketInfo(client, list, accountNo)));
+
+    const errors = results
+        .map((result, i) => result.error ? `${AKD_MARKET_LISTS[lists[i]]}: ${result.error}` : null)
+        .filter((error): error is string => error !== null);
+    if (errors.length === results.length) {
+        return { ...results[0], error: errors.join("; ") };
+    }
+
+    return {
+        headers: ["List", ...KEY_MAPPINGS.getInfo],
+        data: results.flatMap((result, i) =>
+            result.error ? [] : result.data.map(row => [AKD_MARKET_LISTS[lists[i]], ...row])),
+        ...(errors.length > 0 ? { error: errors.join("; ") } : {}),
+        ...mergeParseReports(results.filter(result => !result.error)),
+    };
+}
+
+
 // ============================
 // Main Exported Functions
 // ============================
 
-interface AllAccountDetails {
-    tradingAccounts: FetchResult;
-    orderHistory: FetchResult;
-    positions: FetchResult;
-    accountInfo: FetchResult;
-    accountStatement: FetchResult;
-    tradeLogs: FetchResult;
-    activityLogs: FetchResult;
-    outstandingLogs: FetchResult;
-    timestamp: string;
-    dataSource: 'api' | 'api_with_errors' | 'error' | 'error_auth'; // Refined dataSource
-}
-
 async function fetchAllAccountDetails(
     traderUsername: string,
     traderPassword?: string, // Password often not needed directly for API calls if service auth works
+    range: DateRange = defaultDateRange(),
+    account?: string, // A single account code; all of the trader's accounts when omitted
 ): Promise<AllAccountDetails> {
     // Log received TRADER username (Avoid logging password)
-    console.log(`Credentials received for AKD connection: {"username":"${traderUsername}"}`);
     const timestamp = new Date().toISOString();
-    const requestId = `fetchAll-${Date.now()}`; // Unique ID for this request
 
     // Helper to create a default/error FetchResult structure
     const createDefaultFetchResult = (headers: string[] = ["Error"], message: string = "Error", isAuthFailure: boolean = false): FetchResult => {
@@ -1235,8 +1360,8 @@ async function fetchAllAccountDetails(
     }
 
     // Ensure required variables are present
-    if (!traderUsername || !SERVICE_USERNAME || !SERVICE_PASSWORD) {
-        console.error(`[${requestId}] Error: Missing Trader Credentials or Service Credentials.`);
+    if (!traderUsername) {
+        log.error("Error: Missing Trader Credentials.");
         return {
             tradingAccounts: createDefaultFetchResult(safeGetHeaders('TradAccounts'), "Missing Credentials"),
             orderHistory: createDefaultFetchResult(safeGetHeaders('GetOrderHistory'), "Missing Credentials"),
@@ -1246,23 +1371,25 @@ async function fetchAllAccountDetails(
             tradeLogs: createDefaultFetchResult(safeGetHeaders('GetTradeLog'), "Missing Credentials"),
             activityLogs: createDefaultFetchResult(safeGetHeaders('GetDailyActivityLog'), "Missing Credentials"),
             outstandingLogs: createDefaultFetchResult(safeGetHeaders('GetOutstandingLog'), "Missing Credentials"),
+            openPositions: createDefaultFetchResult(safeGetHeaders('GetOpenPosition'), "Missing Credentials"),
+            cdcHoldings: createDefaultFetchResult(safeGetHeaders('GetOpenCDCPosition'), "Missing Credentials"),
+            marginCalls: createDefaultFetchResult(safeGetHeaders('GetMarginCallByTrader'), "Missing Credentials"),
+            commissionSummary: createDefaultFetchResult(safeGetHeaders('CommSummray'), "Missing Credentials"),
+            marketInfo: createDefaultFetchResult(["List", ...safeGetHeaders('getInfo')], "Missing Credentials"),
             timestamp,
             dataSource: "error",
+            range,
         };
     }
 
-    console.log(`Fetching AKD details for ${traderUsername}, request ID: ${requestId}, Time: ${timestamp}`);
+    log.info("Fetching AKD account details", { trader: traderUsername, range, account });
 
     try {
-        console.log(`[${requestId}] Attempting SOAP connection to ${WSDL_URL}...`);
-        console.log(`   Service Username: ${SERVICE_USERNAME}`);
-
-        const client = await soap.createClientAsync(WSDL_URL);
-        client.setSecurity(new soap.BasicAuthSecurity(SERVICE_USERNAME, SERVICE_PASSWORD));
-        console.log(`[${requestId}] SOAP client created and Service authentication set.`);
+        log.debug("Getting pooled SOAP client", { wsdlUrl: AKD_WSDL_URL });
+        const client = await getAkdSoapClient();
 
         // --- Get Trading Accounts (Crucial First Step) ---
-        const { result: tradingAccountsResult, primaryAccount } = await getTradingAccounts(client, traderUsername);
+        const { result: tradingAccountsResult, primaryAccount, accountNumbers } = await getTradingAccounts(client, traderUsername);
 
         // --- CRITICAL AUTH CHECK ---
         const isAuthFailed = primaryAccount === DEFAULT_ACCOUNT_FALLBACK ||
@@ -1270,7 +1397,7 @@ async function fetchAllAccountDetails(
                              (Array.isArray(tradingAccountsResult.data) && tradingAccountsResult.data[0]?.[0] === "Auth Failed");
 
         if (isAuthFailed) {
-            console.error(`[${requestId}] Authentication failed for ${traderUsername} (detected via TradAccounts). Aborting further calls.`);
+            log.error("Authentication failed (detected via TradAccounts). Aborting further calls.", { trader: traderUsername });
              const finalTradingAccounts = createDefaultFetchResult(safeGetHeaders('TradAccounts'), "Auth Failed", true);
             return {
                 tradingAccounts: finalTradingAccounts,
@@ -1281,46 +1408,70 @@ async function fetchAllAccountDetails(
                 tradeLogs: createDefaultFetchResult(safeGetHeaders('GetTradeLog'), "Auth Failed", true),
                 activityLogs: createDefaultFetchResult(safeGetHeaders('GetDailyActivityLog'), "Auth Failed", true),
                 outstandingLogs: createDefaultFetchResult(safeGetHeaders('GetOutstandingLog'), "Auth Failed", true),
+                openPositions: createDefaultFetchResult(safeGetHeaders('GetOpenPosition'), "Auth Failed", true),
+                cdcHoldings: createDefaultFetchResult(safeGetHeaders('GetOpenCDCPosition'), "Auth Failed", true),
+                marginCalls: createDefaultFetchResult(safeGetHeaders('GetMarginCallByTrader'), "Auth Failed", true),
+                commissionSummary: createDefaultFetchResult(safeGetHeaders('CommSummray'), "Auth Failed", true),
+                marketInfo: createDefaultFetchResult(["List", ...safeGetHeaders('getInfo')], "Auth Failed", true),
                 timestamp,
                 dataSource: "error_auth",
+                range,
             };
         }
-        console.log(`[${requestId}] Using primary account ${primaryAccount} for subsequent API calls.`);
-
-        // --- Fetch other details IN PARALLEL using Promise.allSettled ---
-        const results = await Promise.allSettled([
-            getOrderHistory(client, traderUsername, primaryAccount),
-            getPositions(client, traderUsername, primaryAccount),
-            getAccountInfo(client, traderUsername, primaryAccount),
-            getAccountStatement(client, traderUsername, primaryAccount),
-            getTradeLog(client, traderUsername, primaryAccount),
-            getDailyActivityLog(client, traderUsername, primaryAccount),
-            getOutstandingLog(client, traderUsername, primaryAccount),
-        ]);
+
+        // --- Pick the accounts to fetch: the requested one, or every account the trader owns ---
+        if (account && !accountNumbers.includes(account)) {
+            log.warn("Requested account is not linked to the trader", { account, trader: traderUsername });
+            const message = `Account ${account} not found for this trader`;
+            return {
+                tradingAccounts: tradingAccountsResult,
+                orderHistory: createDefaultFetchResult(safeGetHeaders('GetOrderHistory'), message),
+                positions: createDefaultFetchResult(safeGetHeaders('GetCollateral'), message),
+                accountInfo: createDefaultFetchResult(["Detail", "Value"], message),
+                accountStatement: createDefaultFetchResult(["Voucher No", "Date", "Description", "Debit", "Credit", "Balance"], message),
+                tradeLogs: createDefaultFetchResult(safeGetHeaders('GetTradeLog'), message),
+                activityLogs: createDefaultFetchResult(safeGetHeaders('GetDailyActivityLog'), message),
+                outstandingLogs: createDefaultFetchResult(safeGetHeaders('GetOutstandingLog'), message),
+                openPositions: createDefaultFetchResult(safeGetHeaders('GetOpenPosition'), message),
+                cdcHoldings: createDefaultFetchResult(safeGetHeaders('GetOpenCDCPosition'), message),
+                marginCalls: createDefaultFetchResult(safeGetHeaders('GetMarginCallByTrader'), message),
+                commissionSummary: createDefaultFetchResult(safeGetHeaders('CommSummray'), message),
+                marketInfo: createDefaultFetchResult(["List", ...safeGetHeaders('getInfo')], message),
+                timestamp,
+                dataSource: "error",
+                range,
+                accounts: accountNumbers,
+                selectedAccount: account,
+            };
+        }
+        const targetAccounts = account ? [account] : accountNumbers;
+        log.debug(`Fetching account data for ${targetAccounts.length} accounts`, { accounts: targetAccounts });
 
         // --- Process results from Promise.allSettled ---
         const processSettledResult = (
             settledResult: PromiseSettledResult<FetchResult>,
             fallbackHeaders: string[],
-            callName: string // For logging
+            call: string, // For logging
+            accountNo?: string,
          ): FetchResult => {
             if (settledResult.status === 'fulfilled') {
-                 console.log(`[${requestId}] Call ${callName} fulfilled.`);
+                 log.debug("Call fulfilled", { call, account: accountNo });
                  const value = settledResult.value;
                  // Validate the structure of the fulfilled value
                  if (typeof value === 'object' && value !== null && Array.isArray(value.headers) && Array.isArray(value.data)) {
                       return {
                          headers: value.headers,
                          data: value.data,
-                         error: typeof value.error === 'string' ? value.error : undefined // Pass error if standardFetch returned one
+                         error: typeof value.error === 'string' ? value.error : undefined, // Pass error if standardFetch returned one
+                         ...mergeParseReports([value]),
                       };
                  } else {
-                      console.error(`[${requestId}] Call ${callName} fulfilled but returned invalid structure:`, value);
-                      return createDefaultFetchResult(fallbackHeaders, `Invalid Data Format from ${callName}`);
+                      log.error("Call fulfilled but returned invalid structure", { call, account: accountNo });
+                      return createDefaultFetchResult(fallbackHeaders, `Invalid Data Format from ${call}`);
                  }
             } else {
                 // Handle rejected promise
-                console.error(`[${requestId}] Call ${callName} rejected:`, settledResult.reason);
+                log.error("Call rejected", { call, account: accountNo, error: settledResult.reason });
                 const errorMessage = settledResult.reason instanceof Error ? settledResult.reason.message : "Unknown API Call Error";
                 // Check if rejection reason indicates auth failure (might come from standardFetch catch block)
                 const isAuthFail = /auth failed/i.test(errorMessage);
@@ -1328,48 +1479,71 @@ async function fetchAllAccountDetails(
             }
         };
 
+        // --- Fetch account-level sections for every target account IN PARALLEL ---
+        const perAccount = await Promise.all(targetAccounts.map(async (accountNo) => {
+            const results = await Promise.allSettled([
+                getOrderHistory(client, traderUsername, accountNo, range),
+                getPositions(client, traderUsername, accountNo),
+                getAccountInfo(client, traderUsername, accountNo),
+                getAccountStatement(client, traderUsername, accountNo, range),
+                getOpenPositions(client, traderUsername, accountNo),
+                getCdcHoldings(client, accountNo),
+                getCommissionSummary(client, traderUsername, accountNo),
+            ]);
+            return {
+                accountNo,
+                orderHistory: processSettledResult(results[0], safeGetHeaders('GetOrderHistory'), 'getOrderHistory', accountNo),
+                positions: processSettledResult(results[1], safeGetHeaders('GetCollateral'), 'getPositions', accountNo),
+                accountInfo: processSettledResult(results[2], ["Detail", "Value"], 'getAccountInfo', accountNo),
+                accountStatement: processSettledResult(results[3], ["Voucher No", "Date", "Description", "Debit", "Credit", "Balance"], 'getAccountStatement', accountNo),
+                openPositions: processSettledResult(results[4], safeGetHeaders('GetOpenPosition'), 'getOpenPositions', accountNo),
+                cdcHoldings: processSettledResult(results[5], safeGetHeaders('GetOpenCDCPosition'), 'getCdcHoldings', accountNo),
+                commissionSummary: processSettledResult(results[6], safeGetHeaders('CommSummray'), 'getCommissionSummary', accountNo),
+            };
+        }));
+
+        // Logs and margin calls are per trader, market movers are market-wide
+        const logResults = await Promise.allSettled([
+            getTradeLog(client, traderUsername, primaryAccount),
+            getDailyActivityLog(client, traderUsername, primaryAccount),
+            getOutstandingLog(client, traderUsername, primaryAccount),
+            getMarginCalls(client, traderUsername, primaryAccount, account),
+            getMarketMovers(client, primaryAccount),
+        ]);
+
         // Assign results after processing
-        const orderHistory = processSettledResult(results[0], safeGetHeaders('GetOrderHistory'), 'getOrderHistory');
-        const positions = processSettledResult(results[1], safeGetHeaders('GetCollateral'), 'getPositions');
-        const accountInfo = processSettledResult(results[2], ["Detail", "Value"], 'getAccountInfo');
-        const accountStatement = processSettledResult(results[3], ["Voucher No", "Date", "Description", "Debit", "Credit", "Balance"], 'getAccountStatement');
-        const tradeLogs = processSettledResult(results[4], safeGetHeaders('GetTradeLog'), 'getTradeLog');
-        const activityLogs = processSettledResult(results[5], safeGetHeaders('GetDailyActivityLog'), 'getDailyActivityLog');
-        const outstandingLogs = processSettledResult(results[6], safeGetHeaders('GetOutstandingLog'), 'getOutstandingLog');
+        const section = (key: Exclude<keyof (typeof perAccount)[number], "accountNo">) =>
+            perAccount.map(entry => ({ accountNo: entry.accountNo, result: entry[key] }));
+        const orderHistory = mergeAccountResults(section("orderHistory"));
+        const positions = mergeAccountResults(section("positions"));
+        const accountInfo = mergeAccountResults(section("accountInfo"), false); // Rows already start with "Account ID"
+        const accountStatement = mergeAccountResults(section("accountStatement"));
+        const openPositions = mergeAccountResults(section("openPositions"));
+        const cdcHoldings = mergeAccountResults(section("cdcHoldings"));
+        const commissionSummary = mergeAccountResults(section("commissionSummary"));
+        const tradeLogs = processSettledResult(logResults[0], safeGetHeaders('GetTradeLog'), 'getTradeLog');
+        const activityLogs = processSettledResult(logResults[1], safeGetHeaders('GetDailyActivityLog'), 'getDailyActivityLog');
+        const outstandingLogs = processSettledResult(logResults[2], safeGetHeaders('GetOutstandingLog'), 'getOutstandingLog');
+        const marginCalls = processSettledResult(logResults[3], safeGetHeaders('GetMarginCallByTrader'), 'getMarginCalls');
+        const marketInfo = processSettledResult(logResults[4], ["List", ...safeGetHeaders('getInfo')], 'getMarketMovers');
 
 
         // Determine overall status
-        const allResults = [tradingAccountsResult, orderHistory, positions, accountInfo, accountStatement, tradeLogs, activityLogs, outstandingLogs];
+        const allResults = [tradingAccountsResult, orderHistory, positions, accountInfo, accountStatement, tradeLogs, activityLogs, outstandingLogs,
+                            openPositions, cdcHoldings, marginCalls, commissionSummary, marketInfo];
         const hasErrors = allResults.some(res => !!res.error); // Check if any FetchResult has an error property set
         const finalDataSource: AllAccountDetails['dataSource'] = hasErrors ? 'api_with_errors' : 'api';
 
-        console.log(`[${requestId}] Successfully finished fetching API data for ${traderUsername}. Overall status: ${finalDataSource}`);
-
-        // --- DEBUG LOGGING for new log fetches ---
-        console.log(`\n[${requestId}] --- DEBUG: Trade Logs Result ---`);
-        console.log(JSON.stringify(tradeLogs, null, 2)?.substring(0, 1000) + '...');
-        console.log(`--- END DEBUG: Trade Logs ---\n`);
+        log.info(`Finished fetching AKD account details. Overall status: ${finalDataSource}`, { trader: traderUsername });
 
-        console.log(`\n[${requestId}] --- DEBUG: Activity Logs Result ---`);
-        console.log(JSON.stringify(activityLogs, null, 2)?.substring(0, 1000) + '...');
-        console.log(`--- END DEBUG: Activity Logs ---\n`);
-
-        console.log(`\n[${requestId}] --- DEBUG: Outstanding Logs Result ---`);
-        console.log(JSON.stringify(outstandingLogs, null, 2)?.substring(0, 1000) + '...');
-        console.log(`--- END DEBUG: Outstanding Logs ---\n`);
-        // --- END DEBUG LOGGING ---
-
-
-        console.log(`[${requestId}] Account details structure summary: ${JSON.stringify({
-            tradingAccounts: { headers: tradingAccountsResult.headers?.length, dataLength: tradingAccountsResult.data?.length, error: tradingAccountsResult.error },
-            orderHistory: { headers: orderHistory.headers?.length, dataLength: orderHistory.data?.length, error: orderHistory.error },
-            positions: { headers: positions.headers?.length, dataLength: positions.data?.length, error: positions.error },
-            accountInfo: { headers: accountInfo.headers?.length, dataLength: accountInfo.data?.length, error: accountInfo.error },
-            accountStatement: { headers: accountStatement.headers?.length, dataLength: accountStatement.data?.length, error: accountStatement.error },
-            tradeLogs: { headers: tradeLogs.headers?.length, dataLength: tradeLogs.data?.length, error: tradeLogs.error },
-            activityLogs: { headers: activityLogs.headers?.length, dataLength: activityLogs.data?.length, error: activityLogs.error },
-            outstandingLogs: { headers: outstandingLogs.headers?.length, dataLength: outstandingLogs.data?.length, error: outstandingLogs.error },
-        }, null, 2)}`);
+        const sectionSummary = {
+            tradingAccounts: tradingAccountsResult, orderHistory, positions, accountInfo, accountStatement, tradeLogs,
+            activityLogs, outstandingLogs, openPositions, cdcHoldings, marginCalls, commissionSummary, marketInfo,
+        };
+        log.debug("Account details structure summary", {
+            sections: Object.fromEntries(Object.entries(sectionSummary).map(([name, section]) =>
+                [name, { headers: section.headers?.length, rowCount: section.data?.length, error: section.error }])),
+        });
 
         // Assemble the final result, ensuring all parts are valid FetchResult objects
         const finalDetails: AllAccountDetails = {
@@ -1381,27 +1555,33 @@ async function fetchAllAccountDetails(
             tradeLogs,
             activityLogs,
             outstandingLogs,
+            openPositions,
+            cdcHoldings,
+            marginCalls,
+            commissionSummary,
+            marketInfo,
             timestamp,
             dataSource: finalDataSource,
+            range,
+            accounts: accountNumbers,
+            selectedAccount: account ?? null,
         };
 
-         console.log(`[${requestId}] Returning final AllAccountDetails structure:`, JSON.stringify(finalDetails).substring(0, 1000) + "...");
         return finalDetails;
 
     } catch (error: any) {
-        console.error(`[${requestId}] CRITICAL Error in fetchAllAccountDetails for ${traderUsername}: ${error.message}`);
-        console.error(error.stack);
+        log.error(`CRITICAL Error in fetchAllAccountDetails: ${error.message}`, { trader: traderUsername, error });
         let errorMessage = `API Failure: ${error.message}`;
         let isAuthFailure = false;
         if (error.Fault) {
-            console.error("SOAP Fault:", JSON.stringify(error.Fault, null, 2));
+            log.error("SOAP Fault", { fault: error.Fault });
              errorMessage = `SOAP Fault`;
              if (JSON.stringify(error.Fault).toLowerCase().includes("auth")) {
                  isAuthFailure = true;
                  errorMessage = "Authentication Failed";
              }
         }
-        console.log(`[${requestId}] Returning ERROR structure due to top-level catch block.`);
+        log.debug("Returning ERROR structure due to top-level catch block.");
         return {
              tradingAccounts: createDefaultFetchResult(safeGetHeaders('TradAccounts'), errorMessage, isAuthFailure),
              orderHistory: createDefaultFetchResult(safeGetHeaders('GetOrderHistory'), "API Failure"),
@@ -1411,8 +1591,14 @@ async function fetchAllAccountDetails(
              tradeLogs: createDefaultFetchResult(safeGetHeaders('GetTradeLog'), "API Failure"),
              activityLogs: createDefaultFetchResult(safeGetHeaders('GetDailyActivityLog'), "API Failure"),
              outstandingLogs: createDefaultFetchResult(safeGetHeaders('GetOutstandingLog'), "API Failure"),
+             openPositions: createDefaultFetchResult(safeGetHeaders('GetOpenPosition'), "API Failure"),
+             cdcHoldings: createDefaultFetchResult(safeGetHeaders('GetOpenCDCPosition'), "API Failure"),
+             marginCalls: createDefaultFetchResult(safeGetHeaders('GetMarginCallByTrader'), "API Failure"),
+             commissionSummary: createDefaultFetchResult(safeGetHeaders('CommSummray'), "API Failure"),
+             marketInfo: createDefaultFetchResult(["List", ...safeGetHeaders('getInfo')], "API Failure"),
              timestamp,
              dataSource: isAuthFailure ? "error_auth" : "error",
+             range,
         };
     }
 }
@@ -1421,39 +1607,34 @@ async function testConnection(
     traderUsername: string,
     traderPassword?: string, // Password often not needed here either
 ): Promise<boolean> {
-    console.log(`Testing AKD connection for trader: ${traderUsername}`);
+    log.info("Testing AKD connection", { trader: traderUsername });
 
-    if (!traderUsername || !SERVICE_USERNAME || !SERVICE_PASSWORD) {
-        console.error("Test Connection Error: Missing Trader or Service credentials.");
+    if (!traderUsername) {
+        log.error("Test Connection Error: Missing Trader credentials.");
         return false;
     }
 
     try {
-        console.log(`Attempting SOAP connection using SERVICE credentials for test...`);
-        console.log(`   Service Username: ${SERVICE_USERNAME}`);
-
-        const client = await soap.createClientAsync(WSDL_URL);
-        client.setSecurity(new soap.BasicAuthSecurity(SERVICE_USERNAME, SERVICE_PASSWORD));
-        console.log("SOAP client created and Service authentication set for test.");
+        const client = await getAkdSoapClient();
 
         // Use TradAccounts as the test call, as it's the first crucial step
         const apiMethod = "TradAccounts";
         const params = { userName: traderUsername }; // Match param name from getTradingAccounts
-        console.log(`Calling ${apiMethod}Async for test with params:`, params);
-        const result = await client.TradAccountsAsync(params);
+        log.debug(`Calling ${apiMethod}Async for test`, { operation: apiMethod, params });
+        const result = await callAkdOperation(client, apiMethod, params);
 
         // Process the response to check for "Not Authorized" or other issues
         const processed = await processAndUnzipResponse(`${apiMethod}_Test`, result);
 
         // Check 1: Direct "Not Authorized" string
         if (processed?.trim().toLowerCase() === "not authorized") {
-            console.error(`AKD connection test FAILED for ${traderUsername}: Service auth OK, but trader call returned 'Not Authorized'.`);
+            log.warn("AKD connection test FAILED: Service auth OK, but trader call returned 'Not Authorized'.", { trader: traderUsername });
             return false;
         }
 
         // Check 2: Null/empty response (could be valid if user has no accounts, but treat as success for connection test)
         if (!processed) {
-            console.warn(`AKD connection test WARNING for ${traderUsername}: Service auth OK, but trader call returned empty/null response. Assuming connection OK.`);
+            log.warn("AKD connection test WARNING: Service auth OK, but trader call returned empty/null response. Assuming connection OK.", { trader: traderUsername });
             return true; // Connection itself worked
         }
 
@@ -1463,36 +1644,632 @@ async function testConnection(
 
          const firstKey = keyMapping ? keyMapping[0] : "Error";
          if (structuredData.length === 1 && structuredData[0]?.[firstKey] === "Not Authorized") {
-             console.error(`AKD connection test FAILED for ${traderUsername}: Service auth OK, but trader call resulted in parsed 'Not Authorized'.`);
+             log.warn("AKD connection test FAILED: Service auth OK, but trader call resulted in parsed 'Not Authorized'.", { trader: traderUsername });
              return false;
          }
           if (structuredData.length === 1 && structuredData[0]?.error) {
-             console.error(`AKD connection test FAILED for ${traderUsername}: Service auth OK, but trader call response parsing failed: ${structuredData[0].error}`);
+             log.warn(`AKD connection test FAILED: Service auth OK, but trader call response parsing failed: ${structuredData[0].error}`, { trader: traderUsername });
              return false;
           }
 
         // If none of the failure conditions were met, the connection and basic call worked.
-        console.log(`AKD connection test successful for ${traderUsername}.`);
+        log.info("AKD connection test successful", { trader: traderUsername });
         return true;
 
     } catch (error: any) {
-         console.error(`AKD connection test FAILED for ${traderUsername}: ${error.message}`);
+         log.error(`AKD connection test FAILED: ${error.message}`, { trader: traderUsername });
          if (error.Fault) {
              // Check if the fault specifically indicates service authentication failure
              const faultString = JSON.stringify(error.Fault).toLowerCase();
              if (faultString.includes("authentication failed") || faultString.includes("unauthorized") || faultString.includes("credentials")) {
-                  console.error("SOAP Fault indicates SERVICE authentication failure.");
+                  log.error("SOAP Fault indicates SERVICE authentication failure.");
              } else {
-                 console.error("SOAP Fault details:", JSON.stringify(error.Fault, null, 2));
+                 log.error("SOAP Fault details", { fault: error.Fault });
              }
          } else if (error.message.includes('ECONNREFUSED') || error.message.includes('ETIMEDOUT') || error.message.includes('ENOTFOUND')) {
-             console.error(`Network error connecting to WSDL ${WSDL_URL}: ${error.message}`);
+             log.error(`Network error connecting to AKD: ${error.message}`, { wsdlUrl: AKD_WSDL_URL });
          }
          return false; // Any exception means the test failed
     }
 }
 
+/**
+ * Fetches only the three trader logs. Used by the logs view so that it does
+ * not pay for a full account fetch. Auth failures surface from the log calls
+ * themselves ("Not Authorized"), so TradAccounts is not called first.
+ */
+async function fetchAccountLogs(
+    traderUsername: string,
+    traderPassword?: string,
+): Promise<AccountLogs> {
+    const failed = (message: string, isAuthFailure: boolean = false): AccountLogs => {
+        const result = (key: string): FetchResult => ({
+            headers: KEY_MAPPINGS[key],
+            data: [Array(KEY_MAPPINGS[key].length).fill(isAuthFailure ? "Auth Failed" : message.substring(0, 50))],
+            error: isAuthFailure ? "Authentication Failed" : message,
+        });
+        return {
+            tradeLogs: result("GetTradeLog"),
+            activityLogs: result("GetDailyActivityLog"),
+            outstandingLogs: result("GetOutstandingLog"),
+            dataSource: isAuthFailure ? "error_auth" : "error",
+        };
+    };
+
+    if (!traderUsername) {
+        log.error("Error: Missing Trader Credentials.");
+        return failed("Missing Credentials");
+    }
+
+    try {
+        log.info("Fetching AKD logs", { trader: traderUsername });
+        const client = await getAkdSoapClient();
+        const [tradeLogs, activityLogs, outstandingLogs] = await Promise.all([
+            getTradeLog(client, traderUsername, traderUsername),
+            getDailyActivityLog(client, traderUsername, traderUsername),
+            getOutstandingLog(client, traderUsername, traderUsername),
+        ]);
+
+        const results = [tradeLogs, activityLogs, outstandingLogs];
+        const dataSource: AccountLogs["dataSource"] =
+            results.every(result => result.error === "Authentication Failed") ? "error_auth"
+            : results.some(result => !!result.error) ? "api_with_errors"
+            : "api";
+        log.info(`Finished fetching logs. Status: ${dataSource}`, { trader: traderUsername });
+        return { tradeLogs, activityLogs, outstandingLogs, dataSource };
+    } catch (error: any) {
+        log.error(`CRITICAL Error in fetchAccountLogs: ${error.message}`, { trader: traderUsername, error });
+        return failed(`API Failure: ${error.message}`);
+    }
+}
+
+/**
+ * Positions (GetCollateral) alone, for the requested account or every account
+ * of the trader, without the rest of fetchAllAccountDetails' calls. Used by the
+ * live updates, which poll positions and logs only.
+ */
+async function fetchAccountPositions(
+    traderUsername: string,
+    traderPassword?: string,
+    account?: string,
+): Promise<FetchResult> {
+    const failed = (message: string, isAuthFailure: boolean = false): FetchResult => ({
+        headers: KEY_MAPPINGS.GetCollateral,
+        data: [Array(KEY_MAPPINGS.GetCollateral.length).fill(isAuthFailure ? "Auth Failed" : message.substring(0, 50))],
+        error: isAuthFailure ? "Authentication Failed" : message,
+    });
+
+    if (!traderUsername) {
+        log.error("Error: Missing Trader Credentials.");
+        return failed("Missing Credentials");
+    }
+
+    try {
+        log.info("Fetching AKD positions", { trader: traderUsername, account });
+        const client = await getAkdSoapClient();
+        const { result: tradingAccounts, primaryAccount, accountNumbers } = await getTradingAccounts(client, traderUsername);
+        if (primaryAccount === DEFAULT_ACCOUNT_FALLBACK || tradingAccounts.error === "Authentication Failed") {
+            return failed("Auth Failed", true);
+        }
+        if (account && !accountNumbers.includes(account)) {
+            return failed(`Account ${account} not found for this trader`);
+        }
+
+        const targetAccounts = account ? [account] : accountNumbers;
+        const perAccount = await Promise.all(targetAccounts.map(async accountNo => ({
+            accountNo,
+            result: await getPositions(client, traderUsername, accountNo),
+        })));
+        return mergeAccountResults(perAccount);
+    } catch (error: any) {
+        log.error(`CRITICAL Error in fetchAccountPositions: ${error.message}`, { trader: traderUsername, error });
+        return failed(`API Failure: ${error.message}`);
+    }
+}
+
+// ============================
+// Normalized Model Mapping
+// ============================
+
+// AKD reports times in Pakistan Standard Time and amounts in rupees
+const AKD_UTC_OFFSET = "+05:00";
+const AKD_CURRENCY = "PKR";
+
+interface StructuredFetch {
+    rows: Record<string, any>[];
+    error?: string;
+}
+
+/**
+ * Calls an AKD operation and returns the parsed rows keyed by KEY_MAPPINGS
+ * (or by market for GetExposureDynamic). Mirrors standardFetch's auth and
+ * error handling but skips the table formatting.
+ */
+async function fetchStructured(
+    client: any,
+    apiMethod: string,
+    params: Record<string, any>,
+    accountNo: string,
+): Promise<StructuredFetch> {
+    if (accountNo === DEFAULT_ACCOUNT_FALLBACK) {
+        return { rows: [], error: "Authentication Failed" };
+    }
+    const asyncMethodName = `${apiMethod}Async`;
+    if (typeof client[asyncMethodName] !== "function") {
+        return { rows: [], error: `API Method ${asyncMethodName} Unavailable` };
+    }
+
+    try {
+        const result = await callAkdOperation(client, apiMethod, params);
+        const processed = await processAndUnzipResponse(apiMethod, result);
+        if (processed?.trim().toLowerCase() === "not authorized") {
+            return { rows: [], error: "Authentication Failed" };
+        }
+        if (!processed) {
+            return { rows: [] };
+        }
+
+        const keyMapping = KEY_MAPPINGS[apiMethod];
+        const rows = apiMethod === "GetExposureDynamic"
+            ? parseExposureDynamic(apiMethod, processed)
+            : parseOperationResponse(apiMethod, processed, keyMapping).rows;
+
+        if (rows.length === 1 && rows[0]?.error) {
+            return { rows: [], error: "Error parsing response" };
+        }
+        const firstKey = keyMapping ? keyMapping[0] : "Metric";
+        if (rows.length === 1 && (rows[0]?.[firstKey] === "Not Authorized" || rows[0]?.Value === "Not Authorized")) {
+            return { rows: [], error: "Authentication Failed" };
+        }
+        return { rows };
+    } catch (error: any) {
+        log.error(`Structured fetch failed: ${error.message}`, { operation: apiMethod });
+        const isAuthFail = !!error.Fault && JSON.stringify(error.Fault).toLowerCase().includes("auth");
+        return { rows: [], error: isAuthFail ? "Authentication Failed" : `API Error: ${error.message}` };
+    }
+}
+
+const mergeStructuredFetches = (succeeded: StructuredFetch[], error?: string): StructuredFetch => ({
+    rows: succeeded.flatMap(result => result.rows),
+    ...(error ? { error } : {}),
+});
+
+const textOrNull = (value: unknown): string | null => {
+    const text = toStringSafe(value).trim();
+    return text && text.toLowerCase() !== "null" ? text : null;
+};
+
+function mapAccounts(rows: Record<string, any>[]): BrokerAccount[] {
+    return rows
+        .filter(row => textOrNull(row.AccountCode))
+        .map(row => ({
+            accountId: textOrNull(row.AccountCode)!,
+            title: textOrNull(row.AccountTitle),
+            branchCode: textOrNull(row.BranchCode),
+            traderCode: textOrNull(row.TraderCode),
+            status: textOrNull(row.AccountStatus),
+        }));
+}
+
+/** GetCollateral rows: one per holding, MTM_Rate is the mark-to-market price */
+function mapPositions(rows: Record<string, any>[], accountId: string): Position[] {
+    return rows
+        .filter(row => textOrNull(row.Symbol))
+        .map(row => {
+            const quantity = parseDecimal(row.Quantity) ?? "0";
+            const marketPrice = parseDecimal(row.MTM_Rate);
+            return {
+                accountId,
+                symbol: textOrNull(row.Symbol)!,
+                quantity,
+                averageCost: parseDecimal(row.AvgBuyRate),
+                marketPrice,
+                marketValue: parseDecimal(row.MTMAmount) ?? (marketPrice !== null ? multiplyDecimal(quantity, marketPrice) : null),
+                unrealizedPnl: parseDecimal(row.UnsettledPL),
+                realizedPnl: parseDecimal(row.SettledPL),
+                haircutPercent: parseDecimal(row.HaircutPercent),
+                valueAfterHaircut: parseDecimal(row.ValueAfterHaircut),
+                pendingSellQuantity: parseDecimal(row.PendingSellQty),
+                currency: AKD_CURRENCY,
+            };
+        });
+}
+
+/**
+ * ID for an order history row without a Reference, derived from the row itself
+ * so it stays the same whatever range was fetched. Identical rows (same day,
+ * symbol, side, quantity and rate) are numbered in the order they came.
+ */
+function fallbackOrderId(row: Record<string, any>, seen: Map<string, number>): string {
+    const content = [row.OrderDate ?? row.TradeDate, row.Symbol, row.Side, row.Quantity, row.Rate]
+        .map(value => textOrNull(value) ?? "")
+        .join("|");
+    const hash = createHash("sha256").update(content).digest("hex").slice(0, 12);
+    const occurrence = (seen.get(hash) ?? 0) + 1;
+    seen.set(hash, occurrence);
+    return occurrence === 1 ? `OH-${hash}` : `OH-${hash}-${occurrence}`;
+}
+
+/**
+ * GetOrderHistory only lists executed orders, so every row is a filled order.
+ * Rows carrying a trade date also yield a Fill.
+ */
+function mapOrdersAndFills(rows: Record<string, any>[], accountId: string): { orders: Order[]; fills: Fill[] } {
+    const orders: Order[] = [];
+    const fills: Fill[] = [];
+    const fillsPerOrder = new Map<string, number>(); // Fill IDs must not depend on the fetched range
+    const unreferencedRows = new Map<string, number>();
+
+    rows.forEach(row => {
+        const symbol = textOrNull(row.Symbol);
+        if (!symbol) return;
+
+        const orderId = textOrNull(row.Reference) ?? fallbackOrderId(row, unreferencedRows);
+        const side = parseOrderSide(row.Side);
+        const quantity = parseDecimal(row.Quantity);
+        const price = parseDecimal(row.Rate);
+        const amount = parseDecimal(row.Amount) ?? (quantity !== null && price !== null ? multiplyDecimal(quantity, price) : null);
+        const placedAt = toIsoDate(row.OrderDate, AKD_UTC_OFFSET);
+        const executedAt = toIsoDate(row.TradeDate, AKD_UTC_OFFSET);
+
+        orders.push({
+            orderId,
+            accountId,
+            symbol,
+            side,
+            type: textOrNull(row.OrderType),
+            quantity,
+            price,
+            amount,
+            status: "filled",
+            placedAt: placedAt ?? executedAt,
+            currency: AKD_CURRENCY,
+        });
+
+        if (executedAt && quantity !== null && price !== null) {
+            const fillNo = (fillsPerOrder.get(orderId) ?? 0) + 1;
+            fillsPerOrder.set(orderId, fillNo);
+            fills.push({
+                fillId: `${orderId}-${fillNo}`,
+                orderId,
+                accountId,
+                symbol,
+                side,
+                quantity,
+                price,
+                value: amount ?? multiplyDecimal(quantity, price),
+                commission: null,
+                commissionSource: null,
+                executedAt,
+                currency: AKD_CURRENCY,
+            });
+        }
+    });
+
+    return { orders, fills };
+}
+
+/**
+ * GetTradeLog lists the trader's executions (typically the current day's) with
+ * their commission. Executions of orders already in the order history charge
+ * their commission once per order, split across the order's fills by quantity;
+ * the others are added as fills. Fills still
+ * without a commission are charged the account's effective CommSummray rate,
+ * total charges over turnover, on their value.
+ */
+function applyTradeLog(
+    fills: Fill[],
+    tradeLogRows: Record<string, any>[],
+    commissionRows: Record<string, any>[],
+    accountId: string,
+    range: DateRange,
+): Fill[] {
+    const executions = tradeLogRows.filter(row =>
+        textOrNull(row.Account) === accountId &&
+        textOrNull(row.Symbol) &&
+        ["filled", "partially_filled"].includes(parseOrderStatus(row.Status)) &&
+        compareDecimal(parseDecimal(row.FilledQty) ?? "0", "0") > 0);
+
+    const byOrder = new Map<string, Record<string, any>[]>();
+    executions.forEach(row => {
+        const orderRef = textOrNull(row.OrderRef);
+        if (orderRef) byOrder.set(orderRef, [...(byOrder.get(orderRef) ?? []), row]);
+    });
+
+    const fillsByOrder = new Map<string, Fill[]>();
+    fills.forEach(fill => {
+        if (fill.orderId && byOrder.has(fill.orderId)) {
+            fillsByOrder.set(fill.orderId, [...(fillsByOrder.get(fill.orderId) ?? []), fill]);
+        }
+    });
+    const commissions = new Map<Fill, Decimal>();
+    fillsByOrder.forEach((orderFills, orderId) => {
+        const total = sumDecimals(byOrder.get(orderId)!.map(row => parseDecimal(row.Commission)));
+        if (!total) return;
+        const quantity = sumDecimals(orderFills.map(fill => fill.quantity)) ?? "0";
+        let remaining = total;
+        orderFills.forEach((fill, index) => {
+            // The last fill takes what rounding left over, so the shares add up to the total
+            const share = index === orderFills.length - 1 ? remaining
+                : compareDecimal(quantity, "0") > 0 ? roundDecimal(divideDecimal(multiplyDecimal(total, fill.quantity), quantity, 10), 2)
+                : "0";
+            commissions.set(fill, share);
+            remaining = subtractDecimal(remaining, share);
+        });
+    });
+
+    const result: Fill[] = fills.map(fill => {
+        const commission = commissions.get(fill);
+        return commission ? { ...fill, commission, commissionSource: "trade_log" as const } : fill;
+    });
+
+    const knownOrders = new Set(fills.map(fill => fill.orderId).filter(Boolean));
+    executions.forEach((row, index) => {
+        const executedAt = toIsoDate(row.Timestamp, AKD_UTC_OFFSET);
+        const orderRef = textOrNull(row.OrderRef);
+        const price = parseDecimal(row.Price);
+        if (!executedAt || !price || (orderRef && knownOrders.has(orderRef))) return;
+        if (executedAt.slice(0, 10) < range.from || executedAt.slice(0, 10) > range.to) return;
+
+        const quantity = parseDecimal(row.FilledQty)!;
+        const commission = parseDecimal(row.Commission);
+        result.push({
+            fillId: textOrNull(row.TradeID) ?? `TL-${index + 1}`,
+            orderId: orderRef,
+            accountId,
+            symbol: textOrNull(row.Symbol)!,
+            side: parseOrderSide(row.Side),
+            quantity,
+            price,
+            value: parseDecimal(row.Value) ?? multiplyDecimal(quantity, price),
+            commission,
+            commissionSource: commission !== null ? "trade_log" : null,
+            executedAt,
+            currency: AKD_CURRENCY,
+        });
+    });
+
+    const turnover = sumDecimals(commissionRows.map(row => parseDecimal(row.Turnover)));
+    const charges = sumDecimals(commissionRows.map(row => parseDecimal(row.TotalCharges) ?? parseDecimal(row.Commission)));
+    if (!turnover || !charges || compareDecimal(turnover, "0") <= 0) {
+        return result;
+    }
+    const rate = divideDecimal(charges, turnover, 10);
+    return result.map(fill => fill.commission !== null ? fill : {
+        ...fill,
+        commission: roundDecimal(multiplyDecimal(fill.value, rate), 2),
+        commissionSource: "summary" as const,
+    });
+}
+
+function mapLedger(rows: Record<string, any>[], accountId: string): LedgerEntry[] {
+    return rows
+        .filter(row => textOrNull(row.VoucherNo) || textOrNull(row.Description))
+        .map((row, index) => {
+            const debit = parseDecimal(row.Debit);
+            const credit = parseDecimal(row.Credit);
+            return {
+                entryId: textOrNull(row.VoucherNo) ?? `ST-${index + 1}`,
+                accountId,
+                date: toIsoDate(row.Date),
+                description: textOrNull(row.Description),
+                debit,
+                credit,
+                amount: subtractDecimal(credit ?? "0", debit ?? "0"),
+                balance: parseDecimal(row.Balance),
+                currency: AKD_CURRENCY,
+            };
+        });
+}
+
+/** GetExposureDynamic rows are metrics with one column per market (REG, FUT, ODL, ...) */
+function mapMarginSummary(rows: Record<string, any>[], accountId: string): MarginSummary | null {
+    if (rows.length === 0) return null;
+
+    const metricRow = (pattern: RegExp) => rows.find(row => row && typeof row.Metric === "string" && pattern.test(row.Metric));
+    const firstValue = (row: Record<string, any> | undefined): Decimal | null => {
+        if (!row) return null;
+        const preferred = Object.keys(row).find(key => key !== "Metric" && /^REG$|^Regular$|^Cash$/i.test(key));
+        if (preferred && parseDecimal(row[preferred]) !== null) return parseDecimal(row[preferred]);
+        for (const key of Object.keys(row)) {
+            if (key !== "Metric" && parseDecimal(row[key]) !== null) return parseDecimal(row[key]);
+        }
+        return null;
+    };
+
+    const allowedLimit = metricRow(/^Allowed_Limit/i);
+    const availableAmount = metricRow(/^Available_Amount|^Available_Amt/i);
+    const exposure = metricRow(/^Exposure/i);
+    const profitLoss = metricRow(/^Profit\/Loss/i);
+
+    const marketKeys = Array.from(new Set(rows.flatMap(row => Object.keys(row ?? {}).filter(key => key !== "Metric"))));
+    const markets: MarginMarket[] = marketKeys.map(market => ({
+        market,
+        allowedLimit: parseDecimal(allowedLimit?.[market]),
+        availableAmount: parseDecimal(availableAmount?.[market]),
+        exposure: parseDecimal(exposure?.[market]),
+        profitLoss: parseDecimal(profitLoss?.[market]),
+    }));
+
+    return {
+        accountId,
+        floatingBalance: firstValue(metricRow(/^Floating_Balance/i)),
+        cash: firstValue(metricRow(/^~Cash/i)),
+        availableAmount: firstValue(availableAmount),
+        currency: AKD_CURRENCY,
+        markets,
+    };
+}
+
+/** One account's AKD sections as parsed rows */
+interface AkdAccountRows {
+    accountNo: string;
+    collateral: StructuredFetch;
+    orderHistory: StructuredFetch;
+    statement: StructuredFetch;
+    exposure: StructuredFetch;
+    commissions: StructuredFetch;
+}
+
+/**
+ * Maps parsed AKD sections into the shared models. The paper broker lays its
+ * rows out like AKD's and maps them through here as well.
+ */
+function buildNormalizedAccountData(
+    accounts: BrokerAccount[],
+    tradeLog: StructuredFetch,
+    perAccount: AkdAccountRows[],
+    range: DateRange,
+    account: string | undefined,
+    timestamp: string,
+): NormalizedAccountData {
+    const data: NormalizedAccountData = {
+        accounts,
+        positions: [],
+        orders: [],
+        fills: [],
+        ledger: [],
+        margin: [],
+        errors: {},
+        timestamp,
+        dataSource: "api",
+        range,
+        selectedAccount: account ?? null,
+    };
+    // Errors are collected per section and prefixed with the account they came from
+    const addError = (section: keyof NormalizedAccountData["errors"], accountNo: string, error?: string) => {
+        if (!error) return;
+        const message = perAccount.length > 1 ? `${accountNo}: ${error}` : error;
+        data.errors[section] = data.errors[section] ? `${data.errors[section]}; ${message}` : message;
+    };
+
+    for (const { accountNo, collateral, orderHistory, statement, exposure, commissions } of perAccount) {
+        const { orders, fills } = mapOrdersAndFills(orderHistory.rows, accountNo);
+        data.positions.push(...mapPositions(collateral.rows, accountNo));
+        data.orders.push(...orders);
+        data.fills.push(...applyTradeLog(fills, tradeLog.rows, commissions.rows, accountNo, range));
+        data.ledger.push(...mapLedger(statement.rows, accountNo));
+        const margin = mapMarginSummary(exposure.rows, accountNo);
+        if (margin) data.margin.push(margin);
+
+        addError("positions", accountNo, collateral.error);
+        addError("orders", accountNo, orderHistory.error);
+        addError("fills", accountNo, orderHistory.error);
+        addError("ledger", accountNo, statement.error);
+        addError("margin", accountNo, exposure.error);
+    }
+
+    if (Object.keys(data.errors).length > 0) {
+        data.dataSource = "api_with_errors";
+    }
+    return data;
+}
+
+/**
+ * Fetches GetCollateral, GetOrderHistory, GetAccountStatement and
+ * GetExposureDynamic for the trader's primary account and maps them into the
+ * shared models. GetTradeLog and CommSummray supply the fills' commissions.
+ * Section failures are reported in `errors` instead of throwing.
+ */
+async function fetchNormalizedAccountData(
+    traderUsername: string,
+    traderPassword?: string,
+    range: DateRange = defaultDateRange(),
+    account?: string, // A single account code; all of the trader's accounts when omitted
+): Promise<NormalizedAccountData> {
+    const timestamp = new Date().toISOString();
+    const empty = (dataSource: NormalizedAccountData["dataSource"], message: string): NormalizedAccountData => ({
+        accounts: [], positions: [], orders: [], fills: [], ledger: [], margin: [],
+        errors: Object.fromEntries(ACCOUNT_DATA_SECTIONS.map(section => [section, message])),
+        timestamp,
+        dataSource,
+        range,
+        selectedAccount: account ?? null,
+    });
+
+    if (!traderUsername) {
+        return empty("error", "Missing Credentials");
+    }
+
+    try {
+        log.info("Fetching normalized AKD data", { trader: traderUsername });
+        const client = await getAkdSoapClient();
+
+        const accountsFetch = await fetchStructured(client, "TradAccounts", { userName: traderUsername }, traderUsername);
+        const accounts = mapAccounts(accountsFetch.rows);
+        if (accountsFetch.error === "Authentication Failed" || accounts.length === 0) {
+            log.error("No authorized AKD accounts", { trader: traderUsername });
+            return empty("error_auth", accountsFetch.error ?? "Authentication Failed");
+        }
+        if (account && !accounts.some(a => a.accountId === account)) {
+            return { ...empty("error", `Account ${account} not found for this trader`), accounts };
+        }
+        const targetAccounts = account ? [account] : accounts.map(a => a.accountId);
+
+        // Commissions are best effort: without them fills are still reported, only uncharged
+        const tradeLog = await fetchStructured(client, "GetTradeLog", { username: traderUsername }, traderUsername);
+        if (tradeLog.error) {
+            log.warn("Trade log unavailable for fill commissions", { trader: traderUsername, error: tradeLog.error });
+        }
+
+        const perAccount = await Promise.all(targetAccounts.map(async (accountNo) => {
+            const [collateral, orderHistory, statement, exposure, commissions] = await Promise.all([
+                fetchStructured(client, "GetCollateral", { UserID: traderUsername, Account: accountNo }, accountNo),
+                fetchRangeInChunks("GetOrderHistory", range, (startDate, endDate) => fetchStructured(client, "GetOrderHistory", {
+                    trader: traderUsername, accountNo, pincode: "", scrip: "ALL", type: "ALL",
+                    startDate, endDate, from: "OrderHistory",
+                }, accountNo), mergeStructuredFetches),
+                fetchRangeInChunks("GetAccountStatement", range, (startDate, endDate) => fetchStructured(client, "GetAccountStatement", {
+                    userName: traderUsername, accountNo, startDate, endDate, from: "TradeCast",
+                }, accountNo), mergeStructuredFetches),
+                fetchStructured(client, "GetExposureDynamic", { UserID: traderUsername, account: accountNo, approved: "0" }, accountNo),
+                fetchStructured(client, "CommSummray", { userName: traderUsername, account: accountNo }, accountNo),
+            ]);
+            return { accountNo, collateral, orderHistory, statement, exposure, commissions };
+        }));
+
+        return buildNormalizedAccountData(accounts, tradeLog, perAccount, range, account, timestamp);
+    } catch (error: any) {
+        log.error(`CRITICAL Error in fetchNormalizedAccountData: ${error.message}`, { trader: traderUsername, error });
+        return empty("error", `API Failure: ${error.message}`);
+    }
+}
+
+/**
+ * Reads one account's GetExposureDynamic figures, for pre-trade checks. The
+ * account must be one of the trader's (TradAccounts); `error` says why no
+ * summary could be read.
+ */
+async function fetchMarginSummary(
+    traderUsername: string,
+    traderPassword: string | undefined,
+    accountNo: string,
+): Promise<{ margin: MarginSummary | null; error?: string }> {
+    if (!traderUsername) {
+        return { margin: null, error: "Missing Credentials" };
+    }
+    try {
+        const client = await getAkdSoapClient();
+        const accountsFetch = await fetchStructured(client, "TradAccounts", { userName: traderUsername }, traderUsername);
+        const accounts = mapAccounts(accountsFetch.rows);
+        if (accountsFetch.error === "Authentication Failed" || accounts.length === 0) {
+            return { margin: null, error: accountsFetch.error ?? "Authentication Failed" };
+        }
+        if (!accounts.some(a => a.accountId === accountNo)) {
+            return { margin: null, error: `Account ${accountNo} not found for this trader` };
+        }
+
+        const exposure = await fetchStructured(client, "GetExposureDynamic", { UserID: traderUsername, account: accountNo, approved: "0" }, accountNo);
+        return exposure.error ? { margin: null, error: exposure.error } : { margin: mapMarginSummary(exposure.rows, accountNo) };
+    } catch (error: any) {
+        log.error(`Error in fetchMarginSummary: ${error.message}`, { trader: traderUsername, account: accountNo });
+        return { margin: null, error: `API Failure: ${error.message}` };
+    }
+}
+
 // --- Exports ---
 const getAllAccountDetails = fetchAllAccountDetails;
-export { getAllAccountDetails, testConnection };
-export type { AllAccountDetails, FetchResult }; // Export types if needed externally
\ No newline at end of file
+export { AKD_CURRENCY, getAllAccountDetails, fetchAccountLogs, fetchAccountPositions, fetchMarginSummary, fetchNormalizedAccountData, testConnection };
+// Row layout and mapping, shared with the paper broker (paperAdapter.ts)
+export { AKD_UTC_OFFSET, KEY_MAPPINGS, buildNormalizedAccountData, mapAccounts, mapMarginSummary };
+export type { AllAccountDetails, AkdAccountRows, FetchResult, StructuredFetch }; // Export types if needed externally
\ No newline at end of file
@@ -0,0 +1,161 @@
+// akdOrderClient.ts
+//
+// Order entry for AKD. The TradeCast SOAP service only reads account data, so
+// orders go to the broker's order gateway at AKD_ORDER_GATEWAY_URL, a JSON API
+// authenticated with the trader's credentials:
+//
+//   GET    /orders?account=<code>   { orders: [...] } (newest first)
+//   GET    /orders/:id              the order
+//   POST   /orders                  { account, symbol, side, type, quantity, price, validity } -> the order
+//   PATCH  /orders/:id              { quantity?, price? } -> the order
+//   DELETE /orders/:id              the cancelled order
+//   GET    /quotes/:symbol          { symbol, last }, the last traded price
+//
+// Errors answer with { message }: 401/403 for bad credentials, 404 for unknown
+// orders or symbols and 400/409/422 for rejections. The AKD simulator serves the same
+// routes (server/brokers/akdSimulator.ts). Margin for pre-trade checks still
+// comes from GetExposureDynamic over SOAP.
+import { z } from "zod";
+import { parseDecimal, type Decimal } from "@shared/decimal";
+import { ORDER_SIDES, ORDER_STATUSES, type MarginSummary } from "@shared/models";
+import { ORDER_TYPES, ORDER_VALIDITIES, type OrderModification, type OrderTicket, type PlacedOrder } from "@shared/orders";
+import { fetchMarginSummary } from "./akdApiClient";
+import { BrokerOrderError, type BrokerCredentials, type BrokerOrderClient } from "./brokerAdapter";
+import { createLogger, getRequestId } from "../logger";
+
+const log = createLogger("akd-orders");
+
+export const AKD_ORDER_GATEWAY_URL = process.env.AKD_ORDER_GATEWAY_URL?.replace(/\/+$/, "") || null;
+
+const GATEWAY_TIMEOUT_MS = Math.max(1000, parseInt(process.env.AKD_ORDER_TIMEOUT_MS || "15000", 10) || 15000);
+
+const gatewayOrderSchema = z.object({
+    orderId: z.string(),
+    accountId: z.string(),
+    symbol: z.string(),
+    side: z.enum(ORDER_SIDES),
+    type: z.enum(ORDER_TYPES),
+    quantity: z.string(),
+    filledQuantity: z.string().default("0"),
+    price: z.string().nullable(),
+    validity: z.enum(ORDER_VALIDITIES),
+    status: z.enum(ORDER_STATUSES),
+    placedAt: z.string(),
+    updatedAt: z.string(),
+    message: z.string().nullable().default(null),
+});
+
+const gatewayOrderListSchema = z.object({ orders: z.array(gatewayOrderSchema) });
+
+const gatewayQuoteSchema = z.object({ symbol: z.string(), last: z.string() });
+
+function errorReason(status: number): BrokerOrderError["reason"] {
+    if (status === 401 || status === 403) return "auth";
+    if (status === 404) return "not_found";
+    if (status === 400 || status === 409 || status === 422) return "rejected";
+    return "unavailable";
+}
+
+async function callGateway<T>(
+    credentials: BrokerCredentials,
+    method: string,
+    route: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    body?: unknown,
+): Promise<T> {
+    if (!AKD_ORDER_GATEWAY_URL) {
+        throw new BrokerOrderError("AKD order entry is not configured (AKD_ORDER_GATEWAY_URL)", "unavailable");
+    }
+    if (!credentials.username) {
+        throw new BrokerOrderError("Missing required username credential for AKD", "auth");
+    }
+
+    const headers: Record<string, string> = {
+        Accept: "application/json",
+        Authorization: `Basic ${Buffer.from(`${credentials.username}:${credentials.password ?? ""}`).toString("base64")}`,
+    };
+    const requestId = getRequestId();
+    if (requestId) headers["X-Request-Id"] = requestId;
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+
+    let response: Response;
+    try {
+        response = await fetch(`${AKD_ORDER_GATEWAY_URL}${route}`, {
+            method,
+            headers,
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal: AbortSignal.timeout(GATEWAY_TIMEOUT_MS),
+        });
+    } catch (error: any) {
+        log.error(`Order gateway unreachable: ${error.message}`, { method, route });
+        throw new BrokerOrderError(`AKD order gateway unreachable: ${error.message}`, "unavailable");
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+        const message = typeof payload?.message === "string" ? payload.message : `AKD order gateway answered ${response.status}`;
+        log.warn("Order gateway refused the request", { method, route, status: response.status, message });
+        throw new BrokerOrderError(message, errorReason(response.status));
+    }
+    const parsed = schema.safeParse(payload);
+    if (!parsed.success) {
+        log.error("Unexpected order gateway response", { method, route, issues: parsed.error.issues });
+        throw new BrokerOrderError("AKD order gateway sent an unexpected response", "unavailable");
+    }
+    return parsed.data;
+}
+
+async function getMargin(credentials: BrokerCredentials, accountId: string): Promise<MarginSummary | null> {
+    const { margin, error } = await fetchMarginSummary(credentials.username, credentials.password, accountId);
+    if (error === "Authentication Failed" || error === "Missing Credentials") {
+        throw new BrokerOrderError("Authentication failed with the broker.", "auth");
+    }
+    if (error?.startsWith(`Account ${accountId} not found`)) {
+        throw new BrokerOrderError(error, "not_found");
+    }
+    if (error) {
+        throw new BrokerOrderError(`GetExposureDynamic failed: ${error}`, "unavailable");
+    }
+    return margin;
+}
+
+/** The gateway's last price for the symbol; null when it does not know the symbol */
+async function getQuote(credentials: BrokerCredentials, symbol: string): Promise<Decimal | null> {
+    try {
+        const { last } = await callGateway(credentials, "GET", `/quotes/${encodeURIComponent(symbol)}`, gatewayQuoteSchema);
+        return parseDecimal(last);
+    } catch (error) {
+        if (error instanceof BrokerOrderError && error.reason === "not_found") return null;
+        throw error;
+    }
+}
+
+const orderRoute = (orderId: string) => `/orders/${encodeURIComponent(orderId)}`;
+
+export const akdOrderClient: BrokerOrderClient = {
+    getMargin,
+    getQuote,
+
+    listOrders: async (credentials, accountId) => {
+        const query = accountId ? `?account=${encodeURIComponent(accountId)}` : "";
+        return (await callGateway(credentials, "GET", `/orders${query}`, gatewayOrderListSchema)).orders;
+    },
+
+    getOrder: (credentials, orderId) => callGateway(credentials, "GET", orderRoute(orderId), gatewayOrderSchema),
+
+    placeOrder: (credentials, ticket: OrderTicket): Promise<PlacedOrder> => callGateway(credentials, "POST", "/orders", gatewayOrderSchema, {
+        account: ticket.accountId,
+        symbol: ticket.symbol,
+        side: ticket.side,
+        type: ticket.type,
+        quantity: ticket.quantity,
+        // Market orders go out without a price
+        price: ticket.type === "limit" ? ticket.price : null,
+        validity: ticket.validity,
+    }),
+
+    modifyOrder: (credentials, orderId, changes: OrderModification) =>
+        callGateway(credentials, "PATCH", orderRoute(orderId), gatewayOrderSchema, changes),
+
+    cancelOrder: (credentials, orderId) => callGateway(credentials, "DELETE", orderRoute(orderId), gatewayOrderSchema),
+};
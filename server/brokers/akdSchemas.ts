@@ -0,0 +1,328 @@
+// akdSchemas.ts
+//
+// Declarative row layouts for AKD's pipe/semicolon payloads ("a;b;c|d;e;f|").
+// Each operation lists its columns in payload order with a type, whether the
+// value may be blank, and (for numbers) the accepted numeric format.
+//
+// The schemas drive three things:
+//   - KEY_MAPPINGS in akdApiClient.ts (the column names, in order)
+//   - strict parsing (AKD_PARSE_MODE=strict): rows that do not fit the layout
+//     are rejected and reported instead of being padded or given ExtraCol_N keys
+//   - column drift detection, which runs in both modes and raises a structured
+//     warning when AKD's layout no longer matches the schema
+//
+// GetExposureDynamic is a transposed metric-by-market table with its own parser
+// and has no schema.
+import { parseDecimal } from "@shared/decimal";
+import { toIsoDate } from "@shared/dates";
+import type { ColumnDriftWarning, ParseIssue } from "@shared/accountData";
+
+export type AkdColumnType = "text" | "number" | "integer" | "date";
+
+// plain: 1234.5   grouped: 1,234.5   accounting: grouped or (1,234.5)   percent: grouped with optional %
+export type NumericFormat = "plain" | "grouped" | "accounting" | "percent";
+
+export interface AkdColumn {
+    name: string;
+    type: AkdColumnType;
+    optional?: boolean; // Blank and "null" values are allowed
+    format?: NumericFormat; // number/integer columns only; defaults to "grouped"
+    aliases?: string[]; // Other header labels AKD uses for this column
+}
+
+export interface AkdRowSchema {
+    columns: AkdColumn[];
+}
+
+export type ParseMode = "strict" | "lenient";
+
+export function getParseMode(): ParseMode {
+    return process.env.AKD_PARSE_MODE?.toLowerCase() === "strict" ? "strict" : "lenient";
+}
+
+type ColumnOptions = Omit<AkdColumn, "name" | "type">;
+
+const text = (name: string, options: ColumnOptions = {}): AkdColumn => ({ name, type: "text", ...options });
+const number = (name: string, options: ColumnOptions = {}): AkdColumn => ({ name, type: "number", ...options });
+const integer = (name: string, options: ColumnOptions = {}): AkdColumn => ({ name, type: "integer", ...options });
+const date = (name: string, options: ColumnOptions = {}): AkdColumn => ({ name, type: "date", ...options });
+const optional: ColumnOptions = { optional: true };
+
+export const AKD_ROW_SCHEMAS: Record<string, AkdRowSchema> = {
+    TradAccounts: {
+        columns: [
+            text("AccountCode"),
+            text("AccountTitle"),
+            text("BranchCode", optional),
+            text("TraderCode", optional),
+            text("AccountStatus", optional),
+            text("NIC", optional),
+        ],
+    },
+    GetOrderHistory: {
+        columns: [
+            text("Symbol"),
+            integer("Quantity"),
+            number("Rate"),
+            number("Amount"),
+            text("Side"),
+            text("OrderType", optional),
+            date("OrderDate"),
+            date("TradeDate", optional),
+            text("Reference", optional),
+        ],
+    },
+    GetAccountStatement: {
+        columns: [
+            text("VoucherNo"),
+            text("UnknownCol2", { optional: true, aliases: ["Type"] }), // Voucher type code (R, P, S, C)
+            date("Date"),
+            text("Description", optional),
+            number("Debit", { optional: true, format: "accounting" }),
+            number("Credit", { optional: true, format: "accounting" }),
+            number("Balance", { format: "accounting" }),
+        ],
+    },
+    GetCollateral: {
+        columns: [
+            text("Symbol"),
+            integer("Quantity"),
+            integer("TotalQty"),
+            number("AvgBuyRate"),
+            integer("SoldQuantity", optional),
+            number("AvgSellRate", optional),
+            number("MTM_Rate"),
+            number("MTMAmount"),
+            number("HaircutPercent", { format: "percent" }),
+            number("MarginizedValueRate", optional),
+            number("ValueAfterHaircut"),
+            integer("PendingSellQty", optional),
+            number("SettledPL", { optional: true, format: "accounting" }),
+            number("UnsettledPL", { optional: true, format: "accounting" }),
+        ],
+    },
+
+    // --- Logs ---
+    GetTradeLog: {
+        columns: [
+            text("LogInfo"), text("Market"), text("Symbol"), date("Timestamp"),
+            text("TradeID"), text("OrderRef", optional), text("Side"), integer("OrigQty"),
+            number("Price"), text("ExecRef", optional), text("Account"), text("Status"),
+            text("Origin", optional), integer("FilledQty"), number("Value"),
+            number("Commission", optional), text("AssetType", optional),
+        ],
+    },
+    GetDailyActivityLog: {
+        columns: [
+            text("UserInfo"), text("Market"), text("Symbol"), text("Account"),
+            number("Price"), text("OrderRef"), text("HostOrderRef", optional),
+            integer("OrigQty"), integer("FilledQty"), integer("RemainingQty"),
+            text("ExecRef", optional), number("Value"), text("Status"),
+            text("AssetType", optional), date("Timestamp"), text("SubStatus", optional),
+        ],
+    },
+    GetOutstandingLog: {
+        columns: [
+            text("LogInfo"), text("Symbol"), number("Price"), integer("Quantity"),
+            text("Account"), text("OrderRef"), text("HostOrderRef", optional),
+            text("Origin", optional), text("Side"), text("Market"), text("Status"),
+            date("Timestamp"), text("OrderType", optional),
+        ],
+    },
+
+    // --- Holdings, margin calls and commissions ---
+    // Column order inferred from the service's payloads
+    GetOpenPosition: {
+        columns: [
+            text("Symbol"), text("Market"), text("Side"), integer("Quantity"),
+            number("AvgRate"), number("MarketRate"), number("Exposure"),
+            number("UnrealizedPL", { format: "accounting" }), date("SettlementDate", optional),
+        ],
+    },
+    GetOpenCDCPosition: {
+        columns: [
+            text("Symbol"), text("SecurityName", optional), integer("TotalQty"),
+            integer("FreeQty"), integer("PledgedQty", optional), integer("BlockedQty", optional),
+            number("ClosingRate"), number("MarketValue"),
+        ],
+    },
+    GetMarginCallByTrader: {
+        columns: [
+            text("Account"), text("AccountTitle", optional), number("Equity", { format: "accounting" }),
+            number("MarginRequired"), number("MarginCallAmount"), date("CallDate"),
+            date("DueDate", optional), text("Status", optional),
+        ],
+    },
+    CommSummray: {
+        columns: [
+            text("Market"), number("Turnover"), number("Commission"),
+            number("SalesTax", optional), number("TotalCharges"),
+        ],
+    },
+    // getInfo market lists (TopGainers, TopLosers, TopLeaders, ...)
+    getInfo: {
+        columns: [
+            text("Symbol"), text("Name", optional), number("LastRate"),
+            number("Change", { format: "accounting" }), number("ChangePercent", { format: "percent" }),
+            integer("Volume"),
+        ],
+    },
+};
+
+const GROUPED = String.raw`(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?`;
+
+const NUMERIC_FORMATS: Record<NumericFormat, RegExp> = {
+    plain: /^[-+]?\d+(\.\d+)?$/,
+    grouped: new RegExp(`^[-+]?${GROUPED}$`),
+    accounting: new RegExp(`^(?:[-+]?${GROUPED}|\\(${GROUPED}\\))$`),
+    percent: new RegExp(`^[-+]?${GROUPED}\\s*%?$`),
+};
+
+const isBlank = (value: string) => value === "" || value.toLowerCase() === "null";
+
+/** Why a cell does not fit its column, or null when it does */
+function checkCell(column: AkdColumn, value: string): string | null {
+    if (isBlank(value)) {
+        return column.optional ? null : "required value is missing";
+    }
+    switch (column.type) {
+        case "text":
+            return null;
+        case "date":
+            return toIsoDate(value) ? null : "not a date";
+        case "number":
+        case "integer": {
+            const format = column.format ?? "grouped";
+            if (!NUMERIC_FORMATS[format].test(value) || parseDecimal(value) === null) {
+                return `not a ${format} number`;
+            }
+            return column.type === "integer" && parseDecimal(value)!.includes(".") ? "not a whole number" : null;
+        }
+    }
+}
+
+/** Splits a payload into trimmed cells per row, dropping empty rows */
+export function splitAkdPayload(payload: string): string[][] {
+    return payload
+        .trim()
+        .split("|")
+        .map(row => row.trim())
+        .filter(Boolean)
+        .map(row => row.split(";").map(cell => cell.trim()));
+}
+
+const normalizeLabel = (label: string) => label.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function labelMatches(column: AkdColumn, label: string): boolean {
+    const normalized = normalizeLabel(label);
+    return [column.name, ...(column.aliases ?? [])].some(name => normalizeLabel(name) === normalized);
+}
+
+/**
+ * Whether the first row is a header: at least half of its cells name a schema
+ * column, or every required typed (non-text) column holds text that does not
+ * fit the type, as a label would.
+ */
+function isHeaderRow(schema: AkdRowSchema, cells: string[]): boolean {
+    const named = cells.filter(cell => schema.columns.some(column => labelMatches(column, cell))).length;
+    if (named > 0 && named >= cells.length / 2) return true;
+
+    const typed = schema.columns
+        .map((column, index) => ({ column, value: cells[index] }))
+        .filter(({ column }) => column.type !== "text" && !column.optional);
+    return typed.length > 0 && typed.every(({ column, value }) =>
+        value !== undefined && /[a-z]/i.test(value) && checkCell(column, value) !== null);
+}
+
+export interface SchemaParseResult {
+    rows: Record<string, string | null>[];
+    issues: ParseIssue[];
+    headerRow: string[] | null;
+}
+
+/**
+ * Parses split rows against the schema. Every row must have exactly the
+ * schema's columns and every value must fit its column; rows that do not are
+ * left out and reported in `issues` (row numbers count from 1 and include any
+ * header row).
+ */
+export function parseWithSchema(operation: string, schema: AkdRowSchema, table: string[][]): SchemaParseResult {
+    const headerRow = table.length > 0 && isHeaderRow(schema, table[0]) ? table[0] : null;
+    const rows: Record<string, string | null>[] = [];
+    const issues: ParseIssue[] = [];
+    const expected = schema.columns.length;
+
+    table.forEach((cells, index) => {
+        if (index === 0 && headerRow) return;
+        const row = index + 1;
+        if (cells.length !== expected) {
+            issues.push({ operation, row, message: `expected ${expected} columns, got ${cells.length}` });
+            return;
+        }
+        const cellIssues = schema.columns.flatMap((column, columnIndex) => {
+            const message = checkCell(column, cells[columnIndex]);
+            return message ? [{ operation, row, column: column.name, value: cells[columnIndex], message }] : [];
+        });
+        if (cellIssues.length > 0) {
+            issues.push(...cellIssues);
+            return;
+        }
+        rows.push(Object.fromEntries(schema.columns.map((column, columnIndex) =>
+            [column.name, isBlank(cells[columnIndex]) ? null : cells[columnIndex]])));
+    });
+
+    return { rows, issues, headerRow };
+}
+
+/**
+ * Compares a payload's layout with the schema. Reports a changed header row,
+ * a column count that differs on most rows, and columns whose values mostly
+ * stop fitting their type (a sign that columns were inserted or reordered).
+ */
+export function detectColumnDrift(operation: string, schema: AkdRowSchema, table: string[][]): ColumnDriftWarning[] {
+    const expectedColumns = schema.columns.map(column => column.name);
+    const headerRow = table.length > 0 && isHeaderRow(schema, table[0]) ? table[0] : null;
+    const dataRows = headerRow ? table.slice(1) : table;
+    const warnings: ColumnDriftWarning[] = [];
+    const warn = (warning: Omit<ColumnDriftWarning, "operation" | "expectedColumns">) =>
+        warnings.push({ operation, expectedColumns, ...(headerRow ? { headerRow } : {}), ...warning });
+
+    if (headerRow && (headerRow.length !== expectedColumns.length
+        || headerRow.some((label, index) => !labelMatches(schema.columns[index], label)))) {
+        warn({
+            reason: "header_changed",
+            message: `${operation} header row no longer matches the expected columns`,
+            observedColumnCount: headerRow.length,
+            affectedRows: 1,
+        });
+    }
+    if (dataRows.length === 0) return warnings;
+
+    const countCounts = new Map<number, number>();
+    dataRows.forEach(cells => countCounts.set(cells.length, (countCounts.get(cells.length) ?? 0) + 1));
+    const [commonCount] = Array.from(countCounts.entries()).sort((a, b) => b[1] - a[1])[0];
+    const mismatched = dataRows.filter(cells => cells.length !== expectedColumns.length).length;
+    if (mismatched > dataRows.length / 2) {
+        warn({
+            reason: "column_count",
+            message: `${operation} rows have ${commonCount} columns, expected ${expectedColumns.length}`,
+            observedColumnCount: commonCount,
+            affectedRows: mismatched,
+        });
+        return warnings;
+    }
+
+    const fitting = dataRows.filter(cells => cells.length === expectedColumns.length);
+    const affectedColumns = schema.columns.filter((column, index) =>
+        column.type !== "text" && fitting.filter(cells => checkCell(column, cells[index]) !== null).length > fitting.length / 2);
+    if (affectedColumns.length > 0) {
+        warn({
+            reason: "column_type",
+            message: `${operation} values no longer fit columns ${affectedColumns.map(column => column.name).join(", ")}`,
+            observedColumnCount: expectedColumns.length,
+            affectedColumns: affectedColumns.map(column => column.name),
+            affectedRows: fitting.length,
+        });
+    }
+    return warnings;
+}
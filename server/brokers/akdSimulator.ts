@@ -0,0 +1,356 @@
+// akdSimulator.ts
+//
+// Local stand-in for AKD's TradeCast SOAP service. It serves the bundled WSDL
+// and replays the anonymized pipe/semicolon payloads in fixtures/akd, encoded
+// the way the live service encodes them (gzip + base64 by default). The app is
+// pointed at it through AKD_WSDL_URL; see server/scripts/akd-simulator.ts.
+//
+// Fixtures are named `<Operation>.txt`, with optional per-variant overrides
+// `<Operation>.<variant>.txt` where the variant is the request's account (or
+// the getInfo list type). `{{date:N}}` in a fixture renders today + N days as
+// "MMM dd, yyyy", so the canned history always falls inside recent ranges.
+//
+// It also stands in for the order gateway (see akdOrderClient.ts) under
+// /orders: orders are kept in memory per trader, limit orders rest until they
+// are cancelled and market orders fill at once. /quotes/:symbol answers with
+// the symbol's rate in the fixtures (GetCollateral's MTM_Rate, else the market
+// movers' LastRate). Point AKD_ORDER_GATEWAY_URL at the simulator's origin to
+// trade against it.
+//
+// Scenarios can be switched at startup via environment variables or at runtime
+// with `PUT /simulator/settings`.
+import http from "http";
+import fs from "fs/promises";
+import path from "path";
+import { gzipSync } from "zlib";
+import * as soap from "soap";
+import { addDays, format } from "date-fns";
+import { z } from "zod";
+import { toIsoDate } from "@shared/dates";
+import { ORDER_SIDES } from "@shared/models";
+import { ORDER_TYPES, ORDER_VALIDITIES, isWorkingOrder, type PlacedOrder } from "@shared/orders";
+import { AKD_OPERATIONS, getBundledWsdl } from "./akdWsdl";
+import { createLogger } from "../logger";
+
+const log = createLogger("akd-simulator");
+
+export const AKD_SIMULATOR_PATH = "/TradeCastService/LoginServerService";
+const SETTINGS_PATH = "/simulator/settings";
+const ORDERS_PATH = "/orders";
+const QUOTES_PATH = "/quotes";
+
+export const DEFAULT_FIXTURES_DIR = path.resolve(import.meta.dirname, "fixtures", "akd");
+
+const NO_RECORD = "No record found";
+const NOT_AUTHORIZED = "Not Authorized";
+
+const simulatorSettingsSchema = z.object({
+    // normal: replay fixtures; not-authorized / no-record: every operation answers with that message; fault: SOAP Fault
+    scenario: z.enum(["normal", "not-authorized", "no-record", "fault"]),
+    encoding: z.enum(["gzip-base64", "base64", "plain"]),
+    delayMs: z.number().int().min(0),
+    // Operations the delay applies to; empty means all
+    slowOperations: z.array(z.string()),
+    // Operations that answer with a SOAP Fault regardless of the scenario
+    faultOperations: z.array(z.string()),
+    fixturesDir: z.string(),
+    // Order gateway answers every new order or change with a rejection
+    rejectOrders: z.boolean(),
+});
+
+export type SimulatorSettings = z.infer<typeof simulatorSettingsSchema>;
+
+const listFromEnv = (value?: string) => (value || "").split(",").map(item => item.trim()).filter(Boolean);
+
+/** Settings from AKD_SIM_* environment variables */
+export function simulatorSettingsFromEnv(): SimulatorSettings {
+    return simulatorSettingsSchema.parse({
+        scenario: process.env.AKD_SIM_SCENARIO || "normal",
+        encoding: process.env.AKD_SIM_ENCODING || "gzip-base64",
+        delayMs: parseInt(process.env.AKD_SIM_DELAY_MS || "0", 10) || 0,
+        slowOperations: listFromEnv(process.env.AKD_SIM_SLOW_OPS),
+        faultOperations: listFromEnv(process.env.AKD_SIM_FAULT_OPS),
+        fixturesDir: process.env.AKD_SIM_FIXTURES || DEFAULT_FIXTURES_DIR,
+        rejectOrders: process.env.AKD_SIM_REJECT_ORDERS === "true",
+    });
+}
+
+function encodePayload(text: string, encoding: SimulatorSettings["encoding"]): string {
+    if (encoding === "plain") return text;
+    const bytes = encoding === "gzip-base64" ? gzipSync(Buffer.from(text, "utf8")) : Buffer.from(text, "utf8");
+    return bytes.toString("base64");
+}
+
+/** Request value that selects a fixture variant: the account, or the getInfo list type */
+function fixtureVariant(params: Record<string, any>): string | null {
+    const value = params.accountNo ?? params.Account ?? params.account ?? params.infoType;
+    return typeof value === "string" && value.trim() ? value.trim().replace(/=$/, "") : null;
+}
+
+async function readFixture(dir: string, operation: string, variant: string | null): Promise<string | null> {
+    const candidates = variant ? [`${operation}.${variant}.txt`, `${operation}.txt`] : [`${operation}.txt`];
+    for (const file of candidates) {
+        try {
+            return await fs.readFile(path.join(dir, file), "utf8");
+        } catch (error: any) {
+            if (error.code !== "ENOENT") throw error;
+        }
+    }
+    return null;
+}
+
+function renderDates(payload: string, today: Date = new Date()): string {
+    return payload.replace(/\{\{date:(-?\d+)\}\}/g, (_, offset) => format(addDays(today, Number(offset)), "MMM dd, yyyy"));
+}
+
+// Column holding each row's date for operations that take startDate/endDate
+const RANGED_DATE_COLUMNS: Record<string, number> = {
+    GetOrderHistory: 6, // OrderDate
+    GetAccountStatement: 2, // Date
+};
+
+/** Drops rows outside the request's startDate..endDate, like the live service */
+function filterToRange(operation: string, payload: string, params: Record<string, any>): string {
+    const column = RANGED_DATE_COLUMNS[operation];
+    const from = toIsoDate(params.startDate);
+    const to = toIsoDate(params.endDate);
+    if (column === undefined || !from || !to) return payload;
+
+    // Rows without a parseable date (such as the header row) are kept
+    const rowDate = (row: string) => toIsoDate(row.split(";")[column])?.slice(0, 10);
+    const rows = payload.split("|").map(row => row.trim()).filter(Boolean).filter(row => {
+        const date = rowDate(row);
+        return !date || (date >= from && date <= to);
+    });
+    return rows.some(row => rowDate(row)) ? `${rows.join("|")}|` : NO_RECORD;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// --- Order gateway ---
+
+const decimalString = z.string().regex(/^\d+(\.\d+)?$/).refine(value => Number(value) > 0);
+
+const gatewayTicketSchema = z.object({
+    account: z.string().min(1),
+    symbol: z.string().min(1),
+    side: z.enum(ORDER_SIDES),
+    type: z.enum(ORDER_TYPES),
+    quantity: decimalString,
+    price: decimalString.nullable(),
+    validity: z.enum(ORDER_VALIDITIES),
+});
+
+const gatewayChangeSchema = z.object({ quantity: decimalString.optional(), price: decimalString.optional() });
+
+// Fixtures that carry a rate per symbol, in the order they are searched
+const QUOTE_SOURCES = [
+    { operation: "GetCollateral", variant: null, column: "MTM_Rate" },
+    { operation: "getInfo", variant: "TopGainers", column: "LastRate" },
+    { operation: "getInfo", variant: "TopLosers", column: "LastRate" },
+];
+
+/** The symbol's rate in the fixtures, or null when none lists it */
+async function fixtureQuote(dir: string, symbol: string): Promise<string | null> {
+    for (const source of QUOTE_SOURCES) {
+        const fixture = await readFixture(dir, source.operation, source.variant);
+        if (fixture === null) continue;
+        const [header, ...rows] = fixture.trim().split("|").filter(Boolean).map(row => row.split(";"));
+        const symbolColumn = header.indexOf("Symbol");
+        const rateColumn = header.indexOf(source.column);
+        const row = rows.find(cells => cells[symbolColumn] === symbol);
+        if (row && rateColumn >= 0 && row[rateColumn]) return row[rateColumn];
+    }
+    return null;
+}
+
+interface GatewayReply {
+    status: number;
+    body: unknown;
+}
+
+/** Trader name from the Basic Authorization header */
+function gatewayTrader(req: http.IncomingMessage): string | null {
+    const match = /^Basic (.+)$/.exec(req.headers.authorization ?? "");
+    const trader = match ? Buffer.from(match[1], "base64").toString("utf8").split(":")[0] : "";
+    return trader || null;
+}
+
+function handleOrderRequest(
+    settings: SimulatorSettings,
+    orders: Map<string, PlacedOrder & { trader: string }>,
+    nextOrderId: () => string,
+    method: string,
+    url: URL,
+    trader: string,
+    body: unknown,
+): GatewayReply {
+    const reject = (status: number, message: string): GatewayReply => ({ status, body: { message } });
+    const view = ({ trader: _trader, ...order }: PlacedOrder & { trader: string }): PlacedOrder => order;
+    const now = new Date().toISOString();
+
+    if (url.pathname === ORDERS_PATH) {
+        if (method === "GET") {
+            const account = url.searchParams.get("account");
+            const list = Array.from(orders.values())
+                .filter(order => order.trader === trader && (!account || order.accountId === account))
+                .reverse();
+            return { status: 200, body: { orders: list.map(view) } };
+        }
+        if (method !== "POST") return reject(405, "Use GET or POST");
+
+        const parsed = gatewayTicketSchema.safeParse(body);
+        if (!parsed.success) return reject(400, `Invalid order: ${parsed.error.issues[0]?.message}`);
+        if (settings.rejectOrders) return reject(422, "Order rejected by the exchange (simulated)");
+        const ticket = parsed.data;
+        if (ticket.type === "limit" && !ticket.price) return reject(400, "Limit orders need a price");
+
+        const filled = ticket.type === "market";
+        // IOC limit orders find no counterparty here and are cancelled at once
+        const expired = !filled && ticket.validity === "ioc";
+        const order = {
+            orderId: nextOrderId(),
+            accountId: ticket.account,
+            symbol: ticket.symbol,
+            side: ticket.side,
+            type: ticket.type,
+            quantity: ticket.quantity,
+            filledQuantity: filled ? ticket.quantity : "0",
+            price: ticket.type === "limit" ? ticket.price : null,
+            validity: ticket.validity,
+            status: filled ? "filled" as const : expired ? "cancelled" as const : "open" as const,
+            placedAt: now,
+            updatedAt: now,
+            message: filled ? "Filled at market (simulated)" : expired ? "Not filled immediately (simulated)" : null,
+            trader,
+        };
+        orders.set(order.orderId, order);
+        return { status: 201, body: view(order) };
+    }
+
+    const orderId = decodeURIComponent(url.pathname.slice(ORDERS_PATH.length + 1));
+    const order = orders.get(orderId);
+    if (!order || order.trader !== trader) return reject(404, `Order ${orderId} not found`);
+    if (method === "GET") return { status: 200, body: view(order) };
+    if (method !== "PATCH" && method !== "DELETE") return reject(405, "Use GET, PATCH or DELETE");
+    if (!isWorkingOrder(order)) return reject(409, `Order ${orderId} is ${order.status}`);
+
+    if (method === "DELETE") {
+        Object.assign(order, { status: "cancelled", updatedAt: now, message: "Cancelled by the trader" });
+        return { status: 200, body: view(order) };
+    }
+    const parsed = gatewayChangeSchema.safeParse(body);
+    if (!parsed.success) return reject(400, `Invalid change: ${parsed.error.issues[0]?.message}`);
+    if (settings.rejectOrders) return reject(422, "Change rejected by the exchange (simulated)");
+    Object.assign(order, { ...parsed.data, updatedAt: now, message: null });
+    return { status: 200, body: view(order) };
+}
+
+export interface AkdSimulator {
+    wsdlUrl: string;
+    settings: SimulatorSettings;
+    close: () => Promise<void>;
+}
+
+export async function startAkdSimulator(
+    port: number,
+    overrides: Partial<SimulatorSettings> = {},
+): Promise<AkdSimulator> {
+    const endpoint = `http://localhost:${port}${AKD_SIMULATOR_PATH}`;
+    const settings: SimulatorSettings = { ...simulatorSettingsFromEnv(), ...overrides };
+
+    const respond = async (operation: string, params: Record<string, any>, requestId?: string) => {
+        if (settings.delayMs > 0 && (settings.slowOperations.length === 0 || settings.slowOperations.includes(operation))) {
+            await sleep(settings.delayMs);
+        }
+        if (settings.scenario === "fault" || settings.faultOperations.includes(operation)) {
+            throw { Fault: { faultcode: "soap:Server", faultstring: `Simulated fault in ${operation}`, statusCode: 500 } };
+        }
+
+        let payload: string;
+        if (settings.scenario === "not-authorized") {
+            payload = NOT_AUTHORIZED;
+        } else if (settings.scenario === "no-record") {
+            payload = NO_RECORD;
+        } else {
+            const fixture = await readFixture(settings.fixturesDir, operation, fixtureVariant(params));
+            payload = fixture === null ? NO_RECORD : filterToRange(operation, renderDates(fixture.trim()), params);
+        }
+        log.info(`Answered ${operation}`, { params, chars: payload.length, encoding: settings.encoding, callerRequestId: requestId });
+        return { return: encodePayload(payload, settings.encoding) };
+    };
+
+    const operations = Object.fromEntries(Object.keys(AKD_OPERATIONS).map(operation => [
+        operation,
+        // soap passes the incoming HTTP request last; the app sends its request ID as X-Request-Id
+        (params: Record<string, any>, _callback: unknown, _headers: unknown, req?: http.IncomingMessage) =>
+            respond(operation, params ?? {}, req?.headers["x-request-id"] as string | undefined),
+    ]));
+
+    const orders = new Map<string, PlacedOrder & { trader: string }>();
+    let orderSequence = 0;
+    const nextOrderId = () => `SIM-${Date.now().toString(36).toUpperCase()}-${++orderSequence}`;
+
+    // soap.listen answers AKD_SIMULATOR_PATH; this handler gets every other request
+    const server = http.createServer((req, res) => {
+        const send = (status: number, body: unknown) => {
+            res.writeHead(status, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(body));
+        };
+        const url = new URL(req.url ?? "/", "http://localhost");
+        if (url.pathname.startsWith(`${QUOTES_PATH}/`)) {
+            if (!gatewayTrader(req) || settings.scenario === "not-authorized") return send(401, { message: NOT_AUTHORIZED });
+            if (req.method !== "GET") return send(405, { message: "Use GET" });
+            const symbol = decodeURIComponent(url.pathname.slice(QUOTES_PATH.length + 1));
+            fixtureQuote(settings.fixturesDir, symbol)
+                .then(last => last === null ? send(404, { message: `No quote for ${symbol}` }) : send(200, { symbol, last }))
+                .catch(error => send(500, { message: error.message }));
+            return;
+        }
+        if (url.pathname === ORDERS_PATH || url.pathname.startsWith(`${ORDERS_PATH}/`)) {
+            let body = "";
+            req.on("data", chunk => { body += chunk; });
+            req.on("end", async () => {
+                if (settings.delayMs > 0 && settings.slowOperations.length === 0) await sleep(settings.delayMs);
+                const trader = gatewayTrader(req);
+                if (!trader || settings.scenario === "not-authorized") return send(401, { message: NOT_AUTHORIZED });
+                if (settings.scenario === "fault") return send(500, { message: "Simulated order gateway fault" });
+                let payload: unknown = undefined;
+                try {
+                    payload = body ? JSON.parse(body) : undefined;
+                } catch {
+                    return send(400, { message: "Body is not JSON" });
+                }
+                const reply = handleOrderRequest(settings, orders, nextOrderId, req.method ?? "GET", url, trader, payload);
+                log.info(`Answered ${req.method} ${url.pathname}`, { trader, status: reply.status, callerRequestId: req.headers["x-request-id"] });
+                send(reply.status, reply.body);
+            });
+            return;
+        }
+        if (req.url !== SETTINGS_PATH) return send(404, { message: "Not found" });
+        if (req.method === "GET") return send(200, settings);
+        if (req.method !== "PUT") return send(405, { message: "Use GET or PUT" });
+
+        let body = "";
+        req.on("data", chunk => { body += chunk; });
+        req.on("end", () => {
+            try {
+                const update = simulatorSettingsSchema.partial().parse(JSON.parse(body || "{}"));
+                Object.assign(settings, update);
+                log.info("Settings updated", { update });
+                send(200, settings);
+            } catch (error: any) {
+                send(400, { message: "Invalid simulator settings", error: error.message });
+            }
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(port, resolve));
+    soap.listen(server, AKD_SIMULATOR_PATH, { LoginServerService: { LoginServerPort: operations } }, getBundledWsdl(endpoint));
+
+    return {
+        wsdlUrl: `${endpoint}?wsdl`,
+        settings,
+        close: () => new Promise<void>(resolve => server.close(() => resolve())),
+    };
+}
@@ -0,0 +1,156 @@
+// akdSoapClient.ts
+//
+// Shared SOAP client for AKD's TradeCast service. Building a client downloads
+// and parses the WSDL, so it is done lazily on first use and the client is
+// reused by every request until the cache entry expires. When the live WSDL is
+// unreachable the bundled copy from akdWsdl.ts is used instead, and the live
+// WSDL is retried after a shorter interval.
+import * as soap from "soap";
+import { getBundledWsdl } from "./akdWsdl";
+import { getFixtureMode, recordOrReplay } from "./brokerFixtures";
+import { createLogger, getRequestId } from "../logger";
+
+const log = createLogger("akd-soap");
+
+// ============================
+// Configuration
+// ============================
+export const AKD_WSDL_URL =
+    process.env.AKD_WSDL_URL ||
+    "http://online.akdtrade.biz/TradeCastService/LoginServerService?wsdl";
+
+const SERVICE_USERNAME = process.env.AKD_SERVICE_USER || "myservice";
+const SERVICE_PASSWORD = process.env.AKD_SERVICE_PASSWORD || "12345678";
+
+const envMs = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || "", 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// How long a client built from the live WSDL is reused before the WSDL is fetched again
+const WSDL_CACHE_TTL_MS = envMs("AKD_WSDL_CACHE_TTL_MS", 6 * 60 * 60 * 1000);
+// How long to stay on the bundled WSDL before retrying the live one
+const WSDL_FALLBACK_RETRY_MS = envMs("AKD_WSDL_FALLBACK_RETRY_MS", 5 * 60 * 1000);
+const WSDL_TIMEOUT_MS = envMs("AKD_WSDL_TIMEOUT_MS", 10_000);
+
+const DEFAULT_OPERATION_TIMEOUT_MS = envMs("AKD_SOAP_TIMEOUT_MS", 20_000);
+const RANGED_OPERATION_TIMEOUT_MS = envMs("AKD_SOAP_RANGED_TIMEOUT_MS", 45_000);
+const LOG_OPERATION_TIMEOUT_MS = envMs("AKD_SOAP_LOG_TIMEOUT_MS", 30_000);
+// Ranged and log operations can return large payloads and get more time
+const OPERATION_TIMEOUTS_MS: Record<string, number> = {
+    GetOrderHistory: RANGED_OPERATION_TIMEOUT_MS,
+    GetAccountStatement: RANGED_OPERATION_TIMEOUT_MS,
+    GetTradeLog: LOG_OPERATION_TIMEOUT_MS,
+    GetDailyActivityLog: LOG_OPERATION_TIMEOUT_MS,
+    GetOutstandingLog: LOG_OPERATION_TIMEOUT_MS,
+};
+
+/** Timeout applied to a single call of `apiMethod` */
+export function getOperationTimeout(apiMethod: string): number {
+    return OPERATION_TIMEOUTS_MS[apiMethod] ?? DEFAULT_OPERATION_TIMEOUT_MS;
+}
+
+// ============================
+// Client Pool
+// ============================
+type WsdlSource = "remote" | "bundled";
+
+interface PooledClient {
+    client: Promise<soap.Client>;
+    source?: WsdlSource;
+    createdAt: number;
+    expiresAt: number;
+}
+
+// Keyed by WSDL URL so a changed AKD_WSDL_URL (e.g. a local simulator) gets its own client
+const pool = new Map<string, PooledClient>();
+
+/** Service endpoint for a WSDL URL: the same URL without the "?wsdl" query */
+function endpointFor(wsdlUrl: string): string {
+    return wsdlUrl.replace(/\?wsdl$/i, "");
+}
+
+async function createClient(wsdlUrl: string, entry: PooledClient): Promise<soap.Client> {
+    const started = Date.now();
+    // The pool is the cache; soap's own WSDL cache would keep a stale WSDL forever
+    const options = { disableCache: true, wsdl_options: { timeout: WSDL_TIMEOUT_MS } };
+    const endpoint = endpointFor(wsdlUrl);
+
+    let client: soap.Client;
+    if (getFixtureMode() === "replay") {
+        // Replayed calls never reach the service, so there is no point downloading its WSDL
+        client = await soap.createClientAsync(getBundledWsdl(endpoint), options, endpoint);
+        entry.source = "bundled";
+    } else {
+        try {
+            client = await soap.createClientAsync(wsdlUrl, options);
+            entry.source = "remote";
+            entry.expiresAt = Date.now() + WSDL_CACHE_TTL_MS;
+        } catch (error: any) {
+            log.warn("Could not load WSDL, using the bundled WSDL", { wsdlUrl, error: error.message });
+            client = await soap.createClientAsync(getBundledWsdl(endpoint), options, endpoint);
+            entry.source = "bundled";
+            entry.expiresAt = Date.now() + WSDL_FALLBACK_RETRY_MS;
+        }
+    }
+
+    client.setSecurity(new soap.BasicAuthSecurity(SERVICE_USERNAME, SERVICE_PASSWORD));
+    log.info("Client ready", { source: entry.source, durationMs: Date.now() - started });
+    return client;
+}
+
+/**
+ * Returns the shared client for `wsdlUrl`, creating it on first use or after
+ * its cache entry expired. Concurrent callers share one in-flight creation; a
+ * failed creation is not cached.
+ */
+export function getAkdSoapClient(wsdlUrl: string = AKD_WSDL_URL): Promise<soap.Client> {
+    const cached = pool.get(wsdlUrl);
+    if (cached && (cached.source === undefined || cached.expiresAt > Date.now())) {
+        return cached.client;
+    }
+
+    const entry = { createdAt: Date.now(), expiresAt: Infinity } as PooledClient;
+    entry.client = createClient(wsdlUrl, entry).catch((error) => {
+        if (pool.get(wsdlUrl) === entry) pool.delete(wsdlUrl);
+        throw error;
+    });
+    pool.set(wsdlUrl, entry);
+    return entry.client;
+}
+
+/** Drops pooled clients so the next call reloads the WSDL */
+export function resetAkdSoapClients(): void {
+    pool.clear();
+}
+
+/**
+ * Calls one SOAP operation with its configured timeout, under the current
+ * fixture mode (see brokerFixtures.ts). Resolves to `[result]`, the first
+ * element of soap's `[result, rawResponse, soapHeader, rawRequest]` tuple; the
+ * raw XML is dropped so recordings hold only the decoded SOAP body.
+ *
+ * The current request ID (see logger.ts) is logged with the call and sent to
+ * the service as an X-Request-Id header.
+ */
+export async function callAkdOperation(client: any, apiMethod: string, params: Record<string, any>): Promise<any> {
+    const method = client[`${apiMethod}Async`];
+    if (typeof method !== "function") {
+        throw new Error(`API Method ${apiMethod}Async Unavailable`);
+    }
+    const requestId = getRequestId();
+    const started = Date.now();
+    log.debug("Calling operation", { operation: apiMethod, params });
+    try {
+        const result = await recordOrReplay("akd", apiMethod, params, async () => {
+            const extraHeaders = requestId ? { "X-Request-Id": requestId } : {};
+            const [result] = await method.call(client, params, { timeout: getOperationTimeout(apiMethod) }, extraHeaders);
+            return [result];
+        });
+        log.debug("Operation completed", { operation: apiMethod, durationMs: Date.now() - started });
+        return result;
+    } catch (error: any) {
+        log.warn("Operation failed", { operation: apiMethod, durationMs: Date.now() - started, error: error.message });
+        throw error;
+    }
+}
@@ -0,0 +1,90 @@
+// akdWsdl.ts
+//
+// Bundled copy of AKD's TradeCast LoginServerService WSDL, used when the live
+// WSDL cannot be downloaded. It is generated from the operation table below so
+// it only describes the operations this client calls. The service is JAX-WS
+// document/literal: every operation takes unqualified string parameters and
+// returns a single <return> string (usually gzipped, base64-encoded text).
+
+export const AKD_NAMESPACE = "http://login/";
+
+/** Operation name -> request parameter names, in the order the service declares them */
+export const AKD_OPERATIONS: Record<string, string[]> = {
+    TradAccounts: ["userName"],
+    GetOrderHistory: ["trader", "accountNo", "pincode", "scrip", "type", "startDate", "endDate", "from"],
+    GetCollateral: ["UserID", "Account"],
+    GetExposureDynamic: ["UserID", "account", "approved"],
+    GetAccountStatement: ["userName", "accountNo", "startDate", "endDate", "from"],
+    GetTradeLog: ["username"],
+    GetDailyActivityLog: ["username"],
+    GetOutstandingLog: ["username"],
+    GetOpenPosition: ["UserID", "Account"],
+    GetOpenCDCPosition: ["accountNo"],
+    GetMarginCallByTrader: ["userName"],
+    CommSummray: ["userName", "account"],
+    getInfo: ["userID", "infoType", "otherInfo"],
+};
+
+function buildWsdl(endpoint: string): string {
+    const operations = Object.entries(AKD_OPERATIONS);
+
+    const elements = operations.map(([name, params]) => `
+      <xs:element name="${name}" type="tns:${name}"/>
+      <xs:complexType name="${name}">
+        <xs:sequence>
+${params.map(param => `          <xs:element name="${param}" type="xs:string" minOccurs="0"/>`).join("\n")}
+        </xs:sequence>
+      </xs:complexType>
+      <xs:element name="${name}Response" type="tns:${name}Response"/>
+      <xs:complexType name="${name}Response">
+        <xs:sequence>
+          <xs:element name="return" type="xs:string" minOccurs="0"/>
+        </xs:sequence>
+      </xs:complexType>`).join("");
+
+    const messages = operations.map(([name]) => `
+  <message name="${name}"><part name="parameters" element="tns:${name}"/></message>
+  <message name="${name}Response"><part name="parameters" element="tns:${name}Response"/></message>`).join("");
+
+    const portOperations = operations.map(([name]) => `
+    <operation name="${name}">
+      <input message="tns:${name}"/>
+      <output message="tns:${name}Response"/>
+    </operation>`).join("");
+
+    const bindingOperations = operations.map(([name]) => `
+    <operation name="${name}">
+      <soap:operation soapAction=""/>
+      <input><soap:body use="literal"/></input>
+      <output><soap:body use="literal"/></output>
+    </operation>`).join("");
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<definitions xmlns="http://schemas.xmlsoap.org/wsdl/"
+             xmlns:soap="http://schemas.xmlsoap.org/wsdl/soap/"
+             xmlns:xs="http://www.w3.org/2001/XMLSchema"
+             xmlns:tns="${AKD_NAMESPACE}"
+             targetNamespace="${AKD_NAMESPACE}"
+             name="LoginServerService">
+  <types>
+    <xs:schema targetNamespace="${AKD_NAMESPACE}" version="1.0">${elements}
+    </xs:schema>
+  </types>${messages}
+  <portType name="LoginServer">${portOperations}
+  </portType>
+  <binding name="LoginServerPortBinding" type="tns:LoginServer">
+    <soap:binding transport="http://schemas.xmlsoap.org/soap/http" style="document"/>${bindingOperations}
+  </binding>
+  <service name="LoginServerService">
+    <port name="LoginServerPort" binding="tns:LoginServerPortBinding">
+      <soap:address location="${endpoint}"/>
+    </port>
+  </service>
+</definitions>
+`;
+}
+
+/** The bundled WSDL with its service address set to `endpoint` */
+export function getBundledWsdl(endpoint: string): string {
+    return buildWsdl(endpoint);
+}
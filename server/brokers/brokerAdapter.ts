@@ -0,0 +1,353 @@
+// brokerAdapter.ts
+import type { AccountLogs, AllAccountDetails, FetchResult } from "@shared/accountData";
+import type { Decimal } from "@shared/decimal";
+import type { MarginSummary, NormalizedAccountData } from "@shared/models";
+import type { OrderModification, OrderTicket, PlacedOrder } from "@shared/orders";
+import { defaultDateRange, type DateRange } from "@shared/dates";
+import { buildCredentialsSchema, type AuthMethod, type Connection, type CredentialField, type CredentialSchema } from "@shared/schema";
+import { decryptCredentials } from "../credentialVault";
+import { storage } from "../storage";
+
+// ============================
+// Broker Adapter Interface
+// ============================
+
+export type BrokerCredentials = Record<string, string>;
+export type { AuthMethod, CredentialField };
+
+/**
+ * Credential key carrying the ID of the connection the credentials belong to,
+ * for brokers that keep state per connection (the paper broker). It is added
+ * when a stored connection is used and never stored itself.
+ */
+export const CONNECTION_CREDENTIAL = "connectionId";
+
+/** A stored connection's credentials, as the adapter calls for it take them */
+export function connectionCredentials(connection: Pick<Connection, "id" | "credentials">): BrokerCredentials {
+    return { ...decryptCredentials(connection.credentials), [CONNECTION_CREDENTIAL]: String(connection.id) };
+}
+
+/** Options for history-style fetches; adapters pick their own default range */
+export interface AccountDataOptions {
+    range?: DateRange;
+    /** Restrict account-level sections to one account; all accounts when omitted */
+    accountId?: string;
+}
+
+export interface BrokerCapabilities {
+    accounts: boolean;
+    positions: boolean;
+    orders: boolean;
+    statement: boolean;
+    logs: boolean;
+    /** Orders can be placed, modified and cancelled through `orderClient` */
+    trading: boolean;
+}
+
+/**
+ * Order entry for brokers with a trading API. Failures the user can act on
+ * (rejections, unknown orders, bad credentials) are thrown as BrokerOrderError.
+ */
+export interface BrokerOrderClient {
+    /** The account's margin figures; `availableAmount` bounds what a buy may cost */
+    getMargin(credentials: BrokerCredentials, accountId: string): Promise<MarginSummary | null>;
+    /** The symbol's last traded price, which prices market buys for the check; null when the broker has none */
+    getQuote(credentials: BrokerCredentials, symbol: string): Promise<Decimal | null>;
+    /** Orders sent through this client, newest first */
+    listOrders(credentials: BrokerCredentials, accountId?: string): Promise<PlacedOrder[]>;
+    getOrder(credentials: BrokerCredentials, orderId: string): Promise<PlacedOrder>;
+    placeOrder(credentials: BrokerCredentials, ticket: OrderTicket): Promise<PlacedOrder>;
+    modifyOrder(credentials: BrokerCredentials, orderId: string, changes: OrderModification): Promise<PlacedOrder>;
+    cancelOrder(credentials: BrokerCredentials, orderId: string): Promise<PlacedOrder>;
+}
+
+export class BrokerOrderError extends Error {
+    constructor(message: string, public readonly reason: "rejected" | "not_found" | "auth" | "unavailable") {
+        super(message);
+        this.name = "BrokerOrderError";
+    }
+}
+
+/**
+ * One adapter per broker (or per exchange for direct connections). Routes ask
+ * the adapter what it supports via `capabilities` instead of branching on names.
+ * Optional fetchers must be implemented for every capability flagged true.
+ */
+export interface BrokerAdapter {
+    /** Display name, also used for error messages */
+    name: string;
+    capabilities: BrokerCapabilities;
+    /** Currency the broker reports amounts in, when it is the same for every account */
+    currency?: string;
+    /** Fields required per auth method; an empty list means the method is unsupported */
+    credentialSchema: Record<AuthMethod, CredentialField[]>;
+
+    testConnection(credentials: BrokerCredentials, authMethod: AuthMethod): Promise<boolean>;
+
+    getAccounts?(credentials: BrokerCredentials): Promise<FetchResult>;
+    getPositions?(credentials: BrokerCredentials, options?: AccountDataOptions): Promise<FetchResult>;
+    getOrders?(credentials: BrokerCredentials, options?: AccountDataOptions): Promise<FetchResult>;
+    getStatement?(credentials: BrokerCredentials, options?: AccountDataOptions): Promise<FetchResult>;
+    getLogs?(credentials: BrokerCredentials): Promise<AccountLogs>;
+
+    /** Fetches every supported section in one broker session, when the broker allows it */
+    getAllAccountDetails?(credentials: BrokerCredentials, options?: AccountDataOptions): Promise<AllAccountDetails>;
+
+    /** Fetches the account in the shared normalized models (see shared/models.ts) */
+    getAccountData?(credentials: BrokerCredentials, options?: AccountDataOptions): Promise<NormalizedAccountData>;
+
+    /** Order entry; required when `capabilities.trading` is true */
+    orderClient?: BrokerOrderClient;
+}
+
+export const NO_CAPABILITIES: BrokerCapabilities = {
+    accounts: false,
+    positions: false,
+    orders: false,
+    statement: false,
+    logs: false,
+    trading: false,
+};
+
+// ============================
+// Adapter Registry
+// ============================
+
+interface AdapterRegistration {
+    adapter: BrokerAdapter;
+    brokerName?: string;
+    exchangeName?: string;
+}
+
+const registrations: AdapterRegistration[] = [];
+let fallbackAdapter: BrokerAdapter | null = null;
+
+// Resolved adapters keyed by broker ID / exchange ID
+const adaptersByBrokerId = new Map<number, BrokerAdapter>();
+const adaptersByExchangeId = new Map<number, BrokerAdapter>();
+
+/** Registers an adapter for a broker name, or for an exchange name for direct connections */
+export function registerBrokerAdapter(
+    adapter: BrokerAdapter,
+    match: { brokerName: string } | { exchangeName: string },
+): void {
+    registrations.push({ adapter, ...match });
+    adaptersByBrokerId.clear();
+    adaptersByExchangeId.clear();
+}
+
+/** Adapter used for broker/exchange combinations without a dedicated adapter */
+export function setFallbackBrokerAdapter(adapter: BrokerAdapter): void {
+    fallbackAdapter = adapter;
+}
+
+/**
+ * Finds the adapter for a broker ID first, then for the exchange ID (direct
+ * exchange connections), and finally falls back to the generic adapter.
+ */
+export async function resolveBrokerAdapter(
+    exchangeId: number,
+    brokerId?: number | null,
+): Promise<BrokerAdapter> {
+    if (brokerId) {
+        let adapter = adaptersByBrokerId.get(brokerId);
+        if (!adapter) {
+            const broker = await storage.getBroker(brokerId);
+            adapter = registrations.find(r => broker && r.brokerName === broker.name)?.adapter;
+            if (adapter) adaptersByBrokerId.set(brokerId, adapter);
+        }
+        if (adapter) return adapter;
+    }
+
+    let adapter = adaptersByExchangeId.get(exchangeId);
+    if (!adapter) {
+        const exchange = await storage.getExchange(exchangeId);
+        adapter = registrations.find(r => exchange && r.exchangeName === exchange.name)?.adapter;
+        if (adapter) adaptersByExchangeId.set(exchangeId, adapter);
+    }
+    if (adapter) return adapter;
+
+    if (!fallbackAdapter) {
+        throw new Error(`No broker adapter registered for exchange ${exchangeId}, broker ${brokerId ?? "none"}`);
+    }
+    return fallbackAdapter;
+}
+
+// ============================
+// Credential Schemas
+// ============================
+
+export class CredentialValidationError extends Error {
+    constructor(message: string, public readonly fieldErrors: Record<string, string>) {
+        super(message);
+        this.name = "CredentialValidationError";
+    }
+}
+
+/**
+ * Describes the credential fields for a broker (or a direct exchange connection).
+ * Auth methods are limited to those the broker lists and the adapter has fields for.
+ */
+export async function getCredentialSchema(
+    exchangeId: number,
+    brokerId?: number | null,
+): Promise<CredentialSchema> {
+    const adapter = await resolveBrokerAdapter(exchangeId, brokerId);
+    const broker = brokerId ? await storage.getBroker(brokerId) : undefined;
+    const brokerMethods = broker?.authMethods?.length ? broker.authMethods : ["api", "credentials"];
+    const authMethods = (["api", "credentials"] as AuthMethod[]).filter(method =>
+        brokerMethods.includes(method) && adapter.credentialSchema[method].length > 0);
+
+    return {
+        brokerId: broker?.id ?? null,
+        exchangeId,
+        adapter: adapter.name,
+        authMethods,
+        fields: adapter.credentialSchema,
+    };
+}
+
+/**
+ * Validates credentials against the adapter's schema for the auth method and
+ * returns only the declared fields. Throws CredentialValidationError with
+ * per-field messages when validation fails.
+ */
+export function validateCredentials(
+    adapter: BrokerAdapter,
+    authMethod: AuthMethod,
+    credentials: Record<string, unknown>,
+): BrokerCredentials {
+    const fields = adapter.credentialSchema[authMethod];
+    if (fields.length === 0) {
+        throw new CredentialValidationError(
+            `${adapter.name} does not support ${authMethod} authentication`,
+            {},
+        );
+    }
+
+    const result = buildCredentialsSchema(fields).safeParse(credentials);
+    if (!result.success) {
+        const fieldErrors: Record<string, string> = {};
+        for (const issue of result.error.issues) {
+            const field = String(issue.path[0] ?? "credentials");
+            fieldErrors[field] ??= issue.message;
+        }
+        throw new CredentialValidationError(`Invalid ${adapter.name} credentials`, fieldErrors);
+    }
+
+    const validated: BrokerCredentials = {};
+    for (const [key, value] of Object.entries(result.data)) {
+        if (typeof value === "string") validated[key] = value;
+    }
+    return validated;
+}
+
+// ============================
+// Helpers for routes
+// ============================
+
+/** Whether the adapter reports any account data; order entry alone does not count */
+function hasAnyCapability(adapter: BrokerAdapter): boolean {
+    const { trading: _trading, ...dataCapabilities } = adapter.capabilities;
+    return Object.values(dataCapabilities).some(Boolean);
+}
+
+const EMPTY_RESULT: FetchResult = { headers: [], data: [] };
+
+/**
+ * Fetches every section the adapter supports. Uses the adapter's single-session
+ * fetch when available, otherwise calls the per-section fetchers in parallel.
+ * Returns null when the adapter exposes no account data at all.
+ */
+export async function fetchAccountDetails(
+    adapter: BrokerAdapter,
+    credentials: BrokerCredentials,
+    options: AccountDataOptions = {},
+): Promise<AllAccountDetails | null> {
+    if (adapter.getAllAccountDetails) {
+        return withCurrency(await adapter.getAllAccountDetails(credentials, options), adapter.currency);
+    }
+    if (!hasAnyCapability(adapter)) {
+        return null;
+    }
+
+    const section = async (
+        enabled: boolean,
+        fetcher?: (c: BrokerCredentials, o?: AccountDataOptions) => Promise<FetchResult>,
+    ) => enabled && fetcher ? fetcher(credentials, options) : EMPTY_RESULT;
+    const settled = await Promise.allSettled([
+        section(adapter.capabilities.accounts, adapter.getAccounts),
+        section(adapter.capabilities.orders, adapter.getOrders),
+        section(adapter.capabilities.positions, adapter.getPositions),
+        section(adapter.capabilities.statement, adapter.getStatement),
+        adapter.capabilities.logs && adapter.getLogs
+            ? adapter.getLogs(credentials)
+            : Promise.resolve({ tradeLogs: EMPTY_RESULT, activityLogs: EMPTY_RESULT, outstandingLogs: EMPTY_RESULT }),
+    ]);
+
+    const unwrap = <T>(result: PromiseSettledResult<T>, fallback: T): T =>
+        result.status === "fulfilled" ? result.value : fallback;
+    const failed = (result: PromiseSettledResult<unknown>): FetchResult => ({
+        headers: ["Error"],
+        data: [["API Error"]],
+        error: result.status === "rejected" && result.reason instanceof Error ? result.reason.message : "API Error",
+    });
+
+    const [accounts, orders, positions, statement, logs] = settled;
+    const logsValue = unwrap(logs, { tradeLogs: failed(logs), activityLogs: failed(logs), outstandingLogs: failed(logs) });
+    const details: AllAccountDetails = {
+        tradingAccounts: unwrap(accounts, failed(accounts)),
+        orderHistory: unwrap(orders, failed(orders)),
+        positions: unwrap(positions, failed(positions)),
+        accountInfo: EMPTY_RESULT,
+        accountStatement: unwrap(statement, failed(statement)),
+        tradeLogs: logsValue.tradeLogs,
+        activityLogs: logsValue.activityLogs,
+        outstandingLogs: logsValue.outstandingLogs,
+        timestamp: new Date().toISOString(),
+        dataSource: "api",
+        range: options.range,
+    };
+    const sections = [details.tradingAccounts, details.orderHistory, details.positions, details.accountStatement,
+        details.tradeLogs, details.activityLogs, details.outstandingLogs];
+    if (sections.some(result => !!result.error)) {
+        details.dataSource = "api_with_errors";
+    }
+    return withCurrency(details, adapter.currency);
+}
+
+// Sections that hold amounts; account lists and market-wide lists are not in the account's currency
+const MONETARY_SECTIONS = [
+    "orderHistory", "positions", "accountInfo", "accountStatement", "tradeLogs", "activityLogs", "outstandingLogs",
+    "openPositions", "cdcHoldings", "marginCalls", "commissionSummary",
+] as const satisfies readonly (keyof AllAccountDetails)[];
+
+/** Tags every monetary section that has no currency of its own with the adapter's currency */
+function withCurrency(details: AllAccountDetails, currency: string | undefined): AllAccountDetails {
+    if (!currency) {
+        return details;
+    }
+    const tagged: AllAccountDetails = { ...details };
+    for (const section of MONETARY_SECTIONS) {
+        const table = details[section];
+        if (table && !table.currency && !table.error) {
+            tagged[section] = { ...table, currency };
+        }
+    }
+    return tagged;
+}
+
+/**
+ * Fetches the normalized current state (positions, margin) of every account.
+ * The history sections are limited to today since callers only value holdings.
+ * Returns null when the adapter does not serve normalized account data.
+ */
+export async function fetchCurrentAccountData(
+    adapter: BrokerAdapter,
+    credentials: BrokerCredentials,
+): Promise<NormalizedAccountData | null> {
+    if (!adapter.getAccountData) {
+        return null;
+    }
+    return adapter.getAccountData(credentials, { range: defaultDateRange(1) });
+}
@@ -0,0 +1,29 @@
+import { gunzipSync, gzipSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { SCRUBBED, scrubResponse } from "./brokerFixtures";
+
+describe("scrubResponse", () => {
+    const table = "UserInfo;Symbol;Quantity;Value|1234;OGDC;1234;41234.50|1234;HBL;10;1400.00|";
+
+    it("replaces the credential columns of delimited tables and nothing else", () => {
+        expect(scrubResponse(table)).toBe(
+            `UserInfo;Symbol;Quantity;Value|${SCRUBBED};OGDC;1234;41234.50|${SCRUBBED};HBL;10;1400.00|`,
+        );
+    });
+
+    it("scrubs inside gzip+base64 payloads", () => {
+        const payload = gzipSync(Buffer.from(table, "utf8")).toString("base64");
+        const [{ return: scrubbed }] = scrubResponse([{ return: payload }]) as { return: string }[];
+        expect(gunzipSync(Buffer.from(scrubbed, "base64")).toString("utf8")).toContain(`${SCRUBBED};OGDC;1234;41234.50`);
+    });
+
+    it("replaces credential fields of objects", () => {
+        expect(scrubResponse({ userName: "1234", token: "abc", account: "1234", amount: "1234.00" }))
+            .toEqual({ userName: SCRUBBED, token: SCRUBBED, account: "1234", amount: "1234.00" });
+    });
+
+    it("leaves text without credential columns alone", () => {
+        expect(scrubResponse("Symbol;Quantity|OGDC;1234|")).toBe("Symbol;Quantity|OGDC;1234|");
+        expect(scrubResponse("Not Authorized")).toBe("Not Authorized");
+    });
+});
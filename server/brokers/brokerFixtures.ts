@@ -0,0 +1,169 @@
+// brokerFixtures.ts
+//
+// Record-and-replay of raw broker responses. With BROKER_FIXTURE_MODE=record
+// every broker call made through `recordOrReplay` is written to
+// BROKER_FIXTURES_DIR/<broker>/<operation>-<hash>.json; with
+// BROKER_FIXTURE_MODE=replay the same calls are answered from those files and
+// never reach the broker. The hash covers the scrubbed request parameters, so a
+// fixture recorded for one login replays for any other.
+//
+// Credentials are scrubbed before anything is written: credential-like request
+// parameters are replaced with a placeholder, and so are the response's
+// credential fields and the credential columns of its delimited tables (e.g.
+// AKD's TraderCode), including inside base64 and gzip+base64 payloads. Only
+// those known positions are touched; a login that also appears elsewhere in the
+// data (say, as part of an amount) is left alone.
+import fs from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+import { gunzipSync, gzipSync } from "zlib";
+import { createLogger } from "../logger";
+
+const log = createLogger("fixtures");
+
+export type FixtureMode = "off" | "record" | "replay";
+
+const FIXTURE_MODES: FixtureMode[] = ["off", "record", "replay"];
+
+export const SCRUBBED = "<scrubbed>";
+
+// Request parameters (and response fields) holding login credentials, across brokers
+const CREDENTIAL_PARAM = /^(user(name|id)?|trader|login|password|pass(word)?|pin(code)?|api_?key|api_?secret|secret|token|access_?token)$/i;
+
+// Columns of delimited response tables ("Header;Header|value;value|...") that hold the login
+const CREDENTIAL_COLUMN = /^(user(name|id|info)?|trader(code|id)?|login(id)?)$/i;
+
+export interface BrokerFixture {
+    broker: string;
+    operation: string;
+    params: Record<string, unknown>;
+    recordedAt: string;
+    response: unknown;
+}
+
+export function getFixtureMode(): FixtureMode {
+    const mode = (process.env.BROKER_FIXTURE_MODE || "off").toLowerCase() as FixtureMode;
+    return FIXTURE_MODES.includes(mode) ? mode : "off";
+}
+
+function fixturesDir(): string {
+    return process.env.BROKER_FIXTURES_DIR || path.resolve(import.meta.dirname, "fixtures", "recorded");
+}
+
+const isCredential = (key: string, value: unknown) => CREDENTIAL_PARAM.test(key) && typeof value === "string" && value !== "";
+
+function scrubParams(params: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(params).map(([key, value]) => [key, isCredential(key, value) ? SCRUBBED : value]));
+}
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/** Replaces the values in the credential columns of a delimited table; other text is returned as is */
+function scrubTable(text: string): string {
+    const [headerRow, ...rows] = text.split("|");
+    const columns = headerRow.split(";")
+        .map((name, index) => (CREDENTIAL_COLUMN.test(name.trim()) ? index : -1))
+        .filter(index => index !== -1);
+    if (columns.length === 0 || rows.length === 0) return text;
+
+    const scrubbedRows = rows.map(row => {
+        const cells = row.split(";");
+        columns.forEach(index => {
+            if (cells[index]?.trim()) cells[index] = SCRUBBED;
+        });
+        return cells.join(";");
+    });
+    return [headerRow, ...scrubbedRows].join("|");
+}
+
+/** Scrubs one string, looking inside base64 and gzip+base64 payloads */
+function scrubString(value: string): string {
+    if (value.length >= 8 && value.length % 4 === 0 && BASE64.test(value)) {
+        const bytes = Buffer.from(value, "base64");
+        const gzipped = bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+        try {
+            const decoded = (gzipped ? gunzipSync(bytes) : bytes).toString("utf8");
+            const scrubbed = scrubTable(decoded);
+            if (scrubbed === decoded) return value;
+            const encoded = Buffer.from(scrubbed, "utf8");
+            return (gzipped ? gzipSync(encoded) : encoded).toString("base64");
+        } catch {
+            // Not a payload after all; fall through to the plain text
+        }
+    }
+    return scrubTable(value);
+}
+
+export function scrubResponse(value: unknown): unknown {
+    if (typeof value === "string") return scrubString(value);
+    if (Array.isArray(value)) return value.map(item => scrubResponse(item));
+    if (value && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, isCredential(key, item) ? SCRUBBED : scrubResponse(item)]));
+    }
+    return value;
+}
+
+/** Stable JSON (sorted keys) so equal parameters always hash the same */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+    if (value && typeof value === "object") {
+        return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`).join(",")}}`;
+    }
+    return JSON.stringify(value) ?? "null";
+}
+
+export function fixturePath(broker: string, operation: string, params: Record<string, unknown>): string {
+    const hash = createHash("sha256").update(stableStringify(scrubParams(params))).digest("hex").slice(0, 12);
+    return path.join(fixturesDir(), broker, `${operation}-${hash}.json`);
+}
+
+export async function readFixture(broker: string, operation: string, params: Record<string, unknown>): Promise<BrokerFixture> {
+    const file = fixturePath(broker, operation, params);
+    try {
+        return JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (error: any) {
+        if (error.code === "ENOENT") {
+            throw new Error(`No recorded fixture for ${broker} ${operation} (${path.relative(process.cwd(), file)})`);
+        }
+        throw error;
+    }
+}
+
+async function writeFixture(broker: string, operation: string, params: Record<string, unknown>, response: unknown): Promise<void> {
+    const fixture: BrokerFixture = {
+        broker,
+        operation,
+        params: scrubParams(params),
+        recordedAt: new Date().toISOString(),
+        response: scrubResponse(response),
+    };
+    const file = fixturePath(broker, operation, params);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+    log.info(`Recorded ${broker} ${operation}`, { file: path.relative(process.cwd(), file) });
+}
+
+/**
+ * Runs one broker call under the current fixture mode. `call` must resolve to
+ * the raw response (before any decoding or parsing) so that replay exercises the
+ * same parsing code as a live call. Recording failures are logged, never thrown.
+ */
+export async function recordOrReplay<T>(
+    broker: string,
+    operation: string,
+    params: Record<string, unknown>,
+    call: () => Promise<T>,
+): Promise<T> {
+    const mode = getFixtureMode();
+    if (mode === "replay") {
+        return (await readFixture(broker, operation, params)).response as T;
+    }
+
+    const response = await call();
+    if (mode === "record") {
+        await writeFixture(broker, operation, params, response).catch((error) => {
+            log.error(`Could not record ${broker} ${operation}`, { error: error.message });
+        });
+    }
+    return response;
+}
@@ -0,0 +1,31 @@
+// Registers every broker adapter. Adding a broker means writing an adapter
+// and registering it here; the routes never branch on broker names.
+import { registerBrokerAdapter, setFallbackBrokerAdapter } from "./brokerAdapter";
+import { akdAdapter } from "./akdAdapter";
+import { paperAdapter } from "./paperAdapter";
+import { binanceAdapter, genericAdapter, mkkAdapter, zerodhaAdapter } from "./simulatedAdapters";
+
+registerBrokerAdapter(akdAdapter, { brokerName: "AKD" });
+registerBrokerAdapter(mkkAdapter, { brokerName: "MKK" });
+registerBrokerAdapter(zerodhaAdapter, { brokerName: "Zerodha" });
+registerBrokerAdapter(binanceAdapter, { exchangeName: "Binance" });
+registerBrokerAdapter(paperAdapter, { exchangeName: "Paper" });
+setFallbackBrokerAdapter(genericAdapter);
+
+export {
+  connectionCredentials,
+  resolveBrokerAdapter,
+  fetchAccountDetails,
+  fetchCurrentAccountData,
+  getCredentialSchema,
+  validateCredentials,
+  CredentialValidationError,
+  BrokerOrderError,
+} from "./brokerAdapter";
+export type {
+  AccountDataOptions,
+  BrokerAdapter,
+  BrokerCapabilities,
+  BrokerCredentials,
+  BrokerOrderClient,
+} from "./brokerAdapter";
@@ -0,0 +1,531 @@
+// paperAdapter.ts
+//
+// Built-in paper-trading broker, so the dashboard can be demonstrated and
+// tested without a broker login. Accounts, orders and fills come from the
+// paper engine (paperEngine.ts) and prices from the replayed price file
+// (paperMarket.ts); nothing leaves the server.
+//
+// Every section is first laid out as rows keyed by AKD's column names
+// (KEY_MAPPINGS), then turned into the tables fetchAllAccountDetails returns
+// and into the normalized models by the AKD client's own mapping, so every
+// dashboard tab treats a paper connection like an AKD one.
+import type { AccountLogs, AllAccountDetails, FetchResult } from "@shared/accountData";
+import { addDecimals, multiplyDecimal, parseDecimal, roundDecimal, subtractDecimal, sumDecimals, type Decimal } from "@shared/decimal";
+import { defaultDateRange, type DateRange } from "@shared/dates";
+import { ACCOUNT_DATA_SECTIONS, type NormalizedAccountData, type OrderSide } from "@shared/models";
+import { isWorkingOrder, type OrderType } from "@shared/orders";
+import { KEY_MAPPINGS, buildNormalizedAccountData, mapAccounts, mapMarginSummary } from "./akdApiClient";
+import { BrokerOrderError, CONNECTION_CREDENTIAL, type AccountDataOptions, type BrokerAdapter, type BrokerCredentials, type BrokerOrderClient } from "./brokerAdapter";
+import {
+    PAPER_CURRENCY,
+    availableCash,
+    cancelPaperOrder,
+    findPaperOrder,
+    getPaperAccount,
+    modifyPaperOrder,
+    paperHoldings,
+    placePaperOrder,
+    toPlacedOrder,
+    type PaperAccount,
+    type PaperOrder,
+} from "./paperEngine";
+import { checkPriceFile, formatPktDate, hasPaperSymbol, paperSymbols, pktDateString, quote } from "./paperMarket";
+import { createLogger } from "../logger";
+
+const log = createLogger("paper");
+
+type AkdRow = Record<string, string>;
+
+const MARKET = "REG"; // The paper market only has AKD's regular (cash equity) market
+const MOVERS_PER_LIST = 5;
+
+const money = (value: number) => value.toFixed(2);
+const sideName = (side: OrderSide) => side === "buy" ? "Buy" : "Sell";
+const typeName = (type: OrderType) => type === "market" ? "Market" : "Limit";
+const origin = (order: PaperOrder) => order.origin === "app" ? "Web" : "Generated";
+const hostRef = (order: PaperOrder) => `H-${order.orderId}`;
+const inRange = (at: number, range: DateRange) => pktDateString(at) >= range.from && pktDateString(at) <= range.to;
+
+// Activity log status and sub-status per order status, in AKD's words
+const ACTIVITY_STATUS: Record<PaperOrder["status"], [string, string]> = {
+    open: ["Open", "Queued"],
+    partially_filled: ["Partially Executed", "Partial"],
+    filled: ["Executed", "Filled"],
+    cancelled: ["Cancelled", "Cancelled"],
+    rejected: ["Rejected", "Rejected"],
+    unknown: ["Unknown", ""],
+};
+
+function paperLogin(credentials: BrokerCredentials): string {
+    const login = credentials.username?.trim();
+    if (!login) {
+        throw new Error("Missing required username credential for Paper");
+    }
+    return login;
+}
+
+/** The account of the connection the credentials come from (see connectionCredentials) */
+function openAccount(credentials: BrokerCredentials, now: number = Date.now()): PaperAccount {
+    const login = paperLogin(credentials);
+    const owner = credentials[CONNECTION_CREDENTIAL];
+    if (!owner) {
+        throw new Error("Paper accounts belong to a saved connection");
+    }
+    return getPaperAccount(owner, login, parseDecimal(credentials.startingCash) ?? undefined, now);
+}
+
+// ============================
+// AKD-keyed Rows
+// ============================
+
+function accountRows(account: PaperAccount): AkdRow[] {
+    return [{
+        AccountCode: account.accountId,
+        AccountTitle: account.title,
+        BranchCode: "PAPER",
+        TraderCode: account.login,
+        AccountStatus: "Active",
+        NIC: "",
+    }];
+}
+
+/** Executed orders placed within the range, one row per execution */
+function orderHistoryRows(account: PaperAccount, range: DateRange): AkdRow[] {
+    const orders = new Map(account.orders.map(order => [order.orderId, order]));
+    return account.executions
+        .filter(execution => inRange(Date.parse(orders.get(execution.orderId)!.placedAt), range))
+        .map(execution => {
+            const order = orders.get(execution.orderId)!;
+            return {
+                Symbol: execution.symbol,
+                Quantity: execution.quantity,
+                Rate: execution.price,
+                Amount: execution.value,
+                Side: sideName(execution.side),
+                OrderType: typeName(order.type),
+                OrderDate: formatPktDate(Date.parse(order.placedAt), true),
+                TradeDate: formatPktDate(execution.executedAt, true),
+                Reference: execution.orderId,
+            };
+        });
+}
+
+/** Holdings marked to the current price; paper holdings take no haircut */
+function collateralRows(account: PaperAccount, now: number): AkdRow[] {
+    return paperHoldings(account).map(holding => {
+        const rate = money(quote(holding.symbol, now).last);
+        const amount = roundDecimal(multiplyDecimal(holding.quantity, rate), 2);
+        return {
+            Symbol: holding.symbol,
+            Quantity: holding.quantity,
+            TotalQty: holding.boughtQuantity,
+            AvgBuyRate: roundDecimal(holding.averageCost, 2),
+            SoldQuantity: holding.soldQuantity,
+            AvgSellRate: holding.averageSellPrice ? roundDecimal(holding.averageSellPrice, 2) : "0",
+            MTM_Rate: rate,
+            MTMAmount: amount,
+            HaircutPercent: "0",
+            MarginizedValueRate: rate,
+            ValueAfterHaircut: amount,
+            PendingSellQty: holding.pendingSellQuantity,
+            SettledPL: holding.realizedPnl,
+            UnsettledPL: roundDecimal(multiplyDecimal(holding.quantity, subtractDecimal(rate, holding.averageCost)), 2),
+        };
+    });
+}
+
+/** GetExposureDynamic's metrics for a cash account: the limit is the cash itself */
+function exposureRows(account: PaperAccount, collateral: AkdRow[]): AkdRow[] {
+    const cash = roundDecimal(account.cash, 2);
+    const holdingsValue = sumDecimals(collateral.map(row => row.MTMAmount)) ?? "0";
+    const metric = (name: string, value: Decimal): AkdRow => ({ Metric: name, [MARKET]: value });
+    return [
+        metric("Floating_Balance", addDecimals(cash, holdingsValue)),
+        metric("~Cash", cash),
+        metric("Allowed_Limit", cash),
+        metric("Available_Amount", availableCash(account)),
+        metric("Exposure", holdingsValue),
+        metric("Profit/Loss", sumDecimals(collateral.map(row => row.UnsettledPL)) ?? "0"),
+    ];
+}
+
+/** Ledger entries within the range, after an opening balance when the account is older */
+function statementRows(account: PaperAccount, range: DateRange): AkdRow[] {
+    const rows: AkdRow[] = account.ledger
+        .filter(entry => inRange(entry.at, range))
+        .map(entry => ({
+            VoucherNo: entry.voucherNo,
+            UnknownCol2: entry.type,
+            Date: formatPktDate(entry.at),
+            Description: entry.description,
+            Debit: entry.debit ?? "",
+            Credit: entry.credit ?? "",
+            Balance: entry.balance,
+        }));
+    const earlier = account.ledger.filter(entry => pktDateString(entry.at) < range.from);
+    if (earlier.length > 0) {
+        rows.unshift({
+            VoucherNo: "",
+            UnknownCol2: "",
+            Date: formatPktDate(Date.parse(`${range.from}T00:00:00+05:00`)),
+            Description: "Opening balance",
+            Debit: "",
+            Credit: "",
+            Balance: earlier[earlier.length - 1].balance,
+        });
+    }
+    return rows;
+}
+
+function tradeLogRows(account: PaperAccount, executions = account.executions): AkdRow[] {
+    const orders = new Map(account.orders.map(order => [order.orderId, order]));
+    return executions.map(execution => {
+        const order = orders.get(execution.orderId)!;
+        return {
+            LogInfo: account.login,
+            Market: MARKET,
+            Symbol: execution.symbol,
+            Timestamp: formatPktDate(execution.executedAt, true),
+            TradeID: execution.tradeId,
+            OrderRef: execution.orderId,
+            Side: sideName(execution.side),
+            OrigQty: order.quantity,
+            Price: execution.price,
+            ExecRef: execution.tradeId,
+            Account: account.accountId,
+            Status: "Executed",
+            Origin: origin(order),
+            FilledQty: execution.quantity,
+            Value: execution.value,
+            Commission: execution.commission,
+            AssetType: "EQ",
+        };
+    });
+}
+
+/** Orders placed or changed today */
+function activityLogRows(account: PaperAccount, now: number): AkdRow[] {
+    const today = pktDateString(now);
+    return account.orders
+        .filter(order => pktDateString(Date.parse(order.placedAt)) === today || pktDateString(Date.parse(order.updatedAt)) === today)
+        .map(order => {
+            const execution = account.executions.find(candidate => candidate.orderId === order.orderId);
+            const price = order.price ?? execution?.price ?? "";
+            const [status, subStatus] = ACTIVITY_STATUS[order.status];
+            return {
+                UserInfo: account.login,
+                Market: MARKET,
+                Symbol: order.symbol,
+                Account: account.accountId,
+                Price: price,
+                OrderRef: order.orderId,
+                HostOrderRef: hostRef(order),
+                OrigQty: order.quantity,
+                FilledQty: order.filledQuantity,
+                RemainingQty: subtractDecimal(order.quantity, order.filledQuantity),
+                ExecRef: execution?.tradeId ?? "",
+                Value: execution?.value ?? (price ? roundDecimal(multiplyDecimal(order.quantity, price), 2) : ""),
+                Status: status,
+                AssetType: "EQ",
+                Timestamp: formatPktDate(Date.parse(order.updatedAt), true),
+                SubStatus: order.message?.startsWith("Expired") ? "Expired" : subStatus,
+            };
+        });
+}
+
+function outstandingLogRows(account: PaperAccount): AkdRow[] {
+    return account.orders.filter(isWorkingOrder).map(order => ({
+        LogInfo: account.login,
+        Symbol: order.symbol,
+        Price: order.price ?? "",
+        Quantity: subtractDecimal(order.quantity, order.filledQuantity),
+        Account: account.accountId,
+        OrderRef: order.orderId,
+        HostOrderRef: hostRef(order),
+        Origin: origin(order),
+        Side: sideName(order.side),
+        Market: MARKET,
+        Status: "Open",
+        Timestamp: formatPktDate(Date.parse(order.placedAt), true),
+        OrderType: typeName(order.type),
+    }));
+}
+
+/** Depository holdings at the previous close; shares in working sell orders are blocked */
+function cdcRows(collateral: AkdRow[], now: number): AkdRow[] {
+    return collateral.map(row => {
+        const closingRate = money(quote(row.Symbol, now).previousClose);
+        return {
+            Symbol: row.Symbol,
+            SecurityName: "",
+            TotalQty: row.Quantity,
+            FreeQty: subtractDecimal(row.Quantity, row.PendingSellQty),
+            PledgedQty: "0",
+            BlockedQty: row.PendingSellQty,
+            ClosingRate: closingRate,
+            MarketValue: roundDecimal(multiplyDecimal(row.Quantity, closingRate), 2),
+        };
+    });
+}
+
+function commissionRows(account: PaperAccount): AkdRow[] {
+    if (account.executions.length === 0) return [];
+    const commission = sumDecimals(account.executions.map(execution => execution.commission))!;
+    return [{
+        Market: MARKET,
+        Turnover: sumDecimals(account.executions.map(execution => execution.value))!,
+        Commission: commission,
+        SalesTax: "0",
+        TotalCharges: commission,
+    }];
+}
+
+/** getInfo's top gainers and losers, tagged with the list like AKD's market movers */
+function marketMoverRows(now: number): AkdRow[] {
+    const movers = paperSymbols().map(symbol => {
+        const { last, previousClose, volume } = quote(symbol, now);
+        const percent = (last - previousClose) / previousClose * 100;
+        return {
+            percent,
+            row: {
+                Symbol: symbol,
+                Name: "",
+                LastRate: money(last),
+                Change: money(last - previousClose),
+                ChangePercent: percent.toFixed(2),
+                Volume: String(volume),
+            },
+        };
+    });
+    const gainers = movers.filter(mover => mover.percent > 0).sort((a, b) => b.percent - a.percent);
+    const losers = movers.filter(mover => mover.percent < 0).sort((a, b) => a.percent - b.percent);
+    return [
+        ...gainers.slice(0, MOVERS_PER_LIST).map(({ row }) => ({ List: "Top Gainers", ...row })),
+        ...losers.slice(0, MOVERS_PER_LIST).map(({ row }) => ({ List: "Top Losers", ...row })),
+    ];
+}
+
+// ============================
+// Sections
+// ============================
+
+/** A table of `columns` picked from AKD-keyed rows */
+function table(headers: string[], rows: AkdRow[], columns: string[] = headers): FetchResult {
+    return { headers, data: rows.map(row => columns.map(column => row[column] ?? null)) };
+}
+
+// Labels of the account info rows, as akdApiClient's getAccountInfo writes them
+const ACCOUNT_INFO_LABELS: Record<string, string> = {
+    "Floating_Balance": "Floating Balance",
+    "~Cash": "Cash",
+    "Allowed_Limit": `Allowed Limit (${MARKET})`,
+    "Available_Amount": `Available Amount (${MARKET})`,
+    "Exposure": `Exposure (${MARKET})`,
+    "Profit/Loss": `Profit/Loss (${MARKET})`,
+};
+
+const ACCOUNT_SECTIONS = [
+    "orderHistory", "positions", "accountInfo", "accountStatement", "tradeLogs", "activityLogs", "outstandingLogs",
+    "openPositions", "cdcHoldings", "marginCalls", "commissionSummary", "marketInfo",
+] as const;
+
+function logSections(account: PaperAccount, now: number): Pick<AccountLogs, "tradeLogs" | "activityLogs" | "outstandingLogs"> {
+    const today = pktDateString(now);
+    return {
+        // Like AKD's trade log, only the day's executions
+        tradeLogs: table(KEY_MAPPINGS.GetTradeLog, tradeLogRows(account, account.executions.filter(execution => pktDateString(execution.executedAt) === today))),
+        activityLogs: table(KEY_MAPPINGS.GetDailyActivityLog, activityLogRows(account, now)),
+        outstandingLogs: table(KEY_MAPPINGS.GetOutstandingLog, outstandingLogRows(account)),
+    };
+}
+
+function getPaperAccountDetails(credentials: BrokerCredentials, options: AccountDataOptions = {}): AllAccountDetails {
+    const now = Date.now();
+    const range = options.range ?? defaultDateRange();
+    const account = openAccount(credentials, now);
+    const collateral = collateralRows(account, now);
+
+    const details: AllAccountDetails = {
+        tradingAccounts: {
+            headers: ["Account", "Name", "Status", "Type", "Balance"],
+            data: [[account.accountId, account.title, "Active", "Paper", `${PAPER_CURRENCY} ${roundDecimal(account.cash, 2)}`]],
+        },
+        orderHistory: table(
+            ["Order ID", "Symbol", "Side", "Type", "Quantity", "Price", "Status", "Date"],
+            orderHistoryRows(account, range).map(row => ({ ...row, Status: "Completed" })),
+            ["Reference", "Symbol", "Side", "OrderType", "Quantity", "Rate", "Status", "OrderDate"],
+        ),
+        positions: table(
+            ["Symbol", "Quantity", "Avg Buy Rate", "MTM Rate", "Unsettled P/L", "Value After Haircut"],
+            collateral,
+            ["Symbol", "Quantity", "AvgBuyRate", "MTM_Rate", "UnsettledPL", "ValueAfterHaircut"],
+        ),
+        accountInfo: {
+            headers: ["Detail", "Value"],
+            data: [
+                ["Account ID", account.accountId],
+                ...exposureRows(account, collateral).map(row => [ACCOUNT_INFO_LABELS[row.Metric], row[MARKET]]),
+            ],
+        },
+        accountStatement: table(
+            ["Voucher No", "Date", "Description", "Debit", "Credit", "Balance"],
+            statementRows(account, range),
+            ["VoucherNo", "Date", "Description", "Debit", "Credit", "Balance"],
+        ),
+        ...logSections(account, now),
+        openPositions: table(KEY_MAPPINGS.GetOpenPosition, []), // No futures on the paper market
+        cdcHoldings: table(KEY_MAPPINGS.GetOpenCDCPosition, cdcRows(collateral, now)),
+        marginCalls: table(KEY_MAPPINGS.GetMarginCallByTrader, []), // Cash accounts never get margin calls
+        commissionSummary: table(KEY_MAPPINGS.CommSummray, commissionRows(account)),
+        marketInfo: table(["List", ...KEY_MAPPINGS.getInfo], marketMoverRows(now)),
+        timestamp: new Date(now).toISOString(),
+        dataSource: "api",
+        range,
+        accounts: [account.accountId],
+        selectedAccount: options.accountId ?? null,
+    };
+
+    if (options.accountId && options.accountId !== account.accountId) {
+        const message = `Account ${options.accountId} not found for this trader`;
+        for (const section of ACCOUNT_SECTIONS) {
+            const headers = details[section]!.headers;
+            details[section] = { headers, data: [headers.map(() => message)], error: message };
+        }
+        details.dataSource = "error";
+    }
+    return details;
+}
+
+function getPaperAccountData(credentials: BrokerCredentials, options: AccountDataOptions = {}): NormalizedAccountData {
+    const now = Date.now();
+    const range = options.range ?? defaultDateRange();
+    const timestamp = new Date(now).toISOString();
+    const account = openAccount(credentials, now);
+    const accounts = mapAccounts(accountRows(account));
+
+    if (options.accountId && options.accountId !== account.accountId) {
+        const message = `Account ${options.accountId} not found for this trader`;
+        return {
+            ...buildNormalizedAccountData(accounts, { rows: [] }, [], range, options.accountId, timestamp),
+            errors: Object.fromEntries(ACCOUNT_DATA_SECTIONS.map(section => [section, message])),
+            dataSource: "error",
+        };
+    }
+
+    const collateral = collateralRows(account, now);
+    // Every paper execution is in the trade log, so each fill carries its exact commission
+    return buildNormalizedAccountData(accounts, { rows: tradeLogRows(account) }, [{
+        accountNo: account.accountId,
+        collateral: { rows: collateral },
+        orderHistory: { rows: orderHistoryRows(account, range) },
+        statement: { rows: statementRows(account, range) },
+        exposure: { rows: exposureRows(account, collateral) },
+        commissions: { rows: commissionRows(account) },
+    }], range, options.accountId, timestamp);
+}
+
+// ============================
+// Order Entry
+// ============================
+
+/**
+ * The calling connection's account for an order call, so orders are only ever
+ * looked up in the account they were placed in. Engine rejections are already
+ * BrokerOrderErrors.
+ */
+function tradingAccount(credentials: BrokerCredentials): PaperAccount {
+    if (!credentials.username?.trim()) {
+        throw new BrokerOrderError("Missing required username credential for Paper", "auth");
+    }
+    if (!credentials[CONNECTION_CREDENTIAL]) {
+        throw new BrokerOrderError("Paper orders need the connection that owns the account", "auth");
+    }
+    return openAccount(credentials);
+}
+
+const paperOrderClient: BrokerOrderClient = {
+    getMargin: async (credentials, accountId) => {
+        const account = tradingAccount(credentials);
+        if (accountId !== account.accountId) {
+            throw new BrokerOrderError(`Account ${accountId} not found for this trader`, "not_found");
+        }
+        return mapMarginSummary(exposureRows(account, collateralRows(account, Date.now())), accountId);
+    },
+
+    getQuote: async (credentials, symbol) => {
+        tradingAccount(credentials);
+        return hasPaperSymbol(symbol) ? money(quote(symbol, Date.now()).last) : null;
+    },
+
+    listOrders: async (credentials, accountId) => tradingAccount(credentials).orders
+        .filter(order => order.origin === "app" && (!accountId || order.accountId === accountId))
+        .reverse()
+        .map(toPlacedOrder),
+
+    getOrder: async (credentials, orderId) => toPlacedOrder(findPaperOrder(tradingAccount(credentials), orderId)),
+
+    placeOrder: async (credentials, ticket) => toPlacedOrder(placePaperOrder(tradingAccount(credentials), ticket)),
+
+    modifyOrder: async (credentials, orderId, changes) =>
+        toPlacedOrder(modifyPaperOrder(tradingAccount(credentials), orderId, changes)),
+
+    cancelOrder: async (credentials, orderId) => toPlacedOrder(cancelPaperOrder(tradingAccount(credentials), orderId)),
+};
+
+// ============================
+// Adapter
+// ============================
+
+export const paperAdapter: BrokerAdapter = {
+    name: "Paper",
+    currency: PAPER_CURRENCY,
+    capabilities: {
+        accounts: true,
+        positions: true,
+        orders: true,
+        statement: true,
+        logs: true,
+        trading: true,
+    },
+    credentialSchema: {
+        api: [],
+        credentials: [
+            {
+                name: "username", label: "Paper login", type: "text", secret: false, required: true,
+                pattern: "^[A-Za-z0-9._-]{3,32}$", patternMessage: "Use 3 to 32 letters, digits, dots, dashes or underscores",
+                placeholder: "demo",
+            },
+            {
+                name: "startingCash", label: `Starting cash (${PAPER_CURRENCY})`, type: "number", secret: false, required: false,
+                pattern: "^[1-9]\\d{0,11}(\\.\\d{1,2})?$", patternMessage: "Enter an amount such as 1000000",
+                placeholder: "1000000",
+            },
+        ],
+    },
+
+    async testConnection(credentials) {
+        try {
+            checkPriceFile();
+        } catch (error: any) {
+            log.error("Paper price file unavailable", { error });
+            throw new Error(`Paper market unavailable: ${error.message}`);
+        }
+        // The account itself is opened once the connection is saved
+        log.info("Paper connection tested", { login: paperLogin(credentials) });
+        return true;
+    },
+
+    getAllAccountDetails: async (credentials, options) => getPaperAccountDetails(credentials, options),
+    getAccounts: async (credentials) => getPaperAccountDetails(credentials).tradingAccounts,
+    getPositions: async (credentials, options) => getPaperAccountDetails(credentials, options).positions,
+    getOrders: async (credentials, options) => getPaperAccountDetails(credentials, options).orderHistory,
+    getStatement: async (credentials, options) => getPaperAccountDetails(credentials, options).accountStatement,
+    getLogs: async (credentials) => {
+        const now = Date.now();
+        return { ...logSections(openAccount(credentials, now), now), dataSource: "api" };
+    },
+
+    getAccountData: async (credentials, options) => getPaperAccountData(credentials, options),
+
+    orderClient: paperOrderClient,
+};
@@ -0,0 +1,444 @@
+// paperEngine.ts
+//
+// Accounts and matching engine of the paper-trading broker (paperAdapter.ts).
+// Each paper connection has one cash account, kept in memory for the life of
+// the server and never shared with another connection, even for the same login. It opens PAPER_HISTORY_DAYS (default 45) days back with a deposit of
+// PAPER_STARTING_CASH (default 1,000,000 PKR, or the connection's own starting
+// cash), followed by trades generated from the login name and priced from the
+// replayed market (paperMarket.ts). Rebuilding an account on the same day
+// therefore gives the same history.
+//
+// Orders are matched lazily: before an account is read or traded, its working
+// limit orders are run along the price path since they were last looked at.
+// A resting order fills completely, at its limit price, the first time the
+// price reaches it. Orders that can trade when they arrive fill at the current
+// price; the paper market keeps quoting its last price outside the session so
+// it can be tried at any hour. Day orders expire at the close and IOC orders
+// that cannot trade at once are cancelled. Every fill is charged
+// PAPER_COMMISSION_RATE (default 0.0015) of its value.
+import {
+    addDecimals,
+    compareDecimal,
+    divideDecimal,
+    multiplyDecimal,
+    parseDecimal,
+    roundDecimal,
+    subtractDecimal,
+    sumDecimals,
+    type Decimal,
+} from "@shared/decimal";
+import type { OrderSide } from "@shared/models";
+import { isWorkingOrder, type OrderModification, type OrderTicket, type PlacedOrder } from "@shared/orders";
+import { BrokerOrderError } from "./brokerAdapter";
+import {
+    paperSymbols,
+    hasPaperSymbol,
+    priceAt,
+    pricePath,
+    pktDateString,
+    sessionBounds,
+    sessionCloseAfter,
+    tradingDays,
+    type PricePoint,
+} from "./paperMarket";
+import { createLogger } from "../logger";
+
+const log = createLogger("paper-engine");
+
+const STARTING_CASH = parseDecimal(process.env.PAPER_STARTING_CASH) ?? "1000000";
+const COMMISSION_RATE = parseDecimal(process.env.PAPER_COMMISSION_RATE) ?? "0.0015";
+const HISTORY_DAYS = Math.max(1, parseInt(process.env.PAPER_HISTORY_DAYS || "45", 10) || 45);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_LOT = 10; // Generated trades are in multiples of this many shares
+
+export const PAPER_CURRENCY = "PKR";
+
+export interface PaperOrder extends PlacedOrder {
+    /** Generated with the account's history, or sent through the order client */
+    origin: "history" | "app";
+    /** Instant up to which the order has been matched against the price path */
+    matchedUntil: number;
+    /** Close at which a day order expires; null for orders that do not expire */
+    expiresAt: number | null;
+}
+
+export interface PaperExecution {
+    tradeId: string;
+    orderId: string;
+    symbol: string;
+    side: OrderSide;
+    quantity: Decimal;
+    price: Decimal;
+    value: Decimal;
+    commission: Decimal;
+    executedAt: number;
+}
+
+export interface PaperLedgerEntry {
+    voucherNo: string;
+    type: "R" | "P" | "S" | "C"; // Receipt, purchase, sale, charges
+    at: number;
+    description: string;
+    debit: Decimal | null;
+    credit: Decimal | null;
+    balance: Decimal;
+}
+
+export interface PaperHolding {
+    symbol: string;
+    quantity: Decimal;
+    boughtQuantity: Decimal;
+    /** Average cost of the shares still held */
+    averageCost: Decimal;
+    soldQuantity: Decimal;
+    averageSellPrice: Decimal | null;
+    realizedPnl: Decimal;
+    pendingSellQuantity: Decimal;
+}
+
+export interface PaperAccount {
+    accountId: string;
+    title: string;
+    /** ID of the connection the account belongs to */
+    owner: string;
+    login: string;
+    cash: Decimal;
+    /** Oldest first, like the executions and the ledger */
+    orders: PaperOrder[];
+    executions: PaperExecution[];
+    ledger: PaperLedgerEntry[];
+    sequence: number;
+}
+
+const accounts = new Map<string, PaperAccount>();
+
+const VOUCHER_PREFIXES: Record<PaperLedgerEntry["type"], string> = { R: "JV", P: "CP", S: "CR", C: "JV" };
+
+const iso = (at: number) => new Date(at).toISOString();
+
+const remaining = (order: PlacedOrder) => subtractDecimal(order.quantity, order.filledQuantity);
+
+const commissionOn = (value: Decimal) => roundDecimal(multiplyDecimal(value, COMMISSION_RATE), 2);
+
+function nextId(account: PaperAccount, prefix: string): string {
+    return `${prefix}-${String(++account.sequence).padStart(6, "0")}`;
+}
+
+/** Posts a cash movement to the ledger */
+function post(account: PaperAccount, type: PaperLedgerEntry["type"], at: number, description: string, debit: Decimal | null, credit: Decimal | null): void {
+    account.cash = subtractDecimal(addDecimals(account.cash, credit ?? "0"), debit ?? "0");
+    account.ledger.push({ voucherNo: nextId(account, VOUCHER_PREFIXES[type]), type, at, description, debit, credit, balance: account.cash });
+}
+
+/** Fills the rest of an order at `price` */
+function execute(account: PaperAccount, order: PaperOrder, price: Decimal, at: number, message: string): void {
+    const quantity = remaining(order);
+    const value = roundDecimal(multiplyDecimal(quantity, price), 2);
+    const commission = commissionOn(value);
+    account.executions.push({
+        tradeId: nextId(account, "PT"), orderId: order.orderId, symbol: order.symbol, side: order.side,
+        quantity, price, value, commission, executedAt: at,
+    });
+
+    const trade = `${order.symbol} ${quantity} @ ${price}`;
+    if (order.side === "buy") {
+        post(account, "P", at, `Purchase ${trade}`, value, null);
+    } else {
+        post(account, "S", at, `Sale ${trade}`, null, value);
+    }
+    post(account, "C", at, `Commission on ${trade}`, commission, null);
+    Object.assign(order, { filledQuantity: order.quantity, status: "filled", updatedAt: iso(at), message, matchedUntil: at });
+}
+
+function newOrder(account: PaperAccount, ticket: OrderTicket, origin: PaperOrder["origin"], at: number): PaperOrder {
+    return {
+        orderId: nextId(account, origin === "app" ? "PO" : "PH"),
+        accountId: account.accountId,
+        symbol: ticket.symbol,
+        side: ticket.side,
+        type: ticket.type,
+        quantity: ticket.quantity,
+        filledQuantity: "0",
+        price: ticket.type === "limit" ? ticket.price : null,
+        validity: ticket.validity,
+        status: "open",
+        placedAt: iso(at),
+        updatedAt: iso(at),
+        message: null,
+        origin,
+        matchedUntil: at,
+        expiresAt: ticket.validity === "day" ? sessionCloseAfter(at) : null,
+    };
+}
+
+// ============================
+// Holdings and Cash
+// ============================
+
+/** Holdings at average cost, from the executions; only symbols still held are listed */
+export function paperHoldings(account: PaperAccount): PaperHolding[] {
+    const bySymbol = new Map<string, PaperHolding & { cost: Decimal; sellValue: Decimal }>();
+    for (const execution of account.executions) {
+        const holding = bySymbol.get(execution.symbol) ?? {
+            symbol: execution.symbol, quantity: "0", boughtQuantity: "0", averageCost: "0", soldQuantity: "0",
+            averageSellPrice: null, realizedPnl: "0", pendingSellQuantity: "0", cost: "0", sellValue: "0",
+        };
+        if (execution.side === "buy") {
+            holding.quantity = addDecimals(holding.quantity, execution.quantity);
+            holding.boughtQuantity = addDecimals(holding.boughtQuantity, execution.quantity);
+            holding.cost = addDecimals(holding.cost, execution.value);
+        } else {
+            const averageCost = compareDecimal(holding.quantity, "0") > 0 ? divideDecimal(holding.cost, holding.quantity) : "0";
+            const soldCost = multiplyDecimal(averageCost, execution.quantity);
+            holding.realizedPnl = roundDecimal(addDecimals(holding.realizedPnl, subtractDecimal(execution.value, soldCost)), 2);
+            holding.cost = subtractDecimal(holding.cost, soldCost);
+            holding.quantity = subtractDecimal(holding.quantity, execution.quantity);
+            holding.soldQuantity = addDecimals(holding.soldQuantity, execution.quantity);
+            holding.sellValue = addDecimals(holding.sellValue, execution.value);
+        }
+        bySymbol.set(execution.symbol, holding);
+    }
+
+    return Array.from(bySymbol.values())
+        .filter(holding => compareDecimal(holding.quantity, "0") > 0)
+        .map(({ cost, sellValue, ...holding }) => ({
+            ...holding,
+            averageCost: roundDecimal(divideDecimal(cost, holding.quantity), 4),
+            averageSellPrice: compareDecimal(holding.soldQuantity, "0") > 0 ? roundDecimal(divideDecimal(sellValue, holding.soldQuantity), 4) : null,
+            pendingSellQuantity: pendingSells(account, holding.symbol),
+        }));
+}
+
+function heldQuantity(account: PaperAccount, symbol: string): Decimal {
+    return sumDecimals(account.executions
+        .filter(execution => execution.symbol === symbol)
+        .map(execution => execution.side === "buy" ? execution.quantity : subtractDecimal("0", execution.quantity))) ?? "0";
+}
+
+function pendingSells(account: PaperAccount, symbol: string, except?: PaperOrder): Decimal {
+    return sumDecimals(account.orders
+        .filter(order => order !== except && order.side === "sell" && order.symbol === symbol && isWorkingOrder(order))
+        .map(remaining)) ?? "0";
+}
+
+/** Cash set aside for working buy orders, commission included */
+function reservedCash(account: PaperAccount, except?: PaperOrder): Decimal {
+    return sumDecimals(account.orders
+        .filter(order => order !== except && order.side === "buy" && order.price !== null && isWorkingOrder(order))
+        .map(order => {
+            const value = multiplyDecimal(remaining(order), order.price!);
+            return addDecimals(value, commissionOn(value));
+        })) ?? "0";
+}
+
+/** Cash not set aside for working buy orders */
+export function availableCash(account: PaperAccount, except?: PaperOrder): Decimal {
+    return roundDecimal(subtractDecimal(account.cash, reservedCash(account, except)), 2);
+}
+
+// ============================
+// Matching
+// ============================
+
+/** First instant along `path` at which a limit order can trade, or null */
+function firstTouch(path: PricePoint[], side: OrderSide, limit: number): number | null {
+    const reaches = (price: number) => side === "buy" ? price <= limit : price >= limit;
+    if (reaches(path[0].price)) return path[0].at;
+    for (let i = 1; i < path.length; i++) {
+        const [a, b] = [path[i - 1], path[i]];
+        if (reaches(b.price)) return a.at + (b.at - a.at) * (a.price - limit) / (a.price - b.price);
+    }
+    return null;
+}
+
+/** Matches working orders up to `now` and expires day orders past their close */
+export function settlePaperAccount(account: PaperAccount, now: number = Date.now()): void {
+    const touches: { order: PaperOrder; at: number }[] = [];
+    for (const order of account.orders) {
+        if (!isWorkingOrder(order) || order.price === null) continue;
+        const until = Math.min(now, order.expiresAt ?? now);
+        if (until > order.matchedUntil) {
+            const at = firstTouch(pricePath(order.symbol, order.matchedUntil, until), order.side, Number(order.price));
+            order.matchedUntil = until;
+            if (at !== null) {
+                touches.push({ order, at: Math.round(at) });
+                continue;
+            }
+        }
+        if (order.expiresAt !== null && now >= order.expiresAt) {
+            Object.assign(order, { status: "cancelled", updatedAt: iso(order.expiresAt), message: "Expired at the close" });
+        }
+    }
+    // In time order, so the ledger balances run forwards
+    touches
+        .sort((a, b) => a.at - b.at)
+        .forEach(({ order, at }) => execute(account, order, order.price!, at, "Filled at the limit price"));
+}
+
+/** Fills the order now if the current price allows it; IOC orders that cannot fill are cancelled */
+function tradeOnArrival(account: PaperAccount, order: PaperOrder, now: number): void {
+    const last = priceAt(order.symbol, now);
+    const limit = order.price === null ? null : Number(order.price);
+    if (limit === null || (order.side === "buy" ? last <= limit : last >= limit)) {
+        execute(account, order, last.toFixed(2), now, order.type === "market" ? "Filled at market" : "Filled at the market price");
+    } else if (order.validity === "ioc") {
+        Object.assign(order, { status: "cancelled", updatedAt: iso(now), message: `Not marketable at ${last.toFixed(2)}; cancelled` });
+    }
+}
+
+/** Rejects orders the account cannot cover: buys beyond the available cash, sells beyond the free shares */
+function checkCover(account: PaperAccount, order: PaperOrder, now: number, replacing?: PaperOrder): void {
+    if (!/^\d+$/.test(order.quantity)) {
+        throw new BrokerOrderError("Paper orders are for whole shares", "rejected");
+    }
+    if (order.side === "sell") {
+        const free = subtractDecimal(heldQuantity(account, order.symbol), pendingSells(account, order.symbol, replacing));
+        if (compareDecimal(remaining(order), free) > 0) {
+            throw new BrokerOrderError(`Only ${free} ${order.symbol} can be sold`, "rejected");
+        }
+        return;
+    }
+    const value = multiplyDecimal(remaining(order), order.price ?? priceAt(order.symbol, now).toFixed(2));
+    const required = roundDecimal(addDecimals(value, commissionOn(value)), 2);
+    const available = availableCash(account, replacing);
+    if (compareDecimal(required, available) > 0) {
+        throw new BrokerOrderError(`Needs ${required} ${PAPER_CURRENCY} with commission but only ${available} is available`, "rejected");
+    }
+}
+
+// ============================
+// Generated History
+// ============================
+
+/** Small seeded generator (mulberry32), seeded from the login */
+function seededRandom(seed: string): () => number {
+    let state = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+        state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+    }
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** Deposits the starting cash and trades on roughly every third completed session since */
+function generateHistory(account: PaperAccount, startingCash: Decimal, now: number): void {
+    const random = seededRandom(account.login);
+    const symbols = paperSymbols();
+    const days = tradingDays(pktDateString(now - HISTORY_DAYS * DAY_MS), pktDateString(now))
+        .filter(day => sessionBounds(day).close <= now);
+
+    const depositAt = days.length > 0 ? sessionBounds(days[0]).open - 60 * 60 * 1000 : now;
+    post(account, "R", depositAt, "Opening deposit", null, startingCash);
+
+    for (const day of days) {
+        if (random() > 0.35) continue;
+        const symbol = symbols[Math.floor(random() * symbols.length)];
+        const { open, close } = sessionBounds(day);
+        const at = Math.round(open + random() * (close - open));
+        const price = priceAt(symbol, at).toFixed(2);
+        const held = Number(heldQuantity(account, symbol));
+
+        let side: OrderSide = "buy";
+        let quantity: number;
+        if (held > 0 && random() < 0.45) {
+            side = "sell";
+            quantity = Math.min(held, Math.max(HISTORY_LOT, Math.floor(held * (0.3 + random() * 0.7) / HISTORY_LOT) * HISTORY_LOT));
+        } else {
+            const budget = Number(account.cash) * (0.05 + random() * 0.1);
+            quantity = Math.floor(budget / Number(price) / HISTORY_LOT) * HISTORY_LOT;
+            if (quantity === 0) continue;
+        }
+
+        const type = random() < 0.5 ? "market" : "limit";
+        const order = newOrder(account, { accountId: account.accountId, symbol, side, type, quantity: String(quantity), price, validity: "day" }, "history", at);
+        account.orders.push(order);
+        execute(account, order, price, at, type === "market" ? "Filled at market" : "Filled at the limit price");
+    }
+}
+
+// ============================
+// Accounts and Orders
+// ============================
+
+/** The connection's paper account for a login, opened (with its generated history) on first use */
+export function getPaperAccount(owner: string, login: string, startingCash: Decimal = STARTING_CASH, now: number = Date.now()): PaperAccount {
+    const key = `${owner}:${login.toLowerCase()}:${startingCash}`;
+    let account = accounts.get(key);
+    if (!account) {
+        account = {
+            accountId: `PAPER-${login.toUpperCase()}`,
+            title: `${login} (paper)`,
+            owner,
+            login,
+            cash: "0",
+            orders: [],
+            executions: [],
+            ledger: [],
+            sequence: 0,
+        };
+        generateHistory(account, startingCash, now);
+        accounts.set(key, account);
+        log.info("Opened paper account", { owner, accountId: account.accountId, startingCash, trades: account.executions.length });
+    }
+    settlePaperAccount(account, now);
+    return account;
+}
+
+/** Drops an order's matching state, leaving what the order client reports */
+export function toPlacedOrder({ origin: _origin, matchedUntil: _matchedUntil, expiresAt: _expiresAt, ...order }: PaperOrder): PlacedOrder {
+    return order;
+}
+
+export function findPaperOrder(account: PaperAccount, orderId: string): PaperOrder {
+    const order = account.orders.find(candidate => candidate.orderId === orderId && candidate.origin === "app");
+    if (!order) {
+        throw new BrokerOrderError(`Order ${orderId} not found`, "not_found");
+    }
+    return order;
+}
+
+export function placePaperOrder(account: PaperAccount, ticket: OrderTicket, now: number = Date.now()): PaperOrder {
+    if (ticket.accountId !== account.accountId) {
+        throw new BrokerOrderError(`Account ${ticket.accountId} not found for this login`, "not_found");
+    }
+    if (!hasPaperSymbol(ticket.symbol)) {
+        throw new BrokerOrderError(`${ticket.symbol} is not traded on the paper market (${paperSymbols().join(", ")})`, "rejected");
+    }
+    const order = newOrder(account, ticket, "app", now);
+    checkCover(account, order, now);
+    account.orders.push(order);
+    tradeOnArrival(account, order, now);
+    return order;
+}
+
+export function modifyPaperOrder(account: PaperAccount, orderId: string, changes: OrderModification, now: number = Date.now()): PaperOrder {
+    const order = findPaperOrder(account, orderId);
+    if (!isWorkingOrder(order)) {
+        throw new BrokerOrderError(`Order ${orderId} is ${order.status.replace(/_/g, " ")}`, "rejected");
+    }
+    const changed: PaperOrder = {
+        ...order,
+        quantity: changes.quantity ?? order.quantity,
+        price: changes.price ?? order.price,
+        updatedAt: iso(now),
+        message: null,
+    };
+    checkCover(account, changed, now, order);
+    Object.assign(order, changed);
+    tradeOnArrival(account, order, now);
+    return order;
+}
+
+export function cancelPaperOrder(account: PaperAccount, orderId: string, now: number = Date.now()): PaperOrder {
+    const order = findPaperOrder(account, orderId);
+    if (!isWorkingOrder(order)) {
+        throw new BrokerOrderError(`Order ${orderId} is ${order.status.replace(/_/g, " ")}`, "rejected");
+    }
+    Object.assign(order, { status: "cancelled", updatedAt: iso(now), message: "Cancelled by the trader" });
+    return order;
+}
@@ -0,0 +1,284 @@
+// paperMarket.ts
+//
+// Prices for the paper-trading broker (paperAdapter.ts), replayed from a local
+// file of daily bars so every run sees the same market. PAPER_PRICES_FILE
+// points at a CSV with `date,symbol,open,high,low,close,volume` rows (default
+// fixtures/paper/prices.csv). The file's first session plays on
+// PAPER_REPLAY_START (default: the file's own first date) and every following
+// weekday plays the next one. Past the end of the file the sessions play
+// backwards, with each bar's open and close swapped, then forwards again, so
+// any date has a price and there is no jump where the file wraps around.
+//
+// Within a session (09:30-15:30 Pakistan time, like PSX) the price moves in
+// straight lines through the bar: open, low, high, close on an up day and
+// open, high, low, close on a down day. Outside the session it stays at the
+// last close and jumps to the next open when the session starts.
+import fs from "fs";
+import path from "path";
+import { createLogger } from "../logger";
+
+const log = createLogger("paper-market");
+
+const PRICES_FILE = process.env.PAPER_PRICES_FILE || path.resolve(import.meta.dirname, "fixtures", "paper", "prices.csv");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PKT_OFFSET_MS = 5 * 60 * 60 * 1000; // Pakistan Standard Time has no daylight saving
+const SESSION_OPEN_MINUTES = 9 * 60 + 30;
+const SESSION_CLOSE_MINUTES = 15 * 60 + 30;
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export interface PaperBar {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+export interface PricePoint {
+    at: number; // Epoch milliseconds
+    price: number;
+}
+
+export interface PaperQuote {
+    symbol: string;
+    last: number;
+    previousClose: number;
+    /** Shares traded so far in the current (or last) session */
+    volume: number;
+}
+
+interface PriceFile {
+    symbols: string[];
+    sessionCount: number;
+    bars: Map<string, PaperBar[]>; // One bar per session of the file, per symbol
+    replayStart: number; // Weekday number the file's first session plays on
+}
+
+let priceFile: PriceFile | null = null;
+
+// ============================
+// Calendar
+// ============================
+
+/** Days since the epoch of a "yyyy-MM-dd" date */
+const dayNumber = (day: string) => Math.floor(Date.parse(`${day}T00:00:00Z`) / DAY_MS);
+
+const dayString = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+// Day 4 of the epoch (1970-01-05) was a Monday
+const weekdayIndex = (day: number) => (((day - 4) % 7) + 7) % 7;
+
+const isWeekend = (day: number) => weekdayIndex(day) >= 5;
+
+/** Weekdays counted from the epoch's first Monday; a weekend shares the following Monday's number */
+function weekdayNumber(day: number): number {
+    const weeks = Math.floor((day - 4) / 7);
+    return weeks * 5 + Math.min(weekdayIndex(day), 5);
+}
+
+/** The day, in Pakistan time, an instant falls on */
+const pktDay = (at: number) => Math.floor((at + PKT_OFFSET_MS) / DAY_MS);
+
+const sessionTime = (day: number, minutes: number) => day * DAY_MS + minutes * 60 * 1000 - PKT_OFFSET_MS;
+
+function previousTradingDay(day: number): number {
+    do day--; while (isWeekend(day));
+    return day;
+}
+
+/** "MMM dd, yyyy" in Pakistan time, with " HH:mm:ss" when `withTime` is set, as AKD writes dates */
+export function formatPktDate(at: number, withTime: boolean = false): string {
+    const local = new Date(at + PKT_OFFSET_MS);
+    const pad = (value: number) => String(value).padStart(2, "0");
+    const date = `${MONTHS[local.getUTCMonth()]} ${pad(local.getUTCDate())}, ${local.getUTCFullYear()}`;
+    return withTime ? `${date} ${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}:${pad(local.getUTCSeconds())}` : date;
+}
+
+/** "yyyy-MM-dd" of an instant in Pakistan time */
+export const pktDateString = (at: number) => dayString(pktDay(at));
+
+/** Trading days (weekdays) from `from` to `to`, both "yyyy-MM-dd" and inclusive */
+export function tradingDays(from: string, to: string): string[] {
+    const days: string[] = [];
+    for (let day = dayNumber(from); day <= dayNumber(to); day++) {
+        if (!isWeekend(day)) days.push(dayString(day));
+    }
+    return days;
+}
+
+/** Opening and closing instants of a trading day's session */
+export function sessionBounds(day: string): { open: number; close: number } {
+    const dayNo = dayNumber(day);
+    return { open: sessionTime(dayNo, SESSION_OPEN_MINUTES), close: sessionTime(dayNo, SESSION_CLOSE_MINUTES) };
+}
+
+/** Close of the session running at `at`, or of the next one when the market is shut */
+export function sessionCloseAfter(at: number): number {
+    let day = pktDay(at);
+    if (at >= sessionTime(day, SESSION_CLOSE_MINUTES)) day++;
+    while (isWeekend(day)) day++;
+    return sessionTime(day, SESSION_CLOSE_MINUTES);
+}
+
+// ============================
+// Price File
+// ============================
+
+const REQUIRED_COLUMNS = ["date", "symbol", "open", "high", "low", "close"] as const;
+
+function loadPriceFile(): PriceFile {
+    if (priceFile) return priceFile;
+
+    const lines = fs.readFileSync(PRICES_FILE, "utf8").split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const header = (lines.shift() ?? "").toLowerCase().split(",").map(cell => cell.trim());
+    const column = Object.fromEntries([...REQUIRED_COLUMNS, "volume"].map(name => [name, header.indexOf(name)]));
+    const missing = REQUIRED_COLUMNS.filter(name => column[name] === -1);
+    if (missing.length > 0) {
+        throw new Error(`${PRICES_FILE}: missing column${missing.length > 1 ? "s" : ""} ${missing.join(", ")}`);
+    }
+
+    const byDate = new Map<string, Map<string, PaperBar>>();
+    lines.forEach((line, i) => {
+        const cells = line.split(",").map(cell => cell.trim());
+        const date = cells[column.date];
+        const symbol = cells[column.symbol]?.toUpperCase();
+        const [open, high, low, close] = (["open", "high", "low", "close"] as const).map(name => Number(cells[column[name]]));
+        const valid = /^\d{4}-\d{2}-\d{2}$/.test(date ?? "") && !!symbol &&
+            [open, high, low, close].every(value => Number.isFinite(value) && value > 0) &&
+            low <= Math.min(open, close) && high >= Math.max(open, close);
+        if (!valid) {
+            throw new Error(`${PRICES_FILE} line ${i + 2}: expected date,symbol,open,high,low,close with low <= open/close <= high`);
+        }
+        const volume = column.volume === -1 ? 0 : Math.max(0, Math.round(Number(cells[column.volume]) || 0));
+        if (!byDate.has(date)) byDate.set(date, new Map());
+        byDate.get(date)!.set(symbol, { open, high, low, close, volume });
+    });
+
+    const sessions = Array.from(byDate.keys()).sort();
+    if (sessions.length === 0) {
+        throw new Error(`${PRICES_FILE}: no price rows`);
+    }
+    const symbols = Array.from(new Set(Array.from(byDate.values()).flatMap(day => Array.from(day.keys())))).sort();
+
+    // A symbol missing from a session did not trade: it keeps its last close
+    const bars = new Map<string, PaperBar[]>();
+    for (const symbol of symbols) {
+        const first = sessions.map(date => byDate.get(date)!.get(symbol)).find(Boolean)!;
+        let last: PaperBar = { open: first.open, high: first.open, low: first.open, close: first.open, volume: 0 };
+        bars.set(symbol, sessions.map(date => {
+            const bar = byDate.get(date)!.get(symbol);
+            last = bar ?? { open: last.close, high: last.close, low: last.close, close: last.close, volume: 0 };
+            return last;
+        }));
+    }
+
+    const replayStart = process.env.PAPER_REPLAY_START || sessions[0];
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(replayStart)) {
+        throw new Error(`PAPER_REPLAY_START must be a yyyy-MM-dd date, got "${replayStart}"`);
+    }
+    log.info("Loaded paper price file", { file: PRICES_FILE, symbols: symbols.length, sessions: sessions.length, replayStart });
+    priceFile = { symbols, sessionCount: sessions.length, bars, replayStart: weekdayNumber(dayNumber(replayStart)) };
+    return priceFile;
+}
+
+/** Reads the price file, throwing when it is missing or malformed */
+export function checkPriceFile(): void {
+    loadPriceFile();
+}
+
+export function paperSymbols(): string[] {
+    return loadPriceFile().symbols;
+}
+
+export function hasPaperSymbol(symbol: string): boolean {
+    return loadPriceFile().bars.has(symbol);
+}
+
+/** The bar a trading day plays, following the file forwards and backwards in turn */
+function barOn(symbol: string, day: number): PaperBar {
+    const file = loadPriceFile();
+    const bars = file.bars.get(symbol);
+    if (!bars) {
+        throw new Error(`Unknown paper symbol ${symbol}`);
+    }
+    const played = weekdayNumber(day) - file.replayStart;
+    const lap = Math.floor(played / file.sessionCount);
+    const position = played - lap * file.sessionCount;
+    if (lap % 2 === 0) {
+        return bars[position];
+    }
+    const bar = bars[file.sessionCount - 1 - position];
+    return { ...bar, open: bar.close, close: bar.open };
+}
+
+/** A trading day's bar, for "yyyy-MM-dd" */
+export const dailyBar = (symbol: string, day: string) => barOn(symbol, dayNumber(day));
+
+function sessionPath(bar: PaperBar, day: number): PricePoint[] {
+    const open = sessionTime(day, SESSION_OPEN_MINUTES);
+    const close = sessionTime(day, SESSION_CLOSE_MINUTES);
+    const third = (close - open) / 3;
+    const [first, second] = bar.close >= bar.open ? [bar.low, bar.high] : [bar.high, bar.low];
+    return [
+        { at: open, price: bar.open },
+        { at: open + third, price: first },
+        { at: open + 2 * third, price: second },
+        { at: close, price: bar.close },
+    ];
+}
+
+// ============================
+// Prices
+// ============================
+
+export function priceAt(symbol: string, at: number): number {
+    const day = pktDay(at);
+    if (!isWeekend(day)) {
+        const path = sessionPath(barOn(symbol, day), day);
+        if (at >= path[path.length - 1].at) return path[path.length - 1].price;
+        if (at >= path[0].at) {
+            const end = path.findIndex(point => point.at > at);
+            const [a, b] = [path[end - 1], path[end]];
+            return a.price + (b.price - a.price) * (at - a.at) / (b.at - a.at);
+        }
+    }
+    return barOn(symbol, previousTradingDay(day)).close;
+}
+
+/**
+ * The price's course from `from` to `to`: both ends and every turn in between,
+ * with the opening gap of each session as two points at the same instant.
+ * Straight lines between consecutive points give the price at any time.
+ */
+export function pricePath(symbol: string, from: number, to: number): PricePoint[] {
+    const points: PricePoint[] = [{ at: from, price: priceAt(symbol, from) }];
+    for (let day = pktDay(from); day <= pktDay(to); day++) {
+        if (isWeekend(day)) continue;
+        const path = sessionPath(barOn(symbol, day), day);
+        if (path[0].at > from && path[0].at < to) {
+            points.push({ at: path[0].at, price: points[points.length - 1].price });
+        }
+        points.push(...path.filter(point => point.at > from && point.at < to));
+    }
+    points.push({ at: to, price: priceAt(symbol, to) });
+    return points;
+}
+
+/** Last price, previous close and volume so far of the current or last session */
+export function quote(symbol: string, at: number): PaperQuote {
+    let day = pktDay(at);
+    if (isWeekend(day) || at < sessionTime(day, SESSION_OPEN_MINUTES)) {
+        day = previousTradingDay(day);
+    }
+    const open = sessionTime(day, SESSION_OPEN_MINUTES);
+    const close = sessionTime(day, SESSION_CLOSE_MINUTES);
+    const elapsed = Math.min(1, (at - open) / (close - open));
+    return {
+        symbol,
+        last: priceAt(symbol, at),
+        previousClose: barOn(symbol, previousTradingDay(day)).close,
+        volume: Math.round(barOn(symbol, day).volume * elapsed),
+    };
+}
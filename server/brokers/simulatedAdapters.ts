@@ -0,0 +1,145 @@
+// simulatedAdapters.ts
+// Adapters for brokers/exchanges whose APIs are not integrated yet. They only
+// validate credentials locally and do not expose any account data.
+import { NO_CAPABILITIES, type BrokerAdapter } from "./brokerAdapter";
+
+export const mkkAdapter: BrokerAdapter = {
+  name: 'MKK',
+  capabilities: NO_CAPABILITIES,
+  credentialSchema: {
+    api: [],
+    credentials: [
+      {
+        name: 'accountId', label: 'Account ID', type: 'text', secret: false, required: true,
+        pattern: '^MKK', patternMessage: 'MKK account IDs start with "MKK"',
+      },
+      { name: 'password', label: 'Password', type: 'password', secret: true, required: true },
+    ],
+  },
+
+  async testConnection(credentials) {
+    // Validate required credentials for MKK
+    if (!credentials.accountId || !credentials.password) {
+      throw new Error('Missing required credentials for MKK: accountId and password are required');
+    }
+
+    // Simulate MKK authentication - in production this would call their actual API
+    if (credentials.accountId.startsWith('MKK') && credentials.password.length >= 6) {
+      // Simulate successful connection
+      return true;
+    }
+
+    throw new Error('Invalid credentials for MKK. Please check your account ID and password.');
+  },
+};
+
+export const zerodhaAdapter: BrokerAdapter = {
+  name: 'Zerodha',
+  capabilities: NO_CAPABILITIES,
+  credentialSchema: {
+    api: [
+      { name: 'apiKey', label: 'API Key', type: 'text', secret: true, required: true },
+      { name: 'apiSecret', label: 'API Secret', type: 'password', secret: true, required: true },
+    ],
+    credentials: [
+      { name: 'userId', label: 'User ID', type: 'text', secret: false, required: true },
+      { name: 'password', label: 'Password', type: 'password', secret: true, required: true },
+      {
+        name: 'pin', label: 'PIN', type: 'password', secret: true, required: true,
+        pattern: '^\\d{4,6}$', patternMessage: 'PIN must be 4 to 6 digits',
+      },
+    ],
+  },
+
+  async testConnection(credentials, authMethod) {
+    // Validate required credentials for Zerodha
+    if (authMethod === 'api') {
+      if (!credentials.apiKey || !credentials.apiSecret) {
+        throw new Error('Missing required API credentials for Zerodha: apiKey and apiSecret are required');
+      }
+
+      // Simulate API key validation
+      if (credentials.apiKey.length >= 8 && credentials.apiSecret.length >= 8) {
+        return true;
+      }
+    } else {
+      if (!credentials.userId || !credentials.password || !credentials.pin) {
+        throw new Error('Missing required credentials for Zerodha: userId, password, and pin are required');
+      }
+
+      // Simulate credential validation
+      if (credentials.userId.length >= 6 && credentials.password.length >= 6) {
+        return true;
+      }
+    }
+
+    throw new Error('Invalid credentials for Zerodha. Authentication failed.');
+  },
+};
+
+export const binanceAdapter: BrokerAdapter = {
+  name: 'Binance',
+  capabilities: NO_CAPABILITIES,
+  credentialSchema: {
+    api: [
+      { name: 'apiKey', label: 'API Key', type: 'text', secret: true, required: true },
+      { name: 'apiSecret', label: 'API Secret', type: 'password', secret: true, required: true },
+    ],
+    credentials: [],
+  },
+
+  async testConnection(credentials) {
+    // Validate required API credentials for Binance
+    if (!credentials.apiKey || !credentials.apiSecret) {
+      throw new Error('Missing required API credentials for Binance: apiKey and apiSecret are required');
+    }
+
+    // Simulate API key validation with Binance
+    // In production, this would make an authenticated request to Binance API
+    if (credentials.apiKey.length >= 8 && credentials.apiSecret.length >= 8) {
+      try {
+        // Simulate API call with an artificial delay
+        await new Promise(resolve => setTimeout(resolve, 500));
+
+        // For demo, consider specific credentials valid and others invalid
+        if (credentials.apiKey.startsWith('DEMO')) {
+          return true;
+        }
+
+        throw new Error('Invalid API key format');
+      } catch (error: any) {
+        throw new Error(`Binance API connection failed: ${error.message}`);
+      }
+    }
+
+    throw new Error('Invalid API credentials for Binance. Keys too short or malformed.');
+  },
+};
+
+// Generic test for other connections not specifically implemented
+export const genericAdapter: BrokerAdapter = {
+  name: 'Generic',
+  capabilities: NO_CAPABILITIES,
+  credentialSchema: {
+    api: [
+      { name: 'apiKey', label: 'API Key', type: 'text', secret: true, required: true },
+      { name: 'apiSecret', label: 'API Secret', type: 'password', secret: true, required: true },
+    ],
+    credentials: [
+      { name: 'username', label: 'Username', type: 'text', secret: false, required: true },
+      { name: 'password', label: 'Password', type: 'password', secret: true, required: true },
+      { name: 'accountNumber', label: 'Account Number', type: 'text', secret: false, required: false },
+      { name: 'pin', label: 'PIN', type: 'password', secret: true, required: false },
+    ],
+  },
+
+  async testConnection(credentials) {
+    // For demo purposes, just validate that credentials exist
+    if (Object.keys(credentials).length === 0) {
+      throw new Error('No credentials provided for connection test');
+    }
+
+    // Simulate successful generic connection if there are credentials
+    return true;
+  },
+};
@@ -0,0 +1,31 @@
+// connectionView.ts
+import { Connection, ConnectionView, CredentialFieldView, isSecretCredentialField } from "@shared/schema";
+import { decryptCredentials } from "./credentialVault";
+
+const MIN_LENGTH_FOR_HINT = 12; // Shorter secrets are fully masked
+
+/** Masks a secret, keeping the last 4 characters only when the secret is long enough */
+export function maskSecret(value: string): string {
+    return value.length >= MIN_LENGTH_FOR_HINT ? `****${value.slice(-4)}` : "****";
+}
+
+function toCredentialFieldView(name: string, rawValue: unknown): CredentialFieldView {
+    const value = rawValue === null || rawValue === undefined ? "" : String(rawValue);
+    const isSecret = isSecretCredentialField(name);
+    return {
+        value: isSecret ? null : value,
+        hint: isSecret && value ? maskSecret(value) : null,
+        isSecret,
+        hasValue: value.length > 0,
+    };
+}
+
+/** Converts a stored connection into the redacted shape returned by the API */
+export function toConnectionView(connection: Connection): ConnectionView {
+    const credentials = decryptCredentials(connection.credentials);
+    const credentialViews: Record<string, CredentialFieldView> = {};
+    for (const [name, value] of Object.entries(credentials)) {
+        credentialViews[name] = toCredentialFieldView(name, value);
+    }
+    return { ...connection, credentials: credentialViews };
+}
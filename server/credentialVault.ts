@@ -0,0 +1,147 @@
+// credentialVault.ts
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { createLogger } from "./logger";
+
+const log = createLogger("credentials");
+
+// ============================
+// Envelope encryption for broker credentials
+// ============================
+// Each record gets its own random data key (DEK). The credentials are encrypted
+// with the DEK, and the DEK is encrypted ("wrapped") with the master key from
+// the environment. Rotating the master key only needs the DEKs re-wrapped, but
+// the rotation command re-encrypts the whole record for simplicity.
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const ENVELOPE_VERSION = 1;
+const DEV_FALLBACK_SECRET = "trading-platform-credentials-key";
+
+interface SealedBox {
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+export interface EncryptedCredentials extends SealedBox {
+    v: typeof ENVELOPE_VERSION;
+    kid: string; // Id of the master key that wrapped the data key
+    dek: SealedBox; // Wrapped data key
+}
+
+interface MasterKeyring {
+    currentId: string;
+    keys: Map<string, Buffer>;
+}
+
+let keyring: MasterKeyring | null = null;
+
+/** Accepts a 32-byte key as 64 hex chars or base64 */
+function parseKey(raw: string, envName: string): Buffer {
+    const trimmed = raw.trim();
+    const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+        ? Buffer.from(trimmed, "hex")
+        : Buffer.from(trimmed, "base64");
+    if (key.length !== KEY_LENGTH) {
+        throw new Error(`${envName} must be a ${KEY_LENGTH}-byte key encoded as hex or base64`);
+    }
+    return key;
+}
+
+function keyId(key: Buffer): string {
+    return createHash("sha256").update(key).digest("hex").substring(0, 16);
+}
+
+/**
+ * Loads CREDENTIALS_MASTER_KEY (used for new records) and the optional
+ * comma-separated CREDENTIALS_PREVIOUS_KEYS (still accepted for decryption
+ * while a rotation is in progress).
+ */
+function getKeyring(): MasterKeyring {
+    if (keyring) return keyring;
+
+    let current: Buffer;
+    if (process.env.CREDENTIALS_MASTER_KEY) {
+        current = parseKey(process.env.CREDENTIALS_MASTER_KEY, "CREDENTIALS_MASTER_KEY");
+    } else if (process.env.NODE_ENV === "production") {
+        throw new Error("CREDENTIALS_MASTER_KEY must be set in production");
+    } else {
+        log.warn("CREDENTIALS_MASTER_KEY is not set. Using an insecure development key for stored credentials.");
+        current = createHash("sha256").update(DEV_FALLBACK_SECRET).digest();
+    }
+
+    const keys = new Map<string, Buffer>([[keyId(current), current]]);
+    (process.env.CREDENTIALS_PREVIOUS_KEYS || "")
+        .split(",")
+        .filter((raw) => raw.trim())
+        .forEach((raw) => {
+            const key = parseKey(raw, "CREDENTIALS_PREVIOUS_KEYS");
+            keys.set(keyId(key), key);
+        });
+
+    keyring = { currentId: keyId(current), keys };
+    return keyring;
+}
+
+function seal(key: Buffer, plaintext: Buffer): SealedBox {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return {
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        data: data.toString("base64"),
+    };
+}
+
+function open(key: Buffer, box: SealedBox): Buffer {
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(box.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(box.tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(box.data, "base64")), decipher.final()]);
+}
+
+/** True if the stored value is an encrypted envelope rather than legacy plaintext */
+export function isEncryptedCredentials(value: unknown): value is EncryptedCredentials {
+    const candidate = value as EncryptedCredentials | null;
+    return !!candidate && typeof candidate === "object" &&
+        candidate.v === ENVELOPE_VERSION &&
+        typeof candidate.kid === "string" &&
+        typeof candidate.data === "string" &&
+        !!candidate.dek && typeof candidate.dek === "object";
+}
+
+export function encryptCredentials(credentials: Record<string, string>): EncryptedCredentials {
+    const { currentId, keys } = getKeyring();
+    const dataKey = randomBytes(KEY_LENGTH);
+    const body = seal(dataKey, Buffer.from(JSON.stringify(credentials), "utf-8"));
+    return {
+        v: ENVELOPE_VERSION,
+        kid: currentId,
+        dek: seal(keys.get(currentId)!, dataKey),
+        ...body,
+    };
+}
+
+/**
+ * Returns the plaintext credentials for a stored value. Legacy rows that were
+ * saved before encryption was introduced are passed through unchanged.
+ */
+export function decryptCredentials(stored: unknown): Record<string, string> {
+    if (!isEncryptedCredentials(stored)) {
+        return (stored && typeof stored === "object" ? stored : {}) as Record<string, string>;
+    }
+
+    const masterKey = getKeyring().keys.get(stored.kid);
+    if (!masterKey) {
+        throw new Error(`No master key available for stored credentials (key id ${stored.kid})`);
+    }
+    const dataKey = open(masterKey, stored.dek);
+    return JSON.parse(open(dataKey, stored).toString("utf-8"));
+}
+
+/** Encrypts plaintext credentials before they are persisted; envelopes pass through */
+export function sealCredentials(credentials: unknown): EncryptedCredentials {
+    if (isEncryptedCredentials(credentials)) return credentials;
+    return encryptCredentials((credentials ?? {}) as Record<string, string>);
+}
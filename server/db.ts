@@ -0,0 +1,52 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+export type DatabasePool = pg.Pool;
+
+/**
+ * Neon's serverless driver only talks to Neon's WebSocket proxy, so it is used
+ * for Neon URLs (or DATABASE_DRIVER=neon); anything else, such as a local
+ * Postgres, goes through node-postgres (DATABASE_DRIVER=pg forces it).
+ */
+function usesNeon(connectionString: string): boolean {
+  const driver = process.env.DATABASE_DRIVER;
+  if (driver === "neon" || driver === "pg") return driver === "neon";
+  try {
+    return new URL(connectionString).hostname.endsWith(".neon.tech");
+  } catch {
+    return false;
+  }
+}
+
+/** Drizzle client over an existing node-postgres compatible pool (a local server, or pg-mem in tests) */
+export function createDatabaseFromPool(pool: DatabasePool) {
+  const db: Database = drizzleNodePg(pool, { schema });
+  return { pool, db };
+}
+
+/**
+ * Creates a connection pool and Drizzle client for the given Postgres URL.
+ * Kept as a factory (rather than a module-level singleton) so the in-memory
+ * storage can still be used when DATABASE_URL is not provisioned.
+ */
+export function createDatabase(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+  }
+
+  if (usesNeon(connectionString)) {
+    const pool = new NeonPool({ connectionString });
+    const db: Database = drizzleNeon({ client: pool, schema });
+    // The Neon pool follows the node-postgres API that connect-pg-simple expects
+    return { pool: pool as unknown as DatabasePool, db };
+  }
+  return createDatabaseFromPool(new pg.Pool({ connectionString }));
+}
@@ -0,0 +1,14 @@
+// CSV writing shared by the table exports and the tax report.
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  // Text a spreadsheet would run as a formula is prefixed with a quote
+  if (/^[=+\-@\t\r]/.test(text) && Number.isNaN(Number(text))) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Rows joined with CRLF line endings, as spreadsheets expect */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
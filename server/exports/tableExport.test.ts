@@ -0,0 +1,60 @@
+import zlib from "zlib";
+import { describe, expect, it } from "vitest";
+import type { TableExport } from "@shared/exports";
+import { sectionExportXlsx } from "./tableExport";
+
+/** The files of a zip archive, read from its local headers */
+function unzip(archive: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const size = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString("utf8", offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    files[name] = zlib.inflateRawSync(archive.subarray(start, start + size)).toString("utf8");
+    offset = start + size;
+  }
+  return files;
+}
+
+const table: TableExport = {
+  header: {
+    section: "Order History",
+    connection: "PSX / AKD (connection 1)",
+    account: "All accounts",
+    range: { from: "2026-10-01", to: "2026-10-16" },
+    generatedAt: "2026-10-16T10:00:00.000Z",
+    fetchedAt: "2026-10-16T09:59:00.000Z",
+    dataSource: "api",
+    currency: "PKR",
+  },
+  headers: ["Account", "Order ID", "Symbol", "Quantity", "Price", "Amount", "Date"],
+  data: [
+    ["1001", "20241015", "OGDC", "500", "182.50", "91,250.00", "2026-10-15"],
+    ["0042", "REF1002", "HBL", "200", null, "1234567890123456.5", "2026-10-16"],
+  ],
+};
+
+describe("sectionExportXlsx", () => {
+  const sheet = unzip(sectionExportXlsx(table))["xl/worksheets/sheet1.xml"];
+  const cell = (ref: string) => sheet.match(new RegExp(`<c r="${ref}"[^>]*>(.*?)</c>`))?.[0];
+
+  it("writes amounts and quantities as numbers", () => {
+    expect(cell("D11")).toBe('<c r="D11"><v>500</v></c>');
+    expect(cell("E11")).toBe('<c r="E11"><v>182.5</v></c>');
+    expect(cell("F11")).toBe('<c r="F11"><v>91250</v></c>');
+  });
+
+  it("keeps identifiers and dates as text, even when they look numeric", () => {
+    expect(cell("A11")).toContain("<t xml:space=\"preserve\">1001</t>");
+    expect(cell("B11")).toContain("<t xml:space=\"preserve\">20241015</t>");
+    expect(cell("A12")).toContain("<t xml:space=\"preserve\">0042</t>");
+    expect(cell("G11")).toContain("<t xml:space=\"preserve\">2026-10-15</t>");
+  });
+
+  it("keeps amounts a spreadsheet number cannot hold exactly as text", () => {
+    expect(cell("F12")).toContain("<t xml:space=\"preserve\">1234567890123456.5</t>");
+    expect(cell("E12")).toBeUndefined();
+  });
+});
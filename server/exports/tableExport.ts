@@ -0,0 +1,149 @@
+// Dashboard table downloads (GET /api/connections/:id/export/:section).
+//
+// Fetches the section the same way the dashboard does: log sections through
+// the adapter's logs, when it has them, and everything else through the
+// account details for the requested range and account. The rows keep the
+// broker's text values; only the requested columns are kept.
+import type { Connection } from "@shared/schema";
+import type { DateRange } from "@shared/dates";
+import type { FetchResult } from "@shared/accountData";
+import { parseDecimal } from "@shared/decimal";
+import {
+  EXPORT_SECTION_TITLES,
+  LOG_EXPORT_SECTIONS,
+  type ExportHeader,
+  type ExportSection,
+  type TableExport,
+} from "@shared/exports";
+import { storage } from "../storage";
+import { connectionCredentials, resolveBrokerAdapter, fetchAccountDetails } from "../brokers";
+import { toCsv } from "./csv";
+import { buildXlsx, type XlsxCell } from "./xlsx";
+
+export class ExportError extends Error {
+  constructor(message: string, public readonly reason: "unsupported" | "invalid" | "not_found" | "auth" | "broker") {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+export interface SectionExportOptions {
+  range?: DateRange;
+  accountId?: string;
+  columns: string[];
+}
+
+const isLogSection = (section: ExportSection): section is (typeof LOG_EXPORT_SECTIONS)[number] =>
+  (LOG_EXPORT_SECTIONS as readonly string[]).includes(section);
+
+async function connectionLabel(connection: Connection): Promise<string> {
+  const exchange = await storage.getExchange(connection.exchangeId);
+  const broker = connection.brokerId ? await storage.getBroker(connection.brokerId) : undefined;
+  const name = [exchange?.name ?? `Exchange ${connection.exchangeId}`, broker?.name].filter(Boolean).join(" / ");
+  return `${name} (connection ${connection.id})`;
+}
+
+export async function buildSectionExport(
+  connection: Connection,
+  section: ExportSection,
+  options: SectionExportOptions,
+): Promise<TableExport> {
+  const title = EXPORT_SECTION_TITLES[section];
+  const adapter = await resolveBrokerAdapter(connection.exchangeId, connection.brokerId);
+  const credentials = connectionCredentials(connection);
+
+  let result: FetchResult | undefined;
+  let meta: Pick<ExportHeader, "range" | "fetchedAt" | "dataSource" | "account">;
+  if (isLogSection(section) && adapter.capabilities.logs && adapter.getLogs) {
+    const logs = await adapter.getLogs(credentials);
+    result = logs[section];
+    meta = { range: null, fetchedAt: new Date().toISOString(), dataSource: logs.dataSource ?? "unknown", account: "All accounts" };
+  } else {
+    const details = await fetchAccountDetails(adapter, credentials, { range: options.range, accountId: options.accountId });
+    if (!details) {
+      throw new ExportError(`${adapter.name} account details not yet implemented`, "unsupported");
+    }
+    if (options.accountId && details.accounts && !details.accounts.includes(options.accountId)) {
+      throw new ExportError(`Account ${options.accountId} not found for this connection`, "not_found");
+    }
+    result = details[section];
+    meta = {
+      range: isLogSection(section) ? null : details.range ?? options.range ?? null,
+      fetchedAt: details.timestamp,
+      dataSource: details.dataSource,
+      account: details.selectedAccount ?? options.accountId ?? "All accounts",
+    };
+  }
+
+  if (meta.dataSource === "error_auth") {
+    throw new ExportError("Authentication failed with the broker.", "auth");
+  }
+  if (!result) {
+    throw new ExportError(`${adapter.name} does not report ${title}`, "unsupported");
+  }
+  if (result.error) {
+    throw new ExportError(`${title}: ${result.error}`, "broker");
+  }
+
+  const indices = result.headers
+    .map((header, index) => (options.columns.length === 0 || options.columns.includes(header) ? index : -1))
+    .filter(index => index !== -1);
+  if (indices.length === 0 && result.headers.length > 0) {
+    throw new ExportError(`None of the requested columns are in ${title}`, "invalid");
+  }
+
+  return {
+    header: {
+      section: title,
+      connection: await connectionLabel(connection),
+      account: meta.account,
+      range: meta.range,
+      generatedAt: new Date().toISOString(),
+      fetchedAt: meta.fetchedAt,
+      dataSource: meta.dataSource,
+      currency: result.currency ?? null,
+    },
+    headers: indices.map(index => result!.headers[index]),
+    data: result.data.map(row => indices.map(index => row[index] ?? null)),
+  };
+}
+
+function headerRows(header: ExportHeader): [string, string][] {
+  return [
+    ["Section", header.section],
+    ["Connection", header.connection],
+    ["Account", header.account],
+    ["Date range", header.range ? `${header.range.from} to ${header.range.to}` : "Not applicable"],
+    ["Generated at", header.generatedAt],
+    ["Data fetched at", header.fetchedAt],
+    ["Data source", header.dataSource],
+    ["Currency", header.currency ?? "Not reported"],
+  ];
+}
+
+// Columns holding amounts, prices or quantities. Their values become number
+// cells in spreadsheets; every other column, identifiers included, stays text.
+const NUMERIC_COLUMN = /qty|quantity|price|rate|amount|value|balance|debit|credit|commission|charges|tax|turnover|volume|p\/l|pnl|profit|loss|exposure|limit|equity|margin|cash|haircut|change/i;
+
+function xlsxValue(value: string | null, numeric: boolean): string | number | null {
+  const decimal = numeric && value !== null ? parseDecimal(value) : null;
+  // Past 15 significant digits a spreadsheet number loses precision, so the text is kept
+  if (decimal === null || decimal.replace(/[-.]/g, "").replace(/^0+/, "").length > 15) return value;
+  return Number(decimal);
+}
+
+/** The header block, a blank line, then the table */
+export function sectionExportCsv(table: TableExport): string {
+  return toCsv([...headerRows(table.header), [], table.headers, ...table.data]);
+}
+
+export function sectionExportXlsx(table: TableExport): Buffer {
+  const numeric = table.headers.map(header => NUMERIC_COLUMN.test(header));
+  const rows: XlsxCell[][] = [
+    ...headerRows(table.header).map(([label, value]) => [{ value: label, bold: true }, { value }]),
+    [],
+    table.headers.map(value => ({ value, bold: true })),
+    ...table.data.map(row => row.map((value, index) => ({ value: xlsxValue(value, numeric[index]) }))),
+  ];
+  return buildXlsx(table.header.section, rows);
+}
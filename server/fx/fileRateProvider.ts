@@ -0,0 +1,119 @@
+// fileRateProvider.ts
+//
+// Rates from a local file. CSV files need a header naming the columns date,
+// base, quote and rate (in any order; lines starting with # are comments).
+// JSON files hold an array of { date, base, quote, rate } objects, or an
+// object with such an array under "rates". A row means one `base` is worth
+// `rate` units of `quote` on `date`.
+//
+// When a download URL is configured, refresh() fetches it (CSV or JSON, same
+// layout) and replaces the file once the download parses. A download that takes
+// longer than FX_DOWNLOAD_TIMEOUT_MS (default 30 s) is abandoned.
+import fs from "fs/promises";
+import path from "path";
+import type { FxRate } from "@shared/fx";
+import { normalizeCurrency } from "@shared/fx";
+import { compareDecimal, parseDecimal } from "@shared/decimal";
+import { toIsoDate } from "@shared/dates";
+import type { FxRateProvider } from "./fxProvider";
+import { createLogger } from "../logger";
+
+const log = createLogger("fx");
+
+const RATE_COLUMNS = ["date", "base", "quote", "rate"] as const;
+
+const DOWNLOAD_TIMEOUT_MS = Math.max(1000, parseInt(process.env.FX_DOWNLOAD_TIMEOUT_MS || "30000", 10) || 30000);
+
+export interface ParsedRates {
+  rates: FxRate[];
+  skipped: number; // Rows with a missing or invalid value
+}
+
+function toRate(row: Record<string, unknown>): FxRate | null {
+  const date = toIsoDate(row.date)?.slice(0, 10);
+  const base = normalizeCurrency(row.base);
+  const quote = normalizeCurrency(row.quote);
+  const rate = parseDecimal(row.rate);
+  if (!date || !base || !quote || base === quote || rate === null || compareDecimal(rate, "0") <= 0) {
+    return null;
+  }
+  return { date, base, quote, rate };
+}
+
+function collect(rows: Record<string, unknown>[]): ParsedRates {
+  const rates = rows.map(toRate).filter((rate): rate is FxRate => rate !== null);
+  return { rates, skipped: rows.length - rates.length };
+}
+
+export function parseRatesCsv(text: string): ParsedRates {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith("#"));
+  if (lines.length === 0) return { rates: [], skipped: 0 };
+
+  const header = lines[0].split(",").map(cell => cell.trim().toLowerCase());
+  const missing = RATE_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Rates CSV header is missing: ${missing.join(", ")}`);
+  }
+  return collect(lines.slice(1).map(line => {
+    const cells = line.split(",");
+    return Object.fromEntries(header.map((column, index) => [column, cells[index]?.trim()]));
+  }));
+}
+
+export function parseRatesJson(text: string): ParsedRates {
+  const parsed = JSON.parse(text);
+  const rows = Array.isArray(parsed) ? parsed : parsed?.rates;
+  if (!Array.isArray(rows)) {
+    throw new Error('Rates JSON must be an array of rates or an object with a "rates" array');
+  }
+  return collect(rows.filter(row => row && typeof row === "object"));
+}
+
+function parseRates(text: string, json: boolean): ParsedRates {
+  return json ? parseRatesJson(text) : parseRatesCsv(text);
+}
+
+export interface FileRateProviderOptions {
+  file: string;
+  downloadUrl?: string;
+}
+
+export function createFileRateProvider({ file, downloadUrl }: FileRateProviderOptions): FxRateProvider {
+  const isJson = (name: string) => path.extname(name).toLowerCase() === ".json";
+
+  return {
+    name: `file:${path.basename(file)}`,
+
+    async loadRates() {
+      const { rates, skipped } = parseRates(await fs.readFile(file, "utf8"), isJson(file));
+      if (skipped > 0) {
+        log.warn("Skipped invalid rows in the FX rates file", { file, skipped });
+      }
+      return rates;
+    },
+
+    async refresh() {
+      if (!downloadUrl) return;
+      const response = await fetch(downloadUrl, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`FX rates download failed with HTTP ${response.status}`);
+      }
+      const text = await response.text();
+      const json = (response.headers.get("content-type") ?? "").includes("json") || isJson(new URL(downloadUrl).pathname);
+      const { rates } = parseRates(text, json);
+      if (rates.length === 0) {
+        throw new Error("FX rates download contained no valid rates");
+      }
+      // The file keeps its own format, so a CSV download for a JSON file is rewritten
+      const content = isJson(file) === json
+        ? text
+        : isJson(file)
+          ? JSON.stringify(rates, null, 2)
+          : [RATE_COLUMNS.join(","), ...rates.map(rate => RATE_COLUMNS.map(column => rate[column]).join(","))].join("\n");
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(`${file}.tmp`, content);
+      await fs.rename(`${file}.tmp`, file);
+      log.info("Downloaded FX rates", { file, rates: rates.length });
+    },
+  };
+}
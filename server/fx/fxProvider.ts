@@ -0,0 +1,101 @@
+// fxProvider.ts
+//
+// Providers only supply quoted rates; FxRateTable answers conversions from
+// them. A pair that is not quoted directly is served from its inverse or
+// crossed through a third currency (USD first), so a rates file only needs
+// one quote per currency.
+import type { FxConversion, FxRate } from "@shared/fx";
+import { divideDecimal, multiplyDecimal, roundDecimal } from "@shared/decimal";
+
+export interface FxRateProvider {
+  /** Shown next to converted figures and in logs */
+  name: string;
+  /** Every quoted rate; order does not matter */
+  loadRates(): Promise<FxRate[]>;
+  /** Updates the provider's source (e.g. downloads a fresh rates file) before the next load */
+  refresh?(): Promise<void>;
+}
+
+const RATE_PLACES = 10;
+const PREFERRED_PIVOT = "USD";
+
+const pairKey = (base: string, quote: string) => `${base}/${quote}`;
+
+export class FxRateTable {
+  // Quotes per pair, oldest first
+  private readonly quotes = new Map<string, FxRate[]>();
+  readonly currencies: string[];
+  readonly latestDate: string | null;
+
+  constructor(rates: FxRate[]) {
+    const currencies = new Set<string>();
+    let latestDate: string | null = null;
+    for (const rate of rates) {
+      const key = pairKey(rate.base, rate.quote);
+      this.quotes.set(key, [...(this.quotes.get(key) ?? []), rate]);
+      currencies.add(rate.base);
+      currencies.add(rate.quote);
+      if (!latestDate || rate.date > latestDate) latestDate = rate.date;
+    }
+    this.quotes.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+    this.currencies = Array.from(currencies).sort();
+    this.latestDate = latestDate;
+  }
+
+  get size(): number {
+    let count = 0;
+    this.quotes.forEach(list => { count += list.length; });
+    return count;
+  }
+
+  /** Latest quote of the pair on or before `date` */
+  private quoted(base: string, quote: string, date: string): FxRate | null {
+    const list = this.quotes.get(pairKey(base, quote));
+    if (!list) return null;
+    for (let index = list.length - 1; index >= 0; index--) {
+      if (list[index].date <= date) return list[index];
+    }
+    return null;
+  }
+
+  /** Direct quote or the inverse of the opposite one, whichever is more recent */
+  private direct(from: string, to: string, date: string): FxConversion | null {
+    const straight = this.quoted(from, to, date);
+    const inverse = this.quoted(to, from, date);
+    if (straight && (!inverse || straight.date >= inverse.date)) {
+      return { from, to, rate: straight.rate, rateDate: straight.date };
+    }
+    if (inverse) {
+      return { from, to, rate: divideDecimal("1", inverse.rate, RATE_PLACES), rateDate: inverse.date };
+    }
+    return null;
+  }
+
+  /**
+   * Rate converting one `from` into `to` on `date` (YYYY-MM-DD), using the
+   * latest quotes on or before that day. A crossed rate is dated by its older
+   * leg. Null when no quote is old enough or the currencies are not linked.
+   */
+  rate(from: string, to: string, date: string): FxConversion | null {
+    if (from === to) return { from, to, rate: "1", rateDate: null };
+
+    const direct = this.direct(from, to, date);
+    if (direct) return direct;
+
+    const pivots = [PREFERRED_PIVOT, ...this.currencies.filter(currency => currency !== PREFERRED_PIVOT)];
+    for (const pivot of pivots) {
+      if (pivot === from || pivot === to) continue;
+      const first = this.direct(from, pivot, date);
+      const second = first && this.direct(pivot, to, date);
+      if (first && second) {
+        return {
+          from,
+          to,
+          rate: roundDecimal(multiplyDecimal(first.rate, second.rate), RATE_PLACES),
+          rateDate: first.rateDate! < second.rateDate! ? first.rateDate : second.rateDate,
+        };
+      }
+    }
+    return null;
+  }
+}
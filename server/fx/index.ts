@@ -0,0 +1,116 @@
+// FX rates for converting figures into a user-selected base currency.
+//
+// FX_PROVIDER picks the rate source (only "file" so far). The file provider
+// reads FX_RATES_FILE, by default the sample rates.csv next to this module,
+// and can download it from FX_RATES_URL. Rates are loaded on first use; with
+// FX_REFRESH_MINUTES set, a background job refreshes the source and reloads
+// the rates on that interval.
+import path from "path";
+import type { FxConversion } from "@shared/fx";
+import { multiplyDecimal, roundDecimal, type Decimal } from "@shared/decimal";
+import { FxRateTable, type FxRateProvider } from "./fxProvider";
+import { createFileRateProvider } from "./fileRateProvider";
+import { createLogger } from "../logger";
+
+export { FxRateTable };
+export type { FxRateProvider };
+
+const log = createLogger("fx");
+
+const PROVIDERS: Record<string, () => FxRateProvider> = {
+  file: () => createFileRateProvider({
+    file: process.env.FX_RATES_FILE || path.resolve(import.meta.dirname, "rates.csv"),
+    downloadUrl: process.env.FX_RATES_URL || undefined,
+  }),
+};
+
+let provider: FxRateProvider | null = null;
+let table: FxRateTable | null = null;
+let loading: Promise<FxRateTable> | null = null;
+
+export function getFxProvider(): FxRateProvider {
+  if (!provider) {
+    const name = (process.env.FX_PROVIDER || "file").toLowerCase();
+    const create = PROVIDERS[name];
+    if (!create) {
+      throw new Error(`Unknown FX_PROVIDER "${name}"; expected one of: ${Object.keys(PROVIDERS).join(", ")}`);
+    }
+    provider = create();
+  }
+  return provider;
+}
+
+async function load(refreshSource: boolean): Promise<FxRateTable> {
+  const source = getFxProvider();
+  if (refreshSource && source.refresh) {
+    await source.refresh();
+  }
+  const loaded = new FxRateTable(await source.loadRates());
+  log.info("Loaded FX rates", { provider: source.name, rates: loaded.size, latestDate: loaded.latestDate });
+  table = loaded;
+  return loaded;
+}
+
+/**
+ * The current rates, loaded on first use. When they cannot be loaded the
+ * error is logged and an empty table returned, so figures stay unconverted
+ * instead of failing the request; the next call tries again.
+ */
+export async function getFxRates(): Promise<FxRateTable> {
+  if (table) return table;
+  loading ??= load(false)
+    .catch(error => {
+      log.error("Could not load FX rates", { error });
+      return new FxRateTable([]);
+    })
+    .finally(() => { loading = null; });
+  return loading;
+}
+
+/** Converts with a rate from FxRateTable.rate; amounts keep up to 8 decimal places */
+export function convertAmount(amount: Decimal | null, conversion: FxConversion): Decimal | null {
+  return amount === null ? null : roundDecimal(multiplyDecimal(amount, conversion.rate), 8);
+}
+
+export interface FxRefreshJob {
+  runOnce: () => Promise<void>;
+  stop: () => void;
+}
+
+/**
+ * Starts the periodic refresh when FX_REFRESH_MINUTES is a positive number.
+ * A failed refresh keeps the rates loaded before it.
+ */
+export function startFxRefreshJob(): FxRefreshJob | null {
+  const minutes = parseFloat(process.env.FX_REFRESH_MINUTES || "0");
+  if (!(minutes > 0)) return null;
+  const intervalMs = minutes * 60 * 1000;
+
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+  let stopped = false;
+
+  const runOnce = () => {
+    running ??= load(true)
+      .then(() => undefined)
+      .catch(error => log.error("FX rates refresh failed", { error }))
+      .finally(() => { running = null; });
+    return running;
+  };
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(() => runOnce().then(schedule), intervalMs);
+    timer.unref();
+  };
+
+  log.info("FX refresh job started", { intervalMs });
+  runOnce().then(schedule);
+
+  return {
+    runOnce,
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
-import { setupVite, serveStatic, log } from "./vite";
+import { setupVite, serveStatic } from "./vite";
+import { createLogger, newRequestId, runWithRequestContext } from "./logger";
+import { startSnapshotScheduler } from "./accountSnapshots";
+import { startFxRefreshJob } from "./fx";
+
+const httpLog = createLogger("http");
 
 const app = express();
 app.use(express.json());
@@ -9,6 +14,11 @@ app.use(express.urlencoded({ extended: false }));
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
+  // Reuse the caller's request ID when it sends a well-formed one
+  const incomingId = req.get("x-request-id");
+  const requestId = incomingId && /^[\w.:-]{1,128}$/.test(incomingId) ? incomingId : newRequestId();
+  res.setHeader("X-Request-Id", requestId);
+
   let capturedJsonResponse: Record<string, any> | undefined = undefined;
 
   const originalResJson = res.json;
@@ -20,20 +30,18 @@ app.use((req, res, next) => {
   res.on("finish", () => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
-
-      log(logLine);
+      runWithRequestContext({ requestId }, () => {
+        const fields = { method: req.method, path, status: res.statusCode, durationMs: duration };
+        httpLog.info(`${req.method} ${path} ${res.statusCode} in ${duration}ms`, fields);
+        // Response bodies are redacted by key and only logged at debug level
+        if (capturedJsonResponse && httpLog.isLevelEnabled("debug")) {
+          httpLog.debug("Response body", { ...fields, responseBody: capturedJsonResponse });
+        }
+      });
     }
   });
 
-  next();
+  runWithRequestContext({ requestId }, next);
 });
 
 (async () => {
@@ -43,6 +51,7 @@ app.use((req, res, next) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
 
+    httpLog.error("Unhandled error", { status, error: err });
     res.status(status).json({ message });
     throw err;
   });
@@ -65,6 +74,14 @@ app.use((req, res, next) => {
     host: "0.0.0.0",
     reusePort: true,
   }, () => {
-    log(`serving on port ${port}`);
+    httpLog.info(`serving on port ${port}`, { port });
   });
+
+  // Refresh active connections in the background and keep the results as snapshots
+  const snapshotScheduler = startSnapshotScheduler();
+  server.on("close", () => snapshotScheduler?.stop());
+
+  // Keep the FX rates file current when FX_REFRESH_MINUTES is set
+  const fxRefreshJob = startFxRefreshJob();
+  server.on("close", () => fxRefreshJob?.stop());
 })();
@@ -0,0 +1,344 @@
+// Live updates (WebSocket at LIVE_UPDATES_PATH, see shared/liveUpdates.ts).
+//
+// The upgrade request goes through the express session, so a socket belongs to
+// the logged-in user whose cookie opened it. Routes publish connection changes
+// to all of that user's sockets. A socket watching a connection joins the
+// connection's feed, one per connection and account: the feed polls the
+// broker's positions and logs (and nothing else) every LIVE_POLL_SECONDS
+// (default 30) while anyone watches, and sends the status when it changes and
+// the positions and log rows that changed.
+// Order entry asks for an immediate poll so fills show up without waiting.
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import type { Connection } from "@shared/schema";
+import type { FetchResult } from "@shared/accountData";
+import {
+  diffTable,
+  liveClientMessageSchema,
+  LIVE_TABLE_SECTIONS,
+  LIVE_UPDATES_PATH,
+  type LiveEvent,
+  type LiveStatusEvent,
+  type LiveTableSection,
+  type TableDelta,
+} from "@shared/liveUpdates";
+import { storage } from "./storage";
+import { toConnectionView } from "./connectionView";
+import { connectionCredentials, resolveBrokerAdapter, type BrokerAdapter, type BrokerCredentials } from "./brokers";
+import { createLogger, newRequestId, runWithRequestContext } from "./logger";
+
+const log = createLogger("live");
+
+const POLL_SECONDS = parseFloat(process.env.LIVE_POLL_SECONDS || "30");
+const POLL_INTERVAL_MS = (POLL_SECONDS > 0 ? POLL_SECONDS : 30) * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+
+interface LiveClient {
+  socket: WebSocket;
+  userId: number;
+  sessionId: string;
+  feed: Feed | null;
+  alive: boolean; // Answered the last ping
+}
+
+interface Feed {
+  key: string;
+  connectionId: number;
+  userId: number;
+  accountId: string | null;
+  watchers: Set<LiveClient>;
+  tables: Partial<Record<LiveTableSection, FetchResult>>; // As last sent
+  status: LiveStatusEvent | null;
+  timer: NodeJS.Timeout | null;
+  polling: Promise<void> | null;
+}
+
+const clients = new Set<LiveClient>();
+const feeds = new Map<string, Feed>();
+
+function send(client: LiveClient, event: LiveEvent): void {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(event));
+  }
+}
+
+function sendToUser(userId: number, event: LiveEvent): void {
+  clients.forEach(client => {
+    if (client.userId === userId) send(client, event);
+  });
+}
+
+// ============================
+// Connection changes
+// ============================
+
+/** Sends a created or updated connection to its owner's sockets */
+export function publishConnection(connection: Connection | undefined): void {
+  if (connection) {
+    sendToUser(connection.userId, { type: "connection", connection: toConnectionView(connection) });
+  }
+}
+
+/** Tells the owner's sockets a connection is gone and stops polling it */
+export function publishConnectionRemoved(connection: Connection): void {
+  feeds.forEach(feed => {
+    if (feed.connectionId !== connection.id) return;
+    feed.watchers.forEach(client => { client.feed = null; });
+    closeFeed(feed);
+  });
+  sendToUser(connection.userId, { type: "connection_removed", connectionId: connection.id });
+}
+
+// ============================
+// Feeds
+// ============================
+
+function feedStatus(feed: Feed, status: LiveStatusEvent["status"], message: string | null): LiveStatusEvent {
+  return { type: "status", connectionId: feed.connectionId, status, message, at: new Date().toISOString() };
+}
+
+/** The live sections the adapter reports, fetched without the rest of the account data */
+async function fetchLiveTables(
+  adapter: BrokerAdapter,
+  credentials: BrokerCredentials,
+  accountId: string | null,
+): Promise<Partial<Record<LiveTableSection, FetchResult>>> {
+  const [positions, logs] = await Promise.all([
+    adapter.capabilities.positions && adapter.getPositions
+      ? adapter.getPositions(credentials, { accountId: accountId ?? undefined })
+      : null,
+    adapter.capabilities.logs && adapter.getLogs ? adapter.getLogs(credentials) : null,
+  ]);
+  return {
+    ...(positions ? { positions } : {}),
+    ...(logs ? { tradeLogs: logs.tradeLogs, activityLogs: logs.activityLogs, outstandingLogs: logs.outstandingLogs } : {}),
+  };
+}
+
+/** Fetches the connection's positions and logs once and sends what changed since the last poll */
+async function pollFeed(feed: Feed): Promise<void> {
+  const connection = await storage.getConnection(feed.connectionId);
+  if (!connection || connection.userId !== feed.userId) {
+    feed.watchers.forEach(client => { client.feed = null; });
+    closeFeed(feed);
+    return;
+  }
+
+  let status: LiveStatusEvent;
+  const changes: Partial<Record<LiveTableSection, TableDelta>> = {};
+  try {
+    const adapter = await resolveBrokerAdapter(connection.exchangeId, connection.brokerId);
+    const tables = await fetchLiveTables(adapter, connectionCredentials(connection), feed.accountId);
+    const fetched = Object.values(tables);
+    if (fetched.length === 0) {
+      status = feedStatus(feed, "error", `${adapter.name} does not report positions or logs`);
+    } else if (fetched.every(table => table.error === "Authentication Failed")) {
+      status = feedStatus(feed, "auth_failed", "Authentication failed with the broker.");
+    } else if (fetched.every(table => table.error)) {
+      status = feedStatus(feed, "error", `Could not fetch account data from ${adapter.name}`);
+    } else {
+      status = feedStatus(feed, "live", null);
+      // A section that failed this time keeps what was sent before
+      for (const section of LIVE_TABLE_SECTIONS) {
+        const table = tables[section];
+        if (!table || table.error) continue;
+        const delta = diffTable(section, feed.tables[section], table);
+        if (delta) changes[section] = delta;
+        feed.tables[section] = { headers: table.headers, data: table.data };
+      }
+    }
+  } catch (error) {
+    log.warn("Live poll failed", { connectionId: feed.connectionId, error });
+    status = feedStatus(feed, "error", error instanceof Error ? error.message : String(error));
+  }
+
+  if (!feeds.has(feed.key)) return; // Closed while polling
+  if (feed.status?.status !== status.status || feed.status.message !== status.message) {
+    feed.status = status;
+    feed.watchers.forEach(client => send(client, status));
+  }
+  if (Object.keys(changes).length > 0) {
+    const event: LiveEvent = { type: "tables", connectionId: feed.connectionId, accountId: feed.accountId, at: status.at, tables: changes };
+    feed.watchers.forEach(client => send(client, event));
+  }
+}
+
+/** Polls now unless a poll is running, then schedules the next one */
+function runFeed(feed: Feed): Promise<void> {
+  if (feed.timer) clearTimeout(feed.timer);
+  feed.timer = null;
+  feed.polling ??= runWithRequestContext({ requestId: newRequestId() }, () => pollFeed(feed))
+    .catch(error => log.error("Live poll crashed", { connectionId: feed.connectionId, error }))
+    .finally(() => {
+      feed.polling = null;
+      if (!feeds.has(feed.key)) return;
+      feed.timer = setTimeout(() => runFeed(feed), POLL_INTERVAL_MS);
+      feed.timer.unref();
+    });
+  return feed.polling;
+}
+
+function closeFeed(feed: Feed): void {
+  if (feed.timer) clearTimeout(feed.timer);
+  feeds.delete(feed.key);
+}
+
+/** Polls every watched feed of the connection now, e.g. after an order was placed */
+export function refreshLiveFeeds(connectionId: number): void {
+  feeds.forEach(feed => {
+    if (feed.connectionId === connectionId) void runFeed(feed);
+  });
+}
+
+function unwatch(client: LiveClient): void {
+  const feed = client.feed;
+  client.feed = null;
+  if (!feed) return;
+  feed.watchers.delete(client);
+  if (feed.watchers.size === 0) closeFeed(feed);
+}
+
+async function watch(client: LiveClient, connectionId: number, accountId: string | null): Promise<void> {
+  const connection = await storage.getConnection(connectionId);
+  if (!connection || connection.userId !== client.userId) {
+    send(client, { type: "connection_removed", connectionId });
+    return;
+  }
+
+  unwatch(client);
+  const key = `${connectionId}:${accountId ?? ""}`;
+  let feed = feeds.get(key);
+  if (feed) {
+    // Catch up with the feed: the whole tables as last sent, and the status
+    feed.watchers.add(client);
+    client.feed = feed;
+    const tables: Partial<Record<LiveTableSection, TableDelta>> = {};
+    for (const [section, table] of Object.entries(feed.tables) as [LiveTableSection, FetchResult][]) {
+      tables[section] = { headers: table.headers, upserted: table.data, removed: [], reset: true };
+    }
+    if (feed.status) send(client, feed.status);
+    if (Object.keys(tables).length > 0) {
+      send(client, { type: "tables", connectionId, accountId, at: feed.status?.at ?? new Date().toISOString(), tables });
+    }
+    return;
+  }
+
+  feed = {
+    key, connectionId, userId: client.userId, accountId,
+    watchers: new Set([client]), tables: {}, status: null, timer: null, polling: null,
+  };
+  feeds.set(key, feed);
+  client.feed = feed;
+  log.debug("Started live feed", { connectionId, accountId });
+  void runFeed(feed);
+}
+
+// ============================
+// Sockets
+// ============================
+
+/** Closes the sockets opened with a session, e.g. when it logs out */
+export function closeLiveSession(sessionId: string): void {
+  clients.forEach(client => {
+    if (client.sessionId === sessionId) client.socket.close(4401, "Logged out");
+  });
+}
+
+/** The logged-in user of the upgrade request, read from its session cookie */
+function sessionUser(req: IncomingMessage, sessionParser: RequestHandler): Promise<{ userId: number; sessionId: string } | null> {
+  return new Promise(resolve => {
+    const request = req as Request;
+    sessionParser(request, {} as Response, () => {
+      const userId = (request.session as { passport?: { user?: number } } | undefined)?.passport?.user;
+      resolve(typeof userId === "number" ? { userId, sessionId: request.sessionID } : null);
+    });
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: string): void {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/** Cookies go with cross-site socket requests too, so only pages served from this host may connect */
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+function handleMessage(client: LiveClient, data: RawData): void {
+  let message;
+  try {
+    message = liveClientMessageSchema.parse(JSON.parse(data.toString()));
+  } catch {
+    log.debug("Ignoring malformed live message", { userId: client.userId });
+    return;
+  }
+  if (message.type === "unwatch") {
+    unwatch(client);
+    return;
+  }
+  watch(client, message.connectionId, message.accountId)
+    .catch(error => log.error("Failed to watch connection", { connectionId: message.connectionId, error }));
+}
+
+/** Serves live updates on the HTTP server; other upgrade requests (the Vite dev server's) are left alone */
+export function attachLiveUpdates(server: Server, sessionParser: RequestHandler): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== LIVE_UPDATES_PATH) return;
+    if (!isSameOrigin(req)) {
+      rejectUpgrade(socket, "403 Forbidden");
+      return;
+    }
+
+    sessionUser(req, sessionParser).then(async user => {
+      if (!user || !(await storage.getUser(user.userId))) {
+        rejectUpgrade(socket, "401 Unauthorized");
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, ws => {
+        const client: LiveClient = { socket: ws, userId: user.userId, sessionId: user.sessionId, feed: null, alive: true };
+        clients.add(client);
+        ws.on("message", data => handleMessage(client, data));
+        ws.on("pong", () => { client.alive = true; });
+        ws.on("close", () => {
+          unwatch(client);
+          clients.delete(client);
+        });
+        ws.on("error", error => log.warn("Live socket error", { userId: client.userId, error }));
+      });
+    }).catch(error => {
+      log.error("Live upgrade failed", { error });
+      rejectUpgrade(socket, "500 Internal Server Error");
+    });
+  });
+
+  // Drop sockets that stopped answering pings
+  const heartbeat = setInterval(() => {
+    clients.forEach(client => {
+      if (!client.alive) {
+        client.socket.terminate();
+        return;
+      }
+      client.alive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    feeds.forEach(closeFeed);
+    wss.close();
+  });
+  log.info("Live updates ready", { path: LIVE_UPDATES_PATH, pollIntervalMs: POLL_INTERVAL_MS });
+}
@@ -0,0 +1,164 @@
+// Structured JSON-lines logging with redaction and per-request context.
+//
+// Each entry is one JSON object per line:
+//   {"time":"...","level":"info","module":"routes","requestId":"...","msg":"...", ...fields}
+//
+// Levels are set per module: LOG_LEVEL is the default (info) and LOG_LEVELS
+// overrides it for individual modules, e.g. LOG_LEVELS="akd=debug,http=warn".
+//
+// Fields are redacted by key before they are written (see `redact`), so
+// credentials, account numbers and raw broker payloads never reach the log.
+// Messages themselves are not inspected: pass such values as fields.
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+  isLevelEnabled(level: LogLevel): boolean;
+}
+
+// ============================
+// Redaction
+// ============================
+
+export const REDACTED = "[REDACTED]";
+
+// Keys whose values are replaced outright
+const SECRET_KEYS = /^(password|pass|passwd|apisecret|api_secret|secret|pin|pincode|token|accesstoken|apikey|api_key|authorization|cookie|credentials|encryptedcredentials|sessionsecret)$/i;
+// Keys holding broker account numbers, broker logins or national IDs; all but the last two characters are masked
+const ACCOUNT_KEYS = /^(account|accountno|accountnumber|accountcode|accountid|accounts|selectedaccount|primaryaccount|username|userid|trader|traderid|nic|cnic)$/i;
+// Keys holding raw broker payloads or account data; only their size is logged
+const PAYLOAD_KEYS = /^(payload|response|rawresponse|body|rows|data)$/i;
+
+function maskAccount(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(maskAccount);
+  if (value === null || value === undefined || value === "") return value;
+  const text = String(value);
+  return text.length <= 2 ? "**" : `${"*".repeat(Math.min(text.length - 2, 6))}${text.slice(-2)}`;
+}
+
+function describePayload(value: unknown): string {
+  if (typeof value === "string") return `[${value.length} chars]`;
+  if (Array.isArray(value)) return `[${value.length} items]`;
+  if (value && typeof value === "object") return `[object with ${Object.keys(value).length} keys]`;
+  return String(value);
+}
+
+/** Copy of `value` with secret, account and payload fields redacted (by key, at any depth) */
+export function redact(value: unknown, depth = 0): unknown {
+  if (depth > 8) return "[nested too deep]";
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+  if (!value || typeof value !== "object") return value;
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+    if (SECRET_KEYS.test(key)) return [key, item === undefined || item === null ? item : REDACTED];
+    if (ACCOUNT_KEYS.test(key)) return [key, maskAccount(item)];
+    if (PAYLOAD_KEYS.test(key)) return [key, describePayload(item)];
+    return [key, redact(item, depth + 1)];
+  }));
+}
+
+// ============================
+// Request context
+// ============================
+
+export interface RequestContext {
+  requestId: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/** Runs `fn` with a request context that every log entry (and broker call) inside it picks up */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+export function newRequestId(): string {
+  return randomUUID();
+}
+
+// ============================
+// Levels
+// ============================
+
+function parseLevel(value: string | undefined): LogLevel | null {
+  const level = value?.trim().toLowerCase();
+  return level && level in LEVEL_ORDER ? (level as LogLevel) : null;
+}
+
+let defaultLevel = parseLevel(process.env.LOG_LEVEL) ?? "info";
+
+const moduleLevels = new Map<string, LogLevel>(
+  (process.env.LOG_LEVELS || "")
+    .split(",")
+    .map(entry => entry.split("="))
+    .flatMap(([name, level]) => {
+      const parsed = parseLevel(level);
+      return name?.trim() && parsed ? [[name.trim(), parsed] as [string, LogLevel]] : [];
+    }),
+);
+
+function levelFor(module: string): LogLevel {
+  return moduleLevels.get(module) ?? defaultLevel;
+}
+
+/** Changes the level at runtime, for one module or (without `module`) the default */
+export function setLogLevel(level: LogLevel, module?: string): void {
+  if (module) moduleLevels.set(module, level);
+  else defaultLevel = level;
+}
+
+// ============================
+// Logger
+// ============================
+
+function write(level: LogLevel, module: string, msg: string, fields: LogFields) {
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    module,
+    ...(getRequestId() ? { requestId: getRequestId() } : {}),
+    msg,
+    ...(redact(fields) as LogFields),
+  };
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ time: entry.time, level, module, requestId: getRequestId(), msg, note: "fields not serializable" });
+  }
+  (level === "error" || level === "warn" ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+/** Logger for one module; its level comes from LOG_LEVELS or LOG_LEVEL */
+export function createLogger(module: string, bound: LogFields = {}): Logger {
+  const enabled = (level: LogLevel) => LEVEL_ORDER[level] >= LEVEL_ORDER[levelFor(module)];
+  const at = (level: LogLevel) => (msg: string, fields: LogFields = {}) => {
+    if (enabled(level)) write(level, module, msg, { ...bound, ...fields });
+  };
+  return {
+    debug: at("debug"),
+    info: at("info"),
+    warn: at("warn"),
+    error: at("error"),
+    child: (fields) => createLogger(module, { ...bound, ...fields }),
+    isLevelEnabled: enabled,
+  };
+}
@@ -0,0 +1,116 @@
+// Lot accounting for each lot method, with amounts worked out by hand.
+import { describe, expect, it } from "vitest";
+import type { Fill, Position } from "@shared/models";
+import { runLotEngine } from "./lotEngine";
+
+function fill(fillId: string, side: "buy" | "sell", quantity: string, price: string, commission: string, executedAt: string): Fill {
+  return {
+    fillId, orderId: null, accountId: "ACC1", symbol: "OGDC", side, quantity, price,
+    value: String(Number(quantity) * Number(price)), commission, commissionSource: "trade_log", executedAt, currency: "PKR",
+  };
+}
+
+function position(quantity: string, averageCost: string | null, marketPrice: string): Position {
+  return {
+    accountId: "ACC1", symbol: "OGDC", quantity, averageCost, marketPrice, marketValue: null, unrealizedPnl: null,
+    realizedPnl: null, haircutPercent: null, valueAfterHaircut: null, pendingSellQuantity: null, currency: "PKR",
+  };
+}
+
+// Two lots: 100 costing 1005 and 100 costing 2005, commission included
+const buys = [
+  fill("B1", "buy", "100", "10", "5", "2026-01-10"),
+  fill("B2", "buy", "100", "20", "5", "2026-02-10"),
+];
+
+describe("runLotEngine", () => {
+  it("closes the oldest lots first under FIFO", () => {
+    const { realized, openLots, warnings } = runLotEngine({
+      fills: [...buys, fill("S1", "sell", "150", "30", "9", "2026-03-10")],
+      positions: [position("50", "20.05", "25")],
+      method: "fifo",
+    });
+
+    // Proceeds of 4500 - 9 = 4491 split 100:50
+    expect(realized).toEqual([
+      expect.objectContaining({ lotId: "B1", quantity: "100", proceeds: "2994", cost: "1005", realizedPnl: "1989", commission: "11", holdingDays: 59 }),
+      expect.objectContaining({ lotId: "B2", quantity: "50", proceeds: "1497", cost: "1002.5", realizedPnl: "494.5", commission: "5.5", holdingDays: 28 }),
+    ]);
+    expect(openLots).toEqual([
+      expect.objectContaining({ lotId: "B2", quantity: "50", cost: "1002.5", marketValue: "1250", unrealizedPnl: "247.5" }),
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("costs sales at the pool average and keeps the rest at that average", () => {
+    const { realized, openLots } = runLotEngine({
+      fills: [...buys, fill("S1", "sell", "50", "30", "3", "2026-03-10")],
+      positions: [position("150", "20.05", "25")],
+      method: "average",
+    });
+
+    // 3010 over 200 is 15.05 a share, whichever lot the shares come from
+    expect(realized).toEqual([
+      expect.objectContaining({ lotId: "B1", quantity: "50", proceeds: "1497", cost: "752.5", realizedPnl: "744.5", commission: "5.5" }),
+    ]);
+    expect(openLots).toEqual([
+      expect.objectContaining({ lotId: "B1", quantity: "50", cost: "752.5", unrealizedPnl: "497.5" }),
+      expect.objectContaining({ lotId: "B2", quantity: "100", cost: "1505", unrealizedPnl: "995" }),
+    ]);
+  });
+
+  it("takes the picked lots first and falls back to FIFO for the rest", () => {
+    const { realized, sales, warnings } = runLotEngine({
+      fills: [...buys, fill("S1", "sell", "50", "30", "3", "2026-03-10")],
+      positions: [position("150", "20.05", "25")],
+      method: "specific",
+      selections: new Map([["S1", [{ lotId: "B2", quantity: "30" }, { lotId: "GONE", quantity: "20" }]]]),
+    });
+
+    expect(realized).toEqual([
+      expect.objectContaining({ lotId: "B2", quantity: "30", proceeds: "898.2", cost: "601.5", realizedPnl: "296.7" }),
+      expect.objectContaining({ lotId: "B1", quantity: "20", proceeds: "598.8", cost: "201", realizedPnl: "397.8" }),
+    ]);
+    expect(sales).toEqual([expect.objectContaining({
+      sellFillId: "S1",
+      candidates: [
+        { lotId: "B1", openedAt: "2026-01-10", available: "100" },
+        { lotId: "B2", openedAt: "2026-02-10", available: "100" },
+      ],
+    })]);
+    expect(warnings).toEqual(["Sale S1: lot GONE was not open at the time; FIFO used instead."]);
+  });
+
+  it("opens a lot at the average cost for holdings from before the fills", () => {
+    const { realized, openLots, warnings } = runLotEngine({
+      fills: [fill("B1", "buy", "100", "10", "0", "2026-01-10"), fill("S1", "sell", "120", "12", "0", "2026-02-01")],
+      positions: [position("150", "8", "11")],
+      method: "fifo",
+    });
+
+    // 150 held less the net -20 from the fills: 170 opened at 8
+    expect(realized).toEqual([
+      expect.objectContaining({ lotId: "OPENING-ACC1-OGDC", quantity: "120", proceeds: "1440", cost: "960", realizedPnl: "480", openedAt: null, holdingDays: null }),
+    ]);
+    expect(openLots).toEqual([
+      expect.objectContaining({ lotId: "OPENING-ACC1-OGDC", quantity: "50", cost: "400", marketValue: "550", unrealizedPnl: "150" }),
+      expect.objectContaining({ lotId: "B1", quantity: "100", cost: "1000", marketValue: "1100", unrealizedPnl: "100" }),
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("reports sales beyond the known lots with an unknown cost", () => {
+    const { realized, openLots, warnings } = runLotEngine({
+      fills: [fill("B1", "buy", "100", "10", "0", "2026-01-10"), fill("S1", "sell", "150", "12", "0", "2026-02-01")],
+      positions: [],
+      method: "fifo",
+    });
+
+    expect(realized).toEqual([
+      expect.objectContaining({ lotId: "B1", quantity: "100", proceeds: "1200", cost: "1000", realizedPnl: "200" }),
+      expect.objectContaining({ lotId: null, quantity: "50", proceeds: "600", cost: null, realizedPnl: null, holdingDays: null }),
+    ]);
+    expect(openLots).toEqual([]);
+    expect(warnings).toEqual(["Sale S1: 50 OGDC sold beyond the known lots; its cost is unknown."]);
+  });
+});
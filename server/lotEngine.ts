@@ -0,0 +1,276 @@
+// Tax-lot accounting over a connection's fills.
+//
+// Fills are replayed oldest first, per account and symbol. A buy opens a lot
+// costing its value plus commission; a sell closes lots for its value less
+// commission, choosing them by the lot method (see LotMethod). Holdings the
+// fills do not explain, i.e. bought before the fetched history, become an
+// opening lot at the broker's average cost. Sales beyond the known lots are
+// reported with an unknown cost rather than guessed.
+import type { Fill, Position } from "@shared/models";
+import type { LotMethod, LotSelection, OpenLot, RealizedLot, SaleLotChoice } from "@shared/lots";
+import { OPENING_LOT_PREFIX } from "@shared/lots";
+import {
+  addDecimals,
+  compareDecimal,
+  divideDecimal,
+  multiplyDecimal,
+  subtractDecimal,
+  type Decimal,
+} from "@shared/decimal";
+
+const AMOUNT_PLACES = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LotEngineInput {
+  fills: Fill[];
+  positions: Position[]; // Current holdings: opening lots and mark prices
+  method: LotMethod;
+  selections?: Map<string, LotSelection[]>; // Lots picked per sell fill ID, for the specific method
+}
+
+export interface LotEngineResult {
+  realized: RealizedLot[];
+  openLots: OpenLot[];
+  sales: SaleLotChoice[];
+  warnings: string[];
+}
+
+interface WorkingLot {
+  lotId: string;
+  accountId: string;
+  symbol: string;
+  openedAt: string | null;
+  quantity: Decimal; // Remaining
+  cost: Decimal; // Cost of the remaining quantity, commission included
+  commission: Decimal; // Buy commission of the remaining quantity
+}
+
+const bucketKey = (accountId: string, symbol: string) => `${accountId}\u0000${symbol}`;
+const isPositive = (value: Decimal) => compareDecimal(value, "0") > 0;
+const minDecimal = (a: Decimal, b: Decimal) => (compareDecimal(a, b) <= 0 ? a : b);
+
+/** `total` scaled by part / whole */
+function share(total: Decimal, part: Decimal, whole: Decimal): Decimal {
+  return compareDecimal(part, whole) === 0 ? total : divideDecimal(multiplyDecimal(total, part), whole, AMOUNT_PLACES);
+}
+
+function holdingDays(openedAt: string | null, closedAt: string): number | null {
+  if (!openedAt) return null;
+  return Math.round((Date.parse(closedAt.slice(0, 10)) - Date.parse(openedAt.slice(0, 10))) / DAY_MS);
+}
+
+// Oldest first; on the same day, when either fill has no time, buys go first
+function compareFills(a: Fill, b: Fill): number {
+  const dayA = a.executedAt!.slice(0, 10);
+  const dayB = b.executedAt!.slice(0, 10);
+  if (dayA !== dayB) return dayA < dayB ? -1 : 1;
+  const timed = a.executedAt!.length > 10 && b.executedAt!.length > 10;
+  if (timed && a.executedAt !== b.executedAt) return a.executedAt! < b.executedAt! ? -1 : 1;
+  if (a.side !== b.side) return a.side === "buy" ? -1 : 1;
+  return a.fillId.localeCompare(b.fillId);
+}
+
+/** Removes `quantity` from a lot, returning the cost and commission that went with it */
+function takeFromLot(lot: WorkingLot, quantity: Decimal): { cost: Decimal; commission: Decimal } {
+  const cost = share(lot.cost, quantity, lot.quantity);
+  const commission = share(lot.commission, quantity, lot.quantity);
+  lot.cost = subtractDecimal(lot.cost, cost);
+  lot.commission = subtractDecimal(lot.commission, commission);
+  lot.quantity = subtractDecimal(lot.quantity, quantity);
+  return { cost, commission };
+}
+
+/** Spreads the open lots' total cost evenly over their quantity */
+function averageCosts(lots: WorkingLot[]) {
+  const open = lots.filter(lot => isPositive(lot.quantity));
+  if (open.length === 0) return;
+  const totalQuantity = addDecimals(...open.map(lot => lot.quantity));
+  let remainingCost = addDecimals(...open.map(lot => lot.cost));
+  let remainingQuantity = totalQuantity;
+  for (const lot of open) {
+    const cost = share(remainingCost, lot.quantity, remainingQuantity);
+    remainingCost = subtractDecimal(remainingCost, cost);
+    remainingQuantity = subtractDecimal(remainingQuantity, lot.quantity);
+    lot.cost = cost;
+  }
+}
+
+/** Opening lots for holdings that the fills do not account for */
+function openingLots(fills: Fill[], positions: Position[], warnings: string[]): WorkingLot[] {
+  const netBought = new Map<string, Decimal>();
+  for (const fill of fills) {
+    const key = bucketKey(fill.accountId, fill.symbol);
+    const signed = fill.side === "sell" ? multiplyDecimal(fill.quantity, "-1") : fill.quantity;
+    netBought.set(key, addDecimals(netBought.get(key) ?? "0", signed));
+  }
+
+  const lots: WorkingLot[] = [];
+  for (const position of positions) {
+    const opening = subtractDecimal(position.quantity, netBought.get(bucketKey(position.accountId, position.symbol)) ?? "0");
+    if (compareDecimal(opening, "0") < 0) {
+      warnings.push(`${position.symbol} (${position.accountId}): the fills add up to ${multiplyDecimal(opening, "-1")} more than the ` +
+        "current holding, probably trades that have not settled yet.");
+      continue;
+    }
+    if (!isPositive(opening)) continue;
+    if (position.averageCost === null) {
+      warnings.push(`${position.symbol} (${position.accountId}): no average cost for the ${opening} held before the history; counted at zero cost.`);
+    }
+    lots.push({
+      lotId: `${OPENING_LOT_PREFIX}-${position.accountId}-${position.symbol}`,
+      accountId: position.accountId,
+      symbol: position.symbol,
+      openedAt: null,
+      quantity: opening,
+      cost: multiplyDecimal(opening, position.averageCost ?? "0"),
+      commission: "0",
+    });
+  }
+  return lots;
+}
+
+export function runLotEngine({ fills, positions, method, selections }: LotEngineInput): LotEngineResult {
+  const warnings: string[] = [];
+  const realized: RealizedLot[] = [];
+  const sales: SaleLotChoice[] = [];
+
+  const usable = fills.filter(fill => fill.executedAt && fill.side && isPositive(fill.quantity));
+  if (usable.length < fills.length) {
+    warnings.push(`${fills.length - usable.length} fill(s) without a date, side or quantity were left out.`);
+  }
+  const uncharged = usable.filter(fill => fill.commission === null).length;
+  if (uncharged > 0) {
+    warnings.push(`${uncharged} fill(s) have no commission; their P&L excludes charges.`);
+  }
+  if (usable.some(fill => fill.commissionSource === "summary")) {
+    warnings.push("Some commissions are estimated from the account's commission summary rate.");
+  }
+
+  const books = new Map<string, WorkingLot[]>();
+  for (const lot of openingLots(usable, positions, warnings)) {
+    books.set(bucketKey(lot.accountId, lot.symbol), [lot]);
+  }
+
+  for (const fill of usable.slice().sort(compareFills)) {
+    const key = bucketKey(fill.accountId, fill.symbol);
+    const lots = books.get(key) ?? [];
+    books.set(key, lots);
+    const commission = fill.commission ?? "0";
+
+    if (fill.side === "buy") {
+      lots.push({
+        lotId: fill.fillId,
+        accountId: fill.accountId,
+        symbol: fill.symbol,
+        openedAt: fill.executedAt,
+        quantity: fill.quantity,
+        cost: addDecimals(fill.value, commission),
+        commission,
+      });
+      continue;
+    }
+
+    const open = lots.filter(lot => isPositive(lot.quantity));
+    const picked = method === "specific" ? selections?.get(fill.fillId) ?? [] : [];
+    if (method === "specific") {
+      sales.push({
+        sellFillId: fill.fillId,
+        accountId: fill.accountId,
+        symbol: fill.symbol,
+        quantity: fill.quantity,
+        executedAt: fill.executedAt!,
+        candidates: open.map(lot => ({ lotId: lot.lotId, openedAt: lot.openedAt, available: lot.quantity })),
+        selected: picked,
+      });
+    }
+
+    // Lots in the order they are consumed, with the most each may give
+    const plan: { lot: WorkingLot; limit: Decimal | null }[] = [];
+    for (const selection of picked) {
+      const lot = open.find(candidate => candidate.lotId === selection.lotId);
+      if (lot) plan.push({ lot, limit: selection.quantity });
+      else warnings.push(`Sale ${fill.fillId}: lot ${selection.lotId} was not open at the time; FIFO used instead.`);
+    }
+    open.forEach(lot => plan.push({ lot, limit: null }));
+
+    const poolQuantity = open.length > 0 ? addDecimals(...open.map(lot => lot.quantity)) : "0";
+    const poolCost = open.length > 0 ? addDecimals(...open.map(lot => lot.cost)) : "0";
+    const proceedsTotal = subtractDecimal(fill.value, commission);
+    let remaining = fill.quantity;
+    let proceedsLeft = proceedsTotal;
+    let commissionLeft = commission;
+
+    const close = (lot: WorkingLot | null, quantity: Decimal, cost: Decimal | null, buyCommission: Decimal) => {
+      const last = compareDecimal(quantity, remaining) === 0;
+      const proceeds = last ? proceedsLeft : share(proceedsTotal, quantity, fill.quantity);
+      const sellCommission = last ? commissionLeft : share(commission, quantity, fill.quantity);
+      proceedsLeft = subtractDecimal(proceedsLeft, proceeds);
+      commissionLeft = subtractDecimal(commissionLeft, sellCommission);
+      remaining = subtractDecimal(remaining, quantity);
+      realized.push({
+        sellFillId: fill.fillId,
+        lotId: lot?.lotId ?? null,
+        accountId: fill.accountId,
+        symbol: fill.symbol,
+        quantity,
+        openedAt: lot?.openedAt ?? null,
+        closedAt: fill.executedAt!,
+        holdingDays: lot ? holdingDays(lot.openedAt, fill.executedAt!) : null,
+        proceeds,
+        cost,
+        realizedPnl: cost === null ? null : subtractDecimal(proceeds, cost),
+        commission: addDecimals(buyCommission, sellCommission),
+      });
+    };
+
+    for (const { lot, limit } of plan) {
+      if (!isPositive(remaining)) break;
+      if (!isPositive(lot.quantity)) continue;
+      const quantity = minDecimal(minDecimal(remaining, lot.quantity), limit ?? lot.quantity);
+      if (!isPositive(quantity)) continue;
+      const taken = takeFromLot(lot, quantity);
+      // Under average cost every unit sold costs the pool's average, whichever lot it came from
+      const cost = method === "average" ? share(poolCost, quantity, poolQuantity) : taken.cost;
+      close(lot, quantity, cost, taken.commission);
+    }
+    if (isPositive(remaining)) {
+      warnings.push(`Sale ${fill.fillId}: ${remaining} ${fill.symbol} sold beyond the known lots; its cost is unknown.`);
+      close(null, remaining, null, "0");
+    }
+    if (method === "average") {
+      // The pool keeps its average: what was not sold still costs the rest
+      const sold = realized.filter(item => item.sellFillId === fill.fillId && item.cost !== null);
+      const soldCost = sold.length > 0 ? addDecimals(...sold.map(item => item.cost!)) : "0";
+      const left = lots.filter(lot => isPositive(lot.quantity));
+      if (left.length > 0) {
+        const leftCost = subtractDecimal(poolCost, soldCost);
+        const recorded = addDecimals(...left.map(lot => lot.cost));
+        left[0].cost = addDecimals(left[0].cost, subtractDecimal(leftCost, recorded));
+        averageCosts(left);
+      }
+    }
+  }
+
+  const prices = new Map(positions.map(position => [bucketKey(position.accountId, position.symbol), position.marketPrice]));
+  const openLots: OpenLot[] = [];
+  books.forEach((lots, key) => {
+    for (const lot of lots) {
+      if (!isPositive(lot.quantity)) continue;
+      const marketPrice = prices.get(key) ?? null;
+      const marketValue = marketPrice === null ? null : multiplyDecimal(lot.quantity, marketPrice);
+      openLots.push({
+        lotId: lot.lotId,
+        accountId: lot.accountId,
+        symbol: lot.symbol,
+        openedAt: lot.openedAt,
+        quantity: lot.quantity,
+        cost: lot.cost,
+        marketPrice,
+        marketValue,
+        unrealizedPnl: marketValue === null ? null : subtractDecimal(marketValue, lot.cost),
+      });
+    }
+  });
+
+  return { realized, openLots, sales, warnings };
+}
@@ -0,0 +1,115 @@
+// End-to-end order entry against the AKD simulator, which stands in for both
+// the SOAP service (margin) and the order gateway (quotes and orders), and
+// against the built-in paper broker.
+import net from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Connection } from "@shared/schema";
+import type { OrderTicket } from "@shared/orders";
+import { startAkdSimulator, type AkdSimulator } from "./brokers/akdSimulator";
+
+/** A port nothing listens on */
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer().once("error", reject);
+    server.listen(0, () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+describe("order entry (AKD simulator)", () => {
+  let simulator: AkdSimulator;
+  let orders: typeof import("./orders");
+  let connection: Connection;
+
+  const ticket = (overrides: Partial<OrderTicket>): OrderTicket => ({
+    accountId: "SIM001", symbol: "OGDC", side: "buy", type: "market", quantity: "100", price: null, validity: "day",
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    const port = await freePort();
+    simulator = await startAkdSimulator(port, { encoding: "gzip-base64", scenario: "normal" });
+    // Both URLs are read when the broker modules load
+    vi.stubEnv("STORAGE_BACKEND", "memory");
+    vi.stubEnv("AKD_WSDL_URL", simulator.wsdlUrl);
+    vi.stubEnv("AKD_ORDER_GATEWAY_URL", `http://localhost:${port}`);
+    orders = await import("./orders");
+
+    const { storage } = await import("./storage");
+    // MemStorage seeds the brokers shortly after the exchanges
+    const akd = await vi.waitFor(async () => {
+      const broker = (await storage.getAllBrokers()).find(candidate => candidate.name === "AKD");
+      if (!broker) throw new Error("AKD is not seeded yet");
+      return broker;
+    });
+    connection = {
+      id: 1, userId: 1, exchangeId: akd.exchangeId, brokerId: akd.id, authMethod: "credentials",
+      credentials: { username: "TRD01", password: "secret" }, isActive: true, isDefault: true, lastConnected: null, accountId: null,
+    };
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await simulator?.close();
+  });
+
+  it("values a market buy at the broker's last price, not the client's", async () => {
+    const check = await orders.checkOrder(connection, ticket({ quantity: "400", price: "1" }));
+    expect(check).toMatchObject({ quotedPrice: "195.1", required: "78040", availableAmount: "97659.25", passed: true });
+
+    // 600 at the client's price of 1 would be covered; at the last price of 195.10 it is not
+    await expect(orders.placeOrder(connection, ticket({ quantity: "600", price: "1" })))
+      .rejects.toMatchObject({ reason: "insufficient_funds", check: { required: "117060", passed: false } });
+  });
+
+  it("refuses a market buy the broker has no price for", async () => {
+    await expect(orders.checkOrder(connection, ticket({ symbol: "NOQUOTE" })))
+      .rejects.toMatchObject({ name: "OrderError", reason: "invalid" });
+  });
+
+  it("checks a limit buy at its price and sends it to the gateway", async () => {
+    const { order, check } = await orders.placeOrder(connection, ticket({ type: "limit", quantity: "100", price: "190" }));
+    expect(check).toMatchObject({ required: "19000", quotedPrice: null, passed: true });
+    expect(order).toMatchObject({ accountId: "SIM001", symbol: "OGDC", type: "limit", price: "190", status: "open" });
+    expect((await orders.listOrders(connection, "SIM001")).map(listed => listed.orderId)).toContain(order.orderId);
+  });
+
+  it("passes sells without a price through the check", async () => {
+    const check = await orders.checkOrder(connection, ticket({ side: "sell" }));
+    expect(check).toMatchObject({ side: "sell", availableAmount: null, passed: true });
+  });
+});
+
+describe("order entry (paper broker)", () => {
+  let orders: typeof import("./orders");
+  let paperConnection: (id: number, userId: number) => Connection;
+
+  beforeAll(async () => {
+    vi.stubEnv("STORAGE_BACKEND", "memory");
+    orders = await import("./orders");
+    const { storage } = await import("./storage");
+    const paper = (await storage.getAllExchanges()).find(exchange => exchange.name === "Paper")!;
+    paperConnection = (id, userId) => ({
+      id, userId, exchangeId: paper.id, brokerId: null, authMethod: "credentials",
+      credentials: { username: "shared-login" }, isActive: true, isDefault: false, lastConnected: null, accountId: null,
+    });
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("keeps a separate account per connection, even for the same login", async () => {
+    const mine = paperConnection(101, 1);
+    const theirs = paperConnection(102, 2);
+    const { order } = await orders.placeOrder(mine, {
+      accountId: "PAPER-SHARED-LOGIN", symbol: "OGDC", side: "buy", type: "limit", quantity: "1", price: "1", validity: "gtc",
+    });
+
+    expect((await orders.listOrders(mine)).map(listed => listed.orderId)).toContain(order.orderId);
+    expect(await orders.listOrders(theirs)).toEqual([]);
+    await expect(orders.cancelOrder(theirs, order.orderId)).rejects.toMatchObject({ reason: "not_found" });
+  });
+});
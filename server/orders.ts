@@ -0,0 +1,176 @@
+// Order entry (POST/PATCH/DELETE /api/connections/:id/orders).
+//
+// Orders go through the connection's broker order client. Buys are checked
+// first against the available amount the broker reports for the account
+// (GetExposureDynamic for AKD): a new order needs quantity times price, a
+// modification the increase in the order's remaining value. Market buys are
+// priced at the broker's last price, never at a price sent by the client, and
+// are refused when the broker has none. Sells do not draw on the available
+// amount and are passed through.
+import type { Connection } from "@shared/schema";
+import { compareDecimal, multiplyDecimal, subtractDecimal, type Decimal } from "@shared/decimal";
+import type { OrderSide } from "@shared/models";
+import {
+  isWorkingOrder,
+  type OrderActionResult,
+  type OrderModification,
+  type OrderTicket,
+  type PlacedOrder,
+  type PreTradeCheck,
+} from "@shared/orders";
+import { connectionCredentials, resolveBrokerAdapter, BrokerOrderError, type BrokerCredentials, type BrokerOrderClient } from "./brokers";
+import { createLogger } from "./logger";
+
+const log = createLogger("orders");
+
+export class OrderError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: "unsupported" | "invalid" | "insufficient_funds" | "not_found" | "rejected" | "auth" | "broker",
+    public readonly check: PreTradeCheck | null = null,
+  ) {
+    super(message);
+    this.name = "OrderError";
+  }
+}
+
+interface OrderSession {
+  client: BrokerOrderClient;
+  credentials: BrokerCredentials;
+  broker: string;
+}
+
+async function openSession(connection: Connection): Promise<OrderSession> {
+  const adapter = await resolveBrokerAdapter(connection.exchangeId, connection.brokerId);
+  if (!adapter.capabilities.trading || !adapter.orderClient) {
+    throw new OrderError(`${adapter.name} does not support order entry`, "unsupported");
+  }
+  return { client: adapter.orderClient, credentials: connectionCredentials(connection), broker: adapter.name };
+}
+
+/** Runs a broker call, turning its errors into OrderErrors */
+async function brokerCall<T>(session: OrderSession, call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    if (error instanceof OrderError) throw error;
+    if (error instanceof BrokerOrderError) {
+      const reason = error.reason === "unavailable" ? "broker" : error.reason;
+      throw new OrderError(error.reason === "auth" ? "Authentication failed with the broker." : error.message, reason);
+    }
+    log.error("Order client failed", { broker: session.broker, error });
+    throw new OrderError(`${session.broker} order entry failed: ${error instanceof Error ? error.message : String(error)}`, "broker");
+  }
+}
+
+/** Quantity still to fill times price, or null for orders without a price */
+function remainingValue(order: Pick<PlacedOrder, "quantity" | "filledQuantity" | "price">): Decimal | null {
+  return order.price === null ? null : multiplyDecimal(subtractDecimal(order.quantity, order.filledQuantity), order.price);
+}
+
+async function runCheck(
+  session: OrderSession,
+  accountId: string,
+  side: OrderSide,
+  required: Decimal,
+  quotedPrice: Decimal | null = null,
+): Promise<PreTradeCheck> {
+  const base = { accountId, side, required, quotedPrice };
+  if (side === "sell") {
+    return { ...base, availableAmount: null, currency: null, passed: true, message: "Sell orders do not use the available amount." };
+  }
+
+  const margin = await brokerCall(session, () => session.client.getMargin(session.credentials, accountId));
+  const availableAmount = margin?.availableAmount ?? null;
+  const currency = margin?.currency ?? null;
+  if (availableAmount === null) {
+    return { ...base, availableAmount, currency, passed: false, message: `${session.broker} did not report an available amount for ${accountId}.` };
+  }
+  const passed = compareDecimal(availableAmount, required) >= 0;
+  return {
+    ...base,
+    availableAmount,
+    currency,
+    passed,
+    message: passed
+      ? `Covered by the available amount of ${availableAmount}${currency ? ` ${currency}` : ""}.`
+      : `Needs ${required} but only ${availableAmount}${currency ? ` ${currency}` : ""} is available.`,
+  };
+}
+
+async function checkTicket(session: OrderSession, ticket: OrderTicket): Promise<PreTradeCheck> {
+  if (ticket.side === "sell") return runCheck(session, ticket.accountId, "sell", "0");
+  if (ticket.type === "limit" && ticket.price !== null) {
+    return runCheck(session, ticket.accountId, "buy", multiplyDecimal(ticket.quantity, ticket.price));
+  }
+
+  const last = await brokerCall(session, () => session.client.getQuote(session.credentials, ticket.symbol));
+  if (last === null) {
+    throw new OrderError(
+      `${session.broker} has no price for ${ticket.symbol}, so a market buy cannot be checked against the available amount; use a limit order`,
+      "invalid",
+    );
+  }
+  return runCheck(session, ticket.accountId, "buy", multiplyDecimal(ticket.quantity, last), last);
+}
+
+/** The pre-trade check alone, for the ticket's confirmation step */
+export async function checkOrder(connection: Connection, ticket: OrderTicket): Promise<PreTradeCheck> {
+  return checkTicket(await openSession(connection), ticket);
+}
+
+export async function listOrders(connection: Connection, accountId?: string): Promise<PlacedOrder[]> {
+  const session = await openSession(connection);
+  return brokerCall(session, () => session.client.listOrders(session.credentials, accountId));
+}
+
+export async function placeOrder(connection: Connection, ticket: OrderTicket): Promise<OrderActionResult> {
+  const session = await openSession(connection);
+  const check = await checkTicket(session, ticket);
+  if (!check.passed) {
+    throw new OrderError(`Pre-trade check failed: ${check.message}`, "insufficient_funds", check);
+  }
+
+  const order = await brokerCall(session, () => session.client.placeOrder(session.credentials, ticket));
+  log.info("Placed order", {
+    connectionId: connection.id, orderId: order.orderId, accountId: ticket.accountId, symbol: ticket.symbol,
+    side: ticket.side, type: ticket.type, quantity: ticket.quantity, price: ticket.price, status: order.status,
+  });
+  return { order, check };
+}
+
+export async function modifyOrder(connection: Connection, orderId: string, changes: OrderModification): Promise<OrderActionResult> {
+  const session = await openSession(connection);
+  const current = await brokerCall(session, () => session.client.getOrder(session.credentials, orderId));
+  if (!isWorkingOrder(current)) {
+    throw new OrderError(`Order ${orderId} is ${current.status.replace(/_/g, " ")} and can no longer be changed`, "invalid");
+  }
+  // Without a price the increase in value cannot be checked
+  if (current.type === "market") {
+    throw new OrderError("Market orders cannot be changed; cancel the order instead", "invalid");
+  }
+  const quantity = changes.quantity ?? current.quantity;
+  if (compareDecimal(quantity, current.filledQuantity) <= 0) {
+    throw new OrderError(`The new quantity must be more than the ${current.filledQuantity} already filled`, "invalid");
+  }
+
+  // Limit orders always carry a price
+  const before = remainingValue(current) ?? "0";
+  const after = remainingValue({ quantity, filledQuantity: current.filledQuantity, price: changes.price ?? current.price }) ?? "0";
+  const increase = subtractDecimal(after, before);
+  const check = await runCheck(session, current.accountId, current.side, compareDecimal(increase, "0") > 0 ? increase : "0");
+  if (!check.passed) {
+    throw new OrderError(`Pre-trade check failed: ${check.message}`, "insufficient_funds", check);
+  }
+
+  const order = await brokerCall(session, () => session.client.modifyOrder(session.credentials, orderId, changes));
+  log.info("Modified order", { connectionId: connection.id, orderId, changes, status: order.status });
+  return { order, check };
+}
+
+export async function cancelOrder(connection: Connection, orderId: string): Promise<OrderActionResult> {
+  const session = await openSession(connection);
+  const order = await brokerCall(session, () => session.client.cancelOrder(session.credentials, orderId));
+  log.info("Cancelled order", { connectionId: connection.id, orderId, status: order.status });
+  return { order, check: null };
+}
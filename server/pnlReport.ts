@@ -0,0 +1,163 @@
+// Realized and unrealized P&L report (GET /api/connections/:id/pnl).
+//
+// Fetches the connection's fills and current positions through the adapter's
+// normalized account data and runs them through the lot engine. Fills are
+// fetched from the start of the range up to today, so the open lots, and the
+// unrealized P&L on them, are as of now; realized P&L only counts sales in the
+// requested range.
+import type { Connection } from "@shared/schema";
+import type { DateRange } from "@shared/dates";
+import { defaultDateRange } from "@shared/dates";
+import { addDecimals, sumDecimals, type Decimal } from "@shared/decimal";
+import type { NormalizedAccountData } from "@shared/models";
+import type { LotMethod, LotSelection, PeriodPnl, PnlPeriod, PnlReport, RealizedLot, SymbolPnl } from "@shared/lots";
+import { storage } from "./storage";
+import { connectionCredentials, resolveBrokerAdapter } from "./brokers";
+import { runLotEngine } from "./lotEngine";
+import { dataCurrency } from "./valuations";
+import { createLogger } from "./logger";
+
+const log = createLogger("pnl");
+
+export class PnlReportError extends Error {
+  constructor(message: string, public readonly reason: "unsupported" | "auth" | "broker") {
+    super(message);
+    this.name = "PnlReportError";
+  }
+}
+
+export interface PnlReportOptions {
+  method: LotMethod;
+  period: PnlPeriod;
+  range: DateRange;
+  accountId?: string;
+}
+
+function periodKey(date: string, period: PnlPeriod): string {
+  const year = date.slice(0, 4);
+  if (period === "year") return year;
+  if (period === "quarter") return `${year}-Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3) + 1}`;
+  return date.slice(0, 7);
+}
+
+const total = (values: (Decimal | null)[]) => sumDecimals(values) ?? "0";
+
+function totalsByPeriod(realized: RealizedLot[], period: PnlPeriod): PeriodPnl[] {
+  const groups = new Map<string, RealizedLot[]>();
+  for (const item of realized) {
+    const key = periodKey(item.closedAt, period);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  return Array.from(groups.entries())
+    .map(([key, items]) => ({
+      period: key,
+      proceeds: total(items.map(item => item.proceeds)),
+      cost: total(items.map(item => item.cost)),
+      realizedPnl: total(items.map(item => item.realizedPnl)),
+      commissions: total(items.map(item => item.commission)),
+      trades: new Set(items.map(item => item.sellFillId)).size,
+    }))
+    .sort((a, b) => a.period.localeCompare(b.period));
+}
+
+/** Loads the specific-lot picks of a connection, keyed by sell fill ID */
+export async function loadLotSelections(connectionId: number): Promise<Map<string, LotSelection[]>> {
+  const selections = new Map<string, LotSelection[]>();
+  for (const record of await storage.getLotSelections(connectionId)) {
+    selections.set(record.sellFillId, [
+      ...(selections.get(record.sellFillId) ?? []),
+      { lotId: record.lotId, quantity: record.quantity },
+    ]);
+  }
+  return selections;
+}
+
+/**
+ * Fetches the fills, positions and ledger from `from` up to today, or to the
+ * end of the range when that is later, so the lot engine's open lots are the
+ * current holdings.
+ */
+export async function fetchLotData(connection: Connection, range: DateRange, accountId?: string): Promise<NormalizedAccountData> {
+  const adapter = await resolveBrokerAdapter(connection.exchangeId, connection.brokerId);
+  if (!adapter.getAccountData) {
+    throw new PnlReportError(`${adapter.name} does not provide fills for P&L yet`, "unsupported");
+  }
+
+  const today = defaultDateRange(1).to;
+  const fetchRange = { from: range.from, to: range.to > today ? range.to : today };
+  const data = await adapter.getAccountData(connectionCredentials(connection), { range: fetchRange, accountId });
+  if (data.dataSource === "error_auth") {
+    throw new PnlReportError("Authentication failed with the broker.", "auth");
+  }
+  if (data.dataSource === "error") {
+    throw new PnlReportError(`Could not fetch account data from ${adapter.name}`, "broker");
+  }
+  return data;
+}
+
+export async function buildPnlReport(connection: Connection, options: PnlReportOptions): Promise<PnlReport> {
+  const { method, period, range, accountId } = options;
+  const data = await fetchLotData(connection, range, accountId);
+
+  const result = runLotEngine({
+    fills: data.fills,
+    positions: data.positions,
+    method,
+    selections: method === "specific" ? await loadLotSelections(connection.id) : undefined,
+  });
+  const inRange = (date: string) => date.slice(0, 10) >= range.from && date.slice(0, 10) <= range.to;
+  const realized = result.realized.filter(item => inRange(item.closedAt));
+
+  const symbols = new Map<string, SymbolPnl>();
+  const symbolEntry = (accountId: string, symbol: string) => {
+    const key = `${accountId}\u0000${symbol}`;
+    const entry = symbols.get(key) ?? {
+      accountId,
+      symbol,
+      openQuantity: "0",
+      costBasis: "0",
+      marketValue: null,
+      realizedPnl: "0",
+      unrealizedPnl: null,
+      commissions: "0",
+    };
+    symbols.set(key, entry);
+    return entry;
+  };
+  for (const item of realized) {
+    const entry = symbolEntry(item.accountId, item.symbol);
+    entry.realizedPnl = total([entry.realizedPnl, item.realizedPnl]);
+    entry.commissions = addDecimals(entry.commissions, item.commission);
+  }
+  for (const lot of result.openLots) {
+    const entry = symbolEntry(lot.accountId, lot.symbol);
+    entry.openQuantity = addDecimals(entry.openQuantity, lot.quantity);
+    entry.costBasis = addDecimals(entry.costBasis, lot.cost);
+    entry.marketValue = sumDecimals([entry.marketValue, lot.marketValue]);
+    entry.unrealizedPnl = sumDecimals([entry.unrealizedPnl, lot.unrealizedPnl]);
+  }
+  const symbolList = Array.from(symbols.values())
+    .sort((a, b) => a.symbol.localeCompare(b.symbol) || a.accountId.localeCompare(b.accountId));
+
+  log.debug("Built P&L report", { connectionId: connection.id, method, fills: data.fills.length, realized: realized.length });
+  return {
+    connectionId: connection.id,
+    method,
+    period,
+    range,
+    currency: dataCurrency(data) ?? data.fills.find(fill => fill.currency)?.currency ?? null,
+    generatedAt: data.timestamp,
+    totals: {
+      realizedPnl: total(realized.map(item => item.realizedPnl)),
+      unrealizedPnl: sumDecimals(result.openLots.map(lot => lot.unrealizedPnl)),
+      commissions: total(realized.map(item => item.commission)),
+    },
+    symbols: symbolList,
+    periods: totalsByPeriod(realized, period),
+    realized,
+    openLots: result.openLots,
+    sales: result.sales.filter(sale => inRange(sale.executedAt)),
+    warnings: result.warnings,
+    errors: data.errors,
+  };
+}
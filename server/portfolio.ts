@@ -0,0 +1,237 @@
+// Cross-broker portfolio (GET /api/portfolio).
+//
+// Fetches the current positions and cash of every active connection of a user
+// in parallel. When a live fetch fails, or the broker has no normalized account
+// data, the connection's latest account snapshot is used instead and the entry
+// is marked stale; `asOf` always says when the figures were fetched. Totals are
+// grouped by market type, exchange, currency and symbol, never across currencies.
+// A connection's currency is the one its broker or data reports; the exchange's
+// quote currency is only the fallback.
+// Given a base currency, each connection is converted at the rate of its `asOf`
+// day before the totals are taken.
+import type { AccountSnapshot, Connection } from "@shared/schema";
+import type { NormalizedAccountData, Position } from "@shared/models";
+import { addDecimals, sumDecimals, type Decimal } from "@shared/decimal";
+import {
+  exchangeCurrency,
+  type Portfolio,
+  type PortfolioConnection,
+  type PortfolioSymbolTotal,
+  type PortfolioTotal,
+} from "@shared/portfolio";
+import { storage } from "./storage";
+import { connectionCredentials, fetchCurrentAccountData, resolveBrokerAdapter } from "./brokers";
+import { dataCurrency, recordValuation } from "./valuations";
+import { convertAmount, getFxRates, type FxRateTable } from "./fx";
+import { createLogger } from "./logger";
+
+const log = createLogger("portfolio");
+
+interface ConnectionHoldings {
+  entry: PortfolioConnection;
+  positions: Position[];
+}
+
+function holdingsFrom(
+  base: Omit<PortfolioConnection, "fx" | "status" | "error" | "source" | "asOf" | "positionCount" | "marketValue" | "cash" | "totalValue">,
+  figures: { positions: Position[]; cash: (Decimal | null)[]; currency: string | null; asOf: string; source: "live" | "snapshot" },
+  status: PortfolioConnection["status"],
+  error: string | null,
+): ConnectionHoldings {
+  const marketValue = sumDecimals(figures.positions.map(position => position.marketValue));
+  const cash = sumDecimals(figures.cash);
+  return {
+    entry: {
+      ...base,
+      // The exchange's currency is only a guess for data that names none
+      currency: figures.currency ?? base.currency,
+      fx: null,
+      status,
+      error,
+      source: figures.source,
+      asOf: figures.asOf,
+      positionCount: figures.positions.length,
+      marketValue,
+      cash,
+      totalValue: sumDecimals([marketValue, cash]),
+    },
+    positions: figures.positions,
+  };
+}
+
+function snapshotFigures(snapshot: AccountSnapshot, adapterCurrency: string | null) {
+  return {
+    positions: snapshot.positions,
+    cash: snapshot.balances.map(balance => balance.cash),
+    currency: adapterCurrency ?? [...snapshot.positions, ...snapshot.balances].find(item => item.currency)?.currency ?? null,
+    asOf: snapshot.takenAt,
+    source: "snapshot" as const,
+  };
+}
+
+function liveError(data: NormalizedAccountData): string | null {
+  const messages = [data.errors.positions, data.errors.margin].filter(Boolean);
+  return messages.length > 0 ? Array.from(new Set(messages)).join("; ") : null;
+}
+
+async function loadConnection(connection: Connection): Promise<ConnectionHoldings> {
+  const exchange = await storage.getExchange(connection.exchangeId);
+  const broker = connection.brokerId ? await storage.getBroker(connection.brokerId) : undefined;
+  const base = {
+    connectionId: connection.id,
+    exchange: exchange?.name ?? `Exchange ${connection.exchangeId}`,
+    broker: broker?.name ?? null,
+    marketType: exchange?.marketType ?? "unknown",
+    currency: exchangeCurrency(exchange?.name),
+  };
+
+  let error: string;
+  let unsupported = false;
+  let adapterCurrency: string | null = null;
+  try {
+    const adapter = await resolveBrokerAdapter(connection.exchangeId, connection.brokerId);
+    adapterCurrency = adapter.currency ?? null;
+    const data = await fetchCurrentAccountData(adapter, connectionCredentials(connection));
+    if (!data) {
+      unsupported = true;
+      error = `${adapter.name} does not provide account data yet`;
+    } else if (data.dataSource === "error_auth") {
+      error = "Authentication failed with the broker.";
+    } else if (data.dataSource === "error") {
+      error = liveError(data) ?? `Could not fetch account data from ${adapter.name}`;
+    } else {
+      await recordValuation(connection.id, data);
+      const partialError = liveError(data);
+      return holdingsFrom(base, {
+        positions: data.positions,
+        cash: data.margin.map(summary => summary.cash),
+        currency: adapterCurrency ?? dataCurrency(data),
+        asOf: data.timestamp,
+        source: "live",
+      }, partialError ? "partial" : "ok", partialError);
+    }
+  } catch (fetchError: any) {
+    log.warn("Portfolio fetch failed", { connectionId: connection.id, error: fetchError });
+    error = fetchError?.message || "Failed to fetch account data";
+  }
+
+  const [snapshot] = await storage.getAccountSnapshots(connection.id, { limit: 1 });
+  if (snapshot) {
+    return holdingsFrom(base, snapshotFigures(snapshot, adapterCurrency), "stale", error);
+  }
+  return {
+    entry: {
+      ...base,
+      currency: adapterCurrency ?? base.currency,
+      fx: null,
+      status: unsupported ? "unsupported" : "failed",
+      error,
+      source: null,
+      asOf: null,
+      positionCount: 0,
+      marketValue: null,
+      cash: null,
+      totalValue: null,
+    },
+    positions: [],
+  };
+}
+
+/** Converts a connection's figures into `base`; null when there is no rate */
+function convertHoldings(holdings: ConnectionHoldings, base: string, rates: FxRateTable): ConnectionHoldings | null {
+  const { entry, positions } = holdings;
+  if (!entry.currency) return null;
+  const fx = rates.rate(entry.currency, base, (entry.asOf ?? new Date().toISOString()).slice(0, 10));
+  if (!fx) return null;
+  return {
+    entry: {
+      ...entry,
+      currency: base,
+      fx,
+      marketValue: convertAmount(entry.marketValue, fx),
+      cash: convertAmount(entry.cash, fx),
+      totalValue: convertAmount(entry.totalValue, fx),
+    },
+    positions: positions.map(position => ({
+      ...position,
+      currency: base,
+      marketValue: convertAmount(position.marketValue, fx),
+      unrealizedPnl: convertAmount(position.unrealizedPnl, fx),
+    })),
+  };
+}
+
+/** Groups connections by `keyOf` and currency */
+function totalsBy(entries: PortfolioConnection[], keyOf: (entry: PortfolioConnection) => string): PortfolioTotal[] {
+  const groups = new Map<string, PortfolioConnection[]>();
+  for (const entry of entries) {
+    if (entry.source === null) continue;
+    const groupKey = `${keyOf(entry)}\u0000${entry.currency ?? ""}`;
+    groups.set(groupKey, [...(groups.get(groupKey) ?? []), entry]);
+  }
+  return Array.from(groups.values())
+    .map(group => ({
+      key: keyOf(group[0]),
+      currency: group[0].currency,
+      connectionIds: group.map(entry => entry.connectionId),
+      marketValue: sumDecimals(group.map(entry => entry.marketValue)),
+      cash: sumDecimals(group.map(entry => entry.cash)),
+      totalValue: sumDecimals(group.map(entry => entry.totalValue)),
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key) || (a.currency ?? "").localeCompare(b.currency ?? ""));
+}
+
+function totalsBySymbol(holdings: ConnectionHoldings[]): PortfolioSymbolTotal[] {
+  const groups = new Map<string, PortfolioSymbolTotal>();
+  for (const { entry, positions } of holdings) {
+    for (const position of positions) {
+      const groupKey = `${entry.exchange}\u0000${position.symbol}`;
+      const total = groups.get(groupKey) ?? {
+        symbol: position.symbol,
+        exchange: entry.exchange,
+        currency: entry.currency,
+        connectionIds: [],
+        quantity: "0",
+        marketValue: null,
+        unrealizedPnl: null,
+      };
+      if (!total.connectionIds.includes(entry.connectionId)) total.connectionIds.push(entry.connectionId);
+      total.quantity = addDecimals(total.quantity, position.quantity);
+      total.marketValue = sumDecimals([total.marketValue, position.marketValue]);
+      total.unrealizedPnl = sumDecimals([total.unrealizedPnl, position.unrealizedPnl]);
+      groups.set(groupKey, total);
+    }
+  }
+  return Array.from(groups.values())
+    .sort((a, b) => a.symbol.localeCompare(b.symbol) || a.exchange.localeCompare(b.exchange));
+}
+
+export async function buildPortfolio(userId: number, baseCurrency: string | null = null): Promise<Portfolio> {
+  const connections = (await storage.getConnectionsByUserId(userId)).filter(connection => connection.isActive);
+  let holdings = await Promise.all(connections.map(loadConnection));
+
+  const fxMissing = new Set<string>();
+  if (baseCurrency) {
+    const rates = await getFxRates();
+    holdings = holdings.map(holding => {
+      if (holding.entry.source === null) return holding;
+      const converted = convertHoldings(holding, baseCurrency, rates);
+      if (!converted) fxMissing.add(holding.entry.currency ?? "Unknown");
+      return converted ?? holding;
+    });
+  }
+  const entries = holdings.map(holding => holding.entry);
+  const converted = entries.filter(entry => entry.fx);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    baseCurrency,
+    total: baseCurrency ? totalsBy(converted, () => "All connections")[0] ?? null : null,
+    fxMissing: Array.from(fxMissing).sort(),
+    connections: entries,
+    byMarketType: totalsBy(entries, entry => entry.marketType),
+    byExchange: totalsBy(entries, entry => entry.exchange),
+    byCurrency: totalsBy(entries, entry => entry.fx?.from ?? entry.currency ?? "Unknown"),
+    bySymbol: totalsBySymbol(holdings),
+  };
+}
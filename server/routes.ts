@@ -2,126 +2,129 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
-import { connectionRequestSchema, connectionTestSchema, ConnectionTest, Connection } from "@shared/schema";
+import { decryptCredentials } from "./credentialVault";
+import { toConnectionView } from "./connectionView";
+import {
+  connectionRequestSchema,
+  connectionTestSchema,
+  dateRangeQuerySchema,
+  lotSelectionRequestSchema,
+  orderModificationSchema,
+  orderTicketSchema,
+  Connection,
+  type AuthMethod,
+} from "@shared/schema";
+import { defaultDateRange, type DateRange } from "@shared/dates";
+import { LOT_METHODS, PNL_PERIODS } from "@shared/lots";
+import { NATIVE_CURRENCY, type FxCurrencies } from "@shared/fx";
+import { taxYearOf, type TaxProfileList } from "@shared/tax";
+import { EXPORT_FORMATS, EXPORT_SECTIONS, type ExportSection } from "@shared/exports";
+import { exchangeCurrency } from "@shared/portfolio";
+import { ACCOUNT_DATA_SECTIONS, type AccountDataSection } from "@shared/models";
 import { z } from "zod";
 // Removed unused crypto imports: import { scrypt, createHash } from 'crypto';
 // Removed unused axios import: import axios from 'axios';
-import { testConnection as testAKDAPI, getAllAccountDetails as getAKDDetails, AllAccountDetails, FetchResult } from './brokers/akdApiClient'; // Import types
-
-// Connection test implementation functions
-async function testAKDConnection(credentials: Record<string, string>): Promise<boolean> {
-  // Validate required credentials for AKD
-  // AKD testConnection likely only needs username based on your client implementation
-  if (!credentials.username) {
-    console.error('AKD test connection error: Missing username');
-    throw new Error('Missing required credentials for AKD: username is required');
-  }
-
-  try {
-    console.log(`Attempting to test connect to AKD using username: ${credentials.username}`);
-
-    // Use the imported testConnection function from the AKD API client
-    // Pass password even if not strictly used by testConnection, for consistency
-    const connectionResult = await testAKDAPI(credentials.username, credentials.password);
-
-    if (connectionResult) {
-      console.log(`AKD test connection successful for username: ${credentials.username}`);
-      return true;
-    }
-
-    console.warn(`AKD test connection failed for username: ${credentials.username}`);
-    throw new Error('Connection failed. Please verify your credentials.');
-  } catch (error: any) {
-    console.error('AKD connection test error:', error);
-    throw new Error(`AKD API connection failed: ${error.message}`);
-  }
+import {
+  connectionCredentials,
+  resolveBrokerAdapter,
+  fetchAccountDetails,
+  getCredentialSchema,
+  validateCredentials,
+  CredentialValidationError,
+} from "./brokers";
+import { SnapshotError, takeAccountSnapshot, toSnapshotSummary } from "./accountSnapshots";
+import { convertValuationPoints, recordValuation, refreshValuationInBackground } from "./valuations";
+import { buildPortfolio } from "./portfolio";
+import { buildPnlReport, PnlReportError } from "./pnlReport";
+import { getTaxProfile, getTaxProfiles } from "./tax/profiles";
+import { buildTaxReport } from "./tax/taxReport";
+import { taxReportCsv, taxReportHtml } from "./tax/render";
+import { buildSectionExport, ExportError, sectionExportCsv, sectionExportXlsx } from "./exports/tableExport";
+import { cancelOrder, checkOrder, listOrders, modifyOrder, OrderError, placeOrder } from "./orders";
+import { getFxProvider, getFxRates } from "./fx";
+import { attachLiveUpdates, publishConnection, publishConnectionRemoved, refreshLiveFeeds } from "./liveUpdates";
+import { createLogger } from "./logger";
+
+const log = createLogger("routes");
+
+// Parses optional ?from=YYYY-MM-DD&to=YYYY-MM-DD; throws ZodError when invalid
+function parseDateRangeQuery(query: unknown): DateRange | undefined {
+  const { from, to } = dateRangeQuerySchema.parse(query);
+  return from && to ? { from, to } : undefined;
 }
 
-async function testMKKConnection(credentials: Record<string, string>): Promise<boolean> {
-  // Validate required credentials for MKK
-  if (!credentials.accountId || !credentials.password) {
-    throw new Error('Missing required credentials for MKK: accountId and password are required');
-  }
-
-  // Simulate MKK authentication - in production this would call their actual API
-  if (credentials.accountId.startsWith('MKK') && credentials.password.length >= 6) {
-    // Simulate successful connection
-    return true;
-  }
-
-  throw new Error('Invalid credentials for MKK. Please check your account ID and password.');
+// Parses optional ?account=<code>; "all" (or nothing) selects every account
+function parseAccountQuery(query: Record<string, unknown>): string | undefined {
+  const account = typeof query.account === "string" ? query.account.trim() : "";
+  return account && account !== "all" ? account : undefined;
 }
 
-async function testZerodhaConnection(credentials: Record<string, string>): Promise<boolean> {
-  // Validate required credentials for Zerodha
-  if (credentials.authMethod === 'api') {
-    if (!credentials.apiKey || !credentials.apiSecret) {
-      throw new Error('Missing required API credentials for Zerodha: apiKey and apiSecret are required');
-    }
-
-    // Simulate API key validation
-    if (credentials.apiKey.length >= 8 && credentials.apiSecret.length >= 8) {
-      return true;
-    }
-  } else {
-    if (!credentials.userId || !credentials.password || !credentials.pin) {
-      throw new Error('Missing required credentials for Zerodha: userId, password, and pin are required');
-    }
-
-    // Simulate credential validation
-    if (credentials.userId.length >= 6 && credentials.password.length >= 6) {
-      return true;
-    }
-  }
+// Parses optional ?base=<currency>; "native" (or nothing) keeps each connection's own currency
+const baseCurrencySchema = z.union([
+  z.literal(NATIVE_CURRENCY),
+  z.string().regex(/^[A-Za-z][A-Za-z0-9]{1,9}$/, "Invalid currency code"),
+]).optional();
 
-  throw new Error('Invalid credentials for Zerodha. Authentication failed.');
+function parseBaseCurrency(query: Record<string, unknown>): string | null {
+  const base = baseCurrencySchema.parse(query.base);
+  return base && base !== NATIVE_CURRENCY ? base.toUpperCase() : null;
 }
 
-async function testBinanceConnection(credentials: Record<string, string>): Promise<boolean> {
-  // Validate required API credentials for Binance
-  if (!credentials.apiKey || !credentials.apiSecret) {
-    throw new Error('Missing required API credentials for Binance: apiKey and apiSecret are required');
-  }
-
-  // Simulate API key validation with Binance
-  // In production, this would make an authenticated request to Binance API
-  if (credentials.apiKey.length >= 8 && credentials.apiSecret.length >= 8) {
-    try {
-      // Simulate API call with an artificial delay
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // For demo, consider specific credentials valid and others invalid
-      if (credentials.apiKey.startsWith('DEMO')) {
-        return true;
-      }
-
-      throw new Error('Invalid API key format');
-    } catch (error: any) {
-      throw new Error(`Binance API connection failed: ${error.message}`);
-    }
-  }
-
-  throw new Error('Invalid API credentials for Binance. Keys too short or malformed.');
+// P&L report query: lot method and period granularity, plus the usual from/to (default: the last year)
+const pnlQuerySchema = z.object({
+  method: z.enum(LOT_METHODS).default("fifo"),
+  period: z.enum(PNL_PERIODS).default("month"),
+});
+
+// Tax report query: tax year (default: the current one), profile ID (default: the first) and output format
+const taxReportQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+  profile: z.string().optional(),
+  format: z.enum(["json", "csv", "html"]).default("json"),
+});
+
+// Table export query: file format and the columns to keep (repeat ?columns= per column; all when absent)
+const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+  columns: z.union([z.string(), z.array(z.string())]).optional()
+    .transform(columns => (columns === undefined ? [] : Array.isArray(columns) ? columns : [columns])),
+});
+
+// Order entry failures; a failed pre-trade check comes back with the check
+const ORDER_ERROR_STATUS: Record<OrderError["reason"], number> = {
+  unsupported: 400,
+  invalid: 400,
+  insufficient_funds: 422,
+  not_found: 404,
+  rejected: 422,
+  auth: 401,
+  broker: 502,
+};
+
+// Snapshot history query: optional from/to dates (UTC days) and a row limit
+const snapshotLimitSchema = z.coerce.number().int().min(1).max(1000).default(200);
+
+function parseSnapshotQuery(query: Record<string, unknown>) {
+  const range = parseDateRangeQuery(query);
+  return {
+    from: range ? `${range.from}T00:00:00.000Z` : undefined,
+    to: range ? `${range.to}T23:59:59.999Z` : undefined,
+    limit: snapshotLimitSchema.parse(query.limit),
+  };
 }
 
-async function testGenericConnection(connectionData: ConnectionTest): Promise<boolean> {
-  // Generic test for other connections not specifically implemented
-  // In a real application, this would attempt to connect based on the exchange/broker type
-
-  // For demo purposes, just validate that credentials exist
-  const { credentials } = connectionData;
-
-  if (Object.keys(credentials).length === 0) {
-    throw new Error('No credentials provided for connection test');
+// Stores the broker's primary account on the connection once it has been discovered
+async function rememberAccountId(connection: Connection, accounts: string[] | undefined) {
+  const primaryAccount = accounts?.[0];
+  if (primaryAccount && connection.accountId !== primaryAccount) {
+    log.info('Setting accountId on connection', { connectionId: connection.id, accountId: primaryAccount });
+    publishConnection(await storage.updateConnection(connection.id, { accountId: primaryAccount }));
   }
-
-  // Simulate successful generic connection if there are credentials
-  return true;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
 
   // Exchange and broker routes
   app.get("/api/exchanges", async (req, res, next) => {
@@ -156,6 +159,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Credential fields required by a broker, per auth method
+  app.get("/api/brokers/:id/credential-schema", async (req, res, next) => {
+    try {
+      const brokerId = parseInt(req.params.id);
+      if (isNaN(brokerId)) {
+           return res.status(400).json({ message: "Invalid broker ID" });
+      }
+      const broker = await storage.getBroker(brokerId);
+      if (!broker || !broker.exchangeId) {
+        return res.status(404).json({ message: "Broker not found" });
+      }
+      res.json(await getCredentialSchema(broker.exchangeId, broker.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Credential fields for a direct exchange connection (no broker)
+  app.get("/api/exchanges/:id/credential-schema", async (req, res, next) => {
+    try {
+      const exchangeId = parseInt(req.params.id);
+      if (isNaN(exchangeId)) {
+           return res.status(400).json({ message: "Invalid exchange ID" });
+      }
+      const exchange = await storage.getExchange(exchangeId);
+      if (!exchange) {
+        return res.status(404).json({ message: "Exchange not found" });
+      }
+      res.json(await getCredentialSchema(exchange.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Connection routes
   app.post("/api/connections", async (req, res, next) => {
     if (!req.isAuthenticated()) {
@@ -163,12 +200,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     // Ensure req.user is defined after authentication middleware
     if (!req.user || !req.user.id) {
-        console.error('Authentication error: req.user or req.user.id is undefined');
+        log.error('Authentication error: req.user or req.user.id is undefined');
         return res.status(500).json({ message: "Authentication error" });
     }
 
     try {
       const validatedData = connectionRequestSchema.parse(req.body);
+      const adapter = await resolveBrokerAdapter(validatedData.exchangeId, validatedData.brokerId);
+      validatedData.credentials = validateCredentials(adapter, validatedData.authMethod, validatedData.credentials);
 
       // Check if this connection already exists for the user
       const userConnections = await storage.getConnectionsByUserId(req.user!.id);
@@ -181,7 +220,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (existingConnection) {
         // Update existing connection instead of creating a new one
-        console.log(`Updating existing connection with ID ${existingConnection.id} for user ${req.user!.id}`);
+        log.info('Updating existing connection', { connectionId: existingConnection.id, userId: req.user!.id });
         connection = await storage.updateConnection(existingConnection.id, {
           authMethod: validatedData.authMethod,
           credentials: validatedData.credentials,
@@ -190,7 +229,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       } else {
         // Create new connection
-        console.log(`Creating new connection for user ${req.user!.id}`);
+        log.info('Creating new connection', { userId: req.user!.id });
         connection = await storage.createConnection({
           userId: req.user!.id,
           exchangeId: validatedData.exchangeId,
@@ -203,15 +242,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      res.status(201).json(connection);
+      if (!connection) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+      publishConnection(connection);
+      res.status(201).json(toConnectionView(connection));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        console.error("Connection validation error:", error.errors);
+        log.warn('Connection validation error', { issues: error.errors });
         return res.status(400).json({
           message: "Invalid connection data",
           errors: error.errors
         });
       }
+      if (error instanceof CredentialValidationError) {
+        return res.status(400).json({ message: error.message, errors: error.fieldErrors });
+      }
       next(error);
     }
   });
@@ -221,13 +267,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ message: "Unauthorized" });
     }
     if (!req.user || !req.user.id) {
-        console.error('Authentication error: req.user or req.user.id is undefined');
+        log.error('Authentication error: req.user or req.user.id is undefined');
         return res.status(500).json({ message: "Authentication error" });
     }
 
     try {
       const connections = await storage.getConnectionsByUserId(req.user!.id);
-      res.json(connections);
+      res.json(connections.map(toConnectionView));
     } catch (error) {
       next(error);
     }
@@ -238,7 +284,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ message: "Unauthorized" });
     }
     if (!req.user || !req.user.id) {
-        console.error('Authentication error: req.user or req.user.id is undefined');
+        log.error('Authentication error: req.user or req.user.id is undefined');
         return res.status(500).json({ message: "Authentication error" });
     }
 
@@ -254,7 +300,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Connection not found" });
       }
 
-      res.json(connection);
+      res.json(toConnectionView(connection));
     } catch (error) {
       next(error);
     }
@@ -265,7 +311,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ message: "Unauthorized" });
     }
      if (!req.user || !req.user.id) {
-         console.error('Authentication error: req.user or req.user.id is undefined');
+         log.error('Authentication error: req.user or req.user.id is undefined');
          return res.status(500).json({ message: "Authentication error" });
      }
 
@@ -282,6 +328,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.deleteConnection(id);
+      publishConnectionRemoved(connection);
       res.sendStatus(204);
     } catch (error) {
       next(error);
@@ -294,7 +341,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ message: "Unauthorized" });
     }
     if (!req.user || !req.user.id) {
-        console.error('Authentication error: req.user or req.user.id is undefined');
+        log.error('Authentication error: req.user or req.user.id is undefined');
         return res.status(500).json({ message: "Authentication error" });
     }
 
@@ -313,11 +360,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update only allowed fields
       const updates: Partial<Connection> = {};
 
-      // Basic validation for credentials if provided
+      // Credentials are sent as a partial update: only the fields the user changed.
+      // Merge them over the stored values so untouched secrets are preserved.
       if (req.body.credentials && typeof req.body.credentials === 'object') {
-        updates.credentials = req.body.credentials;
-         // Update lastConnected timestamp if credentials were changed
-         updates.lastConnected = new Date().toISOString();
+        const changedCredentials: Record<string, string> = {};
+        for (const [key, value] of Object.entries(req.body.credentials)) {
+          if (typeof value === 'string') {
+            changedCredentials[key] = value;
+          }
+        }
+
+        if (Object.keys(changedCredentials).length > 0) {
+          const adapter = await resolveBrokerAdapter(connection.exchangeId, connection.brokerId);
+          updates.credentials = validateCredentials(adapter, connection.authMethod as AuthMethod, {
+            ...decryptCredentials(connection.credentials),
+            ...changedCredentials,
+          });
+          // Update lastConnected timestamp if credentials were changed
+          updates.lastConnected = new Date().toISOString();
+        }
       }
 
       // Note: accountId is usually derived, not directly updated by user
@@ -341,7 +402,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             if (conn.id !== id && conn.isDefault &&
                 ((conn.exchangeId === connection.exchangeId) ||
                  (conn.brokerId && conn.brokerId === connection.brokerId))) {
-              await storage.updateConnection(conn.id, { isDefault: false });
+              publishConnection(await storage.updateConnection(conn.id, { isDefault: false }));
             }
           }
         }
@@ -352,9 +413,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedConnection = await storage.updateConnection(id, updates);
+      if (!updatedConnection) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
 
-      res.status(200).json(updatedConnection);
+      publishConnection(updatedConnection);
+      if (updates.credentials) {
+        refreshLiveFeeds(id);
+      }
+      res.status(200).json(toConnectionView(updatedConnection));
     } catch (error) {
+      if (error instanceof CredentialValidationError) {
+        return res.status(400).json({ message: error.message, errors: error.fieldErrors });
+      }
       next(error);
     }
   });
@@ -365,7 +436,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ message: "Unauthorized" });
     }
     if (!req.user || !req.user.id) {
-        console.error('Authentication error: req.user or req.user.id is undefined');
+        log.error('Authentication error: req.user or req.user.id is undefined');
         return res.status(500).json({ message: "Authentication error" });
     }
 
@@ -389,17 +460,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (conn.id !== id && conn.isDefault &&
             ((conn.exchangeId === connection.exchangeId) ||
              (conn.brokerId && conn.brokerId === connection.brokerId))) {
-          await storage.updateConnection(conn.id, { isDefault: false });
+          publishConnection(await storage.updateConnection(conn.id, { isDefault: false }));
         }
       }
 
       // Then set this connection as default
       const updatedConnection = await storage.updateConnection(id, { isDefault: true });
+      if (!updatedConnection) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
 
-      console.log(`Set connection ${id} as default for user ${req.user!.id}`);
-      res.status(200).json(updatedConnection);
+      publishConnection(updatedConnection);
+      log.info('Set connection as default', { connectionId: id, userId: req.user!.id });
+      res.status(200).json(toConnectionView(updatedConnection));
     } catch (error) {
-      console.error('Error setting default connection:', error);
+      log.error('Error setting default connection', { error });
       next(error);
     }
   });
@@ -413,35 +488,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const connectionData = connectionTestSchema.parse(req.body);
 
-      // Get broker and exchange details
-      const exchange = await storage.getExchange(connectionData.exchangeId);
-      let broker = null;
-
-      if (connectionData.brokerId) {
-        broker = await storage.getBroker(connectionData.brokerId);
-      }
-
-      // Test the connection based on broker/exchange
+      // Ask the broker/exchange adapter to verify the credentials
+      const adapter = await resolveBrokerAdapter(connectionData.exchangeId, connectionData.brokerId);
+      const credentials = validateCredentials(adapter, connectionData.authMethod, connectionData.credentials);
       let testResult = false;
       let errorMessage = null;
 
       try {
-        // Use broker?.name for safer access
-        if (broker?.name === 'AKD') {
-          testResult = await testAKDConnection(connectionData.credentials);
-        } else if (broker?.name === 'MKK') {
-          testResult = await testMKKConnection(connectionData.credentials);
-        } else if (broker?.name === 'Zerodha') {
-          testResult = await testZerodhaConnection(connectionData.credentials);
-        } else if (exchange?.name === 'Binance') { // Check exchange if broker is null
-          testResult = await testBinanceConnection(connectionData.credentials);
-        } else {
-          // Generic test for other connections
-          console.log(`Performing generic connection test for exchangeId: ${connectionData.exchangeId}, brokerId: ${connectionData.brokerId}`);
-          testResult = await testGenericConnection(connectionData);
-        }
+        log.info(`Testing connection via ${adapter.name} adapter`, { exchangeId: connectionData.exchangeId, brokerId: connectionData.brokerId });
+        testResult = await adapter.testConnection(credentials, connectionData.authMethod);
       } catch (testError: any) {
-        console.error('Connection test error:', testError);
+        log.warn('Connection test error', { error: testError });
         errorMessage = testError.message;
       }
 
@@ -455,12 +512,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     } catch (error) {
       if (error instanceof z.ZodError) {
-        console.error("Connection test validation error:", error.errors);
+        log.warn('Connection test validation error', { issues: error.errors });
         return res.status(400).json({
           message: "Invalid connection test data",
           errors: error.errors
         });
       }
+      if (error instanceof CredentialValidationError) {
+        return res.status(400).json({ success: false, message: error.message, errors: error.fieldErrors });
+      }
       next(error);
     }
   });
@@ -471,7 +531,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ message: "Unauthorized" });
     }
     if (!req.user || !req.user.id) {
-        console.error('Authentication error: req.user or req.user.id is undefined');
+        log.error('Authentication error: req.user or req.user.id is undefined');
         return res.status(500).json({ message: "Authentication error" });
     }
 
@@ -487,33 +547,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Connection not found" });
       }
 
-      // Get broker details
-      const exchange = await storage.getExchange(connection.exchangeId);
-      let broker = null;
-      if (connection.brokerId) {
-        broker = await storage.getBroker(connection.brokerId);
-      }
-
-      let accountDetails: AllAccountDetails | object; // Use specific type or generic object
-
-      // Based on broker, fetch the appropriate account details
-      if (broker?.name === 'AKD') {
-        accountDetails = await getAKDAccountDetails(connection); // Pass the full connection object
-      } else if (broker?.name === 'MKK') {
-        accountDetails = { message: "MKK account details not yet implemented" };
-      } else if (broker?.name === 'Zerodha') {
-        accountDetails = { message: "Zerodha account details not yet implemented" };
-      } else if (exchange?.name === 'Binance') { // Check exchange if broker is null
-        accountDetails = { message: "Binance account details not yet implemented" };
-      } else {
-        accountDetails = { message: "Account details not available for this connection type" };
+      // Ask the adapter for every section it supports
+      const range = parseDateRangeQuery(req.query);
+      const accountId = parseAccountQuery(req.query);
+      const adapter = await resolveBrokerAdapter(connection.exchangeId, connection.brokerId);
+      const details = await fetchAccountDetails(adapter, connectionCredentials(connection), { range, accountId });
+      if (!details) {
+        return res.json({ message: `${adapter.name} account details not yet implemented` });
+      }
+
+      await rememberAccountId(connection, details.accounts);
+      if (accountId && details.accounts && !details.accounts.includes(accountId)) {
+        return res.status(404).json({ message: `Account ${accountId} not found for this connection`, accounts: details.accounts });
       }
+      refreshValuationInBackground(connection, details);
 
       // Send back the details
-      res.json(accountDetails);
+      res.json(details);
 
     } catch (error: any) { // Catch specific errors if possible
-      console.error(`Error fetching account details for connection ${req.params.connectionId}:`, error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      log.error('Error fetching account details', { connectionId: req.params.connectionId, error });
        // Check if the error came from our AKD client and indicates auth failure
        if (error.message && /auth failed/i.test(error.message)) {
            return res.status(401).json({ message: "Authentication failed with the broker." });
@@ -523,161 +579,723 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ************************************************
-  // ****** NEW ROUTE: Fetch Account Logs **********
-  // ************************************************
-  app.get("/api/account-logs/:connectionId", async (req, res, next) => {
-    console.log(`Received request for /api/account-logs/${req.params.connectionId}`); // Log request entry
+  // Normalized account data (shared/models.ts), served alongside the legacy tables
+  app.get("/api/account-data/:connectionId/:section?", async (req, res, next) => {
     if (!req.isAuthenticated()) {
-      console.log("Log request failed: User not authenticated");
       return res.status(401).json({ message: "Unauthorized" });
     }
     if (!req.user || !req.user.id) {
-      console.error('Authentication error in /api/account-logs: req.user or req.user.id is undefined');
-      return res.status(500).json({ message: "Authentication error" });
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
     }
 
     try {
       const connectionId = parseInt(req.params.connectionId);
       if (isNaN(connectionId)) {
-        console.log(`Log request failed: Invalid connection ID ${req.params.connectionId}`);
-        return res.status(400).json({ message: "Invalid connection ID" });
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const section = req.params.section as AccountDataSection | undefined;
+      if (section && !ACCOUNT_DATA_SECTIONS.includes(section)) {
+        return res.status(400).json({ message: `Unknown section '${section}'. Expected one of: ${ACCOUNT_DATA_SECTIONS.join(', ')}` });
       }
-      console.log(`Fetching connection ${connectionId} for logs request.`);
       const connection = await storage.getConnection(connectionId);
 
       // Check if connection belongs to current user
       if (!connection || connection.userId !== req.user!.id) {
-        console.log(`Log request failed: Connection ${connectionId} not found or doesn't belong to user ${req.user.id}`);
         return res.status(404).json({ message: "Connection not found" });
       }
 
-      // Get broker details to determine the type
-      let broker = null;
-      if (connection.brokerId) {
-        broker = await storage.getBroker(connection.brokerId);
-      }
-
-      // Check if it's an AKD connection
-      if (broker?.name === 'AKD') {
-        console.log(`Connection ${connectionId} identified as AKD. Fetching logs...`);
-        // Fetch ALL details using the existing function (which includes logs)
-        // We pass the full connection object which contains credentials
-        const allDetails = await getAKDAccountDetails(connection);
-
-        // Check if fetching failed (indicated by dataSource or error property)
-         if (allDetails.dataSource?.startsWith('error') || (allDetails as any).error) {
-             const errorMessage = (allDetails as any).error || "Failed to fetch log data from AKD";
-             console.error(`Failed to fetch AKD logs for connection ${connectionId}:`, errorMessage);
-             const status = allDetails.dataSource === 'error_auth' ? 401 : 500;
-             return res.status(status).json({
-                 error: errorMessage,
-                 // Optionally include minimal log structure with error message
-                 tradeLogs: { headers: ["Error"], data: [[errorMessage]], error: errorMessage },
-                 activityLogs: { headers: ["Error"], data: [[errorMessage]], error: errorMessage },
-                 outstandingLogs: { headers: ["Error"], data: [[errorMessage]], error: errorMessage }
-             });
-         }
-
-
-        // Extract only the log data for the response
-        const logData = {
-          tradeLogs: allDetails.tradeLogs,
-          activityLogs: allDetails.activityLogs,
-          outstandingLogs: allDetails.outstandingLogs
-        };
-
-        console.log(`Successfully fetched AKD logs for connection ${connectionId}. Returning log data.`);
-        // Return JUST the log data as JSON
-        res.json(logData);
+      const adapter = await resolveBrokerAdapter(connection.exchangeId, connection.brokerId);
+      if (!adapter.getAccountData) {
+        return res.status(400).json({ message: `${adapter.name} does not provide normalized account data yet` });
+      }
 
-      } else {
-        // Handle other broker types or connections without a broker
-        const brokerName = broker?.name || 'Unknown Broker';
-        console.log(`Log request for connection ${connectionId}: Broker type '${brokerName}' not supported for logs.`);
-        res.status(400).json({ message: `Log fetching not implemented for ${brokerName}` });
+      const range = parseDateRangeQuery(req.query);
+      const accountId = parseAccountQuery(req.query);
+      const accountData = await adapter.getAccountData(connectionCredentials(connection), { range, accountId });
+      if (accountData.dataSource === 'error_auth') {
+        return res.status(401).json({ message: "Authentication failed with the broker.", errors: accountData.errors });
+      }
+      const accountIds = accountData.accounts.map(account => account.accountId);
+      await rememberAccountId(connection, accountIds);
+      await recordValuation(connection.id, accountData);
+      if (accountId && !accountIds.includes(accountId)) {
+        return res.status(404).json({ message: `Account ${accountId} not found for this connection`, accounts: accountIds });
       }
 
+      if (!section) {
+        return res.json(accountData);
+      }
+      res.json({
+        [section]: accountData[section],
+        error: accountData.errors[section],
+        timestamp: accountData.timestamp,
+        dataSource: accountData.dataSource,
+        range: accountData.range,
+      });
     } catch (error: any) {
-      console.error(`Error fetching account logs for connection ${req.params.connectionId}:`, error);
-      // Check if the error came from AKD client and indicates auth failure
-      if (error.message && /auth failed/i.test(error.message)) {
-          return res.status(401).json({ error: "Authentication failed with the broker when fetching logs." });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
       }
-      // Avoid sending detailed internal errors to client
-      next(new Error("Failed to fetch account logs due to an internal error.")); // Use Express error handling
+      log.error('Error fetching account data', { connectionId: req.params.connectionId, error });
+      next(new Error("Failed to fetch account data due to an internal error."));
     }
   });
-  // ************************************************
-  // ****** END NEW ROUTE ***************************
-  // ************************************************
 
+  // Positions and cash of every active connection, with totals per market type, exchange, currency and symbol
+  app.get("/api/portfolio", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      res.json(await buildPortfolio(req.user!.id, parseBaseCurrency(req.query)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid base currency", errors: error.errors });
+      }
+      log.error('Error building portfolio', { userId: req.user!.id, error });
+      next(new Error("Failed to build the portfolio due to an internal error."));
+    }
+  });
+
+  // Currencies the FX rates can convert between, for the base currency picker
+  app.get("/api/fx/currencies", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const rates = await getFxRates();
+      const body: FxCurrencies = {
+        provider: getFxProvider().name,
+        currencies: rates.currencies,
+        latestDate: rates.latestDate,
+      };
+      res.json(body);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Daily valuation points for the portfolio charts, oldest first
+  app.get("/api/connections/:id/valuations", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      const range = parseDateRangeQuery(req.query);
+      const base = parseBaseCurrency(req.query);
+      const points = await storage.getValuationPoints(id, range);
+      if (!base) {
+        return res.json(points);
+      }
+      const adapter = await resolveBrokerAdapter(connection.exchangeId, connection.brokerId);
+      const exchange = await storage.getExchange(connection.exchangeId);
+      res.json(await convertValuationPoints(points, adapter.currency ?? exchangeCurrency(exchange?.name), base));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      }
+      next(error);
+    }
+  });
 
-  // Implementation of AKD account details using the SOAP API client
-  // Modified to accept the full Connection object
-  async function getAKDAccountDetails(connection: Connection): Promise<AllAccountDetails> {
-     const credentials = connection.credentials as Record<string, string>;
-     const logPrefix = `[AKD Details ConnId: ${connection.id}]`; // Prefix for logs
+  // Account snapshot history, newest first (written by the refresh scheduler)
+  app.get("/api/connections/:id/snapshots", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
 
     try {
-      console.log(`${logPrefix} Credentials received for AKD connection:`, JSON.stringify({
-        username: credentials.username,
-        password: credentials.password ? '******' : 'missing',
-        // fields: Object.keys(credentials) // Can be verbose
-      }));
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      const snapshots = await storage.getAccountSnapshots(id, parseSnapshotQuery(req.query));
+      res.json(snapshots.map(toSnapshotSummary));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid snapshot query", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // One snapshot with its positions, balances and exposure
+  app.get("/api/connections/:id/snapshots/:snapshotId", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
 
-      // Check if we have the minimum required credentials
-      if (!credentials.username) { // Password might not be strictly needed for *all* calls if service auth works
-        console.error(`${logPrefix} Missing required username credential for AKD`);
-        throw new Error('Missing required username credential for AKD');
+    try {
+      const id = parseInt(req.params.id);
+      const snapshotId = parseInt(req.params.snapshotId);
+      if (isNaN(id) || isNaN(snapshotId)) {
+           return res.status(400).json({ message: "Invalid connection or snapshot ID" });
       }
+      const connection = await storage.getConnection(id);
 
-      // Request ID for underlying API call
-      const requestId = Date.now();
-      console.log(`${logPrefix} Fetching AKD details for ${credentials.username}, underlying request ID: ${requestId}`);
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
 
-      // Use our AKD API client to fetch real account details
-      // Pass password even if potentially unused by some calls in client
-      const accountDetails = await getAKDDetails(credentials.username, credentials.password);
+      const snapshot = await storage.getAccountSnapshot(snapshotId);
+      if (!snapshot || snapshot.connectionId !== id) {
+        return res.status(404).json({ message: "Snapshot not found" });
+      }
+      res.json(snapshot);
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      // Log the data source from the client
-       console.log(`${logPrefix} Data source reported by AKD client: ${accountDetails.dataSource}`);
-       if (accountDetails.dataSource?.startsWith('error')) {
-            console.warn(`${logPrefix} AKD client indicated an error state: ${accountDetails.dataSource}. Error: ${JSON.stringify(accountDetails.tradingAccounts.error)}`);
-            // Propagate the error information within the returned structure
-             // No need to throw here, return the structure containing error info
-       } else {
-           console.log(`${logPrefix} Successfully fetched actual AKD data for ${credentials.username}`);
-       }
+  // Takes a snapshot now, outside the schedule
+  app.post("/api/connections/:id/snapshots", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
 
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
 
-      // Log a summary of the details structure for debugging
-      console.log(`${logPrefix} Account details summary:`, JSON.stringify({
-        dataSource: accountDetails.dataSource,
-        tradingAccounts: { headers: accountDetails.tradingAccounts?.headers?.length, dataLength: accountDetails.tradingAccounts?.data?.length, error: accountDetails.tradingAccounts?.error },
-        orderHistory: { headers: accountDetails.orderHistory?.headers?.length, dataLength: accountDetails.orderHistory?.data?.length, error: accountDetails.orderHistory?.error },
-        positions: { headers: accountDetails.positions?.headers?.length, dataLength: accountDetails.positions?.data?.length, error: accountDetails.positions?.error },
-        accountInfo: { headers: accountDetails.accountInfo?.headers?.length, dataLength: accountDetails.accountInfo?.data?.length, error: accountDetails.accountInfo?.error },
-        accountStatement: { headers: accountDetails.accountStatement?.headers?.length, dataLength: accountDetails.accountStatement?.data?.length, error: accountDetails.accountStatement?.error },
-        tradeLogs: { headers: accountDetails.tradeLogs?.headers?.length, dataLength: accountDetails.tradeLogs?.data?.length, error: accountDetails.tradeLogs?.error },
-        activityLogs: { headers: accountDetails.activityLogs?.headers?.length, dataLength: accountDetails.activityLogs?.data?.length, error: accountDetails.activityLogs?.error },
-        outstandingLogs: { headers: accountDetails.outstandingLogs?.headers?.length, dataLength: accountDetails.outstandingLogs?.data?.length, error: accountDetails.outstandingLogs?.error },
-      }, null, 2));
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
 
-      // Return the complete account details structure
-      return accountDetails;
+      const snapshot = await takeAccountSnapshot(connection, "manual");
+      log.info('Stored manual account snapshot', { connectionId: id, snapshotId: snapshot.id });
+      res.status(201).json(snapshot);
+    } catch (error) {
+      if (error instanceof SnapshotError) {
+        const status = error.reason === "unsupported" ? 400 : error.reason === "auth" ? 401 : 502;
+        return res.status(status).json({ message: error.message });
+      }
+      log.error('Error taking account snapshot', { connectionId: req.params.id, error });
+      next(new Error("Failed to take account snapshot due to an internal error."));
+    }
+  });
 
-    } catch (error: any) {
-      console.error(`${logPrefix} AKD account details fetch CRITICAL error:`, error);
-       // Throw a new error to be caught by the route handler, potentially including auth info
-       const errorMessage = `Failed to fetch AKD account details: ${error.message}`;
-       if (error.message && /auth failed/i.test(error.message)) {
-           throw new Error("Authentication Failed with AKD Broker"); // More specific error
-       }
-      throw new Error(errorMessage);
+  // Realized and unrealized P&L from the connection's fills, by symbol and period
+  app.get("/api/connections/:id/pnl", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
-  }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      const { method, period } = pnlQuerySchema.parse(req.query);
+      const range = parseDateRangeQuery(req.query) ?? defaultDateRange(365);
+      res.json(await buildPnlReport(connection, { method, period, range, accountId: parseAccountQuery(req.query) }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      }
+      if (error instanceof PnlReportError) {
+        const status = error.reason === "unsupported" ? 400 : error.reason === "auth" ? 401 : 502;
+        return res.status(status).json({ message: error.message });
+      }
+      log.error('Error building P&L report', { connectionId: req.params.id, error });
+      next(new Error("Failed to build the P&L report due to an internal error."));
+    }
+  });
+
+  // Lots picked for sales under the specific-lot method
+  app.get("/api/connections/:id/lot-selections", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      res.json(await storage.getLotSelections(id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Replaces the lots picked for one sale; an empty list goes back to FIFO for it
+  app.put("/api/connections/:id/lot-selections", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      const { sellFillId, lots } = lotSelectionRequestSchema.parse(req.body);
+      if (new Set(lots.map(lot => lot.lotId)).size < lots.length) {
+        return res.status(400).json({ message: "Each lot can only be picked once per sale" });
+      }
+      const selections = await storage.replaceLotSelections(id, sellFillId, lots);
+      log.info('Updated lot selections', { connectionId: id, sellFillId, lots: lots.length });
+      res.json(selections);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid lot selection", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // One dashboard table as CSV, XLSX or JSON, with a header block saying where it came from
+  app.get("/api/connections/:id/export/:section", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const section = req.params.section as ExportSection;
+      if (!EXPORT_SECTIONS.includes(section)) {
+        return res.status(400).json({ message: `Unknown section '${section}'. Expected one of: ${EXPORT_SECTIONS.join(', ')}` });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      const { format, columns } = exportQuerySchema.parse(req.query);
+      const table = await buildSectionExport(connection, section, {
+        range: parseDateRangeQuery(req.query),
+        accountId: parseAccountQuery(req.query),
+        columns,
+      });
+      log.info('Exported table', { connectionId: id, section, format, rows: table.data.length });
+
+      const fileName = `${section}-${id}-${table.header.generatedAt.slice(0, 10)}.${format}`;
+      res.set("Content-Disposition", `attachment; filename="${fileName}"`);
+      if (format === "json") {
+        return res.json(table);
+      }
+      if (format === "xlsx") {
+        return res.type("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet").send(sectionExportXlsx(table));
+      }
+      res.type("text/csv").send(sectionExportCsv(table));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      }
+      if (error instanceof ExportError) {
+        const status = { unsupported: 400, invalid: 400, not_found: 404, auth: 401, broker: 502 }[error.reason];
+        return res.status(status).json({ message: error.message });
+      }
+      log.error('Error exporting table', { connectionId: req.params.id, section: req.params.section, error });
+      next(new Error("Failed to export the table due to an internal error."));
+    }
+  });
+
+  // Tax-rule profiles the tax report can use
+  app.get("/api/tax/profiles", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const profiles = await getTaxProfiles();
+      const body: TaxProfileList = { profiles, defaultProfileId: profiles[0]?.id ?? null };
+      res.json(body);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Annual capital gains report as JSON, a line-item CSV or a printable HTML page
+  app.get("/api/connections/:id/tax-report", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      const query = taxReportQuerySchema.parse(req.query);
+      const profile = await getTaxProfile(query.profile);
+      if (!profile) {
+        return res.status(400).json({ message: `Unknown tax profile "${query.profile}"` });
+      }
+      const taxYear = query.year ?? taxYearOf(defaultDateRange(1).to, profile.fiscalYearStartMonth);
+      const report = await buildTaxReport(connection, { profile, taxYear, accountId: parseAccountQuery(req.query) });
+
+      if (query.format === "json") {
+        return res.json(report);
+      }
+      const fileName = `tax-report-${id}-TY${taxYear}${report.accountId ? `-${report.accountId}` : ""}`.replace(/[^\w.-]/g, "_");
+      if (query.format === "csv") {
+        res.set("Content-Disposition", `attachment; filename="${fileName}.csv"`);
+        return res.type("text/csv").send(taxReportCsv(report));
+      }
+      res.type("html").send(taxReportHtml(report));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      }
+      if (error instanceof PnlReportError) {
+        const status = error.reason === "unsupported" ? 400 : error.reason === "auth" ? 401 : 502;
+        return res.status(status).json({ message: error.message });
+      }
+      log.error('Error building tax report', { connectionId: req.params.id, error });
+      next(new Error("Failed to build the tax report due to an internal error."));
+    }
+  });
+
+  // Orders sent through the app, newest first (?account= limits them to one account)
+  app.get("/api/connections/:id/orders", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      res.json(await listOrders(connection, parseAccountQuery(req.query)));
+    } catch (error) {
+      if (error instanceof OrderError) {
+        return res.status(ORDER_ERROR_STATUS[error.reason]).json({ message: error.message, check: error.check });
+      }
+      log.error('Error listing orders', { connectionId: req.params.id, error });
+      next(new Error("Failed to list orders due to an internal error."));
+    }
+  });
+
+  // Pre-trade check for an order ticket, without sending it
+  app.post("/api/connections/:id/orders/check", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      const ticket = orderTicketSchema.parse(req.body);
+      res.json(await checkOrder(connection, ticket));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order", errors: error.errors });
+      }
+      if (error instanceof OrderError) {
+        return res.status(ORDER_ERROR_STATUS[error.reason]).json({ message: error.message, check: error.check });
+      }
+      log.error('Error checking order', { connectionId: req.params.id, error });
+      next(new Error("Failed to check the order due to an internal error."));
+    }
+  });
+
+  // Places an order after the pre-trade check passes
+  app.post("/api/connections/:id/orders", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      const ticket = orderTicketSchema.parse(req.body);
+      const result = await placeOrder(connection, ticket);
+      refreshLiveFeeds(connection.id); // Push the fill, if any, to the dashboards watching
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order", errors: error.errors });
+      }
+      if (error instanceof OrderError) {
+        return res.status(ORDER_ERROR_STATUS[error.reason]).json({ message: error.message, check: error.check });
+      }
+      log.error('Error placing order', { connectionId: req.params.id, error });
+      next(new Error("Failed to place the order due to an internal error."));
+    }
+  });
+
+  // Changes a working order's quantity and/or price
+  app.patch("/api/connections/:id/orders/:orderId", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      const changes = orderModificationSchema.parse(req.body);
+      const result = await modifyOrder(connection, req.params.orderId, changes);
+      refreshLiveFeeds(connection.id);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order change", errors: error.errors });
+      }
+      if (error instanceof OrderError) {
+        return res.status(ORDER_ERROR_STATUS[error.reason]).json({ message: error.message, check: error.check });
+      }
+      log.error('Error modifying order', { connectionId: req.params.id, orderId: req.params.orderId, error });
+      next(new Error("Failed to modify the order due to an internal error."));
+    }
+  });
+
+  app.delete("/api/connections/:id/orders/:orderId", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+        log.error('Authentication error: req.user or req.user.id is undefined');
+        return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+           return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      const connection = await storage.getConnection(id);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      const result = await cancelOrder(connection, req.params.orderId);
+      refreshLiveFeeds(connection.id);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof OrderError) {
+        return res.status(ORDER_ERROR_STATUS[error.reason]).json({ message: error.message, check: error.check });
+      }
+      log.error('Error cancelling order', { connectionId: req.params.id, orderId: req.params.orderId, error });
+      next(new Error("Failed to cancel the order due to an internal error."));
+    }
+  });
+
+  // ************************************************
+  // ****** NEW ROUTE: Fetch Account Logs **********
+  // ************************************************
+  app.get("/api/account-logs/:connectionId", async (req, res, next) => {
+    log.debug('Received account logs request', { connectionId: req.params.connectionId }); // Log request entry
+    if (!req.isAuthenticated()) {
+      log.debug('Log request failed: User not authenticated');
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!req.user || !req.user.id) {
+      log.error('Authentication error in /api/account-logs: req.user or req.user.id is undefined');
+      return res.status(500).json({ message: "Authentication error" });
+    }
+
+    try {
+      const connectionId = parseInt(req.params.connectionId);
+      if (isNaN(connectionId)) {
+        log.debug('Log request failed: Invalid connection ID', { connectionId: req.params.connectionId });
+        return res.status(400).json({ message: "Invalid connection ID" });
+      }
+      log.debug('Fetching connection for logs request', { connectionId });
+      const connection = await storage.getConnection(connectionId);
+
+      // Check if connection belongs to current user
+      if (!connection || connection.userId !== req.user!.id) {
+        log.debug('Log request failed: Connection not found or does not belong to user', { connectionId, userId: req.user.id });
+        return res.status(404).json({ message: "Connection not found" });
+      }
+
+      const adapter = await resolveBrokerAdapter(connection.exchangeId, connection.brokerId);
+      if (!adapter.capabilities.logs || !adapter.getLogs) {
+        log.debug(`Log request: Broker type '${adapter.name}' not supported for logs`, { connectionId });
+        return res.status(400).json({ message: `Log fetching not implemented for ${adapter.name}` });
+      }
+
+      log.debug(`Fetching logs via the ${adapter.name} adapter`, { connectionId });
+      const logData = await adapter.getLogs(connectionCredentials(connection));
+
+      // Check if fetching failed (indicated by dataSource)
+      if (logData.dataSource?.startsWith('error')) {
+          const errorMessage = logData.tradeLogs.error || `Failed to fetch log data from ${adapter.name}`;
+          log.error(`Failed to fetch ${adapter.name} logs`, { connectionId, error: errorMessage });
+          const status = logData.dataSource === 'error_auth' ? 401 : 500;
+          return res.status(status).json({
+              error: errorMessage,
+              // Optionally include minimal log structure with error message
+              tradeLogs: { headers: ["Error"], data: [[errorMessage]], error: errorMessage },
+              activityLogs: { headers: ["Error"], data: [[errorMessage]], error: errorMessage },
+              outstandingLogs: { headers: ["Error"], data: [[errorMessage]], error: errorMessage }
+          });
+      }
+
+      log.info(`Fetched ${adapter.name} logs`, { connectionId });
+      // Return JUST the log data as JSON
+      res.json(logData);
+
+    } catch (error: any) {
+      log.error('Error fetching account logs', { connectionId: req.params.connectionId, error });
+      // Check if the error came from AKD client and indicates auth failure
+      if (error.message && /auth failed/i.test(error.message)) {
+          return res.status(401).json({ error: "Authentication failed with the broker when fetching logs." });
+      }
+      // Avoid sending detailed internal errors to client
+      next(new Error("Failed to fetch account logs due to an internal error.")); // Use Express error handling
+    }
+  });
+  // ************************************************
+  // ****** END NEW ROUTE ***************************
+  // ************************************************
+
 
   const httpServer = createServer(app);
+  attachLiveUpdates(httpServer, sessionParser);
   return httpServer;
 }
\ No newline at end of file
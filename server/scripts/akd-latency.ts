@@ -0,0 +1,60 @@
+// akd-latency.ts
+//
+// Measures cold vs. warm AKD fetch latency. The first fetch builds the pooled
+// SOAP client (WSDL download + parse); later fetches reuse it. Runs against the
+// local AKD simulator unless AKD_WSDL_URL is set:
+//
+//   npm run akd:latency
+//   AKD_WSDL_URL=... AKD_LATENCY_USER=trader npm run akd:latency
+import { startAkdSimulator } from "../brokers/akdSimulator";
+import { setLogLevel } from "../logger";
+
+const RUNS = parseInt(process.env.AKD_LATENCY_RUNS || "5", 10);
+const USERNAME = process.env.AKD_LATENCY_USER || "simulator";
+
+async function time<T>(fn: () => Promise<T>): Promise<number> {
+    const started = performance.now();
+    await fn();
+    return performance.now() - started;
+}
+
+async function measureLatency() {
+    let simulator: Awaited<ReturnType<typeof startAkdSimulator>> | undefined;
+    if (!process.env.AKD_WSDL_URL) {
+        simulator = await startAkdSimulator(parseInt(process.env.AKD_SIM_PORT || "8088", 10));
+        process.env.AKD_WSDL_URL = simulator.wsdlUrl;
+    }
+    // Imported after AKD_WSDL_URL is settled, since the client reads it on load
+    const { getAllAccountDetails, fetchAccountLogs } = await import("../brokers/akdApiClient");
+    const { resetAkdSoapClients } = await import("../brokers/akdSoapClient");
+
+    // Keep the client's per-call logging out of the report
+    setLogLevel("error");
+
+    const cold: number[] = [];
+    const warm: number[] = [];
+    const logs: number[] = [];
+    for (let i = 0; i < RUNS; i++) {
+        resetAkdSoapClients();
+        cold.push(await time(() => getAllAccountDetails(USERNAME)));
+        warm.push(await time(() => getAllAccountDetails(USERNAME)));
+        logs.push(await time(() => fetchAccountLogs(USERNAME)));
+    }
+
+    const report = (label: string, samples: number[]) => {
+        const sorted = [...samples].sort((a, b) => a - b);
+        console.log(`${label.padEnd(22)} median ${sorted[Math.floor(sorted.length / 2)].toFixed(1)} ms  min ${sorted[0].toFixed(1)} ms  max ${sorted[sorted.length - 1].toFixed(1)} ms`);
+    };
+    console.log(`AKD latency against ${process.env.AKD_WSDL_URL} (${RUNS} runs)`);
+    report("Cold full fetch", cold);
+    report("Warm full fetch", warm);
+    report("Warm logs-only fetch", logs);
+
+    await simulator?.close();
+    process.exit(0);
+}
+
+measureLatency().catch((error) => {
+    console.error("AKD latency measurement failed:", error);
+    process.exit(1);
+});
@@ -0,0 +1,37 @@
+// akd-simulator.ts
+//
+// Runs the local AKD SOAP simulator (server/brokers/akdSimulator.ts):
+//
+//   npm run akd:simulator
+//
+// then start the app with
+//
+//   AKD_WSDL_URL=http://localhost:8088/TradeCastService/LoginServerService?wsdl npm run dev
+//
+// Scenario switches (also changeable at runtime via PUT /simulator/settings):
+//   AKD_SIM_SCENARIO    normal | not-authorized | no-record | fault
+//   AKD_SIM_ENCODING    gzip-base64 | base64 | plain
+//   AKD_SIM_DELAY_MS    delay before each response
+//   AKD_SIM_SLOW_OPS    comma-separated operations the delay applies to (default: all)
+//   AKD_SIM_FAULT_OPS   comma-separated operations that answer with a SOAP Fault
+//   AKD_SIM_FIXTURES    fixture directory (default: server/brokers/fixtures/akd)
+//   AKD_SIM_REJECT_ORDERS  true to reject every order sent to the simulated order gateway
+//
+// The simulator also serves the order gateway; to place orders against it add
+//
+//   AKD_ORDER_GATEWAY_URL=http://localhost:8088
+//
+// To capture real responses instead, run the app against the live service with
+// BROKER_FIXTURE_MODE=record and play them back later with BROKER_FIXTURE_MODE=replay
+// (see server/brokers/brokerFixtures.ts).
+import { startAkdSimulator } from "../brokers/akdSimulator";
+
+const port = parseInt(process.env.AKD_SIM_PORT || "8088", 10);
+
+startAkdSimulator(port).then(({ wsdlUrl, settings }) => {
+    console.log(`AKD simulator listening. AKD_WSDL_URL=${wsdlUrl}`);
+    console.log(`Settings: ${JSON.stringify(settings)}`);
+}).catch((error) => {
+    console.error("AKD simulator failed to start:", error);
+    process.exit(1);
+});
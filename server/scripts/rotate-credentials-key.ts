@@ -0,0 +1,44 @@
+// rotate-credentials-key.ts
+//
+// Re-encrypts every stored connection's credentials under the current
+// CREDENTIALS_MASTER_KEY. To rotate, set the new key as CREDENTIALS_MASTER_KEY
+// and the old one(s) in CREDENTIALS_PREVIOUS_KEYS, then run:
+//
+//   npm run credentials:rotate
+//
+// Legacy plaintext rows are encrypted as part of the same pass.
+import { storage } from "../storage";
+import { decryptCredentials, encryptCredentials } from "../credentialVault";
+
+async function rotateCredentials() {
+    const connections = await storage.getAllConnections();
+    console.log(`Re-encrypting credentials for ${connections.length} connection(s)...`);
+
+    let rotated = 0;
+    const failures: number[] = [];
+
+    for (const connection of connections) {
+        try {
+            const plaintext = decryptCredentials(connection.credentials);
+            await storage.updateConnection(connection.id, {
+                credentials: encryptCredentials(plaintext),
+            });
+            rotated++;
+        } catch (error: any) {
+            console.error(`Failed to re-encrypt connection ${connection.id}: ${error.message}`);
+            failures.push(connection.id);
+        }
+    }
+
+    console.log(`Re-encrypted ${rotated} connection(s).`);
+    if (failures.length > 0) {
+        console.error(`Could not re-encrypt connections: ${failures.join(", ")}. Is the old key in CREDENTIALS_PREVIOUS_KEYS?`);
+        process.exit(1);
+    }
+    process.exit(0);
+}
+
+rotateCredentials().catch((error) => {
+    console.error("Credential key rotation failed:", error);
+    process.exit(1);
+});
@@ -0,0 +1,256 @@
+// Behavioural suite for IStorage, run against MemStorage and against DbStorage
+// on pg-mem (an in-process Postgres). Set STORAGE_TEST_DATABASE_URL to also run
+// it against a real Postgres; the suite creates its own users, so an existing
+// database only needs the schema pushed (npm run db:push).
+import { createRequire } from "module";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { newDb } from "pg-mem";
+import * as schema from "@shared/schema";
+import { MemStorage, DbStorage, type IStorage } from "./storage";
+import { createDatabase, createDatabaseFromPool, type DatabasePool } from "./db";
+import { decryptCredentials } from "./credentialVault";
+
+const require = createRequire(import.meta.url);
+
+/** The schema's DDL, as drizzle-kit would push it to an empty database */
+async function schemaStatements(): Promise<string[]> {
+  // drizzle-kit's ESM build cannot load its own dependencies, the CommonJS one can
+  const { generateDrizzleJson, generateMigration } = require("drizzle-kit/api");
+  return generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+}
+
+/**
+ * pg-mem's node-postgres adapter rejects the custom type parsers and the
+ * `rowMode: "array"` drizzle asks for; run the queries plainly and turn the
+ * rows into arrays where drizzle expects them.
+ */
+function supportDrizzleQueries(target: { query: (...args: any[]) => any }): void {
+  const query = target.query;
+  target.query = function (this: unknown, config: unknown, ...rest: unknown[]) {
+    if (!config || typeof config !== "object") {
+      return query.call(this, config, ...rest);
+    }
+    const { rowMode, types: _types, ...plain } = config as Record<string, unknown>;
+    return Promise.resolve(query.call(this, plain, ...rest)).then((result: { rows: Record<string, unknown>[]; fields: { name: string }[] }) => {
+      if (rowMode !== "array") return result;
+      // RETURNING results come without fields; their rows list the columns in order
+      const columns = result.fields.length > 0 ? result.fields.map(field => field.name) : Object.keys(result.rows[0] ?? {});
+      return { ...result, rows: result.rows.map(row => columns.map(column => row[column] ?? null)) };
+    });
+  };
+}
+
+async function createPgMemStorage(): Promise<{ storage: DbStorage; pool: DatabasePool }> {
+  const db = newDb();
+  for (const statement of await schemaStatements()) {
+    db.public.none(statement);
+  }
+  const { Pool, Client } = db.adapters.createPg();
+  supportDrizzleQueries(Pool.prototype);
+  supportDrizzleQueries(Client.prototype);
+  const pool: DatabasePool = new Pool();
+  return { storage: new DbStorage(createDatabaseFromPool(pool)), pool };
+}
+
+const backends: [string, () => Promise<{ storage: IStorage; pool?: DatabasePool }>][] = [
+  ["MemStorage", async () => ({ storage: new MemStorage() })],
+  ["DbStorage on pg-mem", createPgMemStorage],
+];
+const databaseUrl = process.env.STORAGE_TEST_DATABASE_URL;
+if (databaseUrl) {
+  backends.push(["DbStorage on Postgres", async () => {
+    const database = createDatabase(databaseUrl);
+    return { storage: new DbStorage(database), pool: database.pool };
+  }]);
+}
+
+describe.each(backends)("%s", (_name, create) => {
+  let storage: IStorage;
+  let pool: DatabasePool | undefined;
+  let runId = 0;
+
+  beforeAll(async () => {
+    ({ storage, pool } = await create());
+  });
+
+  afterAll(async () => {
+    await pool?.end();
+  });
+
+  // Unique per call, so the suite can run against a database that already has data
+  const uniqueName = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${++runId}`;
+
+  const createUser = () => {
+    const username = uniqueName("user");
+    return storage.createUser({ username, password: "hash.salt", email: `${username}@example.com` });
+  };
+
+  const catalog = async () => {
+    const brokers = await vi.waitFor(async () => {
+      const all = await storage.getAllBrokers();
+      expect(all.length).toBeGreaterThan(0);
+      return all;
+    });
+    return { exchanges: await storage.getAllExchanges(), brokers };
+  };
+
+  const createConnection = async (userId: number, overrides: Partial<schema.InsertConnection> = {}) => {
+    const { exchanges } = await catalog();
+    return storage.createConnection({
+      userId,
+      exchangeId: exchanges[0].id,
+      authMethod: "credentials",
+      credentials: { username: "trader", password: "secret-password" },
+      ...overrides,
+    });
+  };
+
+  describe("users", () => {
+    it("finds users by id, username and email", async () => {
+      const user = await createUser();
+      expect(user.firstName).toBeNull();
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername(user.username)).toEqual(user);
+      expect(await storage.getUserByEmail(user.email)).toEqual(user);
+    });
+
+    it("returns undefined for unknown users", async () => {
+      expect(await storage.getUser(987654)).toBeUndefined();
+      expect(await storage.getUserByUsername(uniqueName("missing"))).toBeUndefined();
+    });
+  });
+
+  describe("catalog", () => {
+    it("seeds the exchanges with their brokers", async () => {
+      const { exchanges, brokers } = await catalog();
+      const psx = exchanges.find(exchange => exchange.name === "PSX");
+      expect(psx?.marketType).toBe("equity");
+      expect(exchanges.some(exchange => exchange.name === "Paper")).toBe(true);
+      expect(brokers.some(broker => broker.name === "AKD" && broker.exchangeId === psx?.id)).toBe(true);
+      expect(await storage.getBrokersByExchangeId(psx!.id)).toEqual(brokers.filter(broker => broker.exchangeId === psx!.id));
+      expect(await storage.getExchangesByMarketType("equity")).toContainEqual(psx);
+    });
+  });
+
+  describe("connections", () => {
+    it("makes a user's first connection the default", async () => {
+      const user = await createUser();
+      const first = await createConnection(user.id);
+      const second = await createConnection(user.id);
+      expect(first.isDefault).toBe(true);
+      expect(second.isDefault).toBe(false);
+      expect(second.isActive).toBe(true);
+      expect((await storage.getConnectionsByUserId(user.id)).map(connection => connection.id)).toEqual([first.id, second.id]);
+    });
+
+    it("stores credentials encrypted", async () => {
+      const user = await createUser();
+      const connection = await createConnection(user.id);
+      const stored = await storage.getConnection(connection.id);
+      expect(JSON.stringify(stored!.credentials)).not.toContain("secret-password");
+      expect(decryptCredentials(stored!.credentials)).toEqual({ username: "trader", password: "secret-password" });
+    });
+
+    it("moves the default flag and re-encrypts updated credentials", async () => {
+      const user = await createUser();
+      const first = await createConnection(user.id);
+      const second = await createConnection(user.id);
+
+      const updated = await storage.updateConnection(second.id, {
+        isDefault: true,
+        credentials: { username: "trader", password: "new-password" },
+      });
+      expect(updated?.isDefault).toBe(true);
+      expect((await storage.getConnection(first.id))?.isDefault).toBe(false);
+      expect(decryptCredentials(updated!.credentials).password).toBe("new-password");
+    });
+
+    it("never changes the id or owner of a connection", async () => {
+      const user = await createUser();
+      const other = await createUser();
+      const connection = await createConnection(user.id);
+
+      const updated = await storage.updateConnection(connection.id, { id: connection.id + 1000, userId: other.id, accountId: "ACC-1" });
+      expect(updated).toMatchObject({ id: connection.id, userId: user.id, accountId: "ACC-1" });
+      expect(await storage.getConnectionsByUserId(other.id)).toEqual([]);
+    });
+
+    it("returns undefined when updating an unknown connection", async () => {
+      expect(await storage.updateConnection(987654, { isActive: false })).toBeUndefined();
+    });
+
+    it("deletes a connection with its snapshots, valuations and lot selections", async () => {
+      const user = await createUser();
+      const connection = await createConnection(user.id);
+      const snapshot = await storage.createAccountSnapshot({
+        connectionId: connection.id, takenAt: "2025-03-03T10:00:00.000Z", trigger: "manual", dataSource: "api",
+        positions: [], balances: [], exposure: [], errors: {},
+      });
+      await storage.upsertValuationPoint({ connectionId: connection.id, date: "2025-03-03", recordedAt: "2025-03-03T10:00:00.000Z", symbols: [] });
+      await storage.replaceLotSelections(connection.id, "F-1", [{ lotId: "L-1", quantity: "10" }]);
+
+      await storage.deleteConnection(connection.id);
+      expect(await storage.getConnection(connection.id)).toBeUndefined();
+      expect(await storage.getAccountSnapshot(snapshot.id)).toBeUndefined();
+      expect(await storage.getValuationPoints(connection.id)).toEqual([]);
+      expect(await storage.getLotSelections(connection.id)).toEqual([]);
+    });
+  });
+
+  describe("account snapshots", () => {
+    it("lists newest first, within the range and up to the limit", async () => {
+      const user = await createUser();
+      const connection = await createConnection(user.id);
+      const take = (takenAt: string) => storage.createAccountSnapshot({
+        connectionId: connection.id, takenAt, trigger: "scheduled", dataSource: "api",
+        positions: [], balances: [], exposure: [], errors: {},
+      });
+      const early = await take("2025-03-03T10:00:00.000Z");
+      const middle = await take("2025-03-04T10:00:00.000Z");
+      const late = await take("2025-03-05T10:00:00.000Z");
+
+      const ids = async (query?: Parameters<IStorage["getAccountSnapshots"]>[1]) =>
+        (await storage.getAccountSnapshots(connection.id, query)).map(snapshot => snapshot.id);
+      expect(await ids()).toEqual([late.id, middle.id, early.id]);
+      expect(await ids({ from: "2025-03-04T00:00:00.000Z" })).toEqual([late.id, middle.id]);
+      expect(await ids({ to: "2025-03-04T23:59:59.999Z", limit: 1 })).toEqual([middle.id]);
+      expect(await storage.getAccountSnapshot(middle.id)).toEqual(middle);
+    });
+  });
+
+  describe("valuation points", () => {
+    it("keeps one point per day, oldest first", async () => {
+      const user = await createUser();
+      const connection = await createConnection(user.id);
+      const point = (date: string, totalValue: string) => storage.upsertValuationPoint({
+        connectionId: connection.id, date, recordedAt: `${date}T10:00:00.000Z`, currency: "PKR", totalValue, symbols: [],
+      });
+      await point("2025-03-04", "200");
+      const first = await point("2025-03-03", "100");
+      const replaced = await point("2025-03-03", "150");
+
+      expect(replaced.id).toBe(first.id);
+      expect(replaced.cash).toBeNull();
+      const points = await storage.getValuationPoints(connection.id);
+      expect(points.map(p => [p.date, p.totalValue])).toEqual([["2025-03-03", "150"], ["2025-03-04", "200"]]);
+      expect((await storage.getValuationPoints(connection.id, { from: "2025-03-04", to: "2025-03-31" })).map(p => p.date)).toEqual(["2025-03-04"]);
+    });
+  });
+
+  describe("lot selections", () => {
+    it("replaces the lots picked for a sale", async () => {
+      const user = await createUser();
+      const connection = await createConnection(user.id);
+      await storage.replaceLotSelections(connection.id, "F-1", [{ lotId: "L-1", quantity: "10" }, { lotId: "L-2", quantity: "5" }]);
+      await storage.replaceLotSelections(connection.id, "F-2", [{ lotId: "L-1", quantity: "1" }]);
+      const replaced = await storage.replaceLotSelections(connection.id, "F-1", [{ lotId: "L-3", quantity: "15" }]);
+
+      expect(replaced).toMatchObject([{ connectionId: connection.id, sellFillId: "F-1", lotId: "L-3", quantity: "15" }]);
+      const lots = async () => (await storage.getLotSelections(connection.id)).map(lot => [lot.sellFillId, lot.lotId, lot.quantity]);
+      expect(await lots()).toEqual([["F-2", "L-1", "1"], ["F-1", "L-3", "15"]]);
+
+      expect(await storage.replaceLotSelections(connection.id, "F-2", [])).toEqual([]);
+      expect(await lots()).toEqual([["F-1", "L-3", "15"]]);
+    });
+  });
+});
@@ -1,12 +1,32 @@
 import { 
   User, InsertUser, Exchange, InsertExchange, 
-  Broker, InsertBroker, Connection, InsertConnection 
+  Broker, InsertBroker, Connection, InsertConnection,
+  AccountSnapshot, InsertAccountSnapshot, ValuationPoint, InsertValuationPoint,
+  LotSelectionRecord,
+  users, exchanges, brokers, connections, accountSnapshots, valuationPoints, lotSelections
 } from "@shared/schema";
+import type { LotSelection } from "@shared/lots";
+import type { DateRange } from "@shared/dates";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, desc, eq, gte, lte, ne, type SQL } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
+import { sealCredentials } from "./credentialVault";
+import { createLogger } from "./logger";
+
+const log = createLogger("storage");
 
 const MemoryStore = createMemoryStore(session);
-type SessionStore = ReturnType<typeof createMemoryStore>;
+const PostgresSessionStore = connectPg(session);
+type SessionStore = session.Store;
+
+// Filters for listing snapshots; `from` and `to` are inclusive ISO timestamps
+export interface SnapshotQuery {
+  from?: string;
+  to?: string;
+  limit?: number;
+}
 
 // Define the storage interface
 export interface IStorage {
@@ -26,32 +46,184 @@ export interface IStorage {
   createBroker(broker: InsertBroker): Promise<Broker>;
   
   getConnection(id: number): Promise<Connection | undefined>;
+  getAllConnections(): Promise<Connection[]>;
   getConnectionsByUserId(userId: number): Promise<Connection[]>;
   createConnection(connection: InsertConnection): Promise<Connection>;
   updateConnection(id: number, connection: Partial<Connection>): Promise<Connection | undefined>;
   deleteConnection(id: number): Promise<void>;
+
+  createAccountSnapshot(snapshot: InsertAccountSnapshot): Promise<AccountSnapshot>;
+  getAccountSnapshot(id: number): Promise<AccountSnapshot | undefined>;
+  // Newest first
+  getAccountSnapshots(connectionId: number, query?: SnapshotQuery): Promise<AccountSnapshot[]>;
+
+  // Replaces the connection's point for the same date, if any
+  upsertValuationPoint(point: InsertValuationPoint): Promise<ValuationPoint>;
+  // Oldest first
+  getValuationPoints(connectionId: number, range?: DateRange): Promise<ValuationPoint[]>;
+
+  getLotSelections(connectionId: number): Promise<LotSelectionRecord[]>;
+  // Replaces every lot picked for the sale; an empty list clears them
+  replaceLotSelections(connectionId: number, sellFillId: string, lots: LotSelection[]): Promise<LotSelectionRecord[]>;
   
   sessionStore: SessionStore;
 }
 
+// Sample exchange catalog, grouped by market type
+const SAMPLE_MARKETS = [
+  {
+    type: 'crypto',
+    exchanges: [
+      { name: 'Binance', type: 'spot', requiresBroker: false },
+      { name: 'Coinbase', type: 'spot', requiresBroker: false },
+      { name: 'Kraken', type: 'spot', requiresBroker: false },
+      { name: 'Binance Futures', type: 'futures', requiresBroker: false },
+    ]
+  },
+  {
+    type: 'equity',
+    exchanges: [
+      { name: 'NYSE', type: 'spot', requiresBroker: true },
+      { name: 'NASDAQ', type: 'spot', requiresBroker: true },
+      { name: 'LSE', type: 'spot', requiresBroker: true },
+      { name: 'PSX', type: 'spot', requiresBroker: true }, // Pakistan Stock Exchange
+      { name: 'NSE', type: 'spot', requiresBroker: true }, // National Stock Exchange of India
+    ]
+  },
+  {
+    type: 'forex',
+    exchanges: [
+      { name: 'Forex.com', type: 'spot', requiresBroker: false },
+      { name: 'OANDA', type: 'spot', requiresBroker: false },
+    ]
+  },
+  {
+    type: 'commodity',
+    exchanges: [
+      { name: 'CME Group', type: 'futures', requiresBroker: true },
+      { name: 'ICE', type: 'futures', requiresBroker: true },
+    ]
+  },
+  {
+    type: 'metals',
+    exchanges: [
+      { name: 'COMEX', type: 'futures', requiresBroker: true },
+      { name: 'LME', type: 'spot', requiresBroker: true },
+    ]
+  },
+  {
+    type: 'paper',
+    exchanges: [
+      { name: 'Paper', type: 'spot', requiresBroker: false }, // Built-in paper trading, see server/brokers/paperAdapter.ts
+    ]
+  }
+];
+
+// Sample broker catalog, keyed by the name of the exchange they trade on
+const SAMPLE_BROKERS = [
+  // US equity brokers
+  { 
+    exchangeName: 'NYSE', 
+    brokers: [
+      { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
+      { name: 'TD Ameritrade', authMethods: ['api', 'credentials'] },
+      { name: 'Charles Schwab', authMethods: ['credentials'] },
+      { name: 'Robinhood', authMethods: ['api'] }
+    ]
+  },
+  { 
+    exchangeName: 'NASDAQ', 
+    brokers: [
+      { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
+      { name: 'TD Ameritrade', authMethods: ['api', 'credentials'] },
+      { name: 'Fidelity', authMethods: ['credentials'] },
+      { name: 'E*TRADE', authMethods: ['api', 'credentials'] }
+    ]
+  },
+  // UK brokers
+  { 
+    exchangeName: 'LSE', 
+    brokers: [
+      { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
+      { name: 'Hargreaves Lansdown', authMethods: ['credentials'] }
+    ]
+  },
+  // Pakistan brokers (PSX)
+  { 
+    exchangeName: 'PSX', 
+    brokers: [
+      { name: 'AKD', authMethods: ['credentials'] },
+      { name: 'MKK', authMethods: ['credentials'] }
+    ]
+  },
+  // India brokers (NSE)
+  { 
+    exchangeName: 'NSE', 
+    brokers: [
+      { name: 'Zerodha', authMethods: ['api', 'credentials'] },
+      { name: 'ICICI Direct', authMethods: ['credentials'] },
+      { name: 'Angel Broking', authMethods: ['api', 'credentials'] }
+    ]
+  },
+  // Commodity brokers
+  { 
+    exchangeName: 'CME Group', 
+    brokers: [
+      { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
+      { name: 'TD Ameritrade', authMethods: ['api', 'credentials'] }
+    ]
+  },
+  { 
+    exchangeName: 'ICE', 
+    brokers: [
+      { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
+      { name: 'ADMIS', authMethods: ['credentials'] }
+    ]
+  },
+  // Metals brokers
+  { 
+    exchangeName: 'COMEX', 
+    brokers: [
+      { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
+      { name: 'TD Ameritrade', authMethods: ['api', 'credentials'] }
+    ]
+  },
+  { 
+    exchangeName: 'LME', 
+    brokers: [
+      { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
+      { name: 'Sucden Financial', authMethods: ['credentials'] }
+    ]
+  }
+];
+
 // Implement the in-memory storage
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private exchanges: Map<number, Exchange>;
   private brokers: Map<number, Broker>;
   private connections: Map<number, Connection>;
+  private accountSnapshots: Map<number, AccountSnapshot>;
+  private valuationPoints: Map<number, ValuationPoint>;
+  private lotSelections: Map<number, LotSelectionRecord>;
   sessionStore: SessionStore;
   
   private userIdCounter: number;
   private exchangeIdCounter: number;
   private brokerIdCounter: number;
   private connectionIdCounter: number;
+  private accountSnapshotIdCounter: number;
+  private valuationPointIdCounter: number;
+  private lotSelectionIdCounter: number;
 
   constructor() {
     this.users = new Map();
     this.exchanges = new Map();
     this.brokers = new Map();
     this.connections = new Map();
+    this.accountSnapshots = new Map();
+    this.valuationPoints = new Map();
+    this.lotSelections = new Map();
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // 24 hours
     });
@@ -60,6 +232,9 @@ export class MemStorage implements IStorage {
     this.exchangeIdCounter = 1;
     this.brokerIdCounter = 1;
     this.connectionIdCounter = 1;
+    this.accountSnapshotIdCounter = 1;
+    this.valuationPointIdCounter = 1;
+    this.lotSelectionIdCounter = 1;
     
     // Initialize with sample exchanges and brokers
     this.initializeSampleData();
@@ -152,6 +327,10 @@ export class MemStorage implements IStorage {
     return this.connections.get(id);
   }
 
+  async getAllConnections(): Promise<Connection[]> {
+    return Array.from(this.connections.values());
+  }
+
   async getConnectionsByUserId(userId: number): Promise<Connection[]> {
     return Array.from(this.connections.values()).filter(
       (connection) => connection.userId === userId
@@ -180,6 +359,7 @@ export class MemStorage implements IStorage {
     const connection: Connection = { 
       ...insertConnection, 
       id,
+      credentials: sealCredentials(insertConnection.credentials),
       brokerId: insertConnection.brokerId || null,
       accountId: insertConnection.accountId || null,
       isActive: insertConnection.isActive !== undefined ? insertConnection.isActive : true,
@@ -206,13 +386,105 @@ export class MemStorage implements IStorage {
       }
     }
     
-    const updatedConnection = { ...connection, ...connectionUpdate };
+    // Never let callers rewrite the primary key or owner
+    const { id: _id, userId: _userId, ...updates } = connectionUpdate;
+    const updatedConnection = { ...connection, ...updates };
+    if (updates.credentials !== undefined) {
+      updatedConnection.credentials = sealCredentials(updates.credentials);
+    }
     this.connections.set(id, updatedConnection);
     return updatedConnection;
   }
 
   async deleteConnection(id: number): Promise<void> {
     this.connections.delete(id);
+    this.accountSnapshots.forEach((snapshot, snapshotId) => {
+      if (snapshot.connectionId === id) {
+        this.accountSnapshots.delete(snapshotId);
+      }
+    });
+    this.valuationPoints.forEach((point, pointId) => {
+      if (point.connectionId === id) {
+        this.valuationPoints.delete(pointId);
+      }
+    });
+    this.lotSelections.forEach((selection, selectionId) => {
+      if (selection.connectionId === id) {
+        this.lotSelections.delete(selectionId);
+      }
+    });
+  }
+
+  // Account snapshot methods
+  async createAccountSnapshot(insertSnapshot: InsertAccountSnapshot): Promise<AccountSnapshot> {
+    const id = this.accountSnapshotIdCounter++;
+    const snapshot: AccountSnapshot = { ...insertSnapshot, id };
+    this.accountSnapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  async getAccountSnapshot(id: number): Promise<AccountSnapshot | undefined> {
+    return this.accountSnapshots.get(id);
+  }
+
+  async getAccountSnapshots(connectionId: number, query: SnapshotQuery = {}): Promise<AccountSnapshot[]> {
+    const snapshots = Array.from(this.accountSnapshots.values())
+      .filter((snapshot) =>
+        snapshot.connectionId === connectionId &&
+        (!query.from || snapshot.takenAt >= query.from) &&
+        (!query.to || snapshot.takenAt <= query.to)
+      )
+      .sort((a, b) => b.takenAt.localeCompare(a.takenAt) || b.id - a.id);
+    return query.limit ? snapshots.slice(0, query.limit) : snapshots;
+  }
+
+  // Valuation point methods
+  async upsertValuationPoint(insertPoint: InsertValuationPoint): Promise<ValuationPoint> {
+    const existing = Array.from(this.valuationPoints.values()).find(
+      (point) => point.connectionId === insertPoint.connectionId && point.date === insertPoint.date
+    );
+    const point: ValuationPoint = {
+      ...insertPoint,
+      id: existing?.id ?? this.valuationPointIdCounter++,
+      currency: insertPoint.currency ?? null,
+      totalValue: insertPoint.totalValue ?? null,
+      holdingsValue: insertPoint.holdingsValue ?? null,
+      cash: insertPoint.cash ?? null,
+      unrealizedPnl: insertPoint.unrealizedPnl ?? null,
+      settledPnl: insertPoint.settledPnl ?? null,
+      exposure: insertPoint.exposure ?? null,
+    };
+    this.valuationPoints.set(point.id, point);
+    return point;
+  }
+
+  async getValuationPoints(connectionId: number, range?: DateRange): Promise<ValuationPoint[]> {
+    return Array.from(this.valuationPoints.values())
+      .filter((point) =>
+        point.connectionId === connectionId &&
+        (!range || (point.date >= range.from && point.date <= range.to))
+      )
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Lot selection methods
+  async getLotSelections(connectionId: number): Promise<LotSelectionRecord[]> {
+    return Array.from(this.lotSelections.values())
+      .filter((selection) => selection.connectionId === connectionId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async replaceLotSelections(connectionId: number, sellFillId: string, lots: LotSelection[]): Promise<LotSelectionRecord[]> {
+    this.lotSelections.forEach((selection, selectionId) => {
+      if (selection.connectionId === connectionId && selection.sellFillId === sellFillId) {
+        this.lotSelections.delete(selectionId);
+      }
+    });
+    return lots.map((lot) => {
+      const selection: LotSelectionRecord = { id: this.lotSelectionIdCounter++, connectionId, sellFillId, ...lot };
+      this.lotSelections.set(selection.id, selection);
+      return selection;
+    });
   }
 
   // Initialize sample data
@@ -254,55 +526,12 @@ export class MemStorage implements IStorage {
       firstName: 'Pro',
       lastName: 'Trader'
     });
+    const demoUsers = Array.from(this.users.values());
     
-    // Define market types and their respective exchanges
-    const marketTypes = [
-      {
-        type: 'crypto',
-        exchanges: [
-          { name: 'Binance', type: 'spot', requiresBroker: false },
-          { name: 'Coinbase', type: 'spot', requiresBroker: false },
-          { name: 'Kraken', type: 'spot', requiresBroker: false },
-          { name: 'Binance Futures', type: 'futures', requiresBroker: false },
-        ]
-      },
-      {
-        type: 'equity',
-        exchanges: [
-          { name: 'NYSE', type: 'spot', requiresBroker: true },
-          { name: 'NASDAQ', type: 'spot', requiresBroker: true },
-          { name: 'LSE', type: 'spot', requiresBroker: true },
-          { name: 'PSX', type: 'spot', requiresBroker: true }, // Pakistan Stock Exchange
-          { name: 'NSE', type: 'spot', requiresBroker: true }, // National Stock Exchange of India
-        ]
-      },
-      {
-        type: 'forex',
-        exchanges: [
-          { name: 'Forex.com', type: 'spot', requiresBroker: false },
-          { name: 'OANDA', type: 'spot', requiresBroker: false },
-        ]
-      },
-      {
-        type: 'commodity',
-        exchanges: [
-          { name: 'CME Group', type: 'futures', requiresBroker: true },
-          { name: 'ICE', type: 'futures', requiresBroker: true },
-        ]
-      },
-      {
-        type: 'metals',
-        exchanges: [
-          { name: 'COMEX', type: 'futures', requiresBroker: true },
-          { name: 'LME', type: 'spot', requiresBroker: true },
-        ]
-      }
-    ];
-
     // Create exchanges with their respective market types
     const exchangeIdMap = new Map<string, number>();
     
-    marketTypes.forEach(market => {
+    SAMPLE_MARKETS.forEach(market => {
       market.exchanges.forEach(exchange => {
         const exchangeData = {
           name: exchange.name,
@@ -321,86 +550,8 @@ export class MemStorage implements IStorage {
 
     // Wait a bit to ensure exchanges are created before creating brokers
     setTimeout(() => {
-      // Define broker mappings by exchange name
-      const brokerMappings = [
-        // US equity brokers
-        { 
-          exchangeName: 'NYSE', 
-          brokers: [
-            { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
-            { name: 'TD Ameritrade', authMethods: ['api', 'credentials'] },
-            { name: 'Charles Schwab', authMethods: ['credentials'] },
-            { name: 'Robinhood', authMethods: ['api'] }
-          ]
-        },
-        { 
-          exchangeName: 'NASDAQ', 
-          brokers: [
-            { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
-            { name: 'TD Ameritrade', authMethods: ['api', 'credentials'] },
-            { name: 'Fidelity', authMethods: ['credentials'] },
-            { name: 'E*TRADE', authMethods: ['api', 'credentials'] }
-          ]
-        },
-        // UK brokers
-        { 
-          exchangeName: 'LSE', 
-          brokers: [
-            { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
-            { name: 'Hargreaves Lansdown', authMethods: ['credentials'] }
-          ]
-        },
-        // Pakistan brokers (PSX)
-        { 
-          exchangeName: 'PSX', 
-          brokers: [
-            { name: 'AKD', authMethods: ['credentials'] },
-            { name: 'MKK', authMethods: ['credentials'] }
-          ]
-        },
-        // India brokers (NSE)
-        { 
-          exchangeName: 'NSE', 
-          brokers: [
-            { name: 'Zerodha', authMethods: ['api', 'credentials'] },
-            { name: 'ICICI Direct', authMethods: ['credentials'] },
-            { name: 'Angel Broking', authMethods: ['api', 'credentials'] }
-          ]
-        },
-        // Commodity brokers
-        { 
-          exchangeName: 'CME Group', 
-          brokers: [
-            { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
-            { name: 'TD Ameritrade', authMethods: ['api', 'credentials'] }
-          ]
-        },
-        { 
-          exchangeName: 'ICE', 
-          brokers: [
-            { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
-            { name: 'ADMIS', authMethods: ['credentials'] }
-          ]
-        },
-        // Metals brokers
-        { 
-          exchangeName: 'COMEX', 
-          brokers: [
-            { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
-            { name: 'TD Ameritrade', authMethods: ['api', 'credentials'] }
-          ]
-        },
-        { 
-          exchangeName: 'LME', 
-          brokers: [
-            { name: 'Interactive Brokers', authMethods: ['api', 'credentials'] },
-            { name: 'Sucden Financial', authMethods: ['credentials'] }
-          ]
-        }
-      ];
-
       // Create brokers based on exchange mappings
-      brokerMappings.forEach(mapping => {
+      SAMPLE_BROKERS.forEach(mapping => {
         const exchangeId = exchangeIdMap.get(mapping.exchangeName);
         if (exchangeId) {
           mapping.brokers.forEach(broker => {
@@ -412,8 +563,307 @@ export class MemStorage implements IStorage {
           });
         }
       });
+
+      // Give every demo user a paper-trading connection, so the dashboard has
+      // data without a broker login
+      const paperExchangeId = exchangeIdMap.get('Paper');
+      if (paperExchangeId) {
+        demoUsers.forEach(user => {
+          this.createConnection({
+            userId: user.id,
+            exchangeId: paperExchangeId,
+            authMethod: 'credentials',
+            credentials: { username: user.username }
+          });
+        });
+      }
     }, 100);  // Small delay to ensure exchanges are created first
   }
 }
 
-export const storage = new MemStorage();
+// Postgres-backed storage using the Drizzle schema in shared/schema.ts
+export class DbStorage implements IStorage {
+  private db: Database;
+  sessionStore: SessionStore;
+
+  constructor(database = createDatabase()) {
+    this.db = database.db;
+    this.sessionStore = new PostgresSessionStore({
+      pool: database.pool,
+      createTableIfMissing: true,
+    });
+
+    // Seed the exchange/broker catalog on first run
+    this.initializeSampleData().catch(error => {
+      log.error('Failed to seed exchange and broker catalog', { error });
+    });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Exchange methods
+  async getAllExchanges(): Promise<Exchange[]> {
+    return this.db.select().from(exchanges).orderBy(exchanges.id);
+  }
+
+  async getExchange(id: number): Promise<Exchange | undefined> {
+    const [exchange] = await this.db.select().from(exchanges).where(eq(exchanges.id, id));
+    return exchange;
+  }
+
+  async getExchangesByMarketType(marketType: string): Promise<Exchange[]> {
+    return this.db.select().from(exchanges)
+      .where(eq(exchanges.marketType, marketType))
+      .orderBy(exchanges.id);
+  }
+
+  async createExchange(insertExchange: InsertExchange): Promise<Exchange> {
+    const [exchange] = await this.db.insert(exchanges).values({
+      ...insertExchange,
+      requiresBroker: insertExchange.requiresBroker || false
+    }).returning();
+    return exchange;
+  }
+
+  // Broker methods
+  async getAllBrokers(): Promise<Broker[]> {
+    return this.db.select().from(brokers).orderBy(brokers.id);
+  }
+
+  async getBroker(id: number): Promise<Broker | undefined> {
+    const [broker] = await this.db.select().from(brokers).where(eq(brokers.id, id));
+    return broker;
+  }
+
+  async getBrokersByExchangeId(exchangeId: number): Promise<Broker[]> {
+    return this.db.select().from(brokers)
+      .where(eq(brokers.exchangeId, exchangeId))
+      .orderBy(brokers.id);
+  }
+
+  async createBroker(insertBroker: InsertBroker): Promise<Broker> {
+    const [broker] = await this.db.insert(brokers).values({
+      ...insertBroker,
+      exchangeId: insertBroker.exchangeId || null,
+      authMethods: insertBroker.authMethods || []
+    }).returning();
+    return broker;
+  }
+
+  // Connection methods
+  async getConnection(id: number): Promise<Connection | undefined> {
+    const [connection] = await this.db.select().from(connections).where(eq(connections.id, id));
+    return connection;
+  }
+
+  async getAllConnections(): Promise<Connection[]> {
+    return this.db.select().from(connections).orderBy(connections.id);
+  }
+
+  async getConnectionsByUserId(userId: number): Promise<Connection[]> {
+    return this.db.select().from(connections)
+      .where(eq(connections.userId, userId))
+      .orderBy(connections.id);
+  }
+
+  async createConnection(insertConnection: InsertConnection): Promise<Connection> {
+    return this.db.transaction(async (tx) => {
+      // If this is the first connection for the user, make it default
+      const [existing] = await tx.select({ id: connections.id }).from(connections)
+        .where(eq(connections.userId, insertConnection.userId))
+        .limit(1);
+
+      const [connection] = await tx.insert(connections).values({
+        ...insertConnection,
+        credentials: sealCredentials(insertConnection.credentials),
+        brokerId: insertConnection.brokerId || null,
+        accountId: insertConnection.accountId || null,
+        isActive: insertConnection.isActive !== undefined ? insertConnection.isActive : true,
+        isDefault: insertConnection.isDefault !== undefined ? insertConnection.isDefault : !existing,
+        lastConnected: insertConnection.lastConnected || null
+      }).returning();
+      return connection;
+    });
+  }
+
+  async updateConnection(id: number, connectionUpdate: Partial<Connection>): Promise<Connection | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [connection] = await tx.select().from(connections).where(eq(connections.id, id));
+      if (!connection) return undefined;
+
+      // If setting this connection as default, unset any other default connections for this user
+      if (connectionUpdate.isDefault) {
+        await tx.update(connections)
+          .set({ isDefault: false })
+          .where(and(
+            eq(connections.userId, connection.userId),
+            eq(connections.isDefault, true),
+            ne(connections.id, id)
+          ));
+      }
+
+      // Never let callers rewrite the primary key or owner
+      const { id: _id, userId: _userId, ...updates } = connectionUpdate;
+      if (Object.keys(updates).length === 0) return connection;
+      if (updates.credentials !== undefined) {
+        updates.credentials = sealCredentials(updates.credentials);
+      }
+
+      const [updatedConnection] = await tx.update(connections)
+        .set(updates)
+        .where(eq(connections.id, id))
+        .returning();
+      return updatedConnection;
+    });
+  }
+
+  async deleteConnection(id: number): Promise<void> {
+    // Snapshots go with the connection (ON DELETE CASCADE)
+    await this.db.delete(connections).where(eq(connections.id, id));
+  }
+
+  // Account snapshot methods
+  async createAccountSnapshot(insertSnapshot: InsertAccountSnapshot): Promise<AccountSnapshot> {
+    const [snapshot] = await this.db.insert(accountSnapshots).values(insertSnapshot).returning();
+    return snapshot;
+  }
+
+  async getAccountSnapshot(id: number): Promise<AccountSnapshot | undefined> {
+    const [snapshot] = await this.db.select().from(accountSnapshots).where(eq(accountSnapshots.id, id));
+    return snapshot;
+  }
+
+  async getAccountSnapshots(connectionId: number, query: SnapshotQuery = {}): Promise<AccountSnapshot[]> {
+    const conditions: SQL[] = [eq(accountSnapshots.connectionId, connectionId)];
+    if (query.from) conditions.push(gte(accountSnapshots.takenAt, query.from));
+    if (query.to) conditions.push(lte(accountSnapshots.takenAt, query.to));
+
+    const select = this.db.select().from(accountSnapshots)
+      .where(and(...conditions))
+      .orderBy(desc(accountSnapshots.takenAt), desc(accountSnapshots.id));
+    return query.limit ? select.limit(query.limit) : select;
+  }
+
+  // Valuation point methods
+  async upsertValuationPoint(insertPoint: InsertValuationPoint): Promise<ValuationPoint> {
+    const { connectionId: _connectionId, date: _date, ...values } = insertPoint;
+    const [point] = await this.db.insert(valuationPoints).values(insertPoint)
+      .onConflictDoUpdate({
+        target: [valuationPoints.connectionId, valuationPoints.date],
+        set: values,
+      })
+      .returning();
+    return point;
+  }
+
+  async getValuationPoints(connectionId: number, range?: DateRange): Promise<ValuationPoint[]> {
+    const conditions: SQL[] = [eq(valuationPoints.connectionId, connectionId)];
+    if (range) {
+      conditions.push(gte(valuationPoints.date, range.from), lte(valuationPoints.date, range.to));
+    }
+    return this.db.select().from(valuationPoints)
+      .where(and(...conditions))
+      .orderBy(asc(valuationPoints.date));
+  }
+
+  // Lot selection methods
+  async getLotSelections(connectionId: number): Promise<LotSelectionRecord[]> {
+    return this.db.select().from(lotSelections)
+      .where(eq(lotSelections.connectionId, connectionId))
+      .orderBy(asc(lotSelections.id));
+  }
+
+  async replaceLotSelections(connectionId: number, sellFillId: string, lots: LotSelection[]): Promise<LotSelectionRecord[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(lotSelections)
+        .where(and(eq(lotSelections.connectionId, connectionId), eq(lotSelections.sellFillId, sellFillId)));
+      if (lots.length === 0) return [];
+      return tx.insert(lotSelections)
+        .values(lots.map(lot => ({ connectionId, sellFillId, ...lot })))
+        .returning();
+    });
+  }
+
+  // Seed the exchange and broker catalog. Entries are matched by name, so an
+  // existing database also picks up exchanges and brokers added later.
+  private async initializeSampleData(): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const exchangeIdMap = new Map<string, number>(
+        (await tx.select().from(exchanges)).map(exchange => [exchange.name, exchange.id])
+      );
+
+      const newExchanges = SAMPLE_MARKETS.flatMap(market => market.exchanges
+        .filter(exchange => !exchangeIdMap.has(exchange.name))
+        .map(exchange => ({
+          name: exchange.name,
+          type: exchange.type,
+          marketType: market.type,
+          requiresBroker: exchange.requiresBroker
+        })));
+      if (newExchanges.length > 0) {
+        const created = await tx.insert(exchanges).values(newExchanges).returning();
+        created.forEach(exchange => exchangeIdMap.set(exchange.name, exchange.id));
+      }
+
+      const existingBrokers = new Set(
+        (await tx.select().from(brokers)).map(broker => `${broker.exchangeId}:${broker.name}`)
+      );
+      const newBrokers = SAMPLE_BROKERS.flatMap(mapping => {
+        const exchangeId = exchangeIdMap.get(mapping.exchangeName);
+        if (!exchangeId) return [];
+        return mapping.brokers
+          .filter(broker => !existingBrokers.has(`${exchangeId}:${broker.name}`))
+          .map(broker => ({
+            name: broker.name,
+            exchangeId,
+            authMethods: broker.authMethods
+          }));
+      });
+      if (newBrokers.length > 0) {
+        await tx.insert(brokers).values(newBrokers);
+      }
+
+      if (newExchanges.length > 0 || newBrokers.length > 0) {
+        log.info('Seeded exchange and broker catalog', { exchanges: newExchanges.length, brokers: newBrokers.length });
+      }
+    });
+  }
+}
+
+// Pick the storage backend at startup. STORAGE_BACKEND=postgres|memory overrides
+// the default, which is Postgres whenever DATABASE_URL is provisioned.
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND || (process.env.DATABASE_URL ? 'postgres' : 'memory');
+
+  if (backend === 'postgres') {
+    log.info('Using Postgres storage');
+    return new DbStorage();
+  }
+  if (backend !== 'memory') {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}". Expected "postgres" or "memory".`);
+  }
+
+  log.info('Using in-memory storage (data will not survive a restart)');
+  return new MemStorage();
+}
+
+export const storage = createStorage();
@@ -0,0 +1,76 @@
+// Tax-rule profiles for the annual tax report.
+//
+// Profiles are read from TAX_PROFILES_FILE, by default the profiles.json next
+// to this module: a JSON array of TaxRuleProfile objects. The first profile is
+// the default. The file is read and validated on first use and kept; a file
+// that fails to load fails the tax reports and is read again on the next one.
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { LOT_METHODS } from "@shared/lots";
+import type { TaxRuleProfile } from "@shared/tax";
+import { createLogger } from "../logger";
+
+const log = createLogger("tax");
+
+const rate = z.string().regex(/^(0(\.\d+)?|1(\.0+)?)$/, "Rates must be decimals from 0 to 1");
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must use the YYYY-MM-DD format");
+const pattern = z.string().min(1).refine(source => {
+  try {
+    new RegExp(source, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}, "Invalid regular expression");
+
+const profileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Profile IDs use lowercase letters, digits and dashes"),
+  name: z.string().min(1),
+  description: z.string().nullable().default(null),
+  fiscalYearStartMonth: z.number().int().min(1).max(12),
+  lotMethod: z.enum(LOT_METHODS).default("fifo"),
+  buckets: z.array(z.object({
+    label: z.string().min(1),
+    maxDays: z.number().int().nonnegative().nullable().default(null),
+    acquiredFrom: isoDate.nullable().default(null),
+    acquiredBefore: isoDate.nullable().default(null),
+    rate,
+  })).min(1),
+  dividendWithholdingRate: z.string().regex(/^0(\.\d+)?$/, "The withholding rate must be a decimal below 1").nullable().default(null),
+  dividendPattern: pattern,
+  chargePattern: pattern,
+});
+
+const profilesSchema = z.array(profileSchema).min(1).refine(
+  profiles => new Set(profiles.map(profile => profile.id)).size === profiles.length,
+  "Profile IDs must be unique",
+);
+
+let loading: Promise<TaxRuleProfile[]> | null = null;
+
+async function load(): Promise<TaxRuleProfile[]> {
+  const file = process.env.TAX_PROFILES_FILE || path.resolve(import.meta.dirname, "profiles.json");
+  const result = profilesSchema.safeParse(JSON.parse(await fs.readFile(file, "utf8")));
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new Error(`Invalid tax profiles in ${path.basename(file)}: ${issue.path.join(".")} ${issue.message}`);
+  }
+  log.info("Loaded tax profiles", { file, profiles: result.data.length });
+  return result.data;
+}
+
+/** The configured profiles, the default first */
+export function getTaxProfiles(): Promise<TaxRuleProfile[]> {
+  loading ??= load().catch(error => {
+    loading = null;
+    throw error;
+  });
+  return loading;
+}
+
+/** A profile by ID, the default profile when no ID is given, or null when the ID is unknown */
+export async function getTaxProfile(id?: string): Promise<TaxRuleProfile | null> {
+  const profiles = await getTaxProfiles();
+  return id ? profiles.find(profile => profile.id === id) ?? null : profiles[0];
+}
@@ -0,0 +1,118 @@
+// CSV and printable HTML versions of a tax report. The HTML page is
+// self-contained, with print styles, so the browser's "Save as PDF" gives the
+// PDF version.
+import { multiplyDecimal, type Decimal } from "@shared/decimal";
+import type { TaxReport, TaxReportLine } from "@shared/tax";
+import { toCsv } from "../exports/csv";
+
+const LINE_COLUMNS: { header: string; value: (line: TaxReportLine) => string | number | null }[] = [
+  { header: "Type", value: line => line.type },
+  { header: "Date", value: line => line.date },
+  { header: "Account", value: line => line.accountId },
+  { header: "Symbol", value: line => line.symbol },
+  { header: "Description", value: line => line.description },
+  { header: "Reference", value: line => line.reference },
+  { header: "Quantity", value: line => line.quantity },
+  { header: "Acquired", value: line => line.acquiredAt },
+  { header: "Holding days", value: line => line.holdingDays },
+  { header: "Bucket", value: line => line.bucket },
+  { header: "Proceeds", value: line => line.proceeds },
+  { header: "Cost", value: line => line.cost },
+  { header: "Amount", value: line => line.amount },
+  { header: "Rate", value: line => line.rate },
+];
+
+/** One row per sale lot, dividend and charge */
+export function taxReportCsv(report: TaxReport): string {
+  return toCsv([
+    LINE_COLUMNS.map(column => column.header),
+    ...report.lines.map(line => LINE_COLUMNS.map(column => column.value(line))),
+  ]);
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function amount(value: Decimal | null): string {
+  if (value === null) return "-";
+  return Number(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+const percent = (rate: Decimal | null) => (rate === null ? "-" : `${multiplyDecimal(rate, "100")}%`);
+
+function table(headers: string[], rows: string[][], numericFrom: number): string {
+  const cell = (tag: string, value: string, index: number) =>
+    `<${tag}${index >= numericFrom ? ' class="num"' : ""}>${value}</${tag}>`;
+  return `<table><thead><tr>${headers.map((header, i) => cell("th", escapeHtml(header), i)).join("")}</tr></thead>` +
+    `<tbody>${rows.map(row => `<tr>${row.map((value, i) => cell("td", value, i)).join("")}</tr>`).join("")}</tbody></table>`;
+}
+
+export function taxReportHtml(report: TaxReport): string {
+  const { profile, period, totals, dividends } = report;
+  const currency = report.currency ? ` (${escapeHtml(report.currency)})` : "";
+  const text = (value: string | number | null) => (value === null ? "-" : escapeHtml(String(value)));
+
+  const bucketRows = report.buckets.map(bucket => [
+    text(bucket.label), String(bucket.sales), amount(bucket.proceeds), amount(bucket.cost),
+    amount(bucket.gain), amount(bucket.taxableGain), percent(bucket.rate), amount(bucket.tax),
+  ]);
+  bucketRows.push(["<strong>Total</strong>", "", "", "", amount(totals.gain), amount(totals.taxableGain), "",
+    `<strong>${amount(totals.tax)}</strong>`]);
+
+  const gainRows = report.lines.filter(line => line.type === "gain").map(line => [
+    text(line.date), text(line.symbol), text(line.reference), text(line.acquiredAt), text(line.holdingDays),
+    text(line.bucket), text(line.quantity), amount(line.proceeds), amount(line.cost), amount(line.amount),
+  ]);
+  const ledgerRows = report.lines.filter(line => line.type !== "gain").map(line => [
+    text(line.date), line.type === "dividend" ? "Dividend" : "Charge", text(line.description), text(line.reference),
+    amount(line.amount),
+  ]);
+  const notices = [...Object.values(report.errors), ...report.warnings];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Tax year ${report.taxYear} capital gains - connection ${report.connectionId}</title>
+<style>
+  body { font: 13px/1.4 system-ui, sans-serif; color: #111; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; }
+  .meta { color: #555; margin: 0; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #ddd; padding: 4px 6px; text-align: left; }
+  th { background: #f4f4f5; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .notice { border: 1px solid #f59e0b; background: #fffbeb; padding: 8px; margin-top: 12px; }
+  .small { color: #555; font-size: 11px; }
+  @media print { .no-print { display: none; } body { margin: 0; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<p class="no-print"><button onclick="window.print()">Print or save as PDF</button></p>
+<h1>Capital gains, tax year ${report.taxYear}</h1>
+<p class="meta">${period.from} to ${period.to} &middot; Connection ${report.connectionId}${report.accountId ? ` &middot; Account ${text(report.accountId)}` : ""}</p>
+<p class="meta">Profile: ${text(profile.name)} &middot; Lots: ${text(profile.lotMethod)} &middot; Amounts${currency} &middot; Generated ${text(report.generatedAt)}</p>
+${notices.length > 0 ? `<div class="notice">${notices.map(notice => `<p>${text(notice)}</p>`).join("")}</div>` : ""}
+<h2>Summary by holding period</h2>
+${table(["Bucket", "Sales", "Proceeds", "Cost", "Gain", "Taxable gain", "Rate", "Tax"], bucketRows, 1)}
+<h2>Dividends and charges</h2>
+${table(["", "Amount"], [
+  ["Dividends received", amount(dividends.received)],
+  [`Tax withheld at ${percent(profile.dividendWithholdingRate)}`, amount(dividends.withheld)],
+  ["Gross dividends", amount(dividends.gross)],
+  ["Charges in the ledger (already in trade costs where charged on fills)", amount(report.charges)],
+], 1)}
+<h2>Sales</h2>
+${gainRows.length > 0
+    ? table(["Date", "Symbol", "Reference", "Acquired", "Days", "Bucket", "Quantity", "Proceeds", "Cost", "Gain"], gainRows, 6)
+    : "<p>No sales in this tax year.</p>"}
+<h2>Ledger entries</h2>
+${ledgerRows.length > 0
+    ? table(["Date", "Type", "Description", "Reference", "Amount"], ledgerRows, 4)
+    : "<p>No dividends or charges in this tax year.</p>"}
+${profile.description ? `<p class="small">${text(profile.description)}</p>` : ""}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,100 @@
+// The tax report over fixed fills and ledger entries, bucketed with the
+// shipped filer profile. The broker fetch is replaced by fixed account data.
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { Connection } from "@shared/schema";
+import type { Fill, LedgerEntry, NormalizedAccountData } from "@shared/models";
+import { UNKNOWN_BUCKET, type TaxReport } from "@shared/tax";
+import { fetchLotData } from "../pnlReport";
+import { getTaxProfile } from "./profiles";
+import { taxReportCsv } from "./render";
+import { buildTaxReport } from "./taxReport";
+
+vi.mock("../pnlReport", () => ({ fetchLotData: vi.fn(), loadLotSelections: vi.fn() }));
+
+function fill(fillId: string, symbol: string, side: "buy" | "sell", quantity: string, price: string, executedAt: string): Fill {
+  return {
+    fillId, orderId: null, accountId: "ACC1", symbol, side, quantity, price,
+    value: String(Number(quantity) * Number(price)), commission: "0", commissionSource: "trade_log", executedAt, currency: "PKR",
+  };
+}
+
+function entry(entryId: string, date: string, description: string, amount: string): LedgerEntry {
+  return { entryId, accountId: "ACC1", date, description, debit: null, credit: null, amount, balance: null, currency: "PKR" };
+}
+
+const data: NormalizedAccountData = {
+  accounts: [],
+  // 50 PSO held now after selling 50 with no buy in the history: 100 opened at 200
+  positions: [{
+    accountId: "ACC1", symbol: "PSO", quantity: "50", averageCost: "200", marketPrice: "250", marketValue: "12500",
+    unrealizedPnl: null, realizedPnl: null, haircutPercent: null, valueAfterHaircut: null, pendingSellQuantity: null, currency: "PKR",
+  }],
+  orders: [],
+  fills: [
+    fill("ENGRO-B", "ENGRO", "buy", "10", "300", "2022-06-30"),
+    fill("HBL-B", "HBL", "buy", "100", "50", "2023-03-01"),
+    fill("MCB-B", "MCB", "buy", "10", "100", "2023-03-01"),
+    fill("OGDC-B", "OGDC", "buy", "100", "100", "2024-07-01"),
+    fill("HBL-S", "HBL", "sell", "100", "40", "2025-08-01"),
+    fill("MCB-S", "MCB", "sell", "10", "150", "2025-08-01"),
+    fill("OGDC-S", "OGDC", "sell", "100", "120", "2025-09-01"),
+    fill("PSO-S", "PSO", "sell", "50", "250", "2025-10-01"),
+    fill("ENGRO-S", "ENGRO", "sell", "10", "400", "2026-01-05"),
+  ],
+  ledger: [
+    entry("D0", "2025-06-01", "Cash dividend HBL", "425"),
+    entry("D1", "2025-10-20", "Cash dividend OGDC", "850"),
+    entry("C1", "2025-11-01", "CDC charges", "-20"),
+  ],
+  margin: [],
+  errors: {},
+  timestamp: "2026-07-15T10:00:00.000Z",
+  dataSource: "api",
+};
+
+const connection = { id: 7 } as Connection;
+
+describe("buildTaxReport", () => {
+  let report: TaxReport;
+
+  beforeAll(async () => {
+    vi.mocked(fetchLotData).mockResolvedValue(data);
+    report = await buildTaxReport(connection, { profile: (await getTaxProfile("pk-listed-filer"))!, taxYear: 2026 });
+  });
+
+  it("buckets each sale by acquisition date and holding period", () => {
+    expect(report.period).toEqual({ from: "2025-07-01", to: "2026-06-30" });
+    expect(report.buckets).toEqual([
+      { label: "Bought from Jul 2024", rate: "0.15", sales: 1, proceeds: "12000", cost: "10000", gain: "2000", taxableGain: "2000", tax: "300" },
+      // A 1000 loss and a 500 gain, both held 884 days, net to a loss that is not taxed
+      { label: "2 to 3 years", rate: "0.10", sales: 2, proceeds: "5500", cost: "6000", gain: "-500", taxableGain: "0", tax: "0" },
+      { label: "Bought before Jul 2022", rate: "0.125", sales: 1, proceeds: "4000", cost: "3000", gain: "1000", taxableGain: "1000", tax: "125" },
+      { label: UNKNOWN_BUCKET, rate: null, sales: 1, proceeds: "12500", cost: "10000", gain: "2500", taxableGain: "2500", tax: null },
+    ]);
+    // The unknown bucket is listed but left out of the taxable totals
+    expect(report.totals).toEqual({ gain: "5000", taxableGain: "3000", tax: "425" });
+    expect(report.warnings).toEqual([
+      "1 sale(s) have no known acquisition date or cost and are left out of the tax; fetch a longer history or add them by hand.",
+    ]);
+  });
+
+  it("grosses up the dividends received in the year for the withholding", () => {
+    // 850 received net of 15%: 850 / 0.85
+    expect(report.dividends).toEqual({ received: "850", gross: "1000", withheld: "150" });
+    expect(report.charges).toBe("20");
+  });
+
+  it("writes one CSV line per sale lot, dividend and charge in date order", () => {
+    expect(taxReportCsv(report).split("\r\n")).toEqual([
+      "Type,Date,Account,Symbol,Description,Reference,Quantity,Acquired,Holding days,Bucket,Proceeds,Cost,Amount,Rate",
+      "gain,2025-08-01,ACC1,HBL,,HBL-S/HBL-B,100,2023-03-01,884,2 to 3 years,4000,5000,-1000,0.10",
+      "gain,2025-08-01,ACC1,MCB,,MCB-S/MCB-B,10,2023-03-01,884,2 to 3 years,1500,1000,500,0.10",
+      "gain,2025-09-01,ACC1,OGDC,,OGDC-S/OGDC-B,100,2024-07-01,427,Bought from Jul 2024,12000,10000,2000,0.15",
+      "gain,2025-10-01,ACC1,PSO,,PSO-S/OPENING-ACC1-PSO,50,,,Unknown holding period,12500,10000,2500,",
+      "dividend,2025-10-20,ACC1,,Cash dividend OGDC,D1,,,,,,,850,0.15",
+      "charge,2025-11-01,ACC1,,CDC charges,C1,,,,,,,20,",
+      "gain,2026-01-05,ACC1,ENGRO,,ENGRO-S/ENGRO-B,10,2022-06-30,1285,Bought before Jul 2022,4000,3000,1000,0.125",
+      "",
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+// Annual capital gains tax report (GET /api/connections/:id/tax-report).
+//
+// Sales in the tax year are matched to lots with the profile's lot method over
+// TAX_HISTORY_YEARS (default 3) tax years of fills before it, so the holding
+// period of older lots is known. Holdings bought before that history become
+// opening lots without an acquisition date and land in the unknown bucket,
+// which is listed but left out of the tax. Gains and losses net within a
+// bucket; a bucket's net loss is not taxed, does not reduce other buckets and
+// is not carried forward.
+import type { Connection } from "@shared/schema";
+import type { LedgerEntry } from "@shared/models";
+import {
+  compareDecimal,
+  divideDecimal,
+  multiplyDecimal,
+  negateDecimal,
+  roundDecimal,
+  subtractDecimal,
+  sumDecimals,
+  type Decimal,
+} from "@shared/decimal";
+import type { RealizedLot } from "@shared/lots";
+import {
+  UNKNOWN_BUCKET,
+  taxYearPeriod,
+  type HoldingPeriodBucket,
+  type TaxBucketSummary,
+  type TaxLineType,
+  type TaxReport,
+  type TaxReportLine,
+  type TaxRuleProfile,
+} from "@shared/tax";
+import { runLotEngine } from "../lotEngine";
+import { fetchLotData, loadLotSelections } from "../pnlReport";
+import { dataCurrency } from "../valuations";
+import { createLogger } from "../logger";
+
+const log = createLogger("tax");
+
+const TAX_PLACES = 2;
+const LINE_ORDER: Record<TaxLineType, number> = { gain: 0, dividend: 1, charge: 2 };
+
+export interface TaxReportOptions {
+  profile: TaxRuleProfile;
+  taxYear: number;
+  accountId?: string;
+}
+
+const total = (values: (Decimal | null)[]) => sumDecimals(values) ?? "0";
+
+function historyYears(): number {
+  const years = parseInt(process.env.TAX_HISTORY_YEARS || "3", 10);
+  return Number.isNaN(years) || years < 0 ? 3 : years;
+}
+
+/** The first bucket of the profile that the sale of a lot falls in */
+function findBucket(profile: TaxRuleProfile, item: RealizedLot): HoldingPeriodBucket | null {
+  if (!item.openedAt || item.holdingDays === null || item.cost === null) return null;
+  const acquired = item.openedAt.slice(0, 10);
+  return profile.buckets.find(bucket =>
+    (bucket.maxDays === null || item.holdingDays! <= bucket.maxDays) &&
+    (!bucket.acquiredFrom || acquired >= bucket.acquiredFrom) &&
+    (!bucket.acquiredBefore || acquired < bucket.acquiredBefore)) ?? null;
+}
+
+function gainLine(item: RealizedLot, bucket: HoldingPeriodBucket | null): TaxReportLine {
+  return {
+    type: "gain",
+    date: item.closedAt.slice(0, 10),
+    accountId: item.accountId,
+    symbol: item.symbol,
+    description: null,
+    reference: `${item.sellFillId}/${item.lotId ?? "unmatched"}`,
+    quantity: item.quantity,
+    acquiredAt: item.openedAt?.slice(0, 10) ?? null,
+    holdingDays: item.holdingDays,
+    bucket: bucket?.label ?? UNKNOWN_BUCKET,
+    proceeds: item.proceeds,
+    cost: item.cost,
+    amount: item.realizedPnl,
+    rate: bucket?.rate ?? null,
+  };
+}
+
+function ledgerLine(entry: LedgerEntry, type: "dividend" | "charge", rate: Decimal | null): TaxReportLine {
+  return {
+    type,
+    date: entry.date!.slice(0, 10),
+    accountId: entry.accountId,
+    symbol: null,
+    description: entry.description,
+    reference: entry.entryId,
+    quantity: null,
+    acquiredAt: null,
+    holdingDays: null,
+    bucket: null,
+    proceeds: null,
+    cost: null,
+    amount: type === "charge" ? negateDecimal(entry.amount) : entry.amount,
+    rate,
+  };
+}
+
+function summarize(label: string, rate: Decimal | null, lines: TaxReportLine[]): TaxBucketSummary {
+  const gain = total(lines.map(line => line.amount));
+  const taxableGain = compareDecimal(gain, "0") > 0 ? gain : "0";
+  return {
+    label,
+    rate,
+    sales: lines.length,
+    proceeds: total(lines.map(line => line.proceeds)),
+    cost: total(lines.map(line => line.cost)),
+    gain,
+    taxableGain,
+    tax: rate === null ? null : roundDecimal(multiplyDecimal(taxableGain, rate), TAX_PLACES),
+  };
+}
+
+export async function buildTaxReport(connection: Connection, options: TaxReportOptions): Promise<TaxReport> {
+  const { profile, taxYear, accountId } = options;
+  const period = taxYearPeriod(taxYear, profile.fiscalYearStartMonth);
+  const history = { from: taxYearPeriod(taxYear - historyYears(), profile.fiscalYearStartMonth).from, to: period.to };
+  const data = await fetchLotData(connection, history, accountId);
+  const inPeriod = (date: string) => date.slice(0, 10) >= period.from && date.slice(0, 10) <= period.to;
+
+  const result = runLotEngine({
+    fills: data.fills,
+    positions: data.positions,
+    method: profile.lotMethod,
+    selections: profile.lotMethod === "specific" ? await loadLotSelections(connection.id) : undefined,
+  });
+  const warnings = [...result.warnings];
+
+  // Gains, grouped by bucket in the profile's order with the unknown bucket last
+  const gainLines = new Map<HoldingPeriodBucket | null, TaxReportLine[]>();
+  let unmatched = 0;
+  for (const item of result.realized.filter(item => inPeriod(item.closedAt))) {
+    const bucket = findBucket(profile, item);
+    if (!bucket && item.openedAt && item.cost !== null) unmatched++;
+    gainLines.set(bucket, [...(gainLines.get(bucket) ?? []), gainLine(item, bucket)]);
+  }
+  if (unmatched > 0) {
+    warnings.push(`${unmatched} sale(s) match no holding-period bucket of the "${profile.name}" profile.`);
+  }
+  const buckets = profile.buckets
+    .filter(bucket => gainLines.has(bucket))
+    .map(bucket => summarize(bucket.label, bucket.rate, gainLines.get(bucket)!));
+  const unknown = gainLines.get(null);
+  if (unknown) {
+    buckets.push(summarize(UNKNOWN_BUCKET, null, unknown));
+    warnings.push(`${unknown.length} sale(s) have no known acquisition date or cost and are left out of the tax; ` +
+      `fetch a longer history or add them by hand.`);
+  }
+
+  // Dividends and charges from the ledger
+  const dividendPattern = new RegExp(profile.dividendPattern, "i");
+  const chargePattern = new RegExp(profile.chargePattern, "i");
+  const ledgerLines: TaxReportLine[] = [];
+  const undated = data.ledger.filter(entry => !entry.date).length;
+  if (undated > 0) {
+    warnings.push(`${undated} ledger entr${undated === 1 ? "y" : "ies"} without a date were left out.`);
+  }
+  for (const entry of data.ledger) {
+    if (!entry.date || !inPeriod(entry.date) || !entry.description) continue;
+    const sign = compareDecimal(entry.amount, "0");
+    if (sign > 0 && dividendPattern.test(entry.description)) {
+      ledgerLines.push(ledgerLine(entry, "dividend", profile.dividendWithholdingRate));
+    } else if (sign < 0 && chargePattern.test(entry.description)) {
+      ledgerLines.push(ledgerLine(entry, "charge", null));
+    }
+  }
+  const received = total(ledgerLines.filter(line => line.type === "dividend").map(line => line.amount));
+  const withholding = profile.dividendWithholdingRate;
+  const gross = withholding === null
+    ? received
+    : roundDecimal(divideDecimal(received, subtractDecimal("1", withholding)), TAX_PLACES);
+
+  const lines = [...Array.from(gainLines.values()).flat(), ...ledgerLines]
+    .sort((a, b) => a.date.localeCompare(b.date) || LINE_ORDER[a.type] - LINE_ORDER[b.type]);
+  const taxed = buckets.filter(bucket => bucket.tax !== null);
+
+  log.debug("Built tax report", { connectionId: connection.id, taxYear, profile: profile.id, lines: lines.length });
+  return {
+    connectionId: connection.id,
+    profile,
+    taxYear,
+    period,
+    accountId: accountId ?? null,
+    currency: dataCurrency(data) ?? data.fills.find(fill => fill.currency)?.currency ?? null,
+    generatedAt: data.timestamp,
+    buckets,
+    dividends: { received, gross, withheld: subtractDecimal(gross, received) },
+    charges: total(ledgerLines.filter(line => line.type === "charge").map(line => line.amount)),
+    totals: {
+      gain: total(buckets.map(bucket => bucket.gain)),
+      taxableGain: total(taxed.map(bucket => bucket.taxableGain)),
+      tax: total(taxed.map(bucket => bucket.tax)),
+    },
+    lines,
+    warnings,
+    errors: data.errors,
+  };
+}
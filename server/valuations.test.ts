@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { AllAccountDetails, FetchResult } from "@shared/accountData";
+import { accountDataFromDetails, toValuationPoint } from "./valuations";
+
+const empty: FetchResult = { headers: [], data: [] };
+
+function details(overrides: Partial<AllAccountDetails>): AllAccountDetails {
+  return {
+    tradingAccounts: empty, orderHistory: empty, positions: empty, accountInfo: empty, accountStatement: empty,
+    tradeLogs: empty, activityLogs: empty, outstandingLogs: empty,
+    timestamp: "2026-10-16T09:30:00.000Z", dataSource: "api", accounts: ["SIM001", "SIM002"], selectedAccount: null,
+    ...overrides,
+  };
+}
+
+describe("accountDataFromDetails", () => {
+  it("values the holdings and cash of the legacy tables", () => {
+    const data = accountDataFromDetails(details({
+      positions: {
+        headers: ["Account", "Symbol", "Quantity", "Avg Buy Rate", "MTM Rate", "Unsettled P/L", "Value After Haircut"],
+        data: [
+          ["SIM001", "OGDC", "400", "182.50", "195.10", "5040.00", "58530.00"],
+          ["SIM002", "OGDC", "100", "180.00", "195.10", "1510.00", "14632.50"],
+          ["SIM002", "HBL", "200", "141.10", "139.00", "-420.00", "25020.00"],
+        ],
+        currency: "PKR",
+      },
+      accountInfo: {
+        headers: ["Detail", "Value"],
+        data: [
+          ["Account ID", "SIM001"], ["Cash", "48210.30"], ["Exposure (FUT)", "0"],
+          ["Account ID", "SIM002"], ["Cash", "1000"], ["Exposure (FUT)", "2500.50"],
+        ],
+        currency: "PKR",
+      },
+    }));
+
+    expect(data?.positions.map(position => [position.accountId, position.symbol, position.marketValue])).toEqual([
+      ["SIM001", "OGDC", "78040"], ["SIM002", "OGDC", "19510"], ["SIM002", "HBL", "27800"],
+    ]);
+    const point = toValuationPoint(7, data!);
+    expect(point).toMatchObject({
+      date: "2026-10-16",
+      currency: "PKR",
+      holdingsValue: "125350",
+      cash: "49210.3",
+      totalValue: "174560.3",
+      unrealizedPnl: "6130",
+      settledPnl: null,
+      exposure: "2500.5",
+    });
+    expect(point.symbols.map(symbol => [symbol.symbol, symbol.quantity])).toEqual([["HBL", "200"], ["OGDC", "500"]]);
+  });
+
+  it("uses the fetched account when the positions have no account column", () => {
+    const data = accountDataFromDetails(details({
+      positions: { headers: ["Symbol", "Quantity", "MTM Rate"], data: [["OGDC", "10", "195"]] },
+      accounts: ["PAPER-DEMO"],
+    }));
+    expect(data?.positions[0]).toMatchObject({ accountId: "PAPER-DEMO", marketValue: "1950" });
+  });
+
+  it("reports failed sections and ignores unknown layouts", () => {
+    const failed = { headers: ["Symbol", "Quantity"], data: [["Auth Failed", "Auth Failed"]], error: "Authentication Failed" };
+    expect(accountDataFromDetails(details({ positions: failed }))?.errors.positions).toBe("Authentication Failed");
+    expect(accountDataFromDetails(details({ positions: { headers: ["Instrument", "Units"], data: [] } }))).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+// Daily valuation points for the portfolio charts.
+//
+// Every fetch of a connection's normalized account data (the account-data
+// route, account snapshots) records the day's valuation: holdings, cash, P&L,
+// exposure and a per-symbol breakdown. Later fetches on the same day overwrite
+// the point, so each day keeps its latest valuation. Dashboard visits, which
+// fetch the legacy account-details tables, record the point from those tables
+// at most every VALUATION_REFRESH_MINUTES (default 15). Points keep the
+// broker's currency; convertValuationPoints serves them in a base currency.
+import type { Connection, ConvertedValuationPoint, InsertValuationPoint, ValuationPoint } from "@shared/schema";
+import type { AllAccountDetails, FetchResult } from "@shared/accountData";
+import type { MarginSummary, NormalizedAccountData, Position, SymbolValuation } from "@shared/models";
+import { multiplyDecimal, parseDecimal, sumDecimals } from "@shared/decimal";
+import { storage } from "./storage";
+import { convertAmount, getFxRates } from "./fx";
+import { createLogger } from "./logger";
+
+const log = createLogger("valuations");
+
+/** Per-symbol totals across every account of the connection */
+function valueSymbols(data: NormalizedAccountData): SymbolValuation[] {
+  const bySymbol = new Map<string, NormalizedAccountData["positions"]>();
+  for (const position of data.positions) {
+    bySymbol.set(position.symbol, [...(bySymbol.get(position.symbol) ?? []), position]);
+  }
+  return Array.from(bySymbol.entries())
+    .map(([symbol, positions]) => ({
+      symbol,
+      quantity: sumDecimals(positions.map(position => position.quantity)) ?? "0",
+      marketPrice: positions.find(position => position.marketPrice !== null)?.marketPrice ?? null,
+      marketValue: sumDecimals(positions.map(position => position.marketValue)),
+      unrealizedPnl: sumDecimals(positions.map(position => position.unrealizedPnl)),
+      settledPnl: sumDecimals(positions.map(position => position.realizedPnl)),
+    }))
+    .sort((a, b) => a.symbol.localeCompare(b.symbol));
+}
+
+/** The currency the connection's amounts are in, taken from its positions and balances */
+export function dataCurrency(data: NormalizedAccountData): string | null {
+  return [...data.positions, ...data.margin].find(item => item.currency)?.currency ?? null;
+}
+
+export function toValuationPoint(connectionId: number, data: NormalizedAccountData): InsertValuationPoint {
+  const holdingsValue = sumDecimals(data.positions.map(position => position.marketValue));
+  const cash = sumDecimals(data.margin.map(summary => summary.cash));
+  return {
+    connectionId,
+    date: data.timestamp.slice(0, 10),
+    recordedAt: data.timestamp,
+    currency: dataCurrency(data),
+    totalValue: sumDecimals([holdingsValue, cash]),
+    holdingsValue,
+    cash,
+    unrealizedPnl: sumDecimals(data.positions.map(position => position.unrealizedPnl)),
+    settledPnl: sumDecimals(data.positions.map(position => position.realizedPnl)),
+    exposure: sumDecimals(data.margin.flatMap(summary => summary.markets.map(market => market.exposure))),
+    symbols: valueSymbols(data),
+  };
+}
+
+/**
+ * Records the day's valuation from a fetch of every account. Fetches limited to
+ * one account, or where positions or margin failed, would understate the
+ * portfolio and are skipped. Failures are logged, never thrown.
+ */
+export async function recordValuation(connectionId: number, data: NormalizedAccountData): Promise<ValuationPoint | null> {
+  if (data.selectedAccount || data.dataSource === "error" || data.dataSource === "error_auth" ||
+      data.errors.positions || data.errors.margin) {
+    return null;
+  }
+  try {
+    const point = await storage.upsertValuationPoint(toValuationPoint(connectionId, data));
+    log.debug("Recorded valuation point", { connectionId, date: point.date, symbols: point.symbols.length });
+    return point;
+  } catch (error) {
+    log.error("Could not record valuation point", { connectionId, error });
+    return null;
+  }
+}
+
+/**
+ * Converts every amount of the points into `base` at the rate of each point's
+ * date. `fallbackCurrency` applies to points recorded without a currency.
+ */
+export async function convertValuationPoints(
+  points: ValuationPoint[],
+  fallbackCurrency: string | null,
+  base: string,
+): Promise<ConvertedValuationPoint[]> {
+  const rates = await getFxRates();
+  return points.map(point => {
+    const currency = point.currency ?? fallbackCurrency;
+    const fx = currency ? rates.rate(currency, base, point.date) : null;
+    const convert = (amount: string | null) => (fx ? convertAmount(amount, fx) : null);
+    return {
+      ...point,
+      currency: base,
+      totalValue: convert(point.totalValue),
+      holdingsValue: convert(point.holdingsValue),
+      cash: convert(point.cash),
+      unrealizedPnl: convert(point.unrealizedPnl),
+      settledPnl: convert(point.settledPnl),
+      exposure: convert(point.exposure),
+      symbols: point.symbols.map(symbol => ({
+        ...symbol,
+        marketPrice: convert(symbol.marketPrice),
+        marketValue: convert(symbol.marketValue),
+        unrealizedPnl: convert(symbol.unrealizedPnl),
+        settledPnl: convert(symbol.settledPnl),
+      })),
+      fx,
+    };
+  });
+}
+
+/** The column's index, matched by name case-insensitively; -1 when absent */
+function columnIndex(table: FetchResult, name: string): number {
+  return table.headers.findIndex(header => header.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Reads holdings and balances back from the legacy account-details tables, in
+ * the layout akdApiClient (and the paper broker) write them: positions with
+ * Symbol, Quantity, MTM Rate and Unsettled P/L columns, and account info rows
+ * labelled "Account ID", "Cash" and "Exposure (<market>)". Those tables carry
+ * no settled P&L. Returns null for other layouts.
+ */
+export function accountDataFromDetails(details: AllAccountDetails): NormalizedAccountData | null {
+  const { positions: table, accountInfo } = details;
+  const column = {
+    account: columnIndex(table, "Account"),
+    symbol: columnIndex(table, "Symbol"),
+    quantity: columnIndex(table, "Quantity"),
+    averageCost: columnIndex(table, "Avg Buy Rate"),
+    marketPrice: columnIndex(table, "MTM Rate"),
+    unrealizedPnl: columnIndex(table, "Unsettled P/L"),
+    valueAfterHaircut: columnIndex(table, "Value After Haircut"),
+  };
+  if (column.symbol === -1 || column.quantity === -1) return null;
+
+  const defaultAccount = details.selectedAccount ?? details.accounts?.[0] ?? "";
+  const positions: Position[] = table.error ? [] : table.data
+    .filter(row => row[column.symbol])
+    .map(row => {
+      const cell = (index: number) => (index === -1 ? null : parseDecimal(row[index]));
+      const quantity = cell(column.quantity) ?? "0";
+      const marketPrice = cell(column.marketPrice);
+      return {
+        accountId: (column.account !== -1 ? row[column.account] : null) ?? defaultAccount,
+        symbol: row[column.symbol]!,
+        quantity,
+        averageCost: cell(column.averageCost),
+        marketPrice,
+        marketValue: marketPrice !== null ? multiplyDecimal(quantity, marketPrice) : null,
+        unrealizedPnl: cell(column.unrealizedPnl),
+        realizedPnl: null,
+        haircutPercent: null,
+        valueAfterHaircut: cell(column.valueAfterHaircut),
+        pendingSellQuantity: null,
+        currency: table.currency ?? null,
+      };
+    });
+
+  // Each account's rows start with its "Account ID" row
+  const margin: MarginSummary[] = [];
+  if (!accountInfo.error) {
+    for (const [label, value] of accountInfo.data) {
+      if (label === "Account ID") {
+        margin.push({ accountId: value ?? "", floatingBalance: null, cash: null, availableAmount: null, currency: accountInfo.currency ?? null, markets: [] });
+        continue;
+      }
+      const summary = margin[margin.length - 1];
+      const exposureMarket = label?.match(/^Exposure \((.+)\)$/)?.[1];
+      if (!summary) continue;
+      if (label === "Cash") summary.cash = parseDecimal(value);
+      if (label === "Floating Balance") summary.floatingBalance = parseDecimal(value);
+      if (exposureMarket) {
+        summary.markets.push({ market: exposureMarket, allowedLimit: null, availableAmount: null, exposure: parseDecimal(value), profitLoss: null });
+      }
+    }
+  }
+
+  return {
+    accounts: [],
+    positions,
+    orders: [],
+    fills: [],
+    ledger: [],
+    margin,
+    errors: { positions: table.error, margin: accountInfo.error },
+    timestamp: details.timestamp,
+    dataSource: details.dataSource,
+    range: details.range,
+    selectedAccount: details.selectedAccount ?? null,
+  };
+}
+
+const lastBackgroundRefresh = new Map<number, number>();
+
+/**
+ * Records today's valuation point from the tables a legacy account-details
+ * fetch returned, without delaying the response. Throttled per connection; a
+ * refresh that records nothing is retried on the next fetch.
+ */
+export function refreshValuationInBackground(connection: Connection, details: AllAccountDetails): void {
+  const minutes = parseFloat(process.env.VALUATION_REFRESH_MINUTES || "15");
+  const throttleMs = (minutes >= 0 ? minutes : 15) * 60 * 1000;
+  if (Date.now() - (lastBackgroundRefresh.get(connection.id) ?? 0) < throttleMs) return;
+
+  const data = accountDataFromDetails(details);
+  if (!data) return;
+  recordValuation(connection.id, data).then(point => {
+    if (point) lastBackgroundRefresh.set(connection.id, Date.now());
+  });
+}
@@ -0,0 +1,61 @@
+// Table-shaped account data returned by broker clients and the account APIs
+import type { DateRange } from "./dates";
+
+export interface FetchResult {
+  headers: string[];
+  data: (string | null)[][];
+  error?: string; // Optional error message
+  warnings?: ColumnDriftWarning[]; // The broker's column layout no longer matches what the parser expects
+  rejectedRows?: ParseIssue[]; // Rows left out by strict parsing
+  currency?: string; // Currency of the amounts in the table, when the broker reports one
+}
+
+// A broker row (or one of its values) that does not fit the operation's row schema
+export interface ParseIssue {
+  operation: string;
+  account?: string; // Set when rows from several accounts are merged
+  row: number; // 1-based position in the payload, counting any header row
+  column?: string;
+  value?: string;
+  message: string;
+}
+
+// Raised when a broker payload's layout differs from the declared row schema
+export interface ColumnDriftWarning {
+  operation: string;
+  reason: 'header_changed' | 'column_count' | 'column_type';
+  message: string;
+  expectedColumns: string[];
+  observedColumnCount: number;
+  headerRow?: string[]; // Header labels the broker sent, if any
+  affectedColumns?: string[]; // Columns whose values no longer fit their type
+  affectedRows: number;
+}
+
+export type AccountDataSource = 'api' | 'api_with_errors' | 'error' | 'error_auth';
+
+export interface AccountLogs {
+  tradeLogs: FetchResult;
+  activityLogs: FetchResult;
+  outstandingLogs: FetchResult;
+  dataSource?: AccountDataSource;
+}
+
+export interface AllAccountDetails extends AccountLogs {
+  tradingAccounts: FetchResult;
+  orderHistory: FetchResult;
+  positions: FetchResult;
+  accountInfo: FetchResult;
+  accountStatement: FetchResult;
+  // Optional sections; only brokers that report them fill these in
+  openPositions?: FetchResult;
+  cdcHoldings?: FetchResult; // Securities held at the depository (CDC)
+  marginCalls?: FetchResult;
+  commissionSummary?: FetchResult;
+  marketInfo?: FetchResult; // Market-wide lists such as top gainers and losers
+  timestamp: string;
+  dataSource: AccountDataSource;
+  range?: DateRange; // Date range applied to order history and statements
+  accounts?: string[]; // Every account code discovered for the login
+  selectedAccount?: string | null; // Account the sections were fetched for; null means all accounts
+}
@@ -0,0 +1,111 @@
+// Date helpers for broker payloads. Brokers send dates in assorted local formats;
+// the shared models always carry ISO 8601 strings.
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+function monthFromName(name: string): number | null {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index === -1 ? null : index + 1;
+}
+
+function expandYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Parses a broker date into ISO 8601. Date-only input yields "YYYY-MM-DD"; input
+ * with a time yields "YYYY-MM-DDTHH:mm:ss" followed by `utcOffset` when given.
+ *
+ * Supported forms: "2025-03-01", "Mar 01, 2025", "01-Mar-2025", "01 Mar 25",
+ * "01/03/2025" (day first unless the day is impossible) — each optionally
+ * followed by "HH:mm[:ss] [AM|PM]".
+ */
+export function toIsoDate(raw: unknown, utcOffset?: string): string | null {
+  if (raw === null || raw === undefined) return null;
+  const text = String(raw).trim();
+  if (!text || text.toLowerCase() === "null") return null;
+
+  const timeMatch = text.match(/[ T](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([AaPp][Mm])?\s*$/);
+  const datePart = (timeMatch ? text.slice(0, timeMatch.index) : text).trim();
+
+  let year: number | null = null;
+  let month: number | null = null;
+  let day: number | null = null;
+  let match: RegExpMatchArray | null;
+
+  if ((match = datePart.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = datePart.match(/^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{2,4})$/))) {
+    [year, month, day] = [expandYear(Number(match[3])), monthFromName(match[1]), Number(match[2])];
+  } else if ((match = datePart.match(/^(\d{1,2})[-\s]([A-Za-z]{3,9})[-\s,]+(\d{2,4})$/))) {
+    [year, month, day] = [expandYear(Number(match[3])), monthFromName(match[2]), Number(match[1])];
+  } else if ((match = datePart.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/))) {
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    year = expandYear(Number(match[3]));
+    // Day first (as used in Pakistan and India) unless that cannot be a valid date
+    [day, month] = first > 12 || second <= 12 ? [first, second] : [second, first];
+  }
+
+  if (year === null || month === null || day === null || !isValidDate(year, month, day)) {
+    return null;
+  }
+
+  const date = `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+  if (!timeMatch) return date;
+
+  let hours = Number(timeMatch[1]);
+  const minutes = Number(timeMatch[2]);
+  const seconds = Number(timeMatch[3] ?? 0);
+  const meridiem = timeMatch[4]?.toLowerCase();
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) return date;
+
+  return `${date}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}${utcOffset ?? ""}`;
+}
+
+/** Inclusive calendar range, both ends as "YYYY-MM-DD" */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtcDay = (isoDate: string) => Date.parse(`${isoDate}T00:00:00Z`);
+const fromUtcDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/** Number of calendar days covered by an inclusive range */
+export function countRangeDays(range: DateRange): number {
+  return Math.round((toUtcDay(range.to) - toUtcDay(range.from)) / DAY_MS) + 1;
+}
+
+/**
+ * Splits an inclusive range into consecutive, non-overlapping chunks of at most
+ * `maxDays` days, oldest first.
+ */
+export function splitDateRange(range: DateRange, maxDays: number): DateRange[] {
+  const chunks: DateRange[] = [];
+  const end = toUtcDay(range.to);
+  for (let start = toUtcDay(range.from); start <= end; start += maxDays * DAY_MS) {
+    chunks.push({
+      from: fromUtcDay(start),
+      to: fromUtcDay(Math.min(start + (maxDays - 1) * DAY_MS, end)),
+    });
+  }
+  return chunks;
+}
+
+/** The last `days` days up to and including `today` */
+export function defaultDateRange(days = 30, today = new Date()): DateRange {
+  const to = `${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`;
+  return { from: fromUtcDay(toUtcDay(to) - (days - 1) * DAY_MS), to };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { addDecimals, parseDecimal } from "./decimal";
+
+describe("parseDecimal", () => {
+  it("reads broker-formatted numbers", () => {
+    expect(parseDecimal("1,234.50")).toBe("1234.5");
+    expect(parseDecimal("PKR 1,200")).toBe("1200");
+    expect(parseDecimal("(1,200.50)")).toBe("-1200.5");
+    expect(parseDecimal(" +12.5% ")).toBe("12.5");
+    expect(parseDecimal("-.5")).toBe("-0.5");
+    expect(parseDecimal("007.")).toBe("7");
+    expect(parseDecimal("-0")).toBe("0");
+  });
+
+  it("returns null for blanks and non-numbers", () => {
+    expect(parseDecimal("")).toBeNull();
+    expect(parseDecimal("-")).toBeNull();
+    expect(parseDecimal("null")).toBeNull();
+    expect(parseDecimal("12abc")).toBeNull();
+    expect(parseDecimal(Number.NaN)).toBeNull();
+  });
+
+  it("rejects more than one sign", () => {
+    expect(parseDecimal("--5")).toBeNull();
+    expect(parseDecimal("+-5")).toBeNull();
+    expect(parseDecimal("(-5)")).toBe("5");
+    expect(parseDecimal("(--5)")).toBeNull();
+  });
+
+  it("writes out numbers JavaScript prints with an exponent", () => {
+    expect(parseDecimal(1e21)).toBe("1000000000000000000000");
+    expect(parseDecimal(-1.5e22)).toBe("-15000000000000000000000");
+    expect(parseDecimal(1.5e-7)).toBe("0.00000015");
+    expect(parseDecimal(-2e-10)).toBe("-0.0000000002");
+    expect(addDecimals(parseDecimal(1e21)!, "0.5")).toBe("1000000000000000000000.5");
+  });
+});
@@ -0,0 +1,155 @@
+// Decimal-safe numeric values shared by the server and the client.
+// Amounts are kept as normalized decimal strings (e.g. "-1234.5") so they survive
+// JSON round trips without floating point drift; arithmetic uses scaled BigInts.
+
+export type Decimal = string;
+
+const UNSIGNED_PATTERN = /^\d+(\.\d+)?$/;
+const EXPONENT_PATTERN = /^(-?)(\d+)(?:\.(\d+))?e([+-]?\d+)$/i;
+
+/**
+ * Parses a broker-formatted number into a normalized decimal string.
+ * Accepts thousands separators, surrounding whitespace, a leading "+",
+ * trailing "%", currency codes (e.g. "PKR 1,200") and accounting
+ * negatives such as "(1,200.50)". Returns null for blanks and non-numbers.
+ */
+export function parseDecimal(raw: unknown): Decimal | null {
+  if (raw === null || raw === undefined) return null;
+  if (typeof raw === "number") {
+    return Number.isFinite(raw) ? normalize(String(raw)) : null;
+  }
+
+  let text = String(raw).trim();
+  if (!text || text === "-" || text.toLowerCase() === "null") return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  text = text.replace(/^[A-Za-z]{3}\s*/, "").replace(/[,\s%]/g, "");
+  // One sign at most; the unsigned rest is checked below
+  if (text.startsWith("-") || text.startsWith("+")) {
+    if (text.startsWith("-")) negative = !negative;
+    text = text.slice(1);
+  }
+  if (text.startsWith(".")) text = `0${text}`;
+  if (text.endsWith(".")) text = text.slice(0, -1);
+  if (!UNSIGNED_PATTERN.test(text)) return null;
+
+  return normalize(negative ? `-${text}` : text);
+}
+
+/** Writes out exponent notation (JS numbers from 1e21 up and below 1e-6) digit for digit */
+function expandExponent(value: string): string {
+  const match = EXPONENT_PATTERN.exec(value);
+  if (!match) return value;
+  const [, sign, intPart, fracPart = "", exponent] = match;
+  const digits = intPart + fracPart;
+  const point = intPart.length + Number(exponent);
+  if (point <= 0) return `${sign}0.${"0".repeat(-point)}${digits}`;
+  if (point >= digits.length) return `${sign}${digits}${"0".repeat(point - digits.length)}`;
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/** Strips leading/trailing zeros so equal values have equal strings */
+function normalize(value: string): Decimal {
+  value = expandExponent(value);
+  let negative = value.startsWith("-");
+  let [intPart, fracPart = ""] = (negative ? value.slice(1) : value).split(".");
+  intPart = intPart.replace(/^0+(?=\d)/, "");
+  fracPart = fracPart.replace(/0+$/, "");
+  if (/^0*$/.test(intPart) && !fracPart) negative = false;
+  return `${negative ? "-" : ""}${intPart || "0"}${fracPart ? `.${fracPart}` : ""}`;
+}
+
+interface Scaled {
+  units: bigint;
+  scale: number;
+}
+
+function toScaled(value: Decimal): Scaled {
+  const negative = value.startsWith("-");
+  const [intPart, fracPart = ""] = (negative ? value.slice(1) : value).split(".");
+  const units = BigInt(intPart + fracPart);
+  return { units: negative ? -units : units, scale: fracPart.length };
+}
+
+function rescale(value: Scaled, scale: number): bigint {
+  return value.units * BigInt(`1${"0".repeat(scale - value.scale)}`);
+}
+
+function fromScaled(units: bigint, scale: number): Decimal {
+  const negative = units < BigInt(0);
+  const digits = (negative ? -units : units).toString().padStart(scale + 1, "0");
+  const intPart = digits.slice(0, digits.length - scale);
+  const fracPart = scale > 0 ? `.${digits.slice(digits.length - scale)}` : "";
+  return normalize(`${negative ? "-" : ""}${intPart}${fracPart}`);
+}
+
+export function addDecimals(...values: Decimal[]): Decimal {
+  const scaled = values.map(toScaled);
+  const scale = Math.max(0, ...scaled.map(v => v.scale));
+  return fromScaled(scaled.reduce((sum, v) => sum + rescale(v, scale), BigInt(0)), scale);
+}
+
+/** Sum of the values that are present; null when none are */
+export function sumDecimals(values: (Decimal | null | undefined)[]): Decimal | null {
+  const present = values.filter((value): value is Decimal => value !== null && value !== undefined);
+  return present.length > 0 ? addDecimals(...present) : null;
+}
+
+export function subtractDecimal(a: Decimal, b: Decimal): Decimal {
+  return addDecimals(a, negateDecimal(b));
+}
+
+export function negateDecimal(value: Decimal): Decimal {
+  return normalize(value.startsWith("-") ? value.slice(1) : `-${value}`);
+}
+
+export function multiplyDecimal(a: Decimal, b: Decimal): Decimal {
+  const left = toScaled(a);
+  const right = toScaled(b);
+  return fromScaled(left.units * right.units, left.scale + right.scale);
+}
+
+const pow10 = (exponent: number) => BigInt(`1${"0".repeat(exponent)}`);
+
+// Integer division rounding half away from zero
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  const zero = BigInt(0);
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  const abs = (value: bigint) => (value < zero ? -value : value);
+  if (abs(remainder) * BigInt(2) < abs(denominator)) return quotient;
+  return (numerator < zero) !== (denominator < zero) ? quotient - BigInt(1) : quotient + BigInt(1);
+}
+
+/** Rounds half away from zero to at most `places` decimal places */
+export function roundDecimal(value: Decimal, places: number): Decimal {
+  const scaled = toScaled(value);
+  if (scaled.scale <= places) return value;
+  return fromScaled(divideRounded(scaled.units, pow10(scaled.scale - places)), places);
+}
+
+/** a / b rounded half away from zero to `places` decimal places; throws when b is zero */
+export function divideDecimal(a: Decimal, b: Decimal, places = 10): Decimal {
+  const left = toScaled(a);
+  const right = toScaled(b);
+  if (right.units === BigInt(0)) throw new RangeError("Division by zero");
+  return fromScaled(divideRounded(left.units * pow10(right.scale + places), right.units * pow10(left.scale)), places);
+}
+
+/** Returns -1, 0 or 1 */
+export function compareDecimal(a: Decimal, b: Decimal): number {
+  const left = toScaled(a);
+  const right = toScaled(b);
+  const scale = Math.max(left.scale, right.scale);
+  const diff = rescale(left, scale) - rescale(right, scale);
+  return diff === BigInt(0) ? 0 : diff < BigInt(0) ? -1 : 1;
+}
+
+/** Lossy conversion for display and charting only */
+export function decimalToNumber(value: Decimal | null | undefined): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
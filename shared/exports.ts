@@ -0,0 +1,80 @@
+// Downloads of the dashboard tables (GET /api/connections/:id/export/:section).
+// A section is one FetchResult table of the account details or logs; the
+// file holds a header block describing where the rows came from, then the
+// rows, limited to the requested columns.
+import type { DateRange } from "./dates";
+import type { AccountDataSource, AllAccountDetails } from "./accountData";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const LOG_EXPORT_SECTIONS = ["tradeLogs", "activityLogs", "outstandingLogs"] as const;
+
+export const EXPORT_SECTIONS = [
+  "tradingAccounts",
+  "orderHistory",
+  "positions",
+  "accountInfo",
+  "accountStatement",
+  "openPositions",
+  "cdcHoldings",
+  "marginCalls",
+  "commissionSummary",
+  "marketInfo",
+  ...LOG_EXPORT_SECTIONS,
+] as const satisfies readonly (keyof AllAccountDetails)[];
+export type ExportSection = (typeof EXPORT_SECTIONS)[number];
+
+export const EXPORT_SECTION_TITLES: Record<ExportSection, string> = {
+  tradingAccounts: "Trading Accounts",
+  orderHistory: "Order History",
+  positions: "Portfolio Positions",
+  accountInfo: "Account Info",
+  accountStatement: "Account Statement",
+  openPositions: "Open Positions",
+  cdcHoldings: "CDC Holdings",
+  marginCalls: "Margin Calls",
+  commissionSummary: "Commission Summary",
+  marketInfo: "Market Info",
+  tradeLogs: "Trade Log",
+  activityLogs: "Daily Activity Log",
+  outstandingLogs: "Outstanding Log",
+};
+
+/** The header block at the top of every export */
+export interface ExportHeader {
+  section: string;
+  connection: string; // Exchange and broker, with the connection ID
+  account: string; // Account code, or "All accounts"
+  range: DateRange | null; // Null for sections the range does not apply to (logs)
+  generatedAt: string;
+  fetchedAt: string; // Timestamp of the broker data
+  dataSource: AccountDataSource | "unknown";
+  currency: string | null;
+}
+
+/** JSON export body */
+export interface TableExport {
+  header: ExportHeader;
+  headers: string[];
+  data: (string | null)[][];
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  range?: DateRange;
+  account?: string;
+  columns?: string[]; // Header names to keep, in table order; all when empty
+}
+
+/** Download URL for a section; the browser sends the session cookie with it */
+export function exportUrl(connectionId: string | number, section: ExportSection, options: ExportOptions): string {
+  const params = new URLSearchParams({ format: options.format });
+  if (options.range) {
+    params.set("from", options.range.from);
+    params.set("to", options.range.to);
+  }
+  if (options.account) params.set("account", options.account);
+  options.columns?.forEach(column => params.append("columns", column));
+  return `/api/connections/${connectionId}/export/${section}?${params}`;
+}
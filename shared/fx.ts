@@ -0,0 +1,38 @@
+// Exchange rates and conversion into a user-selected base currency.
+// Currencies are ISO 4217 codes, or the ticker for crypto (USDT, BTC).
+// Rates are Decimal strings, dates are YYYY-MM-DD.
+import type { Decimal } from "./decimal";
+
+// Query value and client setting meaning "show amounts in their own currency"
+export const NATIVE_CURRENCY = "native";
+
+/** One unit of `base` is worth `rate` units of `quote` on `date` */
+export interface FxRate {
+  base: string;
+  quote: string;
+  rate: Decimal;
+  date: string;
+}
+
+/** How an amount in `from` was converted; `rateDate` is null when from and to are the same */
+export interface FxConversion {
+  from: string;
+  to: string;
+  rate: Decimal;
+  rateDate: string | null;
+}
+
+/** GET /api/fx/currencies */
+export interface FxCurrencies {
+  provider: string;
+  currencies: string[];
+  latestDate: string | null; // Most recent date any rate is quoted for
+}
+
+const CURRENCY_CODE = /^[A-Z][A-Z0-9]{1,9}$/;
+
+/** Upper-cases a currency code; null when it is not one */
+export function normalizeCurrency(raw: unknown): string | null {
+  const value = String(raw ?? "").trim().toUpperCase();
+  return CURRENCY_CODE.test(value) ? value : null;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { AccountLogs, FetchResult } from "./accountData";
+import { applyTableDelta, applyTables, diffTable } from "./liveUpdates";
+
+const headers = ["Account", "Symbol", "Quantity", "MTM Rate"];
+
+const positions: FetchResult = {
+  headers,
+  data: [
+    ["SIM001", "OGDC", "400", "195.10"],
+    ["SIM001", "HBL", "200", "139.00"],
+    ["SIM002", "OGDC", "100", "195.10"],
+  ],
+  currency: "PKR",
+};
+
+describe("diffTable and applyTableDelta", () => {
+  it("sends only the changed, added and removed positions, keyed by account and symbol", () => {
+    const next: FetchResult = {
+      headers,
+      data: [
+        ["SIM001", "OGDC", "400", "196.25"],
+        ["SIM001", "HBL", "200", "139.00"],
+        ["SIM002", "PSO", "50", "250.00"],
+      ],
+      currency: "PKR",
+    };
+
+    const delta = diffTable("positions", positions, next);
+    expect(delta).toEqual({
+      headers,
+      upserted: [["SIM001", "OGDC", "400", "196.25"], ["SIM002", "PSO", "50", "250.00"]],
+      removed: [JSON.stringify(["SIM002", "OGDC"])],
+    });
+    expect(applyTableDelta("positions", positions, delta!)).toEqual(next);
+  });
+
+  it("sends nothing when the table is unchanged", () => {
+    expect(diffTable("positions", positions, { ...positions, data: positions.data.map(row => [...row]) })).toBeNull();
+  });
+
+  it("resets the table when there is none before or the headers change", () => {
+    const next: FetchResult = { headers: [...headers, "Value"], data: [["SIM001", "OGDC", "400", "195.10", "78040"]] };
+
+    expect(diffTable("positions", undefined, positions)).toEqual({ headers, upserted: positions.data, removed: [], reset: true });
+    const delta = diffTable("positions", positions, next);
+    expect(delta).toEqual({ headers: next.headers, upserted: next.data, removed: [], reset: true });
+    // A reset replaces the rows and clears an earlier error, keeping the rest of the table
+    expect(applyTableDelta("positions", { ...positions, error: "Timed out" }, delta!))
+      .toEqual({ headers: next.headers, data: next.data, currency: "PKR", error: undefined });
+  });
+
+  it("keys log rows by all their values", () => {
+    const logHeaders = ["Time", "Message"];
+    const previous: FetchResult = { headers: logHeaders, data: [["09:30", "Order placed"], ["09:31", "Order filled"]] };
+    const next: FetchResult = { headers: logHeaders, data: [["09:31", "Order filled"], ["09:32", "Order cancelled"]] };
+
+    const delta = diffTable("tradeLogs", previous, next);
+    expect(delta).toEqual({
+      headers: logHeaders,
+      upserted: [["09:32", "Order cancelled"]],
+      removed: [JSON.stringify(["09:30", "Order placed"])],
+    });
+    expect(applyTableDelta("tradeLogs", previous, delta!)).toEqual(next);
+  });
+});
+
+describe("applyTables", () => {
+  it("applies the deltas to the sections the cached response holds", () => {
+    const logs: AccountLogs = {
+      tradeLogs: { headers: ["Time", "Message"], data: [["09:30", "Order placed"]] },
+      activityLogs: { headers: ["Time", "Message"], data: [] },
+      outstandingLogs: { headers: ["Symbol"], data: [] },
+    };
+    const next: FetchResult = { headers: ["Time", "Message"], data: [["09:30", "Order placed"], ["09:31", "Order filled"]] };
+
+    const updated = applyTables(logs, {
+      tradeLogs: diffTable("tradeLogs", logs.tradeLogs, next)!,
+      positions: diffTable("positions", undefined, positions)!,
+    });
+    // Positions are not part of the logs response and are left out
+    expect(updated).toEqual({ ...logs, tradeLogs: next });
+    expect(logs.tradeLogs.data).toHaveLength(1);
+    expect(applyTables(undefined, { tradeLogs: diffTable("tradeLogs", undefined, next)! })).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+// Server push over a WebSocket at LIVE_UPDATES_PATH, authenticated by the
+// session cookie. Every socket receives its user's connection changes; a
+// socket that watches a connection (and account) also receives that
+// connection's status and changes to its positions and logs, polled by the
+// server while someone watches. Tables are sent as deltas against what the
+// socket was sent before, keyed by rowKey; the first message after a watch
+// carries the whole table (`reset`).
+import { z } from "zod";
+import type { AllAccountDetails, FetchResult } from "./accountData";
+import type { ConnectionView } from "./schema";
+
+export const LIVE_UPDATES_PATH = "/api/live";
+
+export const LIVE_TABLE_SECTIONS = ["positions", "tradeLogs", "activityLogs", "outstandingLogs"] as const;
+export type LiveTableSection = (typeof LIVE_TABLE_SECTIONS)[number];
+
+// Columns that identify a row across refreshes, so a changed row replaces the
+// old one in place. Log rows are events and are identified by all their values.
+const KEY_COLUMNS: Record<LiveTableSection, string[]> = {
+  positions: ["account", "symbol"],
+  tradeLogs: [],
+  activityLogs: [],
+  outstandingLogs: [],
+};
+
+export interface TableDelta {
+  headers: string[];
+  /** Rows added or changed, in table order */
+  upserted: FetchResult["data"];
+  /** Keys (rowKey) of rows that are gone */
+  removed: string[];
+  /** `upserted` is the whole table and replaces the one held */
+  reset?: boolean;
+}
+
+// "live": the last poll succeeded; "auth_failed": the broker refused the credentials
+export type LiveStatus = "live" | "auth_failed" | "error";
+
+export interface LiveStatusEvent {
+  type: "status";
+  connectionId: number;
+  status: LiveStatus;
+  message: string | null;
+  at: string;
+}
+
+export type LiveEvent =
+  | { type: "connection"; connection: ConnectionView }
+  | { type: "connection_removed"; connectionId: number }
+  | LiveStatusEvent
+  | {
+      type: "tables";
+      connectionId: number;
+      accountId: string | null; // Null for the all-accounts view
+      at: string;
+      tables: Partial<Record<LiveTableSection, TableDelta>>;
+    };
+
+// Client messages: watch one connection (replacing any earlier watch), or stop watching
+export const liveClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("watch"), connectionId: z.number().int().positive(), accountId: z.string().min(1).nullable() }),
+  z.object({ type: z.literal("unwatch") }),
+]);
+export type LiveClientMessage = z.infer<typeof liveClientMessageSchema>;
+
+export function rowKey(section: LiveTableSection, headers: string[], row: FetchResult["data"][number]): string {
+  const columns = KEY_COLUMNS[section]
+    .map(name => headers.findIndex(header => header.toLowerCase() === name))
+    .filter(index => index !== -1);
+  return JSON.stringify(columns.length > 0 ? columns.map(index => row[index]) : row);
+}
+
+/** Changes from `previous` to `next`; null when nothing changed. Without `previous` the delta resets the table */
+export function diffTable(section: LiveTableSection, previous: FetchResult | undefined, next: FetchResult): TableDelta | null {
+  if (!previous || previous.headers.join("\u0000") !== next.headers.join("\u0000")) {
+    return { headers: next.headers, upserted: next.data, removed: [], reset: true };
+  }
+
+  const before = new Map(previous.data.map(row => [rowKey(section, previous.headers, row), JSON.stringify(row)]));
+  const nextKeys = new Set<string>();
+  const upserted = next.data.filter(row => {
+    const key = rowKey(section, next.headers, row);
+    nextKeys.add(key);
+    return before.get(key) !== JSON.stringify(row);
+  });
+  const removed = Array.from(before.keys()).filter(key => !nextKeys.has(key));
+  return upserted.length > 0 || removed.length > 0 ? { headers: next.headers, upserted, removed } : null;
+}
+
+/** The table with the delta applied; changed rows keep their place and new rows go at the end */
+export function applyTableDelta(section: LiveTableSection, table: FetchResult | undefined, delta: TableDelta): FetchResult {
+  if (delta.reset || !table) {
+    return { ...table, headers: delta.headers, data: delta.upserted, error: undefined };
+  }
+
+  const removed = new Set(delta.removed);
+  const upserts = new Map(delta.upserted.map(row => [rowKey(section, delta.headers, row), row]));
+  const data = table.data
+    .filter(row => !removed.has(rowKey(section, table.headers, row)))
+    .map(row => {
+      const key = rowKey(section, table.headers, row);
+      const replacement = upserts.get(key);
+      upserts.delete(key);
+      return replacement ?? row;
+    });
+  return { ...table, headers: delta.headers, data: [...data, ...Array.from(upserts.values())] };
+}
+
+/** Applies the deltas to the sections a cached response holds */
+export function applyTables<T extends Partial<AllAccountDetails>>(
+  cached: T | undefined,
+  tables: Partial<Record<LiveTableSection, TableDelta>>,
+): T | undefined {
+  if (!cached || typeof cached !== "object") return cached;
+  const updated: T = { ...cached };
+  for (const [section, delta] of Object.entries(tables) as [LiveTableSection, TableDelta][]) {
+    if (section in cached) updated[section] = applyTableDelta(section, cached[section], delta);
+  }
+  return updated;
+}
@@ -0,0 +1,99 @@
+// Tax lots and realized/unrealized P&L, as returned by
+// GET /api/connections/:id/pnl. Every buy fill opens a lot; sells close lots
+// according to the lot method. Costs include the buy commission and proceeds
+// are net of the sell commission. Amounts are Decimal strings, dates ISO 8601.
+import type { Decimal } from "./decimal";
+import type { DateRange } from "./dates";
+import type { AccountDataSection } from "./models";
+
+// fifo: oldest lot first; average: every sale costs the running average of the
+// open lots; specific: the lots picked for each sale, then FIFO for the rest
+export const LOT_METHODS = ["fifo", "average", "specific"] as const;
+export type LotMethod = (typeof LOT_METHODS)[number];
+
+export const PNL_PERIODS = ["month", "quarter", "year"] as const;
+export type PnlPeriod = (typeof PNL_PERIODS)[number];
+
+/** Holdings bought before the fetched history are an opening lot at the broker's average cost */
+export const OPENING_LOT_PREFIX = "OPENING";
+
+export interface OpenLot {
+  lotId: string; // The buy fill's ID, or OPENING-<account>-<symbol>
+  accountId: string;
+  symbol: string;
+  openedAt: string | null; // Null for opening lots
+  quantity: Decimal; // Still held
+  cost: Decimal; // Cost of the quantity still held
+  marketPrice: Decimal | null;
+  marketValue: Decimal | null;
+  unrealizedPnl: Decimal | null;
+}
+
+/** One lot (or part of it) closed by one sell fill */
+export interface RealizedLot {
+  sellFillId: string;
+  lotId: string | null; // Null when the sale exceeded the known holdings
+  accountId: string;
+  symbol: string;
+  quantity: Decimal;
+  openedAt: string | null;
+  closedAt: string;
+  holdingDays: number | null;
+  proceeds: Decimal;
+  cost: Decimal | null;
+  realizedPnl: Decimal | null;
+  commission: Decimal; // Buy and sell commission included in cost and proceeds
+}
+
+export interface SymbolPnl {
+  accountId: string;
+  symbol: string;
+  openQuantity: Decimal;
+  costBasis: Decimal;
+  marketValue: Decimal | null;
+  realizedPnl: Decimal;
+  unrealizedPnl: Decimal | null;
+  commissions: Decimal;
+}
+
+export interface PeriodPnl {
+  period: string; // 2025-03, 2025-Q1 or 2025
+  proceeds: Decimal;
+  cost: Decimal;
+  realizedPnl: Decimal;
+  commissions: Decimal;
+  trades: number; // Sell fills closed in the period
+}
+
+/** A sale and the lots open at that moment, for picking specific lots */
+export interface SaleLotChoice {
+  sellFillId: string;
+  accountId: string;
+  symbol: string;
+  quantity: Decimal;
+  executedAt: string;
+  candidates: { lotId: string; openedAt: string | null; available: Decimal }[];
+  selected: LotSelection[];
+}
+
+export interface LotSelection {
+  lotId: string;
+  quantity: Decimal;
+}
+
+export interface PnlReport {
+  connectionId: number;
+  method: LotMethod;
+  period: PnlPeriod;
+  range: DateRange; // Realized P&L covers sells in this range; unrealized is as of `generatedAt`
+  currency: string | null;
+  generatedAt: string;
+  totals: { realizedPnl: Decimal; unrealizedPnl: Decimal | null; commissions: Decimal };
+  symbols: SymbolPnl[];
+  periods: PeriodPnl[];
+  realized: RealizedLot[];
+  openLots: OpenLot[];
+  sales: SaleLotChoice[]; // Only for the specific method
+  warnings: string[];
+  errors: Partial<Record<AccountDataSection, string>>;
+}
@@ -0,0 +1,156 @@
+// Normalized, broker-independent account models.
+// Broker clients map their raw payloads into these shapes so that the server and
+// the dashboard can compute on them; the table-shaped FetchResult in accountData.ts
+// remains for the legacy views. Monetary and quantity fields are Decimal strings,
+// dates are ISO 8601. `currency` is the ISO 4217 (or crypto) code monetary fields
+// are in, null when the broker does not say.
+import type { Decimal } from "./decimal";
+import type { AccountDataSource } from "./accountData";
+import type { DateRange } from "./dates";
+
+export const ORDER_SIDES = ["buy", "sell"] as const;
+export type OrderSide = (typeof ORDER_SIDES)[number];
+
+export const ORDER_STATUSES = ["open", "partially_filled", "filled", "cancelled", "rejected", "unknown"] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export interface BrokerAccount {
+  accountId: string;
+  title: string | null;
+  branchCode: string | null;
+  traderCode: string | null;
+  status: string | null;
+}
+
+export interface Position {
+  accountId: string;
+  symbol: string;
+  quantity: Decimal;
+  averageCost: Decimal | null;
+  marketPrice: Decimal | null;
+  marketValue: Decimal | null;
+  unrealizedPnl: Decimal | null;
+  realizedPnl: Decimal | null;
+  haircutPercent: Decimal | null;
+  valueAfterHaircut: Decimal | null;
+  pendingSellQuantity: Decimal | null;
+  currency: string | null;
+}
+
+export interface Order {
+  orderId: string;
+  accountId: string;
+  symbol: string;
+  side: OrderSide | null;
+  type: string | null;
+  quantity: Decimal | null;
+  price: Decimal | null;
+  amount: Decimal | null;
+  status: OrderStatus;
+  placedAt: string | null;
+  currency: string | null;
+}
+
+export interface Fill {
+  fillId: string;
+  orderId: string | null;
+  accountId: string;
+  symbol: string;
+  side: OrderSide | null;
+  quantity: Decimal;
+  price: Decimal;
+  value: Decimal;
+  commission: Decimal | null;
+  // trade_log: reported per execution; summary: estimated from the account's commission summary
+  commissionSource: "trade_log" | "summary" | null;
+  executedAt: string | null;
+  currency: string | null;
+}
+
+export interface LedgerEntry {
+  entryId: string;
+  accountId: string;
+  date: string | null;
+  description: string | null;
+  debit: Decimal | null;
+  credit: Decimal | null;
+  /** credit minus debit */
+  amount: Decimal;
+  balance: Decimal | null;
+  currency: string | null;
+}
+
+export interface MarginMarket {
+  market: string;
+  allowedLimit: Decimal | null;
+  availableAmount: Decimal | null;
+  exposure: Decimal | null;
+  profitLoss: Decimal | null;
+}
+
+export interface MarginSummary {
+  accountId: string;
+  floatingBalance: Decimal | null;
+  cash: Decimal | null;
+  /** Available amount in the regular (cash) market, used for pre-trade checks */
+  availableAmount: Decimal | null;
+  currency: string | null;
+  markets: MarginMarket[];
+}
+
+/** Balances of one account: its margin summary without the per-market breakdown */
+export type AccountBalance = Omit<MarginSummary, "markets">;
+
+/** One account's exposure in one market */
+export interface MarketExposure extends MarginMarket {
+  accountId: string;
+}
+
+/** One symbol's holding across all accounts of a connection, as valued on one day */
+export interface SymbolValuation {
+  symbol: string;
+  quantity: Decimal;
+  marketPrice: Decimal | null;
+  marketValue: Decimal | null;
+  unrealizedPnl: Decimal | null;
+  settledPnl: Decimal | null;
+}
+
+export type AccountDataSection = "accounts" | "positions" | "orders" | "fills" | "ledger" | "margin";
+
+export const ACCOUNT_DATA_SECTIONS: AccountDataSection[] = ["accounts", "positions", "orders", "fills", "ledger", "margin"];
+
+/** Every normalized section for one connection, with per-section error messages */
+export interface NormalizedAccountData {
+  accounts: BrokerAccount[];
+  positions: Position[];
+  orders: Order[];
+  fills: Fill[];
+  ledger: LedgerEntry[];
+  margin: MarginSummary[]; // One summary per account
+  errors: Partial<Record<AccountDataSection, string>>;
+  timestamp: string;
+  dataSource: AccountDataSource;
+  range?: DateRange; // Date range applied to orders, fills and the ledger
+  selectedAccount?: string | null; // Account the sections were fetched for; null means all accounts
+}
+
+/** Maps broker side codes ("B", "Buy", "SELL", ...) to OrderSide */
+export function parseOrderSide(raw: unknown): OrderSide | null {
+  const value = String(raw ?? "").trim().toLowerCase();
+  if (value === "b" || value === "buy" || value === "purchase") return "buy";
+  if (value === "s" || value === "sell" || value === "sale") return "sell";
+  return null;
+}
+
+/** Maps broker order status text to OrderStatus */
+export function parseOrderStatus(raw: unknown): OrderStatus {
+  const value = String(raw ?? "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (!value) return "unknown";
+  if (/^(partial|partially_filled|part_filled|partially_executed)/.test(value)) return "partially_filled";
+  if (/^(filled|executed|completed|complete|traded)/.test(value)) return "filled";
+  if (/^(open|pending|new|queued|outstanding|accepted)/.test(value)) return "open";
+  if (/^(cancel|canceled|cancelled|withdrawn|expired)/.test(value)) return "cancelled";
+  if (/^(reject|rejected|failed)/.test(value)) return "rejected";
+  return "unknown";
+}
@@ -0,0 +1,77 @@
+// Order entry: tickets sent from the dashboard, orders as the broker's order
+// client reports them, and the pre-trade check run before an order is sent.
+// Quantities and prices are Decimal strings, like the account models.
+import type { Decimal } from "./decimal";
+import type { OrderSide, OrderStatus } from "./models";
+
+export const ORDER_TYPES = ["market", "limit"] as const;
+export type OrderType = (typeof ORDER_TYPES)[number];
+
+// day: expires at the close; ioc: whatever does not fill at once is cancelled; gtc: until cancelled
+export const ORDER_VALIDITIES = ["day", "ioc", "gtc"] as const;
+export type OrderValidity = (typeof ORDER_VALIDITIES)[number];
+
+export const ORDER_VALIDITY_LABELS: Record<OrderValidity, string> = {
+  day: "Day",
+  ioc: "Immediate or cancel",
+  gtc: "Good till cancelled",
+};
+
+export interface OrderTicket {
+  accountId: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: Decimal;
+  /** Limit price; null for market orders */
+  price: Decimal | null;
+  validity: OrderValidity;
+}
+
+/** Fields a working order can be changed in; omitted fields keep their value */
+export interface OrderModification {
+  quantity?: Decimal;
+  price?: Decimal;
+}
+
+/** An order sent through the app, as the broker reports it now */
+export interface PlacedOrder {
+  orderId: string;
+  accountId: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: Decimal;
+  filledQuantity: Decimal;
+  price: Decimal | null;
+  validity: OrderValidity;
+  status: OrderStatus;
+  placedAt: string;
+  updatedAt: string;
+  /** Broker remark, such as a rejection reason */
+  message: string | null;
+}
+
+/**
+ * Outcome of checking an order against the account's available amount.
+ * Buys need `required` (quantity times price, or the increase for a
+ * modification) to be covered; sells do not draw on it.
+ */
+export interface PreTradeCheck {
+  accountId: string;
+  side: OrderSide;
+  required: Decimal;
+  availableAmount: Decimal | null;
+  currency: string | null;
+  /** The broker's last price a market buy was valued at */
+  quotedPrice: Decimal | null;
+  passed: boolean;
+  message: string;
+}
+
+export interface OrderActionResult {
+  order: PlacedOrder;
+  check: PreTradeCheck | null;
+}
+
+export const isWorkingOrder = (order: PlacedOrder) => order.status === "open" || order.status === "partially_filled";
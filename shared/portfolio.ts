@@ -0,0 +1,89 @@
+// Cross-broker portfolio returned by GET /api/portfolio.
+// Figures from different connections are only added up within one currency,
+// so every total carries the currency it is in. With ?base=<currency> each
+// connection's figures are converted first, so totals span currencies.
+// Amounts are Decimal strings.
+import type { Decimal } from "./decimal";
+import type { FxConversion } from "./fx";
+
+// Quote currency per exchange name; null when unknown
+export const EXCHANGE_CURRENCIES: Record<string, string> = {
+  PSX: "PKR",
+  NSE: "INR",
+  NYSE: "USD",
+  NASDAQ: "USD",
+  LSE: "GBP",
+  Binance: "USDT",
+  "Binance Futures": "USDT",
+  Coinbase: "USD",
+  Kraken: "USD",
+  "Forex.com": "USD",
+  OANDA: "USD",
+  "CME Group": "USD",
+  ICE: "USD",
+  COMEX: "USD",
+  LME: "USD",
+  Paper: "PKR",
+};
+
+export function exchangeCurrency(exchangeName: string | undefined): string | null {
+  return (exchangeName && EXCHANGE_CURRENCIES[exchangeName]) || null;
+}
+
+/**
+ * ok: fresh data for every section; partial: fresh, but positions or cash failed;
+ * stale: the live fetch failed and the latest snapshot is shown instead;
+ * failed: no data at all; unsupported: the broker integration has no account data.
+ */
+export type PortfolioConnectionStatus = "ok" | "partial" | "stale" | "failed" | "unsupported";
+
+export interface PortfolioConnection {
+  connectionId: number;
+  exchange: string;
+  broker: string | null;
+  marketType: string;
+  currency: string | null; // Currency of the amounts; the base currency once converted
+  fx: FxConversion | null; // Set when the amounts were converted into the base currency
+  status: PortfolioConnectionStatus;
+  error: string | null;
+  source: "live" | "snapshot" | null; // Where the figures come from
+  asOf: string | null; // When the figures were fetched, ISO 8601
+  positionCount: number;
+  marketValue: Decimal | null;
+  cash: Decimal | null;
+  totalValue: Decimal | null;
+}
+
+/** Sum over a group of connections that share a currency */
+export interface PortfolioTotal {
+  key: string; // Market type, exchange name or (original) currency
+  currency: string | null;
+  connectionIds: number[];
+  marketValue: Decimal | null;
+  cash: Decimal | null;
+  totalValue: Decimal | null;
+}
+
+export interface PortfolioSymbolTotal {
+  symbol: string;
+  exchange: string;
+  currency: string | null;
+  connectionIds: number[];
+  quantity: Decimal;
+  marketValue: Decimal | null;
+  unrealizedPnl: Decimal | null;
+}
+
+export interface Portfolio {
+  generatedAt: string;
+  baseCurrency: string | null;
+  // Every converted connection added up in the base currency; null without a base currency
+  total: PortfolioTotal | null;
+  // Currencies with no rate into the base currency; their connections keep their own currency
+  fxMissing: string[];
+  connections: PortfolioConnection[];
+  byMarketType: PortfolioTotal[];
+  byExchange: PortfolioTotal[];
+  byCurrency: PortfolioTotal[];
+  bySymbol: PortfolioSymbolTotal[];
+}
@@ -1,6 +1,10 @@
-import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ORDER_SIDES, type AccountBalance, type AccountDataSection, type MarketExposure, type Position, type SymbolValuation } from "./models";
+import { ORDER_TYPES, ORDER_VALIDITIES } from "./orders";
+import type { Decimal } from "./decimal";
+import type { FxConversion } from "./fx";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -15,7 +19,7 @@ export const exchanges = pgTable("exchanges", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   type: text("type").notNull(), // spot, futures
-  marketType: text("market_type").notNull(), // equity, crypto, forex, commodity, metals
+  marketType: text("market_type").notNull(), // equity, crypto, forex, commodity, metals, paper
   requiresBroker: boolean("requires_broker").default(false),
 });
 
@@ -39,6 +43,53 @@ export const connections = pgTable("connections", {
   accountId: text("account_id"),
 });
 
+// Point-in-time copy of a connection's positions, balances and exposure,
+// written by the refresh scheduler (server/accountSnapshots.ts)
+export const accountSnapshots = pgTable("account_snapshots", {
+  id: serial("id").primaryKey(),
+  connectionId: integer("connection_id").references(() => connections.id, { onDelete: "cascade" }).notNull(),
+  takenAt: text("taken_at").notNull(), // ISO 8601 timestamp
+  trigger: text("trigger").notNull(), // "scheduled" or "manual"
+  dataSource: text("data_source").notNull(),
+  positions: jsonb("positions").$type<Position[]>().notNull(),
+  balances: jsonb("balances").$type<AccountBalance[]>().notNull(),
+  exposure: jsonb("exposure").$type<MarketExposure[]>().notNull(),
+  errors: jsonb("errors").$type<Partial<Record<AccountDataSection, string>>>().notNull(),
+}, (table) => [
+  index("account_snapshots_connection_taken_at_idx").on(table.connectionId, table.takenAt),
+]);
+
+// One valuation per connection and day, overwritten each time the day's
+// account data is fetched (server/valuations.ts). Amounts are Decimal strings.
+export const valuationPoints = pgTable("valuation_points", {
+  id: serial("id").primaryKey(),
+  connectionId: integer("connection_id").references(() => connections.id, { onDelete: "cascade" }).notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD (UTC)
+  recordedAt: text("recorded_at").notNull(), // ISO 8601 timestamp of the fetch
+  currency: text("currency"), // Currency of every amount below; null when the broker did not say
+  totalValue: text("total_value"), // Holdings plus cash
+  holdingsValue: text("holdings_value"),
+  cash: text("cash"),
+  unrealizedPnl: text("unrealized_pnl"),
+  settledPnl: text("settled_pnl"),
+  exposure: text("exposure"),
+  symbols: jsonb("symbols").$type<SymbolValuation[]>().notNull(),
+}, (table) => [
+  uniqueIndex("valuation_points_connection_date_idx").on(table.connectionId, table.date),
+]);
+
+// Lots picked for a sale under the specific-lot method (server/lotEngine.ts),
+// one row per sale and lot. Fill and lot IDs are the broker's fill IDs.
+export const lotSelections = pgTable("lot_selections", {
+  id: serial("id").primaryKey(),
+  connectionId: integer("connection_id").references(() => connections.id, { onDelete: "cascade" }).notNull(),
+  sellFillId: text("sell_fill_id").notNull(),
+  lotId: text("lot_id").notNull(),
+  quantity: text("quantity").notNull(), // Decimal
+}, (table) => [
+  uniqueIndex("lot_selections_connection_sale_lot_idx").on(table.connectionId, table.sellFillId, table.lotId),
+]);
+
 // User Schema
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -66,6 +117,91 @@ export const insertConnectionSchema = createInsertSchema(connections);
 export type InsertConnection = z.infer<typeof insertConnectionSchema>;
 export type Connection = typeof connections.$inferSelect;
 
+// Account Snapshot Schema
+export const SNAPSHOT_TRIGGERS = ["scheduled", "manual"] as const;
+export type SnapshotTrigger = (typeof SNAPSHOT_TRIGGERS)[number];
+
+export type InsertAccountSnapshot = typeof accountSnapshots.$inferInsert;
+export type AccountSnapshot = typeof accountSnapshots.$inferSelect;
+
+// Valuation Point Schema
+export type InsertValuationPoint = typeof valuationPoints.$inferInsert;
+export type ValuationPoint = typeof valuationPoints.$inferSelect;
+// Served with ?base=<currency>: amounts converted at the rate of the point's
+// date; null amounts and a null `fx` when no rate was available
+export type ConvertedValuationPoint = ValuationPoint & { fx: FxConversion | null };
+
+// Lot Selection Schema
+export type InsertLotSelection = typeof lotSelections.$inferInsert;
+export type LotSelectionRecord = typeof lotSelections.$inferSelect;
+
+// PUT /api/connections/:id/lot-selections: the lots a sale takes, replacing earlier picks
+export const lotSelectionRequestSchema = z.object({
+  sellFillId: z.string().min(1),
+  lots: z.array(z.object({
+    lotId: z.string().min(1),
+    quantity: z.string().regex(/^\d+(\.\d+)?$/, "Quantity must be a positive decimal")
+      .refine(value => Number(value) > 0, "Quantity must be positive"),
+  })).max(500),
+});
+
+// Order Schemas
+const positiveDecimal = (name: string) => z.string().trim()
+  .regex(/^\d+(\.\d+)?$/, `${name} must be a positive decimal`)
+  .refine(value => Number(value) > 0, `${name} must be positive`);
+
+// POST /api/connections/:id/orders (and /orders/check): limit orders need a price,
+// a market order's price is dropped (the pre-trade check uses the broker's quote)
+export const orderTicketSchema = z.object({
+  accountId: z.string().trim().min(1, "Account is required"),
+  symbol: z.string().trim().min(1, "Symbol is required").max(32).transform(symbol => symbol.toUpperCase()),
+  side: z.enum(ORDER_SIDES),
+  type: z.enum(ORDER_TYPES),
+  quantity: positiveDecimal("Quantity"),
+  price: positiveDecimal("Price").nullish().transform(price => price ?? null),
+  validity: z.enum(ORDER_VALIDITIES).default("day"),
+}).refine(ticket => ticket.type !== "limit" || ticket.price !== null, {
+  message: "Limit orders need a price",
+  path: ["price"],
+}).transform(ticket => ticket.type === "market" ? { ...ticket, price: null } : ticket);
+
+// PATCH /api/connections/:id/orders/:orderId: the new quantity and/or price
+export const orderModificationSchema = z.object({
+  quantity: positiveDecimal("Quantity").optional(),
+  price: positiveDecimal("Price").optional(),
+}).refine(changes => changes.quantity !== undefined || changes.price !== undefined, {
+  message: "Give a new quantity or price",
+});
+
+// Snapshot list entry: the snapshot without its rows, plus headline totals
+export type AccountSnapshotSummary = Omit<AccountSnapshot, "positions" | "balances" | "exposure"> & {
+  positionCount: number;
+  marketValue: Decimal | null; // Sum of position market values
+  cash: Decimal | null; // Sum of account cash balances
+  exposure: Decimal | null; // Sum of market exposure
+};
+
+// Credential fields whose values must never leave the server. The browser
+// uses the same rule for fields the server has not described yet.
+const SECRET_FIELD_PATTERN = /password|secret|pin|passphrase|apikey|token/i;
+
+export function isSecretCredentialField(name: string): boolean {
+  return SECRET_FIELD_PATTERN.test(name);
+}
+
+// Redacted view of a single stored credential field, safe to send to the browser
+export interface CredentialFieldView {
+  value: string | null; // Plain value for non-secret fields, null for secrets
+  hint: string | null; // Masked hint for secrets, e.g. "****1234"
+  isSecret: boolean;
+  hasValue: boolean;
+}
+
+// Connection as returned by the API: credentials are always redacted
+export type ConnectionView = Omit<Connection, "credentials"> & {
+  credentials: Record<string, CredentialFieldView>;
+};
+
 // Login Schema
 export const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -93,3 +229,80 @@ export const connectionTestSchema = z.object({
 });
 
 export type ConnectionTest = z.infer<typeof connectionTestSchema>;
+
+// Date Range Query Schema (account-details/account-data "from" and "to")
+const isoDateString = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must use the YYYY-MM-DD format")
+  .refine(value => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }, "Invalid calendar date");
+
+// Brokers are queried in chunks, so a longer range means many requests per refresh
+export const MAX_DATE_RANGE_YEARS = 5;
+
+function dateRangeSpanYears(from: string, to: string): number {
+  const days = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000;
+  return days / 365.25;
+}
+
+export const dateRangeQuerySchema = z.object({
+  from: isoDateString.optional(),
+  to: isoDateString.optional(),
+}).refine(range => !range.from || !range.to || range.from <= range.to, {
+  message: "'from' must not be after 'to'",
+  path: ["from"],
+}).refine(range => !!range.from === !!range.to, {
+  message: "'from' and 'to' must be provided together",
+  path: ["to"],
+}).refine(range => !range.from || !range.to || dateRangeSpanYears(range.from, range.to) <= MAX_DATE_RANGE_YEARS, {
+  message: `The date range must not span more than ${MAX_DATE_RANGE_YEARS} years`,
+  path: ["from"],
+});
+
+export type DateRangeQuery = z.infer<typeof dateRangeQuerySchema>;
+
+// Credential Field Schema
+// Each broker adapter publishes the fields it needs per auth method; the same
+// description drives server-side validation and the connect form.
+export type AuthMethod = "api" | "credentials";
+
+export interface CredentialField {
+  name: string;
+  label: string;
+  type: "text" | "password" | "number";
+  secret: boolean;
+  required: boolean;
+  pattern?: string; // Regular expression source the value must match
+  patternMessage?: string; // Shown when the pattern does not match
+  placeholder?: string;
+}
+
+export interface CredentialSchema {
+  brokerId: number | null;
+  exchangeId: number;
+  adapter: string;
+  authMethods: AuthMethod[];
+  fields: Record<AuthMethod, CredentialField[]>;
+}
+
+// Builds a zod schema for one auth method's fields. Unknown keys are stripped.
+export function buildCredentialsSchema(fields: CredentialField[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    const base = z.string().trim();
+    let fieldSchema: z.ZodTypeAny = field.required ? base.min(1, `${field.label} is required`) : base;
+    if (field.pattern) {
+      const pattern = new RegExp(field.pattern);
+      fieldSchema = fieldSchema.refine(
+        (value: string) => value === "" || pattern.test(value),
+        field.patternMessage ?? `${field.label} has an invalid format`,
+      );
+    }
+    // Optional fields left blank are dropped rather than stored as ""
+    shape[field.name] = field.required
+      ? fieldSchema
+      : fieldSchema.optional().transform((value: string | undefined) => value || undefined);
+  }
+  return z.object(shape);
+}
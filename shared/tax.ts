@@ -0,0 +1,107 @@
+// Annual capital gains tax report, as returned by
+// GET /api/connections/:id/tax-report. Gains come from the lot engine's
+// realized lots; dividends and charges from the account ledger. A tax-rule
+// profile says which holding-period bucket each sale falls in and at what
+// rate it is taxed. Amounts are Decimal strings, dates YYYY-MM-DD.
+import type { Decimal } from "./decimal";
+import type { DateRange } from "./dates";
+import type { LotMethod } from "./lots";
+import type { AccountDataSection } from "./models";
+
+/**
+ * A rate for sales whose lot was held at most `maxDays` days (no limit when
+ * null) and, when the acquisition bounds are set, bought on or after
+ * `acquiredFrom` and before `acquiredBefore`. The first matching bucket of a
+ * profile applies.
+ */
+export interface HoldingPeriodBucket {
+  label: string;
+  maxDays: number | null;
+  acquiredFrom: string | null;
+  acquiredBefore: string | null;
+  rate: Decimal; // 0.15 for 15%
+}
+
+export interface TaxRuleProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  fiscalYearStartMonth: number; // 1-12; Pakistan's tax year starts in July
+  lotMethod: LotMethod;
+  buckets: HoldingPeriodBucket[];
+  dividendWithholdingRate: Decimal | null; // Ledger dividends are taken as received net of it
+  dividendPattern: string; // Regular expressions matched against ledger descriptions
+  chargePattern: string;
+}
+
+/** Label of the bucket for sales whose lot has no known acquisition date */
+export const UNKNOWN_BUCKET = "Unknown holding period";
+
+export type TaxLineType = "gain" | "dividend" | "charge";
+
+export interface TaxReportLine {
+  type: TaxLineType;
+  date: string;
+  accountId: string;
+  symbol: string | null;
+  description: string | null;
+  reference: string; // Sell fill and lot for gains, ledger entry ID otherwise
+  quantity: Decimal | null;
+  acquiredAt: string | null;
+  holdingDays: number | null;
+  bucket: string | null;
+  proceeds: Decimal | null;
+  cost: Decimal | null;
+  amount: Decimal | null; // Gain (negative for a loss), net dividend, or charge; null when the cost is unknown
+  rate: Decimal | null;
+}
+
+export interface TaxBucketSummary {
+  label: string;
+  rate: Decimal | null; // Null for the unknown bucket
+  sales: number;
+  proceeds: Decimal;
+  cost: Decimal;
+  gain: Decimal; // Net of losses in the same bucket
+  taxableGain: Decimal; // The gain, or zero when the bucket made a loss
+  tax: Decimal | null;
+}
+
+export interface TaxReport {
+  connectionId: number;
+  profile: TaxRuleProfile;
+  taxYear: number; // Named after the calendar year it ends in
+  period: DateRange;
+  accountId: string | null;
+  currency: string | null;
+  generatedAt: string;
+  buckets: TaxBucketSummary[];
+  dividends: { received: Decimal; gross: Decimal; withheld: Decimal };
+  charges: Decimal; // Ledger charges, for reference; fill commissions are already in cost and proceeds
+  totals: { gain: Decimal; taxableGain: Decimal; tax: Decimal };
+  lines: TaxReportLine[];
+  warnings: string[];
+  errors: Partial<Record<AccountDataSection, string>>;
+}
+
+/** GET /api/tax/profiles */
+export interface TaxProfileList {
+  profiles: TaxRuleProfile[];
+  defaultProfileId: string | null;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** The dates of a tax year, named after the calendar year it ends in */
+export function taxYearPeriod(taxYear: number, startMonth: number): DateRange {
+  const startYear = startMonth === 1 ? taxYear : taxYear - 1;
+  const endMonth = startMonth === 1 ? 12 : startMonth - 1;
+  const lastDay = new Date(Date.UTC(taxYear, endMonth, 0)).getUTCDate();
+  return { from: `${startYear}-${pad(startMonth)}-01`, to: `${taxYear}-${pad(endMonth)}-${pad(lastDay)}` };
+}
+
+/** The tax year a YYYY-MM-DD date falls in */
+export function taxYearOf(date: string, startMonth: number): number {
+  const year = Number(date.slice(0, 4));
+  return startMonth !== 1 && Number(date.slice(5, 7)) >= startMonth ? year + 1 : year;
+}
@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Server and shared tests; the client is not covered by this config
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+  },
+});